@@ -8,6 +8,19 @@ import authRoutes from './routes/authRoutes';
 import studentRoutes from './routes/studentRoutes';
 import gradeRoutes from './routes/gradeRoutes';
 import studentSelfServiceRoutes from './routes/studentSelfServiceRoutes';
+import enrollmentRoutes from './routes/enrollmentRoutes';
+import courseRoutes from './routes/courseRoutes';
+import teacherRoutes from './routes/teacherRoutes';
+import sessionRoutes from './routes/sessionRoutes';
+import userRoutes from './routes/userRoutes';
+import invitationRoutes from './routes/invitationRoutes';
+import roleRoutes from './routes/roleRoutes';
+import guardianRoutes from './routes/guardianRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import scimRoutes from './routes/scimRoutes';
+import Role from './models/Role';
+import { getMailTransport } from './utils/mailer';
+import { parseTrustProxy } from './utils/ipRanges';
 
 const app: Application = express();
 
@@ -18,6 +31,16 @@ app.use('/api/auth', authRoutes);
 app.use('/api/students', studentRoutes);
 app.use('/api/grades', gradeRoutes);
 app.use('/api/student', studentSelfServiceRoutes);
+app.use('/api/enrollments', enrollmentRoutes);
+app.use('/api/courses', courseRoutes);
+app.use('/api/teachers', teacherRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/guardian', guardianRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/scim/v2', scimRoutes);
 
 app.get('/', (req, res) => {
   res.send('Campus Core API is running');
@@ -49,9 +72,29 @@ if (!JWT_SECRET) {
   process.exit(1);
 }
 
+// Behind a load balancer or reverse proxy req.ip is the proxy's address unless Express trusts it;
+// the login throttle and API key IP allow-lists need the client's. Trust only the proxies in front
+// of the API, since a trusted X-Forwarded-For header decides the address.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+  if (trustProxy === null) {
+    console.error('TRUST_PROXY must be true, false, a number of proxy hops or a comma-separated list of proxy addresses');
+    process.exit(1);
+  }
+  app.set('trust proxy', trustProxy);
+}
+
+try {
+  getMailTransport();
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+
 mongoose.connect(MONGO_URI)
-  .then(() => {
+  .then(async () => {
     console.log('✅ MongoDB connected successfully');
+    await Role.ensureBuiltInRoles();
     app.listen(PORT, () => {
       console.log(` Server is running on port ${PORT}`);
       console.log(` API available at http://localhost:${PORT}`);
@@ -59,6 +102,16 @@ mongoose.connect(MONGO_URI)
       console.log(` Student endpoints: http://localhost:${PORT}/api/students`);
       console.log(` Grade endpoints: http://localhost:${PORT}/api/grades`);
       console.log(` Student self-service: http://localhost:${PORT}/api/student`);
+      console.log(` Enrollment endpoints: http://localhost:${PORT}/api/enrollments`);
+      console.log(` Course endpoints: http://localhost:${PORT}/api/courses`);
+      console.log(` Teacher endpoints: http://localhost:${PORT}/api/teachers`);
+      console.log(` Session endpoints: http://localhost:${PORT}/api/sessions`);
+      console.log(` User endpoints: http://localhost:${PORT}/api/users`);
+      console.log(` Invitation endpoints: http://localhost:${PORT}/api/invitations`);
+      console.log(` Role endpoints: http://localhost:${PORT}/api/roles`);
+      console.log(` Guardian portal: http://localhost:${PORT}/api/guardian`);
+      console.log(` API key endpoints: http://localhost:${PORT}/api/api-keys`);
+      console.log(` SCIM 2.0 provisioning: http://localhost:${PORT}/scim/v2`);
     });
   })
   .catch((error) => {
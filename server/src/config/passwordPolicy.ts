@@ -0,0 +1,33 @@
+// Password rules admins can tune at runtime (stored on the SecurityPolicy document). These are
+// the values used until an admin changes them.
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  disallowUsername: boolean;
+  historyCount: number;
+  checkCommonPasswords: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  disallowUsername: true,
+  historyCount: 5,
+  checkCommonPasswords: true
+};
+
+// bcrypt only reads the first 72 bytes, so longer passwords would silently lose characters
+export const MAX_PASSWORD_LENGTH = 72;
+
+export const PASSWORD_POLICY_LIMITS = {
+  minLength: { min: 6, max: MAX_PASSWORD_LENGTH },
+  historyCount: { min: 0, max: 24 }
+};
+
+export const PASSWORD_POLICY_FIELDS = Object.keys(DEFAULT_PASSWORD_POLICY) as (keyof PasswordPolicy)[];
\ No newline at end of file
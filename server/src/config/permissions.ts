@@ -0,0 +1,79 @@
+// Every permission the API checks. Names are resource:action, with an optional scope suffix:
+// ":own-sections" limits access to students enrolled in the caller's teaching assignments and
+// ":own" to the caller's own records and ":linked" to students the caller is a guardian of.
+export const PERMISSIONS = {
+  'students:read': 'View all student records',
+  'students:read:own-sections': 'View students enrolled in own sections',
+  'students:write': 'Create, update and invite students, and reserve student IDs',
+  'students:delete': 'Archive and restore student records',
+  'grades:read': 'View grades of all students',
+  'grades:read:own-sections': 'View grades of students in own sections',
+  'grades:read:own': 'View own grades and academic summary, and manage guardian consent',
+  'grades:read:linked': 'View grades of students linked to the caller as guardian',
+  'grades:write': 'Record and remove grades for all students',
+  'grades:write:own-sections': 'Record and remove grades for students in own sections',
+  'enrollments:read': 'View enrollments',
+  'enrollments:read:own-sections': 'View enrollments of students in own sections',
+  'enrollments:write': 'Enroll students and complete or drop enrollments',
+  'courses:read': 'View courses',
+  'courses:write': 'Create, update and delete courses',
+  'teachers:read': 'View teacher profiles',
+  'teachers:read:own': 'View own teacher profile and assignments',
+  'teachers:write': 'Manage teacher profiles and course assignments',
+  'users:read': 'View user accounts',
+  'users:write': 'Create, disable, delete and unlock user accounts and change their roles',
+  'users:impersonate': 'Temporarily view the API as another user for support, with every request audited',
+  'guardians:manage': 'Link guardian accounts to students and edit those links',
+  'invitations:manage': 'Create, list and revoke registration invitations',
+  'sessions:manage': 'View and terminate other users\' sessions',
+  'roles:manage': 'Define roles and their permissions',
+  'api-keys:manage': 'Create, rotate and revoke API keys for integrations',
+  'scim:provision': 'Create, update and deactivate user accounts through the SCIM endpoint',
+  'security:manage': 'Change security policies such as required two-factor authentication and password rules'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const isPermission = (value: unknown): value is Permission => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+};
+
+// Built-in roles cannot be deleted. Teacher and student permissions can be edited by admins;
+// admin always holds every permission so the system cannot be locked out of administration.
+export const BUILT_IN_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  admin: {
+    description: 'Full access to every part of the system',
+    permissions: ALL_PERMISSIONS
+  },
+  teacher: {
+    description: 'Manages grades for students in assigned sections',
+    permissions: [
+      'students:read:own-sections',
+      'grades:read:own-sections',
+      'grades:write:own-sections',
+      'enrollments:read:own-sections',
+      'courses:read',
+      'teachers:read:own'
+    ]
+  },
+  student: {
+    description: 'Views own grades and academic summary',
+    permissions: ['grades:read:own']
+  },
+  guardian: {
+    description: 'Parent or guardian viewing the grades of linked students',
+    permissions: ['grades:read:linked']
+  }
+};
+
+// Scoped permissions are relative to a person (their sections, records or children) and mean
+// nothing for an API key, which acts as a service rather than as a user
+export const isPersonScopedPermission = (permission: Permission): boolean => {
+  return /:(own|own-sections|linked)$/.test(permission);
+};
+
+export const isBuiltInRole = (role: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, role);
+};
\ No newline at end of file
@@ -0,0 +1,331 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { ALL_PERMISSIONS, isPermission, isPersonScopedPermission, Permission } from '../config/permissions';
+import { getCallerPermissions } from '../utils/permissions';
+import { isValidIpRange } from '../utils/ipRanges';
+import { issueApiKey, rotateApiKey as replaceApiKeySecret } from '../utils/apiKeys';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  apiKey?: {
+    id: string;
+    permissions: Permission[];
+  };
+}
+
+const MAX_EXPIRY_DAYS = 3650;
+
+export const createApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, permissions, allowedIps, expiresAt, expiresInDays } = req.body;
+
+    if (!name || !Array.isArray(permissions) || permissions.length === 0) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['name', 'permissions']
+      });
+      return;
+    }
+
+    // Keys are minted by people; a leaked key must not be able to replace itself with others
+    if (req.apiKey) {
+      res.status(403).json({ error: 'API keys cannot be used to create other API keys' });
+      return;
+    }
+
+    const checked = await checkKeyPermissions(req, permissions, res);
+    if (!checked) return;
+
+    const ranges = checkAllowedIps(allowedIps, res);
+    if (!ranges) return;
+
+    const expiry = parseExpiry(expiresAt, expiresInDays, res);
+    if (expiry === undefined) return;
+
+    const { apiKey, key } = await issueApiKey({
+      name: String(name),
+      permissions: checked,
+      allowedIps: ranges,
+      expiresAt: expiry,
+      createdBy: req.user!.userId
+    });
+
+    console.log(`API key created by admin ${req.user?.userId}:`, {
+      apiKeyId: String(apiKey._id),
+      prefix: apiKey.prefix,
+      permissions: apiKey.permissions,
+      allowedIps: apiKey.allowedIps,
+      expiresAt: apiKey.expiresAt ? apiKey.expiresAt.toISOString() : null,
+      timestamp: new Date().toISOString()
+    });
+
+    // The raw key is returned once; the database keeps only its hash
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Store it somewhere safe; it is shown only once.',
+      key,
+      apiKey: formatApiKey(apiKey)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating API key:', error);
+    handleApiKeyWriteError(error, res, 'Failed to create API key');
+  }
+};
+
+export const listApiKeys = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    if (req.query.includeRevoked !== 'true') {
+      filter.revokedAt = null;
+    }
+
+    const apiKeys = await ApiKey.find(filter).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      count: apiKeys.length,
+      apiKeys: apiKeys.map(formatApiKey)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({
+      error: 'Failed to fetch API keys',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const apiKey = await findApiKey(req.params.id, res);
+    if (!apiKey) return;
+
+    res.json({
+      success: true,
+      apiKey: formatApiKey(apiKey)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching API key:', error);
+    res.status(500).json({
+      error: 'Failed to fetch API key',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const rotateApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.apiKey) {
+      res.status(403).json({ error: 'API keys cannot be used to rotate API keys' });
+      return;
+    }
+
+    const apiKey = await findApiKey(req.params.id, res);
+    if (!apiKey) return;
+
+    if (!apiKey.isUsable()) {
+      res.status(400).json({
+        error: apiKey.revokedAt ? 'Revoked API keys cannot be rotated' : 'Expired API keys cannot be rotated',
+        message: 'Create a new API key instead'
+      });
+      return;
+    }
+
+    const previousPrefix = apiKey.prefix;
+    const key = await replaceApiKeySecret(apiKey);
+
+    console.log(`API key rotated by admin ${req.user?.userId}:`, {
+      apiKeyId: String(apiKey._id),
+      previousPrefix,
+      prefix: apiKey.prefix,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'API key rotated. The previous key no longer works.',
+      key,
+      apiKey: formatApiKey(apiKey)
+    });
+
+  } catch (error: any) {
+    console.error('Error rotating API key:', error);
+    handleApiKeyWriteError(error, res, 'Failed to rotate API key');
+  }
+};
+
+export const revokeApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const apiKey = await findApiKey(req.params.id, res);
+    if (!apiKey) return;
+
+    if (apiKey.revokedAt) {
+      res.status(400).json({ error: 'API key is already revoked' });
+      return;
+    }
+
+    apiKey.revokedAt = new Date();
+    apiKey.revokedBy = new mongoose.Types.ObjectId(req.user!.userId);
+    await apiKey.save();
+
+    console.log(`API key revoked by admin ${req.user?.userId}:`, {
+      apiKeyId: String(apiKey._id),
+      prefix: apiKey.prefix,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'API key revoked successfully',
+      apiKey: formatApiKey(apiKey)
+    });
+
+  } catch (error: any) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({
+      error: 'Failed to revoke API key',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findApiKey(id: string, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ error: 'Invalid API key ID format' });
+    return null;
+  }
+
+  const apiKey = await ApiKey.findById(id);
+  if (!apiKey) {
+    res.status(404).json({ error: 'API key not found' });
+    return null;
+  }
+
+  return apiKey;
+}
+
+// Keys act as services, so person-scoped permissions are refused, and a key can never carry
+// more access than the admin creating it holds
+async function checkKeyPermissions(req: AuthRequest, permissions: unknown[], res: Response): Promise<Permission[] | null> {
+  const unknownPermissions = permissions.filter(permission => !isPermission(permission));
+  if (unknownPermissions.length > 0) {
+    res.status(400).json({
+      error: 'Unknown permissions',
+      unknownPermissions,
+      availablePermissions: ALL_PERMISSIONS.filter(permission => !isPersonScopedPermission(permission))
+    });
+    return null;
+  }
+
+  const requested = [...new Set(permissions as Permission[])];
+  const personScoped = requested.filter(isPersonScopedPermission);
+  if (personScoped.length > 0) {
+    res.status(400).json({
+      error: 'Permissions scoped to a person cannot be granted to API keys',
+      permissions: personScoped
+    });
+    return null;
+  }
+
+  const held = await getCallerPermissions(req);
+  const notHeld = requested.filter(permission => !held.includes(permission));
+  if (notHeld.length > 0) {
+    res.status(403).json({
+      error: 'You cannot grant permissions you do not hold',
+      permissions: notHeld
+    });
+    return null;
+  }
+
+  return requested;
+}
+
+function checkAllowedIps(allowedIps: unknown, res: Response): string[] | null {
+  if (allowedIps === undefined || allowedIps === null) return [];
+
+  if (!Array.isArray(allowedIps)) {
+    res.status(400).json({ error: 'allowedIps must be an array of addresses or CIDR ranges' });
+    return null;
+  }
+
+  const invalidRanges = allowedIps.filter(range => typeof range !== 'string' || !isValidIpRange(range));
+  if (invalidRanges.length > 0) {
+    res.status(400).json({
+      error: 'Invalid IP ranges',
+      invalidRanges
+    });
+    return null;
+  }
+
+  return allowedIps.map(range => String(range).trim());
+}
+
+// undefined signals that a response has already been sent; null means the key never expires
+function parseExpiry(expiresAt: unknown, expiresInDays: unknown, res: Response): Date | null | undefined {
+  if (expiresAt !== undefined && expiresInDays !== undefined) {
+    res.status(400).json({ error: 'Provide either expiresAt or expiresInDays, not both' });
+    return undefined;
+  }
+
+  if (expiresInDays !== undefined) {
+    const days = Number(expiresInDays);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+      res.status(400).json({ error: `expiresInDays must be a number between 1 and ${MAX_EXPIRY_DAYS}` });
+      return undefined;
+    }
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    const date = new Date(String(expiresAt));
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      res.status(400).json({ error: 'expiresAt must be a valid date in the future' });
+      return undefined;
+    }
+    return date;
+  }
+
+  return null;
+}
+
+function formatApiKey(apiKey: IApiKey) {
+  return {
+    id: apiKey._id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    permissions: apiKey.permissions,
+    allowedIps: apiKey.allowedIps,
+    expiresAt: apiKey.expiresAt || null,
+    status: apiKey.revokedAt ? 'revoked' : apiKey.isUsable() ? 'active' : 'expired',
+    createdBy: apiKey.createdBy,
+    lastUsedAt: apiKey.lastUsedAt || null,
+    lastUsedIp: apiKey.lastUsedIp || null,
+    rotatedAt: apiKey.rotatedAt || null,
+    revokedAt: apiKey.revokedAt || null,
+    createdAt: apiKey.createdAt
+  };
+}
+
+function handleApiKeyWriteError(error: any, res: Response, fallbackError: string): void {
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackError,
+    message: 'An internal server error occurred'
+  });
+}
\ No newline at end of file
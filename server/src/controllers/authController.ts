@@ -1,56 +1,100 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
-import User from '../models/User';
+import User, { IUser } from '../models/User';
+import Invitation, { IInvitation } from '../models/Invitation';
+import Student from '../models/Student';
+import {
+  issueTokens,
+  rotateRefreshToken,
+  revokeSession,
+  hashToken,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  isCurrentTokenVersion,
+  TWO_FACTOR_CHALLENGE_TTL
+} from '../utils/tokenService';
+import { isTwoFactorRequired, verifySecondFactor } from '../utils/twoFactor';
+import { prepareNewUser } from '../utils/userProvisioning';
+import { canGrantRole, hasPermission } from '../utils/permissions';
+import {
+  LoginBlock,
+  checkIpThrottle,
+  checkAccountBlock,
+  recordFailedLogin,
+  recordSuccessfulLogin
+} from '../utils/loginThrottle';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+    studentId?: string;
+    sessionId?: string;
+  };
+}
+
+// Registration is closed to the public: it needs either a single-use invitation (which fixes
+// the role) or a signed-in user allowed to manage accounts
+export const register = async (req: AuthRequest, res: Response): Promise<void> => {
+  let invitation: IInvitation | null = null;
 
-export const register = async (req: Request, res: Response) => {
   try {
-    const { username, password, role, studentId } = req.body;
+    const { inviteToken } = req.body;
+    const input = { ...req.body };
 
-    // Validation
-    if (!username || !password || !role) {
-      return res.status(400).json({ 
-        error: 'Missing required fields',
-        required: ['username', 'password', 'role']
-      });
-    }
+    if (inviteToken) {
+      invitation = await Invitation.claim(hashToken(String(inviteToken)));
+      if (!invitation) {
+        res.status(400).json({ 
+          error: 'Invalid or expired invitation' 
+        });
+        return;
+      }
 
-    if (!['admin', 'teacher', 'student'].includes(role)) {
-      return res.status(400).json({ 
-        error: 'Invalid role. Must be admin, teacher, or student' 
-      });
-    }
+      input.role = invitation.role;
+      if (invitation.email) {
+        input.email = invitation.email;
+      }
 
-    if (role === 'student' && !studentId) {
-      return res.status(400).json({ 
-        error: 'Student ID is required for student role' 
+      // Student invites decide which record the account is bound to, whatever the body says
+      if (invitation.studentRecordId) {
+        const student = await Student.findById(invitation.studentRecordId);
+        if (!student) {
+          await releaseInvitation(invitation);
+          res.status(400).json({ 
+            error: 'The student record for this invitation no longer exists' 
+          });
+          return;
+        }
+        input.studentId = student.studentId;
+      }
+    } else if (!req.user || !(await hasPermission(req, 'users:write'))) {
+      res.status(403).json({ 
+        error: 'Registration requires an invitation',
+        message: 'Ask an administrator for an invite link'
       });
-    }
-
-    // Check if user already exists
-    const existingUser = await User.findOne({ username: username.toLowerCase().trim() });
-    if (existingUser) {
-      return res.status(409).json({ 
-        error: 'Username already exists' 
+      return;
+    } else if (input.role && !(await canGrantRole(req, String(input.role)))) {
+      res.status(403).json({ 
+        error: 'You cannot create users with a role whose permissions you do not hold',
+        role: input.role
       });
+      return;
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 12);
-    
-    // Create user data
-    const userData: any = {
-      username: username.toLowerCase().trim(),
-      password: hashedPassword,
-      role
-    };
-
-    if (role === 'student' && studentId) {
-      userData.studentId = studentId.trim();
+    const prepared = await prepareNewUser(input);
+    if (!prepared.ok) {
+      await releaseInvitation(invitation);
+      res.status(prepared.status).json(prepared.body);
+      return;
     }
 
     // Create user
-    const user = await User.create(userData);
+    const user = await User.create(prepared.userData);
+
+    if (invitation) {
+      await Invitation.updateOne({ _id: invitation._id }, { usedBy: user._id });
+    }
     
     res.status(201).json({ 
       success: true,
@@ -59,87 +103,311 @@ export const register = async (req: Request, res: Response) => {
         id: user._id,
         username: user.username,
         role: user.role,
+        ...(user.email && { email: user.email }),
         ...(user.studentId && { studentId: user.studentId })
       }
     });
   } catch (error: any) {
     console.error('Registration error:', error);
+    await releaseInvitation(invitation);
     
     if (error.code === 11000) {
       const field = Object.keys(error.keyPattern || {})[0];
-      return res.status(409).json({ 
+      res.status(409).json({ 
         error: `${field} already exists` 
       });
+      return;
     }
     
     if (error.name === 'ValidationError') {
       const errors = Object.values(error.errors).map((err: any) => err.message);
-      return res.status(400).json({ 
+      res.status(400).json({ 
         error: 'Validation failed',
         details: errors
       });
+      return;
     }
     
     res.status(500).json({ error: 'Registration failed' });
   }
 };
 
-export const login = async (req: Request, res: Response) => {
+export const login = async (req: Request, res: Response): Promise<void> => {
   try {
     const { username, password } = req.body;
 
     // Validation
     if (!username || !password) {
-      return res.status(400).json({ 
+      res.status(400).json({ 
         error: 'Missing required fields',
         required: ['username', 'password']
       });
+      return;
+    }
+
+    const normalizedUsername = username.toLowerCase().trim();
+    const context = { ipAddress: req.ip, username: normalizedUsername };
+
+    // Too many failures from this address, whichever accounts they targeted
+    const ipBlock = await checkIpThrottle(req.ip);
+    if (ipBlock) {
+      sendLoginBlocked(res, ipBlock);
+      return;
     }
 
     // Find user by username
-    const user = await User.findOne({ username: username.toLowerCase().trim() });
+    const user = await User.findOne({ username: normalizedUsername });
     if (!user) {
-      return res.status(401).json({ 
+      await recordFailedLogin(null, context);
+      res.status(401).json({ 
         error: 'Invalid credentials' 
       });
+      return;
+    }
+
+    // Locked or still inside the back-off window: refuse before checking the password
+    const accountBlock = checkAccountBlock(user);
+    if (accountBlock) {
+      sendLoginBlocked(res, accountBlock);
+      return;
     }
 
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
-      return res.status(401).json({ 
+      const lock = await recordFailedLogin(user, context);
+      if (lock) {
+        sendLoginBlocked(res, lock);
+        return;
+      }
+
+      res.status(401).json({ 
         error: 'Invalid credentials' 
       });
+      return;
+    }
+
+    // Checked only after the password so disabled accounts are not revealed to guessers
+    if (user.disabled) {
+      res.status(403).json({ 
+        error: 'Account has been disabled. Contact an administrator.' 
+      });
+      return;
+    }
+
+    // Second step: failure counters stay in place until the code is verified, so the
+    // password alone cannot be used to keep resetting the lockout
+    if (user.twoFactor?.enabled) {
+      res.json({
+        success: true,
+        message: 'Password verified. Enter the code from your authenticator app to continue.',
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user, 'verify'),
+        expiresIn: TWO_FACTOR_CHALLENGE_TTL
+      });
+      return;
+    }
+
+    await recordSuccessfulLogin(user);
+
+    if (await isTwoFactorRequired(user)) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication is required for your role. Set it up to continue.',
+        twoFactorSetupRequired: true,
+        challengeToken: signTwoFactorChallenge(user, 'setup'),
+        expiresIn: TWO_FACTOR_CHALLENGE_TTL
+      });
+      return;
+    }
+
+    await sendLoginSuccess(req, res, user);
+  } catch (error: any) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+};
+
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ 
+        error: 'Missing required fields',
+        required: ['challengeToken', 'code or recoveryCode']
+      });
+      return;
     }
 
-    // Create JWT token
-    const tokenPayload: any = {
-      userId: user._id,
-      role: user.role
-    };
+    const challenge = verifyTwoFactorChallenge(String(challengeToken), 'verify');
+    if (!challenge) {
+      res.status(401).json({ 
+        error: 'Invalid or expired two-factor challenge. Please login again.' 
+      });
+      return;
+    }
+
+    const ipBlock = await checkIpThrottle(req.ip);
+    if (ipBlock) {
+      sendLoginBlocked(res, ipBlock);
+      return;
+    }
 
-    // Add studentId to token if user is a student
-    if (user.role === 'student' && user.studentId) {
-      tokenPayload.studentId = user.studentId;
+    const user = await User.findById(challenge.userId);
+    if (!user || !user.twoFactor?.enabled || !isCurrentTokenVersion(user, challenge.tokenVersion)) {
+      res.status(401).json({ 
+        error: 'Invalid or expired two-factor challenge. Please login again.' 
+      });
+      return;
     }
 
-    const token = jwt.sign(tokenPayload, process.env.JWT_SECRET!, {
-      expiresIn: '24h' // Token expires in 24 hours
+    const accountBlock = checkAccountBlock(user);
+    if (accountBlock) {
+      sendLoginBlocked(res, accountBlock);
+      return;
+    }
+
+    // Wrong codes count toward the same lockout as wrong passwords
+    const method = await verifySecondFactor(user, { code, recoveryCode });
+    if (!method) {
+      const lock = await recordFailedLogin(user, { ipAddress: req.ip, username: user.username });
+      if (lock) {
+        sendLoginBlocked(res, lock);
+        return;
+      }
+
+      res.status(401).json({ 
+        error: 'Invalid two-factor code' 
+      });
+      return;
+    }
+
+    if (user.disabled) {
+      res.status(403).json({ 
+        error: 'Account has been disabled. Contact an administrator.' 
+      });
+      return;
+    }
+
+    await recordSuccessfulLogin(user);
+
+    if (method === 'recovery_code') {
+      console.log('Recovery code used for login:', {
+        userId: String(user._id),
+        remainingCodes: user.twoFactor.recoveryCodes.length - 1,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await sendLoginSuccess(req, res, user);
+  } catch (error: any) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+};
+
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ 
+        error: 'Missing required fields',
+        required: ['refreshToken']
+      });
+      return;
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status !== 'rotated') {
+      const errors = {
+        invalid: 'Invalid refresh token',
+        expired: 'Refresh token expired. Please login again.',
+        revoked: 'Session has been revoked. Please login again.',
+        reused: 'Refresh token reuse detected. Session has been revoked; please login again.'
+      };
+      res.status(401).json({ 
+        error: errors[result.status],
+        reason: result.status
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      token: result.accessToken,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn
     });
-    
-    res.json({ 
+  } catch (error: any) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+};
+
+export const logout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, 'logout');
+    }
+
+    res.json({
       success: true,
-      message: 'Login successful',
-      token, 
-      user: { 
-        id: user._id, 
-        username: user.username, 
-        role: user.role,
-        ...(user.studentId && { studentId: user.studentId })
-      } 
+      message: 'Logout successful. Session has been revoked.'
     });
   } catch (error: any) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+};
+
+async function releaseInvitation(invitation: IInvitation | null): Promise<void> {
+  if (invitation) {
+    await Invitation.release(String(invitation._id));
+  }
+}
+
+// Short-lived access token plus an opaque refresh token bound to a new session
+async function sendLoginSuccess(req: Request, res: Response, user: IUser): Promise<void> {
+  const tokens = await issueTokens(user, {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  });
+
+  res.json({ 
+    success: true,
+    message: 'Login successful',
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn,
+    user: { 
+      id: user._id, 
+      username: user.username, 
+      role: user.role,
+      ...(user.studentId && { studentId: user.studentId })
+    } 
+  });
+}
+
+function sendLoginBlocked(res: Response, block: LoginBlock): void {
+  res.set('Retry-After', String(block.retryAfterSeconds));
+
+  if (block.reason === 'locked') {
+    res.status(423).json({
+      error: 'Account is temporarily locked due to too many failed login attempts',
+      reason: block.reason,
+      lockedUntil: block.until.toISOString(),
+      retryAfter: block.retryAfterSeconds
+    });
+    return;
   }
-};
\ No newline at end of file
+
+  res.status(429).json({
+    error: 'Too many login attempts. Please try again later.',
+    reason: block.reason,
+    retryAfter: block.retryAfterSeconds
+  });
+}
\ No newline at end of file
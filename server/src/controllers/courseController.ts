@@ -0,0 +1,260 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Course, { ICourse } from '../models/Course';
+import Enrollment, { GradeLevel } from '../models/Enrollment';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+const UPDATABLE_FIELDS = ['code', 'name', 'description', 'credits', 'gradeLevel', 'department', 'isActive'];
+
+export const createCourse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code, name, description, credits, gradeLevel, department } = req.body;
+
+    if (!code || !name || credits === undefined) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['code', 'name', 'credits']
+      });
+      return;
+    }
+
+    if (gradeLevel !== undefined && !Object.values(GradeLevel).includes(gradeLevel)) {
+      res.status(400).json({
+        error: `Grade level must be one of: ${Object.values(GradeLevel).join(', ')}`
+      });
+      return;
+    }
+
+    const existingCourse = await Course.findOne({ code: String(code).toUpperCase().trim() });
+    if (existingCourse) {
+      res.status(409).json({ error: 'Course code already exists' });
+      return;
+    }
+
+    const course = await Course.create({
+      code,
+      name,
+      credits: Number(credits),
+      ...(description && { description }),
+      ...(gradeLevel && { gradeLevel }),
+      ...(department && { department })
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Course created successfully',
+      course: formatCourse(course)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating course:', error);
+    handleCourseWriteError(error, res, 'Failed to create course');
+  }
+};
+
+export const getCourses = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = req.query.search as string | undefined;
+    const department = req.query.department as string | undefined;
+    const gradeLevel = req.query.gradeLevel as string | undefined;
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const query = search && search.trim()
+      ? Course.search(search, !includeInactive)
+      : Course.find(includeInactive ? {} : { isActive: true }).sort({ code: 1 });
+
+    if (department) query.where({ department });
+    if (gradeLevel) query.where({ gradeLevel });
+
+    const courses = await query;
+
+    res.json({
+      success: true,
+      message: 'Courses retrieved successfully',
+      filters: {
+        search: search || null,
+        department: department || null,
+        gradeLevel: gradeLevel || null,
+        includeInactive
+      },
+      count: courses.length,
+      courses: courses.map(formatCourse)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching courses:', error);
+    res.status(500).json({
+      error: 'Failed to fetch courses',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getCourseById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid course ID format' });
+      return;
+    }
+
+    const course = await Course.findById(id);
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      course: formatCourse(course)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching course:', error);
+    res.status(500).json({
+      error: 'Failed to fetch course',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const updateCourse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid course ID format' });
+      return;
+    }
+
+    const invalidFields = Object.keys(req.body).filter(field => !UPDATABLE_FIELDS.includes(field));
+    if (invalidFields.length > 0) {
+      res.status(400).json({
+        error: 'Invalid field(s)',
+        invalidFields,
+        allowedFields: UPDATABLE_FIELDS
+      });
+      return;
+    }
+
+    const course = await Course.findById(id);
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    course.set(req.body);
+    const updatedFields = course.modifiedPaths();
+    await course.save();
+
+    console.log(`Course updated by admin ${req.user?.userId}:`, {
+      courseId: id,
+      updatedFields,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Course updated successfully',
+      course: formatCourse(course),
+      updatedFields
+    });
+
+  } catch (error: any) {
+    console.error('Error updating course:', error);
+    handleCourseWriteError(error, res, 'Failed to update course');
+  }
+};
+
+export const deleteCourse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid course ID format' });
+      return;
+    }
+
+    const course = await Course.findById(id);
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    // Enrollment history must keep resolving its course, so referenced courses are only deactivated
+    const enrollmentCount = await Enrollment.countDocuments({ courseId: id });
+    if (enrollmentCount > 0) {
+      res.status(409).json({
+        error: 'Cannot delete course with enrollments',
+        message: 'Deactivate the course instead by setting isActive to false',
+        enrollmentCount,
+        conflictReason: 'existing_enrollments'
+      });
+      return;
+    }
+
+    await Course.findByIdAndDelete(id);
+
+    console.log(`Course deleted by admin ${req.user?.userId}:`, {
+      courseId: id,
+      code: course.code,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Course deleted successfully',
+      deletedCourse: formatCourse(course)
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting course:', error);
+    res.status(500).json({
+      error: 'Failed to delete course',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+function handleCourseWriteError(error: any, res: Response, message: string): void {
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  if (error.code === 11000) {
+    res.status(409).json({ error: 'Course code already exists' });
+    return;
+  }
+
+  res.status(500).json({
+    error: message,
+    message: 'An internal server error occurred'
+  });
+}
+
+function formatCourse(course: ICourse) {
+  return {
+    id: course._id,
+    code: course.code,
+    name: course.name,
+    description: course.description,
+    credits: course.credits,
+    gradeLevel: course.gradeLevel,
+    department: course.department,
+    isActive: course.isActive,
+    createdAt: course.createdAt,
+    updatedAt: course.updatedAt
+  };
+}
\ No newline at end of file
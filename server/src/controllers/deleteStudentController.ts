@@ -2,6 +2,13 @@ import { Request, Response } from 'express';
 import Student from '../models/Student';
 import mongoose from 'mongoose';
 import Enrollment from '../models/Enrollment';
+import {
+  archiveStudentRecord,
+  isArchived,
+  parseArchiveRequest,
+  restoreStudentRecord
+} from '../utils/studentArchive';
+import { recordStudentChange } from '../utils/studentHistory';
 
 interface AuthRequest extends Request {
   user?: {
@@ -10,85 +17,30 @@ interface AuthRequest extends Request {
   };
 }
 
-export const deleteStudent = async (req: AuthRequest, res: Response): Promise<void> => {
-  try {
-    // Check if user is admin
-    if (!req.user || req.user.role !== 'admin') {
-      res.status(403).json({ 
-        error: 'Access denied. Admin role required.' 
-      });
-      return;
-    }
-
-    const { id } = req.params;
-
-    if (!mongoose.Types.ObjectId.isValid(id)) {
-      res.status(400).json({ 
-        error: 'Invalid student ID format' 
-      });
-      return;
-    }
-
-    const student = await Student.findById(id);
-    if (!student) {
-      res.status(404).json({ 
-        error: 'Student not found' 
-      });
-      return;
-    }
-
-    const hasActiveEnrollments = await checkActiveEnrollments(id, student.studentId);
-    if (hasActiveEnrollments.hasActive) {
-      res.status(409).json({
-        error: 'Cannot delete student with active enrollments',
-        message: 'Student must be unenrolled from all courses before deletion',
-        activeEnrollments: hasActiveEnrollments.enrollments,
-        conflictReason: 'active_enrollments'
-      });
-      return;
-    }
-
-    const studentData = {
-      id: (student._id as mongoose.Types.ObjectId).toString(),
-      studentId: student.studentId,
-      name: student.name,
-      email: student.email,
-      age: student.age,
-      gradeLevel: student.gradeLevel,
-      gradesCount: student.grades.length,
-      createdAt: student.createdAt,
-      updatedAt: student.updatedAt
-    };
-
-    await Student.findByIdAndDelete(id);
-
-    console.log(`Student deleted by admin ${req.user.userId}:`, {
-      deletedStudent: studentData,
-      timestamp: new Date().toISOString(),
-      adminUserId: req.user.userId
-    });
+// Used by DELETE /students/:id, which callers sent without a body before archiving existed
+const DELETE_ARCHIVE_DEFAULTS = {
+  status: 'withdrawn',
+  reason: 'Removed without a stated reason'
+};
 
-    res.json({
-      success: true,
-      message: 'Student deleted successfully',
-      deletedStudent: studentData,
-      deletionTimestamp: new Date().toISOString()
-    });
+// Student records are never deleted here: they are archived with a status and reason, hidden from
+// lists, and only removed by the retention purge (jobs/purgeArchivedStudents)
+export const archiveStudent = async (req: AuthRequest, res: Response): Promise<void> => {
+  await archiveFromInput(req, res, req.body);
+};
 
-  } catch (error: any) {
-    console.error('Error deleting student:', error);
-    res.status(500).json({ 
-      error: 'Failed to delete student',
-      message: 'An internal server error occurred'
-    });
-  }
+// The same archive for DELETE requests. Many clients and proxies drop DELETE bodies, so the fields
+// may also come as query parameters, and a bare DELETE archives the student as withdrawn.
+export const deleteStudent = async (req: AuthRequest, res: Response): Promise<void> => {
+  await archiveFromInput(req, res, { ...DELETE_ARCHIVE_DEFAULTS, ...req.query, ...(req.body || {}) });
 };
 
-export const bulkDeleteStudents = async (req: AuthRequest, res: Response): Promise<void> => {
+// Every student in the request is archived with the same status, reason and date
+export const bulkArchiveStudents = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    if (!req.user || req.user.role !== 'admin') {
-      res.status(403).json({ 
-        error: 'Access denied. Admin role required.' 
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
       });
       return;
     }
@@ -112,6 +64,12 @@ export const bulkDeleteStudents = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
+    const parsed = parseArchiveRequest(req.body);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
     const students = await Student.find({ _id: { $in: studentIds } });
     
     if (students.length === 0) {
@@ -121,86 +79,113 @@ export const bulkDeleteStudents = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    const deletionResults = {
+    const archiveResults = {
       successful: [] as any[],
       failed: [] as any[],
-      blockedByEnrollments: [] as any[]
+      blockedByEnrollments: [] as any[],
+      alreadyArchived: [] as any[]
     };
 
     for (const student of students) {
       try {
+        if (isArchived(student)) {
+          archiveResults.alreadyArchived.push({
+            id: (student._id as mongoose.Types.ObjectId).toString(),
+            studentId: student.studentId,
+            name: student.name,
+            archive: student.archive
+          });
+          continue;
+        }
+
         const hasActiveEnrollments = await checkActiveEnrollments(
-          student._id.toString(), 
-          student.studentId
+          (student._id as mongoose.Types.ObjectId).toString()
         );
 
         if (hasActiveEnrollments.hasActive) {
-          deletionResults.blockedByEnrollments.push({
+          archiveResults.blockedByEnrollments.push({
             id: (student._id as mongoose.Types.ObjectId).toString(),
             studentId: student.studentId,
             name: student.name,
             activeEnrollments: hasActiveEnrollments.enrollments
           });
         } else {
-          await Student.findByIdAndDelete(student._id);
-          
-          deletionResults.successful.push({
+          const archived = await archiveStudentRecord(
+            (student._id as mongoose.Types.ObjectId).toString(),
+            parsed.archive,
+            req.user.userId
+          );
+          if (!archived) {
+            archiveResults.alreadyArchived.push({
+              id: (student._id as mongoose.Types.ObjectId).toString(),
+              studentId: student.studentId,
+              name: student.name
+            });
+            continue;
+          }
+          await recordStudentChange(student, archived, 'archived', req.user.userId);
+
+          archiveResults.successful.push({
             id: (student._id as mongoose.Types.ObjectId).toString(),
             studentId: student.studentId,
             name: student.name,
             email: student.email
           });
 
-          console.log(`Student deleted in bulk operation by admin ${req.user.userId}:`, {
+          console.log(`Student archived in bulk operation by admin ${req.user.userId}:`, {
             studentId: (student._id as mongoose.Types.ObjectId).toString(),
             studentName: student.name,
+            status: parsed.archive.status,
             timestamp: new Date().toISOString()
           });
         }
       } catch (error) {
-        deletionResults.failed.push({
+        archiveResults.failed.push({
           id: (student._id as mongoose.Types.ObjectId).toString(),
           studentId: student.studentId,
           name: student.name,
-          error: 'Deletion failed due to server error'
+          error: 'Archiving failed due to server error'
         });
       }
     }
 
     let status = 200;
-    let message = 'Bulk deletion completed';
+    let message = 'Bulk archive completed';
+    const skipped = archiveResults.failed.length + archiveResults.blockedByEnrollments.length + archiveResults.alreadyArchived.length;
 
-    if (deletionResults.successful.length === 0) {
-      if (deletionResults.blockedByEnrollments.length > 0) {
-        status = 409;
-        message = 'No students could be deleted due to active enrollments';
-      } else {
+    if (archiveResults.successful.length === 0) {
+      if (archiveResults.failed.length > 0) {
         status = 500;
-        message = 'All deletion attempts failed';
+        message = 'All archive attempts failed';
+      } else {
+        status = 409;
+        message = 'No students could be archived due to active enrollments or an existing archive';
       }
-    } else if (deletionResults.failed.length > 0 || deletionResults.blockedByEnrollments.length > 0) {
+    } else if (skipped > 0) {
       status = 207; // Multi-status
-      message = 'Bulk deletion partially completed';
+      message = 'Bulk archive partially completed';
     }
 
     res.status(status).json({
-      success: deletionResults.successful.length > 0,
+      success: archiveResults.successful.length > 0,
       message,
       summary: {
         requested: studentIds.length,
         found: students.length,
-        deleted: deletionResults.successful.length,
-        blockedByEnrollments: deletionResults.blockedByEnrollments.length,
-        failed: deletionResults.failed.length
+        archived: archiveResults.successful.length,
+        blockedByEnrollments: archiveResults.blockedByEnrollments.length,
+        alreadyArchived: archiveResults.alreadyArchived.length,
+        failed: archiveResults.failed.length
       },
-      results: deletionResults,
+      archive: parsed.archive,
+      results: archiveResults,
       timestamp: new Date().toISOString()
     });
 
   } catch (error: any) {
-    console.error('Error in bulk delete operation:', error);
+    console.error('Error in bulk archive operation:', error);
     res.status(500).json({ 
-      error: 'Bulk deletion failed',
+      error: 'Bulk archive failed',
       message: 'An internal server error occurred'
     });
   }
@@ -208,9 +193,9 @@ export const bulkDeleteStudents = async (req: AuthRequest, res: Response): Promi
 
 export const checkStudentDeletable = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    if (!req.user || req.user.role !== 'admin') {
-      res.status(403).json({ 
-        error: 'Access denied. Admin role required.' 
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
       });
       return;
     }
@@ -232,7 +217,7 @@ export const checkStudentDeletable = async (req: AuthRequest, res: Response): Pr
       return;
     }
 
-    const enrollmentCheck = await checkActiveEnrollments(id, student.studentId);
+    const enrollmentCheck = await checkActiveEnrollments(id);
 
     res.json({
       success: true,
@@ -242,8 +227,11 @@ export const checkStudentDeletable = async (req: AuthRequest, res: Response): Pr
         name: student.name,
         email: student.email
       },
-      isDeletable: !enrollmentCheck.hasActive,
-      reason: enrollmentCheck.hasActive ? 'Has active enrollments' : 'No blocking factors',
+      isDeletable: !enrollmentCheck.hasActive && !isArchived(student),
+      reason: isArchived(student)
+        ? 'Already archived'
+        : enrollmentCheck.hasActive ? 'Has active enrollments' : 'No blocking factors',
+      archive: student.archive || null,
       activeEnrollments: enrollmentCheck.enrollments,
       additionalInfo: {
         gradesCount: student.grades.length,
@@ -260,24 +248,177 @@ export const checkStudentDeletable = async (req: AuthRequest, res: Response): Pr
   }
 };
 
+export const restoreStudent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ 
+        error: 'Invalid student ID format' 
+      });
+      return;
+    }
+
+    const student = await Student.findById(id);
+    if (!student) {
+      res.status(404).json({ 
+        error: 'Student not found' 
+      });
+      return;
+    }
+
+    const previousArchive = student.archive;
+    const restored = previousArchive ? await restoreStudentRecord(id) : null;
+    if (!restored) {
+      res.status(409).json({ error: 'Student is not archived' });
+      return;
+    }
+    await recordStudentChange(student, restored, 'restored', req.user.userId);
+
+    console.log(`Student restored by admin ${req.user.userId}:`, {
+      studentId: restored.studentId,
+      previousArchive,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Student restored successfully',
+      student: {
+        id: (restored._id as mongoose.Types.ObjectId).toString(),
+        studentId: restored.studentId,
+        name: restored.name,
+        email: restored.email,
+        gradeLevel: restored.gradeLevel
+      },
+      previousArchive
+    });
+
+  } catch (error: any) {
+    console.error('Error restoring student:', error);
+    res.status(500).json({ 
+      error: 'Failed to restore student',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function archiveFromInput(req: AuthRequest, res: Response, input: unknown): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ 
+        error: 'Invalid student ID format' 
+      });
+      return;
+    }
+
+    const parsed = parseArchiveRequest(input);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
+    const student = await Student.findById(id);
+    if (!student) {
+      res.status(404).json({ 
+        error: 'Student not found' 
+      });
+      return;
+    }
+
+    if (isArchived(student)) {
+      res.status(409).json({
+        error: 'Student is already archived',
+        archive: student.archive
+      });
+      return;
+    }
+
+    const hasActiveEnrollments = await checkActiveEnrollments(id);
+    if (hasActiveEnrollments.hasActive) {
+      res.status(409).json({
+        error: 'Cannot archive student with active enrollments',
+        message: 'Student must be unenrolled from all courses before archiving',
+        activeEnrollments: hasActiveEnrollments.enrollments,
+        conflictReason: 'active_enrollments'
+      });
+      return;
+    }
+
+    const studentData = {
+      id: (student._id as mongoose.Types.ObjectId).toString(),
+      studentId: student.studentId,
+      name: student.name,
+      email: student.email,
+      age: student.age,
+      gradeLevel: student.gradeLevel,
+      gradesCount: student.grades.length,
+      createdAt: student.createdAt,
+      updatedAt: student.updatedAt
+    };
+
+    const archived = await archiveStudentRecord(id, parsed.archive, req.user.userId);
+    if (!archived) {
+      res.status(409).json({ error: 'Student is already archived' });
+      return;
+    }
+    await recordStudentChange(student, archived, 'archived', req.user.userId);
+
+    console.log(`Student archived by admin ${req.user.userId}:`, {
+      archivedStudent: studentData,
+      archive: archived.archive,
+      timestamp: new Date().toISOString(),
+      adminUserId: req.user.userId
+    });
+
+    res.json({
+      success: true,
+      message: `Student archived as ${parsed.archive.status}`,
+      archivedStudent: studentData,
+      archive: archived.archive
+    });
+
+  } catch (error: any) {
+    console.error('Error archiving student:', error);
+    res.status(500).json({ 
+      error: 'Failed to archive student',
+      message: 'An internal server error occurred'
+    });
+  }
+}
+
 async function checkActiveEnrollments(
-  studentObjectId: string, 
-  studentId: string
+  studentObjectId: string
 ): Promise<{ hasActive: boolean; enrollments: any[] }> {
   try {
+    // Enrollment.studentId is an ObjectId reference, so only the Student _id can be
+    // matched; querying with the human-readable studentId would raise a CastError.
     const activeEnrollments = await Enrollment.find({
-      $or: [
-        { studentId: studentObjectId },
-        { studentId: studentId }
-      ],
+      studentId: studentObjectId,
       status: { $in: ['active', 'enrolled', 'in_progress'] },
-    }).populate('courseId', 'name code');
+    }).populate<{ courseId: { _id: mongoose.Types.ObjectId; name?: string; code?: string } | null }>('courseId', 'name code');
 
     return {
       hasActive: activeEnrollments.length > 0,
       enrollments: activeEnrollments.map(enrollment => ({
         id: enrollment._id,
-        courseId: enrollment.courseId,
+        courseId: enrollment.courseId?._id,
         courseName: enrollment.courseId?.name,
         courseCode: enrollment.courseId?.code,
         status: enrollment.status,
@@ -289,7 +430,7 @@ async function checkActiveEnrollments(
     console.error('Error checking active enrollments:', error);
     // Return safe defaults in case of error
     return {
-      hasActive: true, // Err on the side of caution - prevent deletion if we can't check
+      hasActive: true, // Err on the side of caution - prevent archiving if we can't check
       enrollments: []
     };
   }
@@ -0,0 +1,612 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Enrollment, { GradeLevel, EnrollmentStatus, LETTER_GRADES, IEnrollment } from '../models/Enrollment';
+import Student from '../models/Student';
+import Course from '../models/Course';
+import { archivedStudentError, isArchived } from '../utils/studentArchive';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  studentScope?: string[];
+}
+
+const SEMESTERS = ['Fall', 'Spring', 'Summer', 'Winter'];
+const ACADEMIC_YEAR_PATTERN = /^\d{4}-\d{4}$/;
+
+export const enrollStudent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const {
+      studentId,
+      courseId,
+      gradeLevel,
+      semester,
+      academicYear,
+      credits,
+      section,
+      instructor,
+      notes
+    } = req.body;
+
+    if (!studentId || !courseId || !gradeLevel || !semester || !academicYear) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['studentId', 'courseId', 'gradeLevel', 'semester', 'academicYear']
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(studentId) || !mongoose.Types.ObjectId.isValid(courseId)) {
+      res.status(400).json({
+        error: 'Invalid student or course ID format'
+      });
+      return;
+    }
+
+    const queryErrors = validatePeriodFilters({ semester, academicYear, gradeLevel });
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: queryErrors
+      });
+      return;
+    }
+
+    const student = await Student.findById(studentId);
+    if (!student) {
+      res.status(404).json({
+        error: 'Student not found'
+      });
+      return;
+    }
+
+    if (isArchived(student)) {
+      res.status(409).json(archivedStudentError(student));
+      return;
+    }
+
+    const course = await Course.findById(courseId);
+    if (!course) {
+      res.status(404).json({
+        error: 'Course not found'
+      });
+      return;
+    }
+
+    if (!course.isActive) {
+      res.status(409).json({
+        error: 'Cannot enroll in an inactive course',
+        course: { id: course._id, code: course.code, name: course.name }
+      });
+      return;
+    }
+
+    const enrollment = await Enrollment.create({
+      studentId,
+      courseId,
+      gradeLevel,
+      semester,
+      academicYear,
+      // Credits default to the catalog value unless overridden for this enrollment
+      credits: credits !== undefined ? Number(credits) : course.credits,
+      ...(section && { section: String(section).trim() }),
+      ...(instructor && { instructor: String(instructor).trim() }),
+      ...(notes && { notes: String(notes).trim() })
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Student enrolled successfully',
+      enrollment: formatEnrollment(enrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error enrolling student:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    if (error.code === 11000) {
+      res.status(409).json({
+        error: 'Student is already enrolled in this course for the given grade level and academic period'
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to enroll student',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getEnrollments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const semester = req.query.semester as string | undefined;
+    const academicYear = req.query.academicYear as string | undefined;
+    const gradeLevel = req.query.gradeLevel as GradeLevel | undefined;
+    const status = req.query.status as string | undefined;
+    const studentId = req.query.studentId as string | undefined;
+    const courseId = req.query.courseId as string | undefined;
+    const activeOnly = req.query.activeOnly === 'true';
+
+    const queryErrors = validatePeriodFilters({ semester, academicYear, gradeLevel });
+    if (status && !Object.values(EnrollmentStatus).includes(status as EnrollmentStatus)) {
+      queryErrors.push(`Status must be one of: ${Object.values(EnrollmentStatus).join(', ')}`);
+    }
+    if ((studentId && !mongoose.Types.ObjectId.isValid(studentId)) || (courseId && !mongoose.Types.ObjectId.isValid(courseId))) {
+      queryErrors.push('Invalid student or course ID format');
+    }
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: queryErrors
+      });
+      return;
+    }
+
+    let query;
+    if (activeOnly) {
+      query = Enrollment.findActiveEnrollments(studentId, courseId, gradeLevel);
+      if (semester) query.where({ semester });
+      if (academicYear) query.where({ academicYear });
+    } else if (semester && academicYear) {
+      query = Enrollment.findByAcademicPeriod(semester, academicYear, gradeLevel);
+      if (studentId) query.where({ studentId });
+      if (courseId) query.where({ courseId });
+    } else {
+      query = Enrollment.find({
+        ...(semester && { semester }),
+        ...(academicYear && { academicYear }),
+        ...(gradeLevel && { gradeLevel }),
+        ...(studentId && { studentId }),
+        ...(courseId && { courseId })
+      });
+    }
+
+    if (status) query.where({ status });
+    if (req.studentScope) query.and([{ studentId: { $in: req.studentScope } }]);
+
+    const enrollments = await query
+      .populate('studentId', 'name email studentId')
+      .populate('courseId', 'name code credits description')
+      .sort({ enrollmentDate: -1 });
+
+    res.json({
+      success: true,
+      message: 'Enrollments retrieved successfully',
+      filters: {
+        semester: semester || null,
+        academicYear: academicYear || null,
+        gradeLevel: gradeLevel || null,
+        status: status || null,
+        studentId: studentId || null,
+        courseId: courseId || null,
+        activeOnly
+      },
+      count: enrollments.length,
+      enrollments: enrollments.map(formatEnrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching enrollments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch enrollments',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getEnrollmentById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        error: 'Invalid enrollment ID format'
+      });
+      return;
+    }
+
+    const enrollment = await Enrollment.findById(id);
+    if (!enrollment) {
+      res.status(404).json({
+        error: 'Enrollment not found'
+      });
+      return;
+    }
+
+    if (req.studentScope && !req.studentScope.includes(enrollment.studentId.toString())) {
+      res.status(403).json({
+        error: 'Access denied. Student is not enrolled in any of your sections.'
+      });
+      return;
+    }
+
+    await enrollment.populate([
+      { path: 'studentId', select: 'name email studentId' },
+      { path: 'courseId', select: 'name code credits description' }
+    ]);
+
+    res.json({
+      success: true,
+      enrollment: formatEnrollment(enrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching enrollment:', error);
+    res.status(500).json({
+      error: 'Failed to fetch enrollment',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getStudentEnrollmentHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { studentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      res.status(400).json({
+        error: 'Invalid student ID format'
+      });
+      return;
+    }
+
+    const student = await Student.findById(studentId, 'name studentId');
+    if (!student) {
+      res.status(404).json({
+        error: 'Student not found'
+      });
+      return;
+    }
+
+    const enrollments = await Enrollment.getStudentEnrollmentHistory(studentId);
+
+    res.json({
+      success: true,
+      message: 'Enrollment history retrieved successfully',
+      student: {
+        id: student._id,
+        name: student.name,
+        studentId: student.studentId
+      },
+      count: enrollments.length,
+      enrollments: enrollments.map(formatEnrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching enrollment history:', error);
+    res.status(500).json({
+      error: 'Failed to fetch enrollment history',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getCourseEnrollments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { courseId } = req.params;
+    const activeOnly = req.query.activeOnly === 'true';
+    const gradeLevel = req.query.gradeLevel as GradeLevel | undefined;
+
+    if (!mongoose.Types.ObjectId.isValid(courseId)) {
+      res.status(400).json({
+        error: 'Invalid course ID format'
+      });
+      return;
+    }
+
+    const queryErrors = validatePeriodFilters({ gradeLevel });
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: queryErrors
+      });
+      return;
+    }
+
+    const query = Enrollment.getCourseEnrollments(courseId, activeOnly, gradeLevel);
+    if (req.studentScope) query.and([{ studentId: { $in: req.studentScope } }]);
+
+    const enrollments = await query;
+
+    res.json({
+      success: true,
+      message: 'Course enrollments retrieved successfully',
+      filters: {
+        gradeLevel: gradeLevel || null,
+        activeOnly
+      },
+      count: enrollments.length,
+      enrollments: enrollments.map(formatEnrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching course enrollments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch course enrollments',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getGradeDistribution = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const gradeLevel = req.params.gradeLevel as GradeLevel;
+    const academicYear = req.query.academicYear as string | undefined;
+
+    const queryErrors = validatePeriodFilters({ gradeLevel, academicYear });
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: 'Invalid query parameters',
+        details: queryErrors
+      });
+      return;
+    }
+
+    const distribution = await Enrollment.getGradeDistribution(gradeLevel, academicYear, req.studentScope);
+
+    res.json({
+      success: true,
+      message: 'Enrollment distribution retrieved successfully',
+      gradeLevel,
+      academicYear: academicYear || null,
+      distribution
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching enrollment distribution:', error);
+    res.status(500).json({
+      error: 'Failed to fetch enrollment distribution',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const completeEnrollment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { finalGrade } = req.body;
+
+    if (finalGrade !== undefined && !LETTER_GRADES.includes(finalGrade)) {
+      res.status(400).json({
+        error: 'Invalid final grade',
+        allowedGrades: LETTER_GRADES
+      });
+      return;
+    }
+
+    const enrollment = await findCurrentlyActiveEnrollment(id, res);
+    if (!enrollment) return;
+
+    await enrollment.markAsCompleted(finalGrade);
+
+    console.log(`Enrollment completed by ${req.user?.role} ${req.user?.userId}:`, {
+      enrollmentId: id,
+      finalGrade: finalGrade || null,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Enrollment marked as completed',
+      enrollment: formatEnrollment(enrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error completing enrollment:', error);
+    res.status(500).json({
+      error: 'Failed to complete enrollment',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const dropEnrollment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.trim().length === 0)) {
+      res.status(400).json({
+        error: 'Reason must be a non-empty string'
+      });
+      return;
+    }
+
+    const enrollment = await findCurrentlyActiveEnrollment(id, res);
+    if (!enrollment) return;
+
+    await enrollment.markAsDropped(reason?.trim());
+
+    console.log(`Enrollment dropped by ${req.user?.role} ${req.user?.userId}:`, {
+      enrollmentId: id,
+      reason: reason || null,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Enrollment dropped successfully',
+      enrollment: formatEnrollment(enrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error dropping enrollment:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to drop enrollment',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const recordEnrollmentGrade = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { gradeType, grade, gpa } = req.body;
+
+    if (!gradeType || !grade) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['gradeType', 'grade']
+      });
+      return;
+    }
+
+    if (gradeType !== 'midterm' && gradeType !== 'final') {
+      res.status(400).json({
+        error: 'Grade type must be either midterm or final'
+      });
+      return;
+    }
+
+    if (!LETTER_GRADES.includes(grade)) {
+      res.status(400).json({
+        error: 'Invalid letter grade',
+        allowedGrades: LETTER_GRADES
+      });
+      return;
+    }
+
+    if (gpa !== undefined && (typeof gpa !== 'number' || gpa < 0 || gpa > 4)) {
+      res.status(400).json({
+        error: 'GPA must be a number between 0 and 4.0'
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        error: 'Invalid enrollment ID format'
+      });
+      return;
+    }
+
+    const enrollment = await Enrollment.findById(id);
+    if (!enrollment) {
+      res.status(404).json({
+        error: 'Enrollment not found'
+      });
+      return;
+    }
+
+    if (req.studentScope && !req.studentScope.includes(enrollment.studentId.toString())) {
+      res.status(403).json({
+        error: 'Access denied. Student is not enrolled in any of your sections.'
+      });
+      return;
+    }
+
+    if (enrollment.status === EnrollmentStatus.DROPPED || enrollment.status === EnrollmentStatus.WITHDRAWN) {
+      res.status(409).json({
+        error: 'Cannot record grades for a dropped or withdrawn enrollment',
+        status: enrollment.status
+      });
+      return;
+    }
+
+    await enrollment.updateGrade(gradeType, grade, gpa);
+
+    res.json({
+      success: true,
+      message: `${gradeType === 'midterm' ? 'Midterm' : 'Final'} grade recorded successfully`,
+      enrollment: formatEnrollment(enrollment)
+    });
+
+  } catch (error: any) {
+    console.error('Error recording enrollment grade:', error);
+    res.status(500).json({
+      error: 'Failed to record grade',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findCurrentlyActiveEnrollment(id: string, res: Response): Promise<IEnrollment | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      error: 'Invalid enrollment ID format'
+    });
+    return null;
+  }
+
+  const enrollment = await Enrollment.findById(id);
+  if (!enrollment) {
+    res.status(404).json({
+      error: 'Enrollment not found'
+    });
+    return null;
+  }
+
+  if (!enrollment.get('isCurrentlyActive')) {
+    res.status(409).json({
+      error: 'Enrollment is no longer active',
+      status: enrollment.status
+    });
+    return null;
+  }
+
+  return enrollment;
+}
+
+function validatePeriodFilters(filters: {
+  semester?: string;
+  academicYear?: string;
+  gradeLevel?: string;
+}): string[] {
+  const errors: string[] = [];
+
+  if (filters.semester !== undefined && !SEMESTERS.includes(filters.semester)) {
+    errors.push(`Semester must be one of: ${SEMESTERS.join(', ')}`);
+  }
+
+  if (filters.academicYear !== undefined && !ACADEMIC_YEAR_PATTERN.test(filters.academicYear)) {
+    errors.push('Academic year must be in format YYYY-YYYY (e.g., 2024-2025)');
+  }
+
+  if (filters.gradeLevel !== undefined && !Object.values(GradeLevel).includes(filters.gradeLevel as GradeLevel)) {
+    errors.push(`Grade level must be one of: ${Object.values(GradeLevel).join(', ')}`);
+  }
+
+  return errors;
+}
+
+function formatEnrollment(enrollment: IEnrollment) {
+  return {
+    id: enrollment._id,
+    student: enrollment.studentId,
+    course: enrollment.courseId,
+    gradeLevel: enrollment.gradeLevel,
+    status: enrollment.status,
+    semester: enrollment.semester,
+    academicYear: enrollment.academicYear,
+    credits: enrollment.credits,
+    section: enrollment.section,
+    instructor: enrollment.instructor,
+    academicGrade: enrollment.academicGrade || null,
+    enrollmentDate: enrollment.enrollmentDate,
+    completionDate: enrollment.completionDate,
+    dropDate: enrollment.dropDate,
+    notes: enrollment.notes,
+    isActive: enrollment.isActive
+  };
+}
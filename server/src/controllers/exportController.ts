@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import { Permission } from '../config/permissions';
+import { getCallerPermissions } from '../utils/permissions';
+import { parseStudentListQuery } from '../utils/studentQuery';
+import { isPrematureClose } from '../utils/streams';
+import { ExportColumn, ExportFormat, isExportFormat, selectColumns, startTableExport, EXPORT_FORMATS } from '../utils/tableExport';
+import { isXlsxTooLarge, XLSX_LIMITS } from '../utils/xlsx';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  apiKey?: {
+    id: string;
+    prefix: string;
+    name: string;
+    permissions: Permission[];
+  };
+  studentScope?: string[];
+}
+
+interface ExportStudent {
+  _id: mongoose.Types.ObjectId;
+  studentId: string;
+  name: string;
+  email: string;
+  age: number;
+  gradeLevel: string;
+  grades: { subject: string; score: number }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Contact details and age are only exported for callers who may read every student record;
+// section-scoped teachers get the identifying columns they already see in class lists
+const ROSTER_COLUMNS: ExportColumn<ExportStudent>[] = [
+  { key: 'studentId', header: 'Student ID', value: student => student.studentId },
+  { key: 'name', header: 'Name', value: student => student.name },
+  { key: 'email', header: 'Email', requires: 'students:read', value: student => student.email },
+  { key: 'age', header: 'Age', requires: 'students:read', value: student => student.age },
+  { key: 'gradeLevel', header: 'Grade Level', value: student => student.gradeLevel },
+  { key: 'createdAt', header: 'Created At', value: student => student.createdAt },
+  { key: 'updatedAt', header: 'Updated At', value: student => student.updatedAt }
+];
+
+// Followed by one column per subject, in alphabetical order
+const GRADES_COLUMNS: ExportColumn<ExportStudent>[] = [
+  { key: 'studentId', header: 'Student ID', value: student => student.studentId },
+  { key: 'name', header: 'Name', value: student => student.name },
+  { key: 'email', header: 'Email', requires: 'students:read', value: student => student.email },
+  { key: 'gradeLevel', header: 'Grade Level', value: student => student.gradeLevel },
+  { key: 'gradesCount', header: 'Grades Count', value: student => student.grades.length },
+  { key: 'averageGrade', header: 'Average Grade', value: student => averageScore(student) }
+];
+
+// Pagination parameters of the list endpoint do not apply to exports, which always cover every match
+const PAGINATION_PARAMS = ['limit', 'cursor', 'fields'];
+
+export const exportStudents = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const options = await readExportOptions(req, res, ROSTER_COLUMNS);
+    if (!options) return;
+
+    const { format, columns, filter, sort } = options;
+    const projection = Object.fromEntries(columns.map(column => [column.key, 1]));
+    if (!(await fitsExportFormat(res, format, filter))) return;
+
+    const writer = await startTableExport(res, format, 'students', 'Students');
+    await writer.writeRow(columns.map(column => column.header));
+
+    // Closed in every case, so a download aborted by the client does not leave the query open
+    const cursor = Student.find(filter).select(projection).sort(sort).lean<ExportStudent[]>().cursor();
+    try {
+      for await (const student of cursor) {
+        await writer.writeRow(columns.map(column => column.value(student)));
+      }
+    } finally {
+      await cursor.close();
+    }
+    await writer.end();
+
+    console.log(`Student roster exported by ${req.user?.userId || `API key ${req.apiKey?.prefix}`}:`, {
+      format,
+      columns: columns.map(column => column.key),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    handleExportError(res, error, 'Failed to export students');
+  }
+};
+
+// The grades summary (GET /api/grades/summary) as a file: the same per-student count and average,
+// and one column per subject holding that subject's score. ?subject= narrows the subject columns.
+export const exportGradesSummary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const options = await readExportOptions(req, res, GRADES_COLUMNS);
+    if (!options) return;
+
+    const { format, columns, sort } = options;
+    const filter: Record<string, any> = { ...options.filter };
+    const subject = typeof req.query.subject === 'string' ? req.query.subject.trim() : '';
+    const subjectPattern = subject ? new RegExp(subject.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i') : null;
+    if (subjectPattern) {
+      filter['grades.subject'] = subjectPattern;
+    }
+
+    const subjects = ((await Student.distinct('grades.subject', filter)) as string[])
+      .filter(name => !subjectPattern || subjectPattern.test(name))
+      .sort((a, b) => a.localeCompare(b));
+    if (!(await fitsExportFormat(res, format, filter, columns.length + subjects.length))) return;
+
+    const writer = await startTableExport(res, format, 'grades-summary', 'Grades');
+    await writer.writeRow([...columns.map(column => column.header), ...subjects]);
+
+    const cursor = Student.find(filter).sort(sort).lean<ExportStudent[]>().cursor();
+    try {
+      for await (const student of cursor) {
+        const scores = new Map(student.grades.map(grade => [grade.subject, grade.score]));
+        await writer.writeRow([
+          ...columns.map(column => column.value(student)),
+          ...subjects.map(name => scores.get(name) ?? null)
+        ]);
+      }
+    } finally {
+      await cursor.close();
+    }
+    await writer.end();
+
+    console.log(`Grades summary exported by ${req.user?.userId || `API key ${req.apiKey?.prefix}`}:`, {
+      format,
+      subject: subject || null,
+      subjects: subjects.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    handleExportError(res, error, 'Failed to export grades summary');
+  }
+};
+
+async function readExportOptions(req: AuthRequest, res: Response, allColumns: ExportColumn<ExportStudent>[]) {
+  const format = req.query.format ?? 'csv';
+  if (!isExportFormat(format)) {
+    res.status(400).json({ error: 'Invalid export format', allowedFormats: EXPORT_FORMATS });
+    return null;
+  }
+
+  const listQuery = Object.fromEntries(
+    Object.entries(req.query).filter(([name]) => !PAGINATION_PARAMS.includes(name))
+  );
+  const parsed = parseStudentListQuery(listQuery);
+  if (!parsed.ok) {
+    res.status(parsed.status).json(parsed.body);
+    return null;
+  }
+
+  const selection = selectColumns(allColumns, await getCallerPermissions(req), req.query.columns);
+  if (!selection.ok) {
+    res.status(selection.status).json(selection.body);
+    return null;
+  }
+
+  const { filter, sortField, sortDirection } = parsed.query;
+  return {
+    format: format as ExportFormat,
+    columns: selection.columns,
+    filter: (req.studentScope
+      ? { ...filter, _id: { $in: req.studentScope.map(id => new mongoose.Types.ObjectId(id)) } }
+      : { ...filter }) as Record<string, any>,
+    sort: { [sortField]: sortDirection, _id: sortDirection } as Record<string, 1 | -1>
+  };
+}
+
+// An XLSX sheet has a fixed number of rows and columns, so an export that cannot fit is refused
+// before the download starts, while there is still a status code to say why. Files that fit these
+// but pass the ZIP size limit can only be caught while writing and end as a cut-off download.
+async function fitsExportFormat(
+  res: Response,
+  format: ExportFormat,
+  filter: Record<string, any>,
+  columnCount: number = 0
+): Promise<boolean> {
+  if (format !== 'xlsx') return true;
+
+  if (columnCount > XLSX_LIMITS.columns) {
+    res.status(422).json({
+      error: 'Too many columns for an XLSX export',
+      columns: columnCount,
+      maxColumns: XLSX_LIMITS.columns,
+      message: 'Narrow the subjects or export as CSV'
+    });
+    return false;
+  }
+
+  // One row is taken by the headers
+  const rows = await Student.countDocuments(filter);
+  if (rows >= XLSX_LIMITS.rows) {
+    res.status(422).json({
+      error: 'Too many rows for an XLSX export',
+      rows,
+      maxRows: XLSX_LIMITS.rows - 1,
+      message: 'Narrow the filters or export as CSV'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+function averageScore(student: ExportStudent): number | null {
+  if (student.grades.length === 0) return null;
+  const total = student.grades.reduce((sum, grade) => sum + grade.score, 0);
+  return Math.round((total / student.grades.length) * 100) / 100;
+}
+
+// Once the file has started the status line is gone, so the only signal left is a cut-off download
+function handleExportError(res: Response, error: any, message: string): void {
+  if (isPrematureClose(error)) {
+    console.warn(`${message}: the client closed the connection`);
+    return;
+  }
+
+  if (isXlsxTooLarge(error)) {
+    console.warn(`${message}: ${error.message}`);
+  } else {
+    console.error(`${message}:`, error);
+  }
+
+  if (res.headersSent) {
+    res.destroy(error);
+    return;
+  }
+
+  res.status(500).json({
+    error: message,
+    message: 'An internal server error occurred'
+  });
+}
\ No newline at end of file
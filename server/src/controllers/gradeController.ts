@@ -1,12 +1,15 @@
 import { Request, Response } from 'express';
 import Student from '../models/Student';
 import mongoose from 'mongoose';
+import { archivedStudentError, isArchived } from '../utils/studentArchive';
+import { recordStudentChange, snapshotStudent } from '../utils/studentHistory';
 
 interface AuthRequest extends Request {
   user?: {
     userId: string;
     role: string;
   };
+  studentScope?: string[];
 }
 
 export const addOrUpdateGrade = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -55,6 +58,12 @@ export const addOrUpdateGrade = async (req: AuthRequest, res: Response): Promise
       return;
     }
 
+    if (isArchived(student)) {
+      res.status(409).json(archivedStudentError(student));
+      return;
+    }
+
+    const before = snapshotStudent(student);
     const subjectTrimmed = subject.trim();
     const existingGradeIndex = student.grades.findIndex(
       grade => grade.subject.toLowerCase() === subjectTrimmed.toLowerCase()
@@ -71,6 +80,7 @@ export const addOrUpdateGrade = async (req: AuthRequest, res: Response): Promise
     }
 
     await student.save();
+    await recordStudentChange(before, student, 'grade.recorded', req.user?.userId);
 
     res.json({
       success: true,
@@ -173,6 +183,12 @@ export const removeGrade = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
+    if (isArchived(student)) {
+      res.status(409).json(archivedStudentError(student));
+      return;
+    }
+
+    const before = snapshotStudent(student);
     const subjectTrimmed = subject.trim();
     const gradeIndex = student.grades.findIndex(
       grade => grade.subject.toLowerCase() === subjectTrimmed.toLowerCase()
@@ -189,6 +205,7 @@ export const removeGrade = async (req: AuthRequest, res: Response): Promise<void
     const removedGrade = student.grades[gradeIndex];
     student.grades.splice(gradeIndex, 1);
     await student.save();
+    await recordStudentChange(before, student, 'grade.removed', req.user?.userId);
 
     res.json({
       success: true,
@@ -238,20 +255,22 @@ export const getGradesSummary = async (req: AuthRequest, res: Response): Promise
       }
     ];
 
+    const match: any = { archive: null };
+
     if (subject && subject.trim()) {
-      pipeline.unshift({
-        $match: {
-          'grades.subject': { $regex: new RegExp(subject.trim(), 'i') }
-        }
-      });
+      match['grades.subject'] = { $regex: new RegExp(subject.trim(), 'i') };
+    }
+
+    if (req.studentScope) {
+      match._id = { $in: req.studentScope.map(id => new mongoose.Types.ObjectId(id)) };
     }
 
+    pipeline.unshift({ $match: match });
+
     pipeline.push({ $skip: skip }, { $limit: limit });
 
     const students = await Student.aggregate(pipeline);
-    const totalStudents = await Student.countDocuments(
-      subject ? { 'grades.subject': { $regex: new RegExp(subject.trim(), 'i') } } : {}
-    );
+    const totalStudents = await Student.countDocuments(match);
     const totalPages = Math.ceil(totalStudents / limit);
 
     const formattedStudents = students.map(student => ({
@@ -0,0 +1,345 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import GuardianLink, { GUARDIAN_RELATIONSHIPS, IGuardianLink } from '../models/GuardianLink';
+import Student, { IStudent } from '../models/Student';
+import User from '../models/User';
+import { getAgeOfMajority, hasGuardianAccess, requiresStudentConsent } from '../utils/guardianAccess';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+    studentId?: string;
+  };
+}
+
+export const getStudentGuardians = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const student = await findStudentRecord(req.params.id, res);
+    if (!student) return;
+
+    const links = await GuardianLink.find({ student: student._id })
+      .populate('guardian', 'username email disabled')
+      .sort({ isPrimaryContact: -1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      message: 'Guardians retrieved successfully',
+      student: {
+        id: student._id,
+        name: student.name,
+        studentId: student.studentId
+      },
+      consentRequired: requiresStudentConsent(student),
+      count: links.length,
+      guardians: links.map(link => formatGuardianLink(link, student))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching student guardians:', error);
+    res.status(500).json({
+      error: 'Failed to fetch guardians',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const linkGuardian = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { guardianUserId, relationship, isPrimaryContact } = req.body;
+
+    if (!guardianUserId || !relationship) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['guardianUserId', 'relationship']
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(guardianUserId)) {
+      res.status(400).json({ error: 'Invalid guardian user ID format' });
+      return;
+    }
+
+    const student = await findStudentRecord(req.params.id, res);
+    if (!student) return;
+
+    const guardian = await User.findById(guardianUserId);
+    if (!guardian) {
+      res.status(404).json({ error: 'Guardian user not found' });
+      return;
+    }
+
+    if (guardian.role !== 'guardian') {
+      res.status(400).json({
+        error: 'Only users with the guardian role can be linked to students',
+        userRole: guardian.role
+      });
+      return;
+    }
+
+    const link = await GuardianLink.create({
+      guardian: guardian._id,
+      student: student._id,
+      relationship,
+      isPrimaryContact: isPrimaryContact === true,
+      createdBy: req.user!.userId
+    });
+
+    if (link.isPrimaryContact) {
+      await GuardianLink.setPrimaryContact(link);
+    }
+
+    console.log(`Guardian linked by admin ${req.user?.userId}:`, {
+      linkId: String(link._id),
+      guardianUserId: String(guardian._id),
+      studentId: student.studentId,
+      relationship: link.relationship,
+      isPrimaryContact: link.isPrimaryContact,
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${guardian.username} linked to ${student.name}`,
+      guardian: formatGuardianLink(link, student)
+    });
+
+  } catch (error: any) {
+    console.error('Error linking guardian:', error);
+    handleGuardianLinkWriteError(error, res, 'Failed to link guardian');
+  }
+};
+
+export const updateGuardianLink = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { relationship, isPrimaryContact } = req.body;
+
+    if (relationship === undefined && isPrimaryContact === undefined) {
+      res.status(400).json({
+        error: 'No updatable fields provided',
+        allowedFields: ['relationship', 'isPrimaryContact']
+      });
+      return;
+    }
+
+    const student = await findStudentRecord(req.params.id, res);
+    if (!student) return;
+
+    const link = await findLink(req.params.linkId, { student: student._id }, res);
+    if (!link) return;
+
+    if (relationship !== undefined) {
+      link.relationship = relationship;
+    }
+    if (isPrimaryContact !== undefined) {
+      link.isPrimaryContact = isPrimaryContact === true;
+    }
+
+    await link.save();
+
+    if (link.isPrimaryContact) {
+      await GuardianLink.setPrimaryContact(link);
+    }
+
+    console.log(`Guardian link updated by admin ${req.user?.userId}:`, {
+      linkId: String(link._id),
+      relationship: link.relationship,
+      isPrimaryContact: link.isPrimaryContact,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Guardian link updated successfully',
+      guardian: formatGuardianLink(link, student)
+    });
+
+  } catch (error: any) {
+    console.error('Error updating guardian link:', error);
+    handleGuardianLinkWriteError(error, res, 'Failed to update guardian link');
+  }
+};
+
+export const unlinkGuardian = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const student = await findStudentRecord(req.params.id, res);
+    if (!student) return;
+
+    const link = await findLink(req.params.linkId, { student: student._id }, res);
+    if (!link) return;
+
+    await GuardianLink.deleteOne({ _id: link._id });
+
+    console.log(`Guardian unlinked by admin ${req.user?.userId}:`, {
+      linkId: String(link._id),
+      guardianUserId: String(link.guardian),
+      studentId: student.studentId,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Guardian unlinked successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error unlinking guardian:', error);
+    res.status(500).json({
+      error: 'Failed to unlink guardian',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+// Student self-service: who can see my records, and consent once I reach the age of majority
+export const getMyGuardians = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const student = await findOwnStudentRecord(req, res);
+    if (!student) return;
+
+    const links = await GuardianLink.find({ student: student._id })
+      .populate('guardian', 'username email')
+      .sort({ isPrimaryContact: -1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      message: 'Guardians retrieved successfully',
+      ageOfMajority: getAgeOfMajority(),
+      consentRequired: requiresStudentConsent(student),
+      count: links.length,
+      guardians: links.map(link => formatGuardianLink(link, student))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching own guardians:', error);
+    res.status(500).json({
+      error: 'Failed to fetch guardians',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const grantGuardianConsent = async (req: AuthRequest, res: Response): Promise<void> => {
+  await setGuardianConsent(req, res, true);
+};
+
+export const revokeGuardianConsent = async (req: AuthRequest, res: Response): Promise<void> => {
+  await setGuardianConsent(req, res, false);
+};
+
+async function setGuardianConsent(req: AuthRequest, res: Response, granted: boolean): Promise<void> {
+  try {
+    const student = await findOwnStudentRecord(req, res);
+    if (!student) return;
+
+    const link = await findLink(req.params.linkId, { student: student._id }, res);
+    if (!link) return;
+
+    link.consentGrantedAt = granted ? (link.consentGrantedAt || new Date()) : null;
+    await link.save();
+
+    console.log(`Guardian consent ${granted ? 'granted' : 'withdrawn'} by student ${student.studentId}:`, {
+      linkId: String(link._id),
+      guardianUserId: String(link.guardian),
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: granted ? 'Consent granted' : 'Consent withdrawn',
+      guardian: formatGuardianLink(link, student)
+    });
+
+  } catch (error: any) {
+    console.error('Error updating guardian consent:', error);
+    res.status(500).json({
+      error: 'Failed to update guardian consent',
+      message: 'An internal server error occurred'
+    });
+  }
+}
+
+async function findStudentRecord(id: string, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ error: 'Invalid student ID format' });
+    return null;
+  }
+
+  const student = await Student.findById(id);
+  if (!student) {
+    res.status(404).json({ error: 'Student not found' });
+    return null;
+  }
+
+  return student;
+}
+
+async function findOwnStudentRecord(req: AuthRequest, res: Response) {
+  if (!req.user?.studentId) {
+    res.status(400).json({ error: 'Student ID not found in authentication token' });
+    return null;
+  }
+
+  const student = await Student.findOne({ studentId: req.user.studentId });
+  if (!student) {
+    res.status(404).json({ error: 'Student record not found' });
+    return null;
+  }
+
+  return student;
+}
+
+async function findLink(linkId: string, scope: Record<string, unknown>, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(linkId)) {
+    res.status(400).json({ error: 'Invalid guardian link ID format' });
+    return null;
+  }
+
+  const link = await GuardianLink.findOne({ _id: linkId, ...scope });
+  if (!link) {
+    res.status(404).json({ error: 'Guardian link not found' });
+    return null;
+  }
+
+  return link;
+}
+
+function formatGuardianLink(link: IGuardianLink, student: IStudent) {
+  const guardian: any = link.guardian;
+  const populated = guardian && typeof guardian === 'object' && 'username' in guardian;
+
+  return {
+    id: link._id,
+    guardian: populated
+      ? { id: guardian._id, username: guardian.username, email: guardian.email || null }
+      : { id: link.guardian },
+    relationship: link.relationship,
+    isPrimaryContact: link.isPrimaryContact,
+    consentGrantedAt: link.consentGrantedAt || null,
+    hasAccess: hasGuardianAccess(link, student),
+    createdAt: link.createdAt
+  };
+}
+
+function handleGuardianLinkWriteError(error: any, res: Response, fallbackError: string): void {
+  if (error.code === 11000) {
+    res.status(409).json({ error: 'Guardian is already linked to this student' });
+    return;
+  }
+
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors,
+      validRelationships: GUARDIAN_RELATIONSHIPS
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackError,
+    message: 'An internal server error occurred'
+  });
+}
\ No newline at end of file
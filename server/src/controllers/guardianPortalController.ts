@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import GuardianLink from '../models/GuardianLink';
+import { IStudent } from '../models/Student';
+import { buildAcademicSummary, buildGradeReport } from '../utils/academicReports';
+import { hasGuardianAccess, requiresStudentConsent, resolveGuardianAccess } from '../utils/guardianAccess';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+export const getMyStudents = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
+
+    const links = await GuardianLink.find({ guardian: req.user.userId })
+      .populate<{ student: IStudent | null }>('student', 'name studentId age gradeLevel');
+
+    const students = links
+      .filter(link => link.student)
+      .map(link => {
+        const student = link.student as IStudent;
+        return {
+          id: student._id,
+          name: student.name,
+          studentId: student.studentId,
+          gradeLevel: student.gradeLevel,
+          relationship: link.relationship,
+          isPrimaryContact: link.isPrimaryContact,
+          consentRequired: requiresStudentConsent(student),
+          hasAccess: hasGuardianAccess(link, student)
+        };
+      });
+
+    res.json({
+      success: true,
+      message: 'Linked students retrieved successfully',
+      count: students.length,
+      students
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching linked students:', error);
+    res.status(500).json({ 
+      error: 'Failed to fetch linked students',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getLinkedStudentGrades = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
+
+    const access = await resolveGuardianAccess(req.user.userId, req.params.id);
+    if (!access.ok) {
+      res.status(access.status).json(access.body);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Grades retrieved successfully',
+      ...buildGradeReport(access.student)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching linked student grades:', error);
+    res.status(500).json({ 
+      error: 'Failed to fetch grades',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getLinkedStudentSummary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
+
+    const access = await resolveGuardianAccess(req.user.userId, req.params.id);
+    if (!access.ok) {
+      res.status(access.status).json(access.body);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Academic summary retrieved successfully',
+      ...buildAcademicSummary(access.student)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching linked student academic summary:', error);
+    res.status(500).json({ 
+      error: 'Failed to fetch academic summary',
+      message: 'An internal server error occurred'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Impersonation, { IImpersonation } from '../models/Impersonation';
+import AuditLog from '../models/AuditLog';
+import { canGrantRole } from '../utils/permissions';
+import {
+  DEFAULT_IMPERSONATION_MINUTES,
+  MAX_IMPERSONATION_MINUTES,
+  endImpersonation as finishImpersonation,
+  startImpersonation as beginImpersonation
+} from '../utils/impersonation';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  apiKey?: {
+    id: string;
+  };
+}
+
+export const startImpersonation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { reason, durationMinutes } = req.body || {};
+
+    if (!reason || !String(reason).trim()) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['reason']
+      });
+      return;
+    }
+
+    // Impersonation must always be attributable to a person
+    if (req.apiKey) {
+      res.status(403).json({ error: 'API keys cannot impersonate users' });
+      return;
+    }
+
+    const minutes = durationMinutes === undefined ? DEFAULT_IMPERSONATION_MINUTES : Number(durationMinutes);
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_IMPERSONATION_MINUTES) {
+      res.status(400).json({
+        error: `durationMinutes must be a number between 1 and ${MAX_IMPERSONATION_MINUTES}`
+      });
+      return;
+    }
+
+    if (userId === req.user?.userId) {
+      res.status(400).json({ error: 'You cannot impersonate yourself' });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ error: 'Invalid user ID format' });
+      return;
+    }
+
+    const [target, impersonator] = await Promise.all([
+      User.findById(userId),
+      User.findById(req.user!.userId)
+    ]);
+
+    if (!target) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!impersonator) {
+      res.status(401).json({ error: 'Invalid token. User not found.' });
+      return;
+    }
+
+    if (target.disabled) {
+      res.status(409).json({ error: 'Disabled accounts cannot be impersonated' });
+      return;
+    }
+
+    // Seeing the API as someone must not reveal more than the admin could already see
+    if (!(await canGrantRole({ user: impersonator }, target.role))) {
+      res.status(403).json({
+        error: 'You cannot impersonate a user whose role has permissions you do not hold',
+        role: target.role
+      });
+      return;
+    }
+
+    const { impersonation, token } = await beginImpersonation({
+      impersonator,
+      target,
+      reason: String(reason),
+      minutes,
+      context: {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }
+    });
+
+    console.log(`Impersonation started by admin ${req.user?.userId}:`, {
+      impersonationId: String(impersonation._id),
+      targetUserId: userId,
+      targetUsername: target.username,
+      reason: impersonation.reason,
+      expiresAt: impersonation.expiresAt.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+
+    // The token has no refresh token and only allows reads; every request made with it is audited
+    res.status(201).json({
+      success: true,
+      message: `Impersonating ${target.username} until ${impersonation.expiresAt.toISOString()}. Requests are read-only and audited.`,
+      token,
+      expiresAt: impersonation.expiresAt,
+      impersonation: formatImpersonation(impersonation),
+      user: {
+        id: target._id,
+        username: target.username,
+        role: target.role
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error starting impersonation:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to start impersonation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const listImpersonations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId, impersonatorId, active } = req.query;
+    const filter: any = {};
+
+    for (const [field, value] of [['targetUser', userId], ['impersonator', impersonatorId]] as const) {
+      if (value === undefined) continue;
+      if (!mongoose.Types.ObjectId.isValid(String(value))) {
+        res.status(400).json({ error: 'Invalid user ID format' });
+        return;
+      }
+      filter[field] = String(value);
+    }
+
+    if (active === 'true') {
+      filter.endedAt = null;
+      filter.expiresAt = { $gt: new Date() };
+    }
+
+    const impersonations = await Impersonation.find(filter).sort({ createdAt: -1 }).limit(100);
+
+    res.json({
+      success: true,
+      message: 'Impersonations retrieved successfully',
+      count: impersonations.length,
+      impersonations: impersonations.map(formatImpersonation)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching impersonations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch impersonations',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getImpersonation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const impersonation = await findImpersonation(req.params.id, res);
+    if (!impersonation) return;
+
+    const auditLog = await AuditLog.find({ impersonation: impersonation._id }).sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      impersonation: formatImpersonation(impersonation),
+      auditLog: auditLog.map(entry => ({
+        action: entry.action,
+        method: entry.method,
+        path: entry.path,
+        statusCode: entry.statusCode,
+        ipAddress: entry.ipAddress,
+        details: entry.details,
+        createdAt: entry.createdAt
+      }))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching impersonation:', error);
+    res.status(500).json({
+      error: 'Failed to fetch impersonation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const endImpersonation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const impersonation = await findImpersonation(req.params.id, res);
+    if (!impersonation) return;
+
+    if (!impersonation.isActive()) {
+      res.status(400).json({ error: 'Impersonation has already ended' });
+      return;
+    }
+
+    await finishImpersonation(impersonation, req.user!.userId);
+
+    console.log(`Impersonation ended by admin ${req.user?.userId}:`, {
+      impersonationId: String(impersonation._id),
+      targetUserId: String(impersonation.targetUser),
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Impersonation ended. Its token no longer works.',
+      impersonation: formatImpersonation(impersonation)
+    });
+
+  } catch (error: any) {
+    console.error('Error ending impersonation:', error);
+    res.status(500).json({
+      error: 'Failed to end impersonation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findImpersonation(id: string, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ error: 'Invalid impersonation ID format' });
+    return null;
+  }
+
+  const impersonation = await Impersonation.findById(id);
+  if (!impersonation) {
+    res.status(404).json({ error: 'Impersonation not found' });
+    return null;
+  }
+
+  return impersonation;
+}
+
+function formatImpersonation(impersonation: IImpersonation) {
+  return {
+    id: impersonation._id,
+    impersonator: impersonation.impersonator,
+    targetUser: impersonation.targetUser,
+    reason: impersonation.reason,
+    status: impersonation.endedAt ? 'ended' : impersonation.isActive() ? 'active' : 'expired',
+    expiresAt: impersonation.expiresAt,
+    endedAt: impersonation.endedAt || null,
+    endedBy: impersonation.endedBy || null,
+    createdAt: impersonation.createdAt
+  };
+}
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Invitation, { IInvitation } from '../models/Invitation';
+import Student from '../models/Student';
+import User from '../models/User';
+import { canGrantRole, roleExists } from '../utils/permissions';
+import { archivedStudentError, isArchived } from '../utils/studentArchive';
+import {
+  issueInvitation,
+  DEFAULT_INVITATION_TTL_HOURS,
+  MAX_INVITATION_TTL_HOURS
+} from '../utils/invitations';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+export const createInvitation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { role, email, expiresInHours } = req.body;
+
+    if (!role) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['role']
+      });
+      return;
+    }
+
+    if (!(await roleExists(role))) {
+      res.status(400).json({ error: 'Invalid role. Role does not exist', role });
+      return;
+    }
+
+    if (!(await canGrantRole(req, role))) {
+      res.status(403).json({
+        error: 'You cannot invite users to a role with permissions you do not hold',
+        role
+      });
+      return;
+    }
+
+    const ttlHours = expiresInHours === undefined ? DEFAULT_INVITATION_TTL_HOURS : Number(expiresInHours);
+    if (!Number.isFinite(ttlHours) || ttlHours <= 0 || ttlHours > MAX_INVITATION_TTL_HOURS) {
+      res.status(400).json({
+        error: `expiresInHours must be a number between 1 and ${MAX_INVITATION_TTL_HOURS}`
+      });
+      return;
+    }
+
+    const { invitation, inviteToken, registrationUrl } = await issueInvitation({
+      role,
+      createdBy: req.user!.userId,
+      ...(email && { email: String(email) }),
+      ttlHours
+    });
+
+    console.log(`Invitation created by admin ${req.user?.userId}:`, {
+      invitationId: String(invitation._id),
+      role: invitation.role,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+
+    // The raw token is returned once; the database keeps only its hash
+    res.status(201).json({
+      success: true,
+      message: invitation.email ? `Invitation sent to ${invitation.email}` : 'Invitation created successfully',
+      inviteToken,
+      registrationUrl,
+      invitation: formatInvitation(invitation)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating invitation:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to create invitation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+// Invites the student behind an existing Student record; the account they register is bound to it
+export const inviteStudent = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const student = await Student.findById(id);
+    if (!student) {
+      res.status(404).json({ error: 'Student not found' });
+      return;
+    }
+
+    if (isArchived(student)) {
+      res.status(409).json(archivedStudentError(student));
+      return;
+    }
+
+    const linkedAccount = await User.exists({ studentId: student.studentId });
+    if (linkedAccount) {
+      res.status(409).json({
+        error: 'Student record is already linked to an account',
+        studentId: student.studentId
+      });
+      return;
+    }
+
+    const { invitation, inviteToken, registrationUrl } = await issueInvitation({
+      role: 'student',
+      createdBy: req.user!.userId,
+      email: student.email,
+      studentRecordId: student._id as mongoose.Types.ObjectId
+    });
+
+    console.log(`Student invitation created by admin ${req.user?.userId}:`, {
+      invitationId: String(invitation._id),
+      studentId: student.studentId,
+      expiresAt: invitation.expiresAt.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invitation.email}`,
+      inviteToken,
+      registrationUrl,
+      invitation: formatInvitation(invitation)
+    });
+
+  } catch (error: any) {
+    console.error('Error inviting student:', error);
+    res.status(500).json({
+      error: 'Failed to create invitation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const listInvitations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invitations = await Invitation.findPending();
+
+    res.json({
+      success: true,
+      message: 'Pending invitations retrieved successfully',
+      count: invitations.length,
+      invitations: invitations.map(formatInvitation)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invitations',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const revokeInvitation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid invitation ID format' });
+      return;
+    }
+
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: id, usedAt: null, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!invitation) {
+      res.status(404).json({ error: 'Pending invitation not found' });
+      return;
+    }
+
+    console.log(`Invitation revoked by admin ${req.user?.userId}:`, {
+      invitationId: id,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked successfully',
+      invitation: formatInvitation(invitation)
+    });
+
+  } catch (error: any) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({
+      error: 'Failed to revoke invitation',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+function formatInvitation(invitation: IInvitation) {
+  return {
+    id: invitation._id,
+    role: invitation.role,
+    email: invitation.email,
+    studentRecordId: invitation.studentRecordId || null,
+    createdBy: invitation.createdBy,
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+    usedAt: invitation.usedAt,
+    revokedAt: invitation.revokedAt
+  };
+}
\ No newline at end of file
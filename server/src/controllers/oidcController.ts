@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { issueTokens, signTwoFactorChallenge, TWO_FACTOR_CHALLENGE_TTL } from '../utils/tokenService';
+import { isTwoFactorRequired } from '../utils/twoFactor';
+import { beginOidcLogin, completeOidcLogin, getOidcConfig, resolveOidcUser } from '../utils/oidc';
+
+const LOGIN_NONCE_COOKIE = 'campuscore_oidc_login';
+
+export const startOidcLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ error: 'Single sign-on is not configured' });
+      return;
+    }
+
+    const { authorizationUrl, state, loginNonce } = await beginOidcLogin(config);
+
+    // Lax so the cookie survives the top-level redirect back from the provider
+    res.cookie(LOGIN_NONCE_COOKIE, loginNonce, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      path: `${req.baseUrl}/oidc`
+    });
+
+    // Browsers can be sent straight to the provider and bring the cookie back; API clients get
+    // the URL to open themselves and send the login nonce with the callback parameters
+    if (req.query.redirect === 'true') {
+      res.redirect(authorizationUrl);
+      return;
+    }
+
+    res.json({
+      success: true,
+      authorizationUrl,
+      state,
+      loginNonce
+    });
+
+  } catch (error: any) {
+    console.error('Error starting OIDC login:', error);
+    res.status(502).json({
+      error: 'Failed to reach the identity provider',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ error: 'Single sign-on is not configured' });
+      return;
+    }
+
+    const params = { ...req.query, ...(req.body || {}) };
+    const { code, state, error, error_description: errorDescription } = params;
+    const loginNonce = readCookie(req, LOGIN_NONCE_COOKIE) || params.loginNonce;
+    res.clearCookie(LOGIN_NONCE_COOKIE, { path: `${req.baseUrl}/oidc` });
+
+    if (error) {
+      res.status(401).json({
+        error: 'Sign-in was not completed at the identity provider',
+        providerError: String(error),
+        ...(errorDescription && { providerErrorDescription: String(errorDescription) })
+      });
+      return;
+    }
+
+    if (!code || !state) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['code', 'state']
+      });
+      return;
+    }
+
+    if (!loginNonce) {
+      res.status(400).json({
+        error: 'This sign-in was not started by this client. Start the sign-in again.'
+      });
+      return;
+    }
+
+    const login = await completeOidcLogin(config, String(code), String(state), String(loginNonce));
+    if (!login.ok) {
+      res.status(login.status).json(login.body);
+      return;
+    }
+
+    const resolved = await resolveOidcUser(config, login.claims);
+    if (!resolved.ok) {
+      res.status(resolved.status).json(resolved.body);
+      return;
+    }
+
+    const { user, provisioned } = resolved;
+    if (user.disabled) {
+      res.status(403).json({ 
+        error: 'Account has been disabled. Contact an administrator.' 
+      });
+      return;
+    }
+
+    if (provisioned) {
+      console.log('User provisioned through single sign-on:', {
+        userId: String(user._id),
+        username: user.username,
+        role: user.role,
+        subject: user.oidc?.subject,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Same second step as a password login, finished through the same endpoints, unless the
+    // deployment has declared that the identity provider enforces MFA (OIDC_TRUST_IDP_MFA)
+    if (!config.trustIdpMfa) {
+      if (user.twoFactor?.enabled) {
+        res.json({
+          success: true,
+          message: 'Signed in at the identity provider. Enter the code from your authenticator app to continue.',
+          twoFactorRequired: true,
+          challengeToken: signTwoFactorChallenge(user, 'verify'),
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL
+        });
+        return;
+      }
+
+      if (await isTwoFactorRequired(user)) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication is required for your role. Set it up to continue.',
+          twoFactorSetupRequired: true,
+          challengeToken: signTwoFactorChallenge(user, 'setup'),
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL
+        });
+        return;
+      }
+    }
+
+    const tokens = await issueTokens(user, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.json({
+      success: true,
+      message: provisioned ? 'Account created and signed in through single sign-on' : 'Login successful',
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+      user: {
+        id: user._id,
+        username: user.username,
+        role: user.role,
+        ...(user.studentId && { studentId: user.studentId })
+      }
+    });
+
+  } catch (error: any) {
+    console.error('OIDC login error:', error);
+
+    if (error.isAxiosError) {
+      res.status(502).json({ error: 'Failed to reach the identity provider' });
+      return;
+    }
+
+    if (error.code === 11000) {
+      res.status(409).json({ error: 'An account with this username or email already exists' });
+      return;
+    }
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Login failed' });
+  }
+};
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
\ No newline at end of file
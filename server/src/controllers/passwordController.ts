@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import User from '../models/User';
+import Session from '../models/Session';
+import PasswordResetToken from '../models/PasswordResetToken';
+import { hashToken } from '../utils/tokenService';
+import { sendMail } from '../utils/mailer';
+import { buildPasswordHistory, validatePassword } from '../utils/passwordPolicy';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+    sessionId?: string;
+  };
+}
+
+const RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+const FORGOT_PASSWORD_RESPONSE = {
+  success: true,
+  message: 'If an account with a registered email exists, a password reset link has been sent.'
+};
+
+export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['currentPassword', 'newPassword']
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!isValidPassword) {
+      res.status(401).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      res.status(400).json({ error: 'New password must be different from the current password' });
+      return;
+    }
+
+    const passwordCheck = await validatePassword(newPassword, {
+      username: user.username,
+      email: user.email,
+      history: user.passwordHistory
+    });
+    if (!passwordCheck.ok) {
+      res.status(passwordCheck.status).json(passwordCheck.body);
+      return;
+    }
+
+    user.passwordHistory = await buildPasswordHistory(user.password, user.passwordHistory);
+    user.password = await bcrypt.hash(newPassword, 12);
+    await user.save();
+
+    // Keep the caller signed in but end every other session
+    const revokedSessions = await Session.revokeAllForUser(
+      String(user._id),
+      'password_changed',
+      req.user!.sessionId
+    );
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+      revokedSessions
+    });
+
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { identifier } = req.body;
+
+    if (!identifier || typeof identifier !== 'string') {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['identifier'],
+        message: 'Provide your username or email address'
+      });
+      return;
+    }
+
+    const normalized = identifier.toLowerCase().trim();
+    const user = await User.findOne({ $or: [{ username: normalized }, { email: normalized }] });
+
+    // Same response whether or not the account exists, so the endpoint cannot be used to enumerate users
+    if (!user || !user.email) {
+      res.json(FORGOT_PASSWORD_RESPONSE);
+      return;
+    }
+
+    // Only the most recent link is valid
+    await PasswordResetToken.deleteMany({ userId: user._id, usedAt: null });
+
+    const rawToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await PasswordResetToken.create({
+      userId: user._id,
+      tokenHash: hashToken(rawToken),
+      expiresAt,
+      requestedIp: req.ip
+    });
+
+    const resetUrl = `${process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password'}?token=${rawToken}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Campus Core password reset',
+      text: [
+        `Hello ${user.username},`,
+        '',
+        'We received a request to reset your Campus Core password.',
+        `Use the link below within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new password:`,
+        '',
+        resetUrl,
+        '',
+        'If you did not request this, you can ignore this email.'
+      ].join('\n')
+    });
+
+    res.json(FORGOT_PASSWORD_RESPONSE);
+
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to process password reset request' });
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['token', 'newPassword']
+      });
+      return;
+    }
+
+    const tokenFilter = { tokenHash: hashToken(String(token)), usedAt: null, expiresAt: { $gt: new Date() } };
+
+    // The policy needs the account (username, previous passwords), so look the token up first and
+    // only claim it once the new password is accepted; a refused password leaves the link usable
+    const pendingToken = await PasswordResetToken.findOne(tokenFilter);
+    const user = pendingToken && await User.findById(pendingToken.userId);
+    if (!user) {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    const passwordCheck = await validatePassword(newPassword, {
+      username: user.username,
+      email: user.email,
+      currentHash: user.password,
+      history: user.passwordHistory
+    });
+    if (!passwordCheck.ok) {
+      res.status(passwordCheck.status).json(passwordCheck.body);
+      return;
+    }
+
+    // Claim the token atomically so it cannot be redeemed twice
+    const resetToken = await PasswordResetToken.findOneAndUpdate(tokenFilter, { usedAt: new Date() });
+    if (!resetToken) {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    user.passwordHistory = await buildPasswordHistory(user.password, user.passwordHistory);
+    user.password = await bcrypt.hash(newPassword, 12);
+    // Proving control of the mailbox also lifts a lockout, which is often why the user reset
+    user.failedLoginAttempts = 0;
+    user.lastFailedLoginAt = null;
+    user.lockedUntil = null;
+    await user.save();
+
+    const revokedSessions = await Session.revokeAllForUser(String(user._id), 'password_reset');
+
+    console.log('Password reset completed:', {
+      userId: String(user._id),
+      revokedSessions,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Password has been reset. Please login with your new password.'
+    });
+
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,295 @@
+import { Request, Response } from 'express';
+import Role, { IRole } from '../models/Role';
+import User from '../models/User';
+import Invitation from '../models/Invitation';
+import SecurityPolicy from '../models/SecurityPolicy';
+import { ALL_PERMISSIONS, BUILT_IN_ROLES, isBuiltInRole, isPermission, Permission, PERMISSIONS } from '../config/permissions';
+import { getCallerPermissions, invalidateRolePermissions } from '../utils/permissions';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+export const listPermissions = async (req: AuthRequest, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    permissions: ALL_PERMISSIONS.map(name => ({ name, description: PERMISSIONS[name] }))
+  });
+};
+
+export const listRoles = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const roles = await Role.find().sort({ name: 1 });
+
+    res.json({
+      success: true,
+      message: 'Roles retrieved successfully',
+      count: roles.length,
+      roles: roles.map(formatRole)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching roles:', error);
+    res.status(500).json({
+      error: 'Failed to fetch roles',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const role = await findRole(req.params.name, res);
+    if (!role) return;
+
+    res.json({
+      success: true,
+      role: formatRole(role)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching role:', error);
+    res.status(500).json({
+      error: 'Failed to fetch role',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const createRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, description, permissions } = req.body;
+
+    if (!name || !Array.isArray(permissions)) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['name', 'permissions']
+      });
+      return;
+    }
+
+    const normalizedName = String(name).toLowerCase().trim();
+    if (isBuiltInRole(normalizedName) || await Role.exists({ name: normalizedName })) {
+      res.status(409).json({ error: `Role ${normalizedName} already exists` });
+      return;
+    }
+
+    const checked = await checkPermissions(req, permissions, res);
+    if (!checked) return;
+
+    const role = await Role.create({
+      name: normalizedName,
+      description,
+      permissions: checked
+    });
+
+    invalidateRolePermissions(role.name);
+
+    console.log(`Role created by admin ${req.user?.userId}:`, {
+      role: role.name,
+      permissions: role.permissions,
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      role: formatRole(role)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating role:', error);
+    handleRoleWriteError(error, res, 'Failed to create role');
+  }
+};
+
+export const updateRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { description, permissions } = req.body;
+
+    if (description === undefined && permissions === undefined) {
+      res.status(400).json({
+        error: 'No updatable fields provided',
+        allowedFields: ['description', 'permissions']
+      });
+      return;
+    }
+
+    const role = await findRole(req.params.name, res);
+    if (!role) return;
+
+    if (role.name === req.user?.role) {
+      res.status(400).json({ error: 'You cannot change the role you are signed in with' });
+      return;
+    }
+
+    if (permissions !== undefined) {
+      if (role.name === 'admin') {
+        res.status(400).json({ error: 'The admin role always has every permission' });
+        return;
+      }
+
+      if (!Array.isArray(permissions)) {
+        res.status(400).json({ error: 'permissions must be an array' });
+        return;
+      }
+
+      const checked = await checkPermissions(req, permissions, res);
+      if (!checked) return;
+
+      role.permissions = checked;
+    }
+
+    if (description !== undefined) {
+      role.description = description;
+    }
+
+    await role.save();
+    invalidateRolePermissions(role.name);
+
+    console.log(`Role updated by admin ${req.user?.userId}:`, {
+      role: role.name,
+      permissions: role.permissions,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Role updated successfully',
+      role: formatRole(role)
+    });
+
+  } catch (error: any) {
+    console.error('Error updating role:', error);
+    handleRoleWriteError(error, res, 'Failed to update role');
+  }
+};
+
+export const deleteRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const role = await findRole(req.params.name, res);
+    if (!role) return;
+
+    if (role.isBuiltIn || isBuiltInRole(role.name)) {
+      res.status(400).json({ error: 'Built-in roles cannot be deleted' });
+      return;
+    }
+
+    const assignedUsers = await User.countDocuments({ role: role.name });
+    if (assignedUsers > 0) {
+      res.status(409).json({
+        error: 'Role is assigned to users',
+        message: 'Move these users to another role first',
+        assignedUsers
+      });
+      return;
+    }
+
+    const pendingInvitation = await Invitation.exists({
+      role: role.name,
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    });
+    if (pendingInvitation) {
+      res.status(409).json({
+        error: 'Role has pending invitations',
+        message: 'Revoke the pending invitations for this role first'
+      });
+      return;
+    }
+
+    await Role.deleteOne({ _id: role._id });
+    await SecurityPolicy.updateOne({}, { $pull: { twoFactorRequiredRoles: role.name } });
+    invalidateRolePermissions(role.name);
+
+    console.log(`Role deleted by admin ${req.user?.userId}:`, {
+      role: role.name,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `Role ${role.name} deleted successfully`
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting role:', error);
+    res.status(500).json({
+      error: 'Failed to delete role',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findRole(name: string, res: Response) {
+  const role = await Role.findOne({ name: String(name).toLowerCase() });
+  if (!role) {
+    res.status(404).json({ error: 'Role not found' });
+    return null;
+  }
+
+  return role;
+}
+
+// Rejects unknown permissions, and permissions the caller does not hold, so managing roles
+// cannot be used to obtain more access than the caller already has
+async function checkPermissions(req: AuthRequest, permissions: unknown[], res: Response): Promise<Permission[] | null> {
+  const unknownPermissions = permissions.filter(permission => !isPermission(permission));
+  if (unknownPermissions.length > 0) {
+    res.status(400).json({
+      error: 'Unknown permissions',
+      unknownPermissions,
+      availablePermissions: ALL_PERMISSIONS
+    });
+    return null;
+  }
+
+  const held = await getCallerPermissions(req);
+  const requested = [...new Set(permissions as Permission[])];
+  const notHeld = requested.filter(permission => !held.includes(permission));
+  if (notHeld.length > 0) {
+    res.status(403).json({
+      error: 'You cannot grant permissions you do not hold',
+      permissions: notHeld
+    });
+    return null;
+  }
+
+  return requested;
+}
+
+function formatRole(role: IRole) {
+  return {
+    name: role.name,
+    description: role.description || BUILT_IN_ROLES[role.name]?.description || null,
+    permissions: role.name === 'admin' ? ALL_PERMISSIONS : role.permissions,
+    isBuiltIn: !!role.isBuiltIn || isBuiltInRole(role.name),
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt
+  };
+}
+
+function handleRoleWriteError(error: any, res: Response, fallbackError: string): void {
+  if (error.code === 11000) {
+    res.status(409).json({ error: 'Role already exists' });
+    return;
+  }
+
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackError,
+    message: 'An internal server error occurred'
+  });
+}
\ No newline at end of file
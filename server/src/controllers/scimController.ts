@@ -0,0 +1,499 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import mongoose, { FilterQuery } from 'mongoose';
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
+import GuardianLink from '../models/GuardianLink';
+import { checkStudentBinding } from '../utils/userProvisioning';
+import { roleExists } from '../utils/permissions';
+import { PasswordViolation, validatePassword } from '../utils/passwordPolicy';
+import {
+  formatScimGroup,
+  formatScimUser,
+  getScimDefaultRole,
+  getScimRoles,
+  listResponse,
+  parseListParams,
+  parseScimFilter,
+  readScimGroupPatch,
+  readScimUser,
+  readScimUserPatch,
+  ScimUserChanges,
+  SCIM_MAX_RESULTS,
+  SCIM_SCHEMAS,
+  sendScim,
+  sendScimError
+} from '../utils/scim';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  apiKey?: {
+    id: string;
+    prefix: string;
+    name: string;
+  };
+}
+
+// A user with changes applied but not yet saved, and the state its sessions are compared against
+interface StagedUser {
+  user: IUser;
+  previousRole: string;
+  wasDisabled: boolean;
+}
+
+export const getServiceProviderConfig = async (req: AuthRequest, res: Response): Promise<void> => {
+  sendScim(res, 200, {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'API key',
+      description: 'An API key with the scim:provision permission, sent as a bearer token',
+      primary: true
+    }]
+  });
+};
+
+export const listScimUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter = parseScimFilter(req.query.filter, ['userName', 'externalId']);
+    if (!filter.ok) {
+      sendScimError(res, 400, filter.detail, filter.scimType);
+      return;
+    }
+
+    const query: FilterQuery<IUser> = { role: { $in: getScimRoles() } };
+    if (filter.value?.attribute === 'userName') query.username = filter.value.value.toLowerCase().trim();
+    if (filter.value?.attribute === 'externalId') query.externalId = filter.value.value;
+
+    const { startIndex, count } = parseListParams(req.query);
+    const [users, total] = await Promise.all([
+      count > 0 ? User.find(query).sort({ createdAt: 1 }).skip(startIndex - 1).limit(count) : Promise.resolve([]),
+      User.countDocuments(query)
+    ]);
+
+    const base = scimBaseUrl(req);
+    sendScim(res, 200, listResponse(users.map(user => formatScimUser(user, base)), total, startIndex));
+
+  } catch (error) {
+    console.error('Error listing SCIM users:', error);
+    sendScimError(res, 500, 'Failed to list users');
+  }
+};
+
+export const getScimUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await findScimUser(req.params.id, res);
+    if (!user) return;
+
+    sendScim(res, 200, formatScimUser(user, scimBaseUrl(req)));
+
+  } catch (error) {
+    console.error('Error fetching SCIM user:', error);
+    sendScimError(res, 500, 'Failed to fetch user');
+  }
+};
+
+export const createScimUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = readScimUser(req.body);
+    if (!parsed.ok) {
+      sendScimError(res, 400, parsed.detail, parsed.scimType);
+      return;
+    }
+
+    const changes = parsed.value;
+    if (!changes.userName) {
+      sendScimError(res, 400, 'userName is required', 'invalidValue');
+      return;
+    }
+
+    const username = changes.userName.toLowerCase().trim();
+    if (await User.exists({ username })) {
+      sendScimError(res, 409, `User ${username} already exists`, 'uniqueness');
+      return;
+    }
+
+    const role = changes.role || getScimDefaultRole();
+    const roleError = await checkRoleAssignment(role, changes.studentId ?? undefined);
+    if (roleError) {
+      sendScimError(res, 400, roleError, 'invalidValue');
+      return;
+    }
+
+    if (role === 'student') {
+      const binding = await checkStudentBinding(String(changes.studentId));
+      if (!binding.ok) {
+        sendScimError(res, binding.status, String(binding.body.error), binding.status === 409 ? 'uniqueness' : 'invalidValue');
+        return;
+      }
+    }
+
+    if (changes.password !== undefined) {
+      const passwordCheck = await validatePassword(changes.password, { username, email: changes.email });
+      if (!passwordCheck.ok) {
+        const violations = passwordCheck.body.violations as PasswordViolation[];
+        sendScimError(res, 400, violations.map(violation => violation.message).join('; '), 'invalidValue');
+        return;
+      }
+    }
+
+    // Provisioned staff usually sign in through single sign-on; without a password the local
+    // one is random until the user resets it
+    const password = changes.password || crypto.randomBytes(32).toString('base64url');
+
+    const user = await User.create({
+      username,
+      password: await bcrypt.hash(password, 12),
+      role,
+      ...(role === 'student' && { studentId: changes.studentId }),
+      ...(changes.email && { email: changes.email }),
+      ...(changes.externalId && { externalId: changes.externalId }),
+      ...(changes.active === false && {
+        disabled: true,
+        disabledAt: new Date(),
+        disabledReason: 'Deactivated through SCIM'
+      })
+    });
+
+    console.log(`User provisioned through SCIM by API key ${req.apiKey?.prefix}:`, {
+      userId: String(user._id),
+      username: user.username,
+      role: user.role,
+      timestamp: new Date().toISOString()
+    });
+
+    const base = scimBaseUrl(req);
+    res.location(`${base}/Users/${user._id}`);
+    sendScim(res, 201, formatScimUser(user, base));
+
+  } catch (error) {
+    console.error('Error creating SCIM user:', error);
+    handleScimWriteError(error, res, 'Failed to create user');
+  }
+};
+
+export const patchScimUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = readScimUserPatch(req.body?.Operations);
+    if (!parsed.ok) {
+      sendScimError(res, 400, parsed.detail, parsed.scimType);
+      return;
+    }
+
+    const user = await findScimUser(req.params.id, res);
+    if (!user) return;
+
+    const applied = await applyUserChanges(user, parsed.value, res);
+    if (!applied) return;
+
+    console.log(`User updated through SCIM by API key ${req.apiKey?.prefix}:`, {
+      userId: String(user._id),
+      username: user.username,
+      role: user.role,
+      active: !user.disabled,
+      timestamp: new Date().toISOString()
+    });
+
+    sendScim(res, 200, formatScimUser(user, scimBaseUrl(req)));
+
+  } catch (error) {
+    console.error('Error updating SCIM user:', error);
+    handleScimWriteError(error, res, 'Failed to update user');
+  }
+};
+
+export const listScimGroups = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filter = parseScimFilter(req.query.filter, ['displayName']);
+    if (!filter.ok) {
+      sendScimError(res, 400, filter.detail, filter.scimType);
+      return;
+    }
+
+    const roles = (await listScimRoles())
+      .filter(role => !filter.value || role === filter.value.value.toLowerCase());
+    const { startIndex, count } = parseListParams(req.query);
+    const page = roles.slice(startIndex - 1, startIndex - 1 + count);
+
+    const base = scimBaseUrl(req);
+    const includeMembers = !excludesMembers(req);
+    const groups = await Promise.all(page.map(async role => (
+      formatScimGroup(role, includeMembers ? await User.find({ role }).sort({ username: 1 }) : null, base)
+    )));
+
+    sendScim(res, 200, listResponse(groups, roles.length, startIndex));
+
+  } catch (error) {
+    console.error('Error listing SCIM groups:', error);
+    sendScimError(res, 500, 'Failed to list groups');
+  }
+};
+
+export const getScimGroup = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const role = await findScimGroup(req.params.id, res);
+    if (!role) return;
+
+    const members = excludesMembers(req) ? null : await User.find({ role }).sort({ username: 1 });
+    sendScim(res, 200, formatScimGroup(role, members, scimBaseUrl(req)));
+
+  } catch (error) {
+    console.error('Error fetching SCIM group:', error);
+    sendScimError(res, 500, 'Failed to fetch group');
+  }
+};
+
+// Adding a member moves the user into this role. Removing a member moves them to the default
+// role, unless they have already been moved to another group (the usual order when a client
+// transfers someone between groups).
+export const patchScimGroup = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = readScimGroupPatch(req.body?.Operations);
+    if (!parsed.ok) {
+      sendScimError(res, 400, parsed.detail, parsed.scimType);
+      return;
+    }
+
+    const role = await findScimGroup(req.params.id, res);
+    if (!role) return;
+
+    const changes = parsed.value;
+    const removals = [...changes.remove];
+    if (changes.replace) {
+      const current = await User.find({ role }, '_id');
+      removals.push(...current.map(user => String(user._id)).filter(id => !changes.replace!.includes(id)));
+    }
+    const additions = [...changes.add, ...(changes.replace || [])];
+
+    // Every member is checked before any is saved, so a refused member leaves the group unchanged
+    const staged = new Map<string, StagedUser>();
+    const stage = async (user: IUser, changes: ScimUserChanges): Promise<boolean> => {
+      const id = String(user._id);
+      if (!staged.has(id)) staged.set(id, { user, previousRole: user.role, wasDisabled: !!user.disabled });
+      return prepareUserChanges(user, changes, res);
+    };
+
+    for (const memberId of additions) {
+      const user = staged.get(memberId)?.user || await findScimUser(memberId, res);
+      if (!user) return;
+      if (!(await stage(user, { role }))) return;
+    }
+
+    const defaultRole = getScimDefaultRole();
+    for (const memberId of removals) {
+      if (!mongoose.Types.ObjectId.isValid(memberId)) continue;
+      const user = staged.get(memberId)?.user || await User.findById(memberId);
+      if (!user || user.role !== role || role === defaultRole) continue;
+      if (!(await stage(user, { role: defaultRole }))) return;
+    }
+
+    if (await removesEveryActiveAdmin([...staged.values()])) {
+      sendScimError(res, 409, 'Cannot remove the admin role from the last active admin', 'mutability');
+      return;
+    }
+
+    for (const { user } of staged.values()) {
+      await user.validate();
+    }
+    for (const { user, previousRole, wasDisabled } of staged.values()) {
+      await saveUserChanges(user, previousRole, wasDisabled);
+    }
+
+    console.log(`Group membership updated through SCIM by API key ${req.apiKey?.prefix}:`, {
+      role,
+      added: additions,
+      removed: removals,
+      timestamp: new Date().toISOString()
+    });
+
+    if (excludesMembers(req)) {
+      res.status(204).end();
+      return;
+    }
+
+    const members = await User.find({ role }).sort({ username: 1 });
+    sendScim(res, 200, formatScimGroup(role, members, scimBaseUrl(req)));
+
+  } catch (error) {
+    console.error('Error updating SCIM group:', error);
+    handleScimWriteError(error, res, 'Failed to update group');
+  }
+};
+
+function scimBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+}
+
+function excludesMembers(req: Request): boolean {
+  return String(req.query.excludedAttributes || '').split(',').map(name => name.trim()).includes('members');
+}
+
+async function listScimRoles(): Promise<string[]> {
+  const roles = await Promise.all(getScimRoles().map(async role => (await roleExists(role)) ? role : null));
+  return roles.filter((role): role is string => role !== null);
+}
+
+// Users in roles SCIM does not manage are reported as missing rather than exposed to the key
+async function findScimUser(id: string, res: Response): Promise<IUser | null> {
+  const user = mongoose.Types.ObjectId.isValid(id) ? await User.findById(id) : null;
+  if (!user || !getScimRoles().includes(user.role)) {
+    sendScimError(res, 404, `User ${id} not found`);
+    return null;
+  }
+
+  return user;
+}
+
+async function findScimGroup(id: string, res: Response): Promise<string | null> {
+  const role = String(id).toLowerCase();
+  if (!getScimRoles().includes(role) || !(await roleExists(role))) {
+    sendScimError(res, 404, `Group ${id} not found`);
+    return null;
+  }
+
+  return role;
+}
+
+// Returns an error message, or null when the role may be given through SCIM
+async function checkRoleAssignment(role: string, studentId: string | undefined): Promise<string | null> {
+  if (!getScimRoles().includes(role) || !(await roleExists(role))) {
+    return `Role ${role} cannot be provisioned through SCIM`;
+  }
+
+  if (role === 'student' && !studentId) {
+    return `Students need a student ID in ${SCIM_SCHEMAS.enterpriseUser}:employeeNumber`;
+  }
+
+  return null;
+}
+
+// Keeps at least one admin able to sign in, so the system cannot be locked out of administration
+async function isLastActiveAdmin(user: IUser): Promise<boolean> {
+  if (user.role !== 'admin' || user.disabled) return false;
+
+  const activeAdmins = await User.countDocuments({ role: 'admin', disabled: { $ne: true } });
+  return activeAdmins <= 1;
+}
+
+// Checks several staged users together: per-user checks only see the saved state, so demoting
+// every active admin in one request would pass them one by one
+async function removesEveryActiveAdmin(staged: StagedUser[]): Promise<boolean> {
+  const isActiveAdmin = (role: string, disabled: boolean) => role === 'admin' && !disabled;
+  if (!staged.some(({ previousRole, wasDisabled }) => isActiveAdmin(previousRole, wasDisabled))) return false;
+
+  const otherActiveAdmins = await User.countDocuments({
+    role: 'admin',
+    disabled: { $ne: true },
+    _id: { $nin: staged.map(({ user }) => user._id) }
+  });
+  return otherActiveAdmins === 0 && !staged.some(({ user }) => isActiveAdmin(user.role, !!user.disabled));
+}
+
+// Validates and applies every change before saving, then ends sessions when the user's access
+// changed. Sends the SCIM error and returns false when a change is refused.
+async function applyUserChanges(user: IUser, changes: ScimUserChanges, res: Response): Promise<boolean> {
+  const previousRole = user.role;
+  const wasDisabled = !!user.disabled;
+
+  if (!(await prepareUserChanges(user, changes, res))) return false;
+
+  await saveUserChanges(user, previousRole, wasDisabled);
+  return true;
+}
+
+// Applies the changes to the document without saving it. Sends the SCIM error and returns false
+// when a change is refused.
+async function prepareUserChanges(user: IUser, changes: ScimUserChanges, res: Response): Promise<boolean> {
+  if (changes.password !== undefined) {
+    sendScimError(res, 400, 'Passwords cannot be changed through SCIM', 'mutability');
+    return false;
+  }
+
+  if (changes.role && changes.role !== user.role) {
+    const studentId = changes.studentId ?? user.studentId;
+    const roleError = await checkRoleAssignment(changes.role, studentId ?? undefined);
+    if (roleError) {
+      sendScimError(res, 400, roleError, 'invalidValue');
+      return false;
+    }
+
+    if (await isLastActiveAdmin(user)) {
+      sendScimError(res, 409, 'Cannot remove the admin role from the last active admin', 'mutability');
+      return false;
+    }
+
+    user.role = changes.role;
+  }
+
+  if (user.role === 'student' && changes.studentId && changes.studentId !== user.studentId) {
+    const binding = await checkStudentBinding(changes.studentId, String(user._id));
+    if (!binding.ok) {
+      sendScimError(res, binding.status, String(binding.body.error), binding.status === 409 ? 'uniqueness' : 'invalidValue');
+      return false;
+    }
+    user.studentId = changes.studentId;
+  }
+
+  if (changes.active === false && !user.disabled) {
+    if (await isLastActiveAdmin(user)) {
+      sendScimError(res, 409, 'Cannot deactivate the last active admin', 'mutability');
+      return false;
+    }
+    user.disabled = true;
+    user.disabledAt = new Date();
+    user.disabledReason = 'Deactivated through SCIM';
+  } else if (changes.active === true && user.disabled) {
+    user.disabled = false;
+    user.disabledAt = null;
+    user.disabledReason = null;
+  }
+
+  if (changes.userName !== undefined) user.username = changes.userName.toLowerCase().trim();
+  if (changes.email !== undefined) user.email = changes.email ? changes.email.toLowerCase().trim() : undefined;
+  if (changes.externalId !== undefined) user.externalId = changes.externalId;
+
+  return true;
+}
+
+async function saveUserChanges(user: IUser, previousRole: string, wasDisabled: boolean): Promise<void> {
+  await user.save();
+
+  if (user.role !== previousRole || (user.disabled && !wasDisabled)) {
+    await Session.revokeAllForUser(String(user._id), user.disabled && !wasDisabled ? 'account_disabled' : 'role_changed');
+  }
+
+  // Guardian links only make sense for guardian accounts
+  if (previousRole === 'guardian' && user.role !== 'guardian') {
+    await GuardianLink.deleteMany({ guardian: user._id });
+  }
+}
+
+function handleScimWriteError(error: unknown, res: Response, fallbackError: string): void {
+  if (isMongoServerError(error) && error.code === 11000) {
+    const field = Object.keys(error.keyPattern || {})[0];
+    sendScimError(res, 409, `${field} already exists`, 'uniqueness');
+    return;
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    const errors = Object.values(error.errors).map(err => err.message);
+    sendScimError(res, 400, errors.join('; '), 'invalidValue');
+    return;
+  }
+
+  sendScimError(res, 500, fallbackError);
+}
+
+function isMongoServerError(error: unknown): error is mongoose.mongo.MongoServerError {
+  return error instanceof mongoose.mongo.MongoServerError;
+}
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import User from '../models/User';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+    sessionId?: string;
+  };
+}
+
+export const getMySessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await Session.findActiveForUser(req.user!.userId);
+
+    res.json({
+      success: true,
+      message: 'Active sessions retrieved successfully',
+      count: sessions.length,
+      sessions: sessions.map(session => formatSession(session, req.user!.sessionId))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch sessions',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const terminateMySession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      res.status(400).json({ error: 'Invalid session ID format' });
+      return;
+    }
+
+    // Scoped to the caller so one user cannot probe or end another user's sessions
+    const session = await Session.findOne({ _id: sessionId, userId: req.user!.userId, revokedAt: null });
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    await Session.revoke(sessionId, 'user_terminated');
+
+    res.json({
+      success: true,
+      message: 'Session terminated successfully',
+      terminatedSessionId: sessionId,
+      wasCurrentSession: sessionId === req.user!.sessionId
+    });
+
+  } catch (error: any) {
+    console.error('Error terminating session:', error);
+    res.status(500).json({
+      error: 'Failed to terminate session',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const terminateMyOtherSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const terminated = await Session.revokeAllForUser(
+      req.user!.userId,
+      'user_terminated',
+      req.user!.sessionId
+    );
+
+    res.json({
+      success: true,
+      message: 'All other sessions terminated successfully',
+      terminatedCount: terminated
+    });
+
+  } catch (error: any) {
+    console.error('Error terminating other sessions:', error);
+    res.status(500).json({
+      error: 'Failed to terminate sessions',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getUserSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    const sessions = await Session.findActiveForUser(userId);
+
+    res.json({
+      success: true,
+      message: 'Active sessions retrieved successfully',
+      user: {
+        id: user._id,
+        username: user.username,
+        role: user.role
+      },
+      count: sessions.length,
+      sessions: sessions.map(session => formatSession(session))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch user sessions',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const terminateUserSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    const terminated = await Session.revokeAllForUser(userId, 'admin_terminated');
+
+    console.log(`All sessions terminated by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      terminatedCount: terminated,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `All sessions for ${user.username} terminated successfully`,
+      terminatedCount: terminated
+    });
+
+  } catch (error: any) {
+    console.error('Error terminating user sessions:', error);
+    res.status(500).json({
+      error: 'Failed to terminate user sessions',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findUser(userId: string, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    res.status(400).json({ error: 'Invalid user ID format' });
+    return null;
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  return user;
+}
+
+function formatSession(session: ISession, currentSessionId?: string) {
+  return {
+    id: session._id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    issuedAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    ...(currentSessionId !== undefined && { isCurrent: String(session._id) === currentSessionId })
+  };
+}
\ No newline at end of file
@@ -1,14 +1,27 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import Student from '../models/Student';
+import { issueInvitation } from '../utils/invitations';
+import { recordStudentChange } from '../utils/studentHistory';
+import { buildCursorFilter, encodeStudentCursor, parseStudentListQuery } from '../utils/studentQuery';
 
-export const addStudent = async (req: Request, res: Response): Promise<void> => {
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  studentScope?: string[];
+}
+
+export const addStudent = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { studentId, name, email, age, gradeLevel } = req.body;
+    const { studentId, name, email, age, gradeLevel, invite } = req.body;
 
-    if (!studentId || !name || !email || !age || !gradeLevel) {
+    if (!name || !email || !age || !gradeLevel) {
       res.status(400).json({
         error: 'Missing required fields',
-        required: ['studentId', 'name', 'email', 'age', 'gradeLevel']
+        required: ['name', 'email', 'age', 'gradeLevel'],
+        optional: ['studentId', 'invite']
       });
       return;
     }
@@ -19,14 +32,17 @@ export const addStudent = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const existingStudentId = await Student.findOne({ studentId: studentId.trim() });
-    if (existingStudentId) {
-      res.status(409).json({ error: 'Student ID already exists' });
-      return;
+    // Without an explicit (e.g. pre-reserved) studentId the model allocates the next sequential one
+    if (studentId) {
+      const existingStudentId = await Student.findOne({ studentId: studentId.trim() });
+      if (existingStudentId) {
+        res.status(409).json({ error: 'Student ID already exists' });
+        return;
+      }
     }
 
     const newStudent = new Student({
-      studentId: studentId.trim(),
+      ...(studentId && { studentId: studentId.trim() }),
       name: name.trim(),
       email: email.toLowerCase().trim(),
       age: Number(age),
@@ -34,6 +50,30 @@ export const addStudent = async (req: Request, res: Response): Promise<void> =>
     });
 
     await newStudent.save();
+    await recordStudentChange(null, newStudent, 'created', req.user?.userId);
+
+    // Optionally invite the student to register an account bound to this record
+    if (invite === true || invite === 'true') {
+      const { invitation, inviteToken, registrationUrl } = await issueInvitation({
+        role: 'student',
+        createdBy: req.user!.userId,
+        email: newStudent.email,
+        studentRecordId: newStudent._id as mongoose.Types.ObjectId
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Student added successfully. Invitation sent to ${newStudent.email}`,
+        student: newStudent,
+        invitation: {
+          id: invitation._id,
+          inviteToken,
+          registrationUrl,
+          expiresAt: invitation.expiresAt
+        }
+      });
+      return;
+    }
 
     res.status(201).json({
       success: true,
@@ -47,10 +87,49 @@ export const addStudent = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-export const getAllStudents = async (req: Request, res: Response): Promise<void> => {
+// Supports search, gradeLevel/age filters, sorting, cursor pagination and field projection;
+// see utils/studentQuery for the accepted query parameters
+export const getAllStudents = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const students = await Student.find();
-    res.json({ students });
+    const parsed = parseStudentListQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
+    const query = parsed.query;
+    const filter = req.studentScope
+      ? { ...query.filter, _id: { $in: req.studentScope } }
+      : query.filter;
+    const cursorFilter = buildCursorFilter(query);
+    const pageFilter = cursorFilter ? { $and: [filter, cursorFilter] } : filter;
+
+    // One extra row tells whether another page follows without a second query
+    const [rows, total] = await Promise.all([
+      Student.find(pageFilter)
+        .select(query.projection || {})
+        .sort({ [query.sortField]: query.sortDirection, _id: query.sortDirection })
+        .limit(query.limit + 1)
+        .lean(),
+      Student.countDocuments(filter)
+    ]);
+
+    const hasMore = rows.length > query.limit;
+    const students = rows.slice(0, query.limit);
+    const last = students[students.length - 1] as Record<string, any> | undefined;
+    const sort = `${query.sortDirection === -1 ? '-' : ''}${query.sortField}`;
+
+    res.json({
+      students: query.hiddenSortField
+        ? students.map(({ [query.sortField]: _omitted, ...student }) => student)
+        : students,
+      pagination: {
+        limit: query.limit,
+        total,
+        hasMore,
+        nextCursor: hasMore && last ? encodeStudentCursor(sort, last[query.sortField], String(last._id)) : null
+      }
+    });
   } catch (error: any) {
     console.error('Error fetching students:', error);
     res.status(500).json({ error: 'Failed to fetch students' });
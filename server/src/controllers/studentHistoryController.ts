@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import { getStudentAsOf, listStudentHistory, parseHistoryQuery, PopulatedStudentHistory } from '../utils/studentHistory';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+  studentScope?: string[];
+}
+
+// Versions newest first, paged with ?limit and ?beforeVersion; with ?at=<date> the record as it
+// stood at that moment instead
+export const getStudentHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        error: 'Invalid student ID format'
+      });
+      return;
+    }
+
+    const parsed = parseHistoryQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
+    const student = await Student.findById(id);
+    if (!student) {
+      res.status(404).json({
+        error: 'Student not found'
+      });
+      return;
+    }
+
+    if (parsed.at) {
+      const asOf = await getStudentAsOf(student, parsed.at);
+      if (!asOf) {
+        res.status(404).json({
+          error: 'Student record did not exist at the requested time',
+          at: parsed.at.toISOString(),
+          createdAt: student.createdAt
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        id: student._id,
+        ...asOf
+      });
+      return;
+    }
+
+    const versions = await listStudentHistory(id, parsed.limit + 1, parsed.beforeVersion);
+    const hasMore = versions.length > parsed.limit;
+    const page = versions.slice(0, parsed.limit);
+
+    res.json({
+      success: true,
+      student: {
+        id: student._id,
+        studentId: student.studentId,
+        name: student.name
+      },
+      count: page.length,
+      history: page.map(formatVersion),
+      pagination: {
+        limit: parsed.limit,
+        hasMore,
+        nextBeforeVersion: hasMore ? page[page.length - 1].version : null
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching student history:', error);
+    res.status(500).json({
+      error: 'Failed to fetch student history',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+function formatVersion(version: PopulatedStudentHistory) {
+  const { changedBy } = version;
+
+  return {
+    version: version.version,
+    action: version.action,
+    changedAt: version.createdAt,
+    changedBy: changedBy
+      ? { id: changedBy._id, username: changedBy.username, role: changedBy.role }
+      : null,
+    changes: version.changes
+  };
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import {
+  previewNextStudentId,
+  allocateStudentIds,
+  MAX_RESERVATION_SIZE
+} from '../utils/studentIdGenerator';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+export const getNextStudentId = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const preview = await previewNextStudentId();
+
+    res.json({
+      success: true,
+      message: 'Next student ID preview generated',
+      nextStudentId: preview.studentId,
+      sequence: preview.sequence,
+      year: preview.year,
+      format: preview.format,
+      note: 'Preview only; the ID is not reserved and may be taken by a concurrent insert'
+    });
+
+  } catch (error: any) {
+    console.error('Error previewing next student ID:', error);
+    res.status(500).json({
+      error: 'Failed to preview next student ID',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const reserveStudentIds = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const count = Number(req.body.count);
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_RESERVATION_SIZE) {
+      res.status(400).json({
+        error: `Count must be an integer between 1 and ${MAX_RESERVATION_SIZE}`
+      });
+      return;
+    }
+
+    const studentIds = await allocateStudentIds(count);
+
+    console.log(`Student IDs reserved by admin ${req.user?.userId}:`, {
+      count,
+      first: studentIds[0],
+      last: studentIds[studentIds.length - 1],
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${count} student ID(s) reserved successfully`,
+      count,
+      studentIds
+    });
+
+  } catch (error: any) {
+    console.error('Error reserving student IDs:', error);
+    res.status(500).json({
+      error: 'Failed to reserve student IDs',
+      message: 'An internal server error occurred'
+    });
+  }
+};
\ No newline at end of file
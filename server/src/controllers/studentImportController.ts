@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { importStudents as applyStudentImport, readImportRows } from '../utils/studentImport';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+export const importStudents = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const isCsv = !!req.is(['text/csv', 'application/csv']);
+    const dryRun = req.query.dryRun === 'true' || (!isCsv && req.body?.dryRun === true);
+
+    const parsed = readImportRows(req.body, isCsv);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
+    const report = await applyStudentImport(parsed.rows, { dryRun, importedBy: req.user?.userId });
+
+    if (!dryRun) {
+      console.log(`Students imported by admin ${req.user?.userId}:`, {
+        ...report.summary,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.json({
+      success: true,
+      message: dryRun
+        ? 'Dry run complete. No changes were saved.'
+        : `Import complete: ${report.summary.created} created, ${report.summary.updated} updated, ${report.summary.skipped} skipped, ${report.summary.failed} failed`,
+      dryRun,
+      ...report
+    });
+
+  } catch (error: any) {
+    console.error('Error importing students:', error);
+    res.status(500).json({
+      error: 'Failed to import students',
+      message: 'An internal server error occurred'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,341 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Teacher, { ITeacher } from '../models/Teacher';
+import User from '../models/User';
+import Course from '../models/Course';
+import Student from '../models/Student';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+const UPDATABLE_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'department', 'hireDate', 'isActive'];
+
+export const createTeacher = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId, teacherId, firstName, lastName, email, phone, department, hireDate } = req.body;
+
+    if (!userId || !teacherId || !firstName || !lastName || !email) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['userId', 'teacherId', 'firstName', 'lastName', 'email']
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ error: 'Invalid user ID format' });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.role !== 'teacher') {
+      res.status(400).json({
+        error: 'Teacher profiles can only be linked to users with the teacher role',
+        userRole: user.role
+      });
+      return;
+    }
+
+    const existingProfile = await Teacher.findByUserId(userId);
+    if (existingProfile) {
+      res.status(409).json({ error: 'User already has a teacher profile' });
+      return;
+    }
+
+    const teacher = await Teacher.create({
+      userId,
+      teacherId,
+      firstName,
+      lastName,
+      email,
+      ...(phone && { phone }),
+      ...(department && { department }),
+      ...(hireDate && { hireDate })
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Teacher profile created successfully',
+      teacher: formatTeacher(teacher)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating teacher profile:', error);
+    handleTeacherWriteError(error, res, 'Failed to create teacher profile');
+  }
+};
+
+export const getTeachers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const department = req.query.department as string | undefined;
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const teachers = await Teacher.find({
+      ...(department && { department }),
+      ...(!includeInactive && { isActive: true })
+    }).sort({ lastName: 1, firstName: 1 });
+
+    res.json({
+      success: true,
+      message: 'Teachers retrieved successfully',
+      count: teachers.length,
+      teachers: teachers.map(formatTeacher)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching teachers:', error);
+    res.status(500).json({
+      error: 'Failed to fetch teachers',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getTeacherById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const teacher = await findTeacher(req.params.id, res);
+    if (!teacher) return;
+
+    res.json({
+      success: true,
+      teacher: formatTeacher(teacher)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching teacher:', error);
+    res.status(500).json({
+      error: 'Failed to fetch teacher',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const updateTeacher = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invalidFields = Object.keys(req.body).filter(field => !UPDATABLE_FIELDS.includes(field));
+    if (invalidFields.length > 0) {
+      res.status(400).json({
+        error: 'Invalid field(s)',
+        invalidFields,
+        allowedFields: UPDATABLE_FIELDS
+      });
+      return;
+    }
+
+    const teacher = await findTeacher(req.params.id, res);
+    if (!teacher) return;
+
+    teacher.set(req.body);
+    const updatedFields = teacher.modifiedPaths();
+    await teacher.save();
+
+    res.json({
+      success: true,
+      message: 'Teacher profile updated successfully',
+      teacher: formatTeacher(teacher),
+      updatedFields
+    });
+
+  } catch (error: any) {
+    console.error('Error updating teacher profile:', error);
+    handleTeacherWriteError(error, res, 'Failed to update teacher profile');
+  }
+};
+
+export const addCourseAssignment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { courseId, section, semester, academicYear } = req.body;
+
+    if (!courseId || !semester || !academicYear) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['courseId', 'semester', 'academicYear']
+      });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(courseId)) {
+      res.status(400).json({ error: 'Invalid course ID format' });
+      return;
+    }
+
+    const teacher = await findTeacher(req.params.id, res);
+    if (!teacher) return;
+
+    const course = await Course.findById(courseId);
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const normalizedSection = section ? String(section).trim() : null;
+    const duplicate = teacher.assignments.some(assignment =>
+      assignment.courseId.toString() === courseId &&
+      (assignment.section || null) === normalizedSection &&
+      assignment.semester === semester &&
+      assignment.academicYear === academicYear
+    );
+    if (duplicate) {
+      res.status(409).json({ error: 'Teacher is already assigned to this course section' });
+      return;
+    }
+
+    teacher.assignments.push({ courseId, section: normalizedSection, semester, academicYear });
+    await teacher.save();
+
+    console.log(`Course assigned to teacher by admin ${req.user?.userId}:`, {
+      teacherId: teacher.teacherId,
+      courseCode: course.code,
+      section: normalizedSection,
+      semester,
+      academicYear,
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Course assignment added successfully',
+      teacher: formatTeacher(teacher)
+    });
+
+  } catch (error: any) {
+    console.error('Error adding course assignment:', error);
+    handleTeacherWriteError(error, res, 'Failed to add course assignment');
+  }
+};
+
+export const removeCourseAssignment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { assignmentId } = req.params;
+
+    const teacher = await findTeacher(req.params.id, res);
+    if (!teacher) return;
+
+    const assignment = teacher.assignments.id(assignmentId);
+    if (!assignment) {
+      res.status(404).json({ error: 'Course assignment not found' });
+      return;
+    }
+
+    assignment.deleteOne();
+    await teacher.save();
+
+    res.json({
+      success: true,
+      message: 'Course assignment removed successfully',
+      teacher: formatTeacher(teacher)
+    });
+
+  } catch (error: any) {
+    console.error('Error removing course assignment:', error);
+    res.status(500).json({
+      error: 'Failed to remove course assignment',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getMyTeacherProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const teacher = await Teacher.findByUserId(req.user!.userId)
+      .populate('assignments.courseId', 'name code credits');
+
+    if (!teacher) {
+      res.status(404).json({ error: 'Teacher profile not found' });
+      return;
+    }
+
+    const studentIds = await teacher.getStudentIds();
+    const students = await Student.find({ _id: { $in: studentIds } }, 'name studentId gradeLevel')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      teacher: formatTeacher(teacher),
+      students: students.map(student => ({
+        id: student._id,
+        name: student.name,
+        studentId: student.studentId,
+        gradeLevel: student.gradeLevel
+      }))
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching teacher profile:', error);
+    res.status(500).json({
+      error: 'Failed to fetch teacher profile',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findTeacher(id: string, res: Response): Promise<ITeacher | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ error: 'Invalid teacher ID format' });
+    return null;
+  }
+
+  const teacher = await Teacher.findById(id);
+  if (!teacher) {
+    res.status(404).json({ error: 'Teacher not found' });
+    return null;
+  }
+
+  return teacher;
+}
+
+function handleTeacherWriteError(error: any, res: Response, message: string): void {
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  if (error.code === 11000) {
+    const field = Object.keys(error.keyPattern || {})[0];
+    res.status(409).json({
+      error: `Duplicate ${field}: This ${field} already exists`,
+      conflictField: field
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: message,
+    message: 'An internal server error occurred'
+  });
+}
+
+function formatTeacher(teacher: ITeacher) {
+  return {
+    id: teacher._id,
+    userId: teacher.userId,
+    teacherId: teacher.teacherId,
+    firstName: teacher.firstName,
+    lastName: teacher.lastName,
+    email: teacher.email,
+    phone: teacher.phone,
+    department: teacher.department,
+    hireDate: teacher.hireDate,
+    assignments: teacher.assignments.map(assignment => ({
+      id: assignment._id,
+      course: assignment.courseId,
+      section: assignment.section,
+      semester: assignment.semester,
+      academicYear: assignment.academicYear
+    })),
+    isActive: teacher.isActive
+  };
+}
\ No newline at end of file
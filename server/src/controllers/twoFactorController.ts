@@ -0,0 +1,274 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import User from '../models/User';
+import { issueTokens } from '../utils/tokenService';
+import {
+  canUseTwoFactor,
+  confirmTwoFactorSetup,
+  disableTwoFactor as clearTwoFactor,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes as replaceRecoveryCodes,
+  startTwoFactorSetup,
+  verifySecondFactor
+} from '../utils/twoFactor';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+    studentId?: string;
+    sessionId?: string;
+  };
+  twoFactorSetup?: boolean;
+}
+
+export const getTwoFactorStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await findCurrentUser(req, res);
+    if (!user) return;
+
+    res.json({
+      success: true,
+      twoFactor: {
+        available: canUseTwoFactor(user.role),
+        enabled: !!user.twoFactor?.enabled,
+        required: await isTwoFactorRequired(user),
+        enabledAt: user.twoFactor?.enabledAt || null,
+        recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length || 0
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({
+      error: 'Failed to fetch two-factor status',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const setupTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await findCurrentUser(req, res);
+    if (!user) return;
+
+    if (!canUseTwoFactor(user.role)) {
+      res.status(403).json({
+        error: 'Two-factor authentication is not available for student accounts',
+        userRole: user.role
+      });
+      return;
+    }
+
+    if (user.twoFactor?.enabled) {
+      res.status(409).json({
+        error: 'Two-factor authentication is already enabled',
+        message: 'Disable it first to enroll a new authenticator'
+      });
+      return;
+    }
+
+    const setup = await startTwoFactorSetup(user);
+
+    res.json({
+      success: true,
+      message: 'Scan the QR code (otpauthUrl) with your authenticator app, then confirm with a code',
+      secret: setup.secret,
+      otpauthUrl: setup.otpauthUrl
+    });
+
+  } catch (error: any) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({
+      error: 'Failed to start two-factor setup',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const enableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['code']
+      });
+      return;
+    }
+
+    const user = await findCurrentUser(req, res);
+    if (!user) return;
+
+    if (user.twoFactor?.enabled) {
+      res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      res.status(400).json({
+        error: 'No pending two-factor setup',
+        message: 'Start the setup first to receive a secret'
+      });
+      return;
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(user, String(code));
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    console.log('Two-factor authentication enabled:', {
+      userId: String(user._id),
+      role: user.role,
+      timestamp: new Date().toISOString()
+    });
+
+    const response: Record<string, unknown> = {
+      success: true,
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are shown only once.',
+      recoveryCodes
+    };
+
+    // Enrolling through the login setup challenge completes that login
+    if (req.twoFactorSetup) {
+      const tokens = await issueTokens(user, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+      Object.assign(response, {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: tokens.expiresIn,
+        user: {
+          id: user._id,
+          username: user.username,
+          role: user.role
+        }
+      });
+    }
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({
+      error: 'Failed to enable two-factor authentication',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password || (!code && !recoveryCode)) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['password', 'code or recoveryCode']
+      });
+      return;
+    }
+
+    const user = await findCurrentUser(req, res);
+    if (!user) return;
+
+    if (!user.twoFactor?.enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      res.status(403).json({
+        error: 'Two-factor authentication is required for your role and cannot be disabled',
+        userRole: user.role
+      });
+      return;
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      res.status(401).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      res.status(401).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    await clearTwoFactor(String(user._id));
+
+    console.log('Two-factor authentication disabled:', {
+      userId: String(user._id),
+      role: user.role,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error: any) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({
+      error: 'Failed to disable two-factor authentication',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['code']
+      });
+      return;
+    }
+
+    const user = await findCurrentUser(req, res);
+    if (!user) return;
+
+    if (!user.twoFactor?.enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (!(await verifySecondFactor(user, { code }))) {
+      res.status(401).json({ error: 'Invalid two-factor code' });
+      return;
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user);
+
+    res.json({
+      success: true,
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      recoveryCodes
+    });
+
+  } catch (error: any) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({
+      error: 'Failed to regenerate recovery codes',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function findCurrentUser(req: AuthRequest, res: Response) {
+  const user = await User.findById(req.user!.userId);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  return user;
+}
\ No newline at end of file
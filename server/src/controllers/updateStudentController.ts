@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import Student, { IStudent } from '../models/Student';
 import mongoose from 'mongoose';
+import { archivedStudentError, isArchived } from '../utils/studentArchive';
+import { recordStudentChange } from '../utils/studentHistory';
+import { relinkStudentAccount, UpdateStudentRequest, validateUpdateData } from '../utils/studentUpdates';
 
 interface AuthRequest extends Request {
   user?: {
@@ -9,20 +12,11 @@ interface AuthRequest extends Request {
   };
 }
 
-interface UpdateStudentRequest {
-  name?: string;
-  email?: string;
-  age?: number;
-  gradeLevel?: string;
-  studentId?: string;
-}
-
 export const updateStudent = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    // Check if user is admin
-    if (!req.user || req.user.role !== 'admin') {
-      res.status(403).json({ 
-        error: 'Access denied. Admin role required.' 
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
       });
       return;
     }
@@ -46,6 +40,11 @@ export const updateStudent = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    if (isArchived(existingStudent)) {
+      res.status(409).json(archivedStudentError(existingStudent));
+      return;
+    }
+
     const validationResult = await validateUpdateData(updateData, id);
     if (!validationResult.isValid) {
       res.status(400).json({
@@ -90,6 +89,9 @@ export const updateStudent = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    await relinkStudentAccount(existingStudent.studentId, updatedStudent.studentId);
+    await recordStudentChange(existingStudent, updatedStudent, 'updated', req.user.userId);
+
     console.log(`Student updated by admin ${req.user.userId}:`, {
       studentId: id,
       updatedFields: Object.keys(updateObject),
@@ -142,9 +144,9 @@ export const updateStudent = async (req: AuthRequest, res: Response): Promise<vo
 
 export const updateStudentPartial = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    if (!req.user || req.user.role !== 'admin') {
-      res.status(403).json({ 
-        error: 'Access denied. Admin role required.' 
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
       });
       return;
     }
@@ -184,6 +186,11 @@ export const updateStudentPartial = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
+    if (isArchived(existingStudent)) {
+      res.status(409).json(archivedStudentError(existingStudent));
+      return;
+    }
+
     const updateData = { [field]: value };
     const validationResult = await validateUpdateData(updateData, id);
     if (!validationResult.isValid) {
@@ -216,6 +223,9 @@ export const updateStudentPartial = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
+    await relinkStudentAccount(existingStudent.studentId, updatedStudent.studentId);
+    await recordStudentChange(existingStudent, updatedStudent, 'updated', req.user.userId);
+
     console.log(`Student field updated by admin ${req.user.userId}:`, {
       studentId: id,
       field,
@@ -269,70 +279,4 @@ export const updateStudentPartial = async (req: AuthRequest, res: Response): Pro
       message: 'An internal server error occurred'
     });
   }
-};
-
-async function validateUpdateData(
-  updateData: UpdateStudentRequest, 
-  currentStudentId: string
-): Promise<{ isValid: boolean; errors: string[] }> {
-  const errors: string[] = [];
-
-  if (updateData.name !== undefined) {
-    if (typeof updateData.name !== 'string' || updateData.name.trim().length === 0) {
-      errors.push('Name must be a non-empty string');
-    } else if (updateData.name.trim().length > 100) {
-      errors.push('Name must be less than 100 characters');
-    }
-  }
-
-  if (updateData.email !== undefined) {
-    if (typeof updateData.email !== 'string') {
-      errors.push('Email must be a string');
-    } else {
-      const emailRegex = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
-      if (!emailRegex.test(updateData.email)) {
-        errors.push('Invalid email format');
-      } else {
-        const existingStudent = await Student.findOne({ 
-          email: updateData.email.toLowerCase().trim(),
-          _id: { $ne: currentStudentId }
-        });
-        if (existingStudent) {
-          errors.push('Email already exists');
-        }
-      }
-    }
-  }
-
-  if (updateData.age !== undefined) {
-    const age = Number(updateData.age);
-    if (isNaN(age) || age < 3 || age > 25) {
-      errors.push('Age must be a number between 3 and 25');
-    }
-  }
-
-  if (updateData.gradeLevel !== undefined) {
-    if (typeof updateData.gradeLevel !== 'string' || updateData.gradeLevel.trim().length === 0) {
-      errors.push('Grade level must be a non-empty string');
-    }
-  }
-
-  if (updateData.studentId !== undefined) {
-    if (typeof updateData.studentId !== 'string' || updateData.studentId.trim().length === 0) {
-      errors.push('Student ID must be a non-empty string');
-    } else {
-      const existingStudent = await Student.findOne({ 
-        studentId: updateData.studentId.trim(),
-        _id: { $ne: currentStudentId }
-      });
-      if (existingStudent) {
-        errors.push('Student ID already exists');
-      }
-    }
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
\ No newline at end of file
+};
\ No newline at end of file
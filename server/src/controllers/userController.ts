@@ -0,0 +1,642 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
+import Teacher from '../models/Teacher';
+import GuardianLink from '../models/GuardianLink';
+import SecurityPolicy from '../models/SecurityPolicy';
+import { unlockAccount } from '../utils/loginThrottle';
+import { canUseTwoFactor, disableTwoFactor } from '../utils/twoFactor';
+import { checkStudentBinding, prepareNewUser } from '../utils/userProvisioning';
+import { getPasswordPolicy as loadPasswordPolicy, parsePasswordPolicyUpdate } from '../utils/passwordPolicy';
+import { MAX_PASSWORD_LENGTH, PASSWORD_POLICY_LIMITS } from '../config/passwordPolicy';
+import { canGrantRole, listRoleNames, roleExists } from '../utils/permissions';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: string;
+    role: string;
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export const listUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { role, disabled, search } = req.query;
+    const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+
+    const filter: any = {};
+
+    if (role) {
+      if (!(await roleExists(role))) {
+        res.status(400).json({ error: 'Invalid role. Role does not exist', role });
+        return;
+      }
+      filter.role = role;
+    }
+
+    if (disabled === 'true') filter.disabled = true;
+    if (disabled === 'false') filter.disabled = { $ne: true };
+
+    if (search && typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ username: pattern }, { email: pattern }, { studentId: pattern }];
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ username: 1 }).skip((page - 1) * limit).limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Users retrieved successfully',
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      },
+      users: users.map(formatUser)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({
+      error: 'Failed to fetch users',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getUserById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await findUser(req.params.userId, res);
+    if (!user) return;
+
+    res.json({
+      success: true,
+      user: formatUser(user)
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching user:', error);
+    res.status(500).json({
+      error: 'Failed to fetch user',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const createUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.body.role && !(await canGrantRole(req, String(req.body.role)))) {
+      res.status(403).json({
+        error: 'You cannot create users with a role whose permissions you do not hold',
+        role: req.body.role
+      });
+      return;
+    }
+
+    const prepared = await prepareNewUser(req.body);
+    if (!prepared.ok) {
+      res.status(prepared.status).json(prepared.body);
+      return;
+    }
+
+    const user = await User.create(prepared.userData);
+
+    console.log(`User created by admin ${req.user?.userId}:`, {
+      userId: String(user._id),
+      username: user.username,
+      role: user.role,
+      timestamp: new Date().toISOString()
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'User created successfully',
+      user: formatUser(user)
+    });
+
+  } catch (error: any) {
+    console.error('Error creating user:', error);
+    handleUserWriteError(error, res, 'Failed to create user');
+  }
+};
+
+export const updateUserRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { role, studentId } = req.body;
+
+    if (!role) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['role']
+      });
+      return;
+    }
+
+    if (!(await roleExists(role))) {
+      res.status(400).json({
+        error: 'Invalid role. Role does not exist',
+        validRoles: await listRoleNames()
+      });
+      return;
+    }
+
+    if (userId === req.user?.userId) {
+      res.status(400).json({ error: 'You cannot change your own role' });
+      return;
+    }
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    if (user.role === role) {
+      res.status(400).json({ error: `User already has the ${role} role` });
+      return;
+    }
+
+    if (!(await canGrantRole(req, role)) || !(await canGrantRole(req, user.role))) {
+      res.status(403).json({
+        error: 'You cannot assign or remove a role with permissions you do not hold'
+      });
+      return;
+    }
+
+    if (role === 'student' && !studentId && !user.studentId) {
+      res.status(400).json({ error: 'Student ID is required for student role' });
+      return;
+    }
+
+    if (await isLastActiveAdmin(user)) {
+      res.status(409).json({ error: 'Cannot remove the admin role from the last active admin' });
+      return;
+    }
+
+    if (role === 'student') {
+      const binding = await checkStudentBinding(String(studentId || user.studentId).trim(), userId);
+      if (!binding.ok) {
+        res.status(binding.status).json(binding.body);
+        return;
+      }
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    if (role === 'student' && studentId) {
+      user.studentId = String(studentId).trim();
+    }
+    await user.save();
+
+    // The role change already rotated the security stamp; also end sessions so the user signs in afresh
+    const revokedSessions = await Session.revokeAllForUser(userId, 'role_changed');
+
+    // Guardian links only make sense for guardian accounts
+    if (previousRole === 'guardian') {
+      await GuardianLink.deleteMany({ guardian: userId });
+    }
+
+    console.log(`User role changed by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      previousRole,
+      newRole: role,
+      revokedSessions,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `Role changed from ${previousRole} to ${role}`,
+      user: formatUser(user)
+    });
+
+  } catch (error: any) {
+    console.error('Error changing user role:', error);
+    handleUserWriteError(error, res, 'Failed to change user role');
+  }
+};
+
+export const disableUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { reason } = req.body || {};
+
+    if (userId === req.user?.userId) {
+      res.status(400).json({ error: 'You cannot disable your own account' });
+      return;
+    }
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    if (user.disabled) {
+      res.status(409).json({ error: 'User is already disabled' });
+      return;
+    }
+
+    if (await isLastActiveAdmin(user)) {
+      res.status(409).json({ error: 'Cannot disable the last active admin' });
+      return;
+    }
+
+    user.disabled = true;
+    user.disabledAt = new Date();
+    user.disabledReason = reason ? String(reason) : null;
+    await user.save();
+
+    const revokedSessions = await Session.revokeAllForUser(userId, 'account_disabled');
+
+    console.log(`User disabled by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      reason: user.disabledReason,
+      revokedSessions,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `User ${user.username} disabled successfully`,
+      revokedSessions,
+      user: formatUser(user)
+    });
+
+  } catch (error: any) {
+    console.error('Error disabling user:', error);
+    handleUserWriteError(error, res, 'Failed to disable user');
+  }
+};
+
+export const enableUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    if (!user.disabled) {
+      res.status(409).json({ error: 'User is not disabled' });
+      return;
+    }
+
+    user.disabled = false;
+    user.disabledAt = null;
+    user.disabledReason = null;
+    await user.save();
+
+    console.log(`User enabled by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `User ${user.username} enabled successfully`,
+      user: formatUser(user)
+    });
+
+  } catch (error: any) {
+    console.error('Error enabling user:', error);
+    handleUserWriteError(error, res, 'Failed to enable user');
+  }
+};
+
+export const deleteUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    if (userId === req.user?.userId) {
+      res.status(400).json({ error: 'You cannot delete your own account' });
+      return;
+    }
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    if (await isLastActiveAdmin(user)) {
+      res.status(409).json({ error: 'Cannot delete the last active admin' });
+      return;
+    }
+
+    const teacher = await Teacher.findByUserId(userId);
+    if (teacher) {
+      res.status(409).json({
+        error: 'User is linked to a teacher profile',
+        message: 'Delete or reassign the teacher profile first, or disable the account instead',
+        teacherId: teacher._id
+      });
+      return;
+    }
+
+    await Session.revokeAllForUser(userId, 'account_deleted');
+    await GuardianLink.deleteMany({ guardian: userId });
+    await User.deleteOne({ _id: userId });
+
+    console.log(`User deleted by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      role: user.role,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `User ${user.username} deleted successfully`,
+      deletedUserId: userId
+    });
+
+  } catch (error: any) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({
+      error: 'Failed to delete user',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const unlockUser = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ error: 'Invalid user ID format' });
+      return;
+    }
+
+    const user = await unlockAccount(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    console.log(`Account unlocked by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `Account ${user.username} unlocked successfully`,
+      user: {
+        id: user._id,
+        username: user.username,
+        role: user.role,
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error unlocking user:', error);
+    res.status(500).json({
+      error: 'Failed to unlock user',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const resetUserTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await findUser(userId, res);
+    if (!user) return;
+
+    // For a lost authenticator: the user enrolls again at next login if their role requires it
+    await disableTwoFactor(userId);
+
+    console.log(`Two-factor authentication reset by admin ${req.user?.userId}:`, {
+      targetUserId: userId,
+      targetUsername: user.username,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: `Two-factor authentication reset for ${user.username}`
+    });
+
+  } catch (error: any) {
+    console.error('Error resetting two-factor authentication:', error);
+    res.status(500).json({
+      error: 'Failed to reset two-factor authentication',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getTwoFactorPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const policy = await SecurityPolicy.getCurrent();
+
+    res.json({
+      success: true,
+      policy: formatTwoFactorPolicy(policy, await listTwoFactorRoles())
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching two-factor policy:', error);
+    res.status(500).json({
+      error: 'Failed to fetch two-factor policy',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const updateTwoFactorPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { requiredRoles } = req.body;
+
+    if (!Array.isArray(requiredRoles)) {
+      res.status(400).json({
+        error: 'Missing required fields',
+        required: ['requiredRoles']
+      });
+      return;
+    }
+
+    const availableRoles = await listTwoFactorRoles();
+    const invalidRoles = requiredRoles.filter((role: unknown) => !availableRoles.includes(role as string));
+    if (invalidRoles.length > 0) {
+      res.status(400).json({
+        error: 'Two-factor authentication can only be required for existing non-student roles',
+        invalidRoles,
+        allowedRoles: availableRoles
+      });
+      return;
+    }
+
+    const policy = await SecurityPolicy.setTwoFactorRequiredRoles(requiredRoles, req.user?.userId);
+
+    console.log(`Two-factor policy updated by admin ${req.user?.userId}:`, {
+      requiredRoles: policy.twoFactorRequiredRoles,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor policy updated successfully',
+      policy: formatTwoFactorPolicy(policy, await listTwoFactorRoles())
+    });
+
+  } catch (error: any) {
+    console.error('Error updating two-factor policy:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to update two-factor policy',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+export const getPasswordPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      policy: await loadPasswordPolicy(),
+      limits: { ...PASSWORD_POLICY_LIMITS, maxPasswordLength: MAX_PASSWORD_LENGTH }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching password policy:', error);
+    res.status(500).json({
+      error: 'Failed to fetch password policy',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+// Partial update: fields left out keep their current value. Existing passwords are not
+// re-checked; the new rules apply the next time each password is set.
+export const updatePasswordPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const parsed = parsePasswordPolicyUpdate(req.body);
+    if (!parsed.ok) {
+      res.status(parsed.status).json(parsed.body);
+      return;
+    }
+
+    await SecurityPolicy.setPasswordPolicy(parsed.changes, req.user?.userId);
+    const policy = await loadPasswordPolicy();
+
+    console.log(`Password policy updated by admin ${req.user?.userId}:`, {
+      changes: parsed.changes,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      success: true,
+      message: 'Password policy updated successfully',
+      policy
+    });
+
+  } catch (error: any) {
+    console.error('Error updating password policy:', error);
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to update password policy',
+      message: 'An internal server error occurred'
+    });
+  }
+};
+
+async function listTwoFactorRoles(): Promise<string[]> {
+  return (await listRoleNames()).filter(canUseTwoFactor);
+}
+
+function formatTwoFactorPolicy(policy: { twoFactorRequiredRoles: string[]; updatedAt?: Date }, availableRoles: string[]) {
+  return {
+    requiredRoles: policy.twoFactorRequiredRoles,
+    availableRoles,
+    updatedAt: policy.updatedAt || null
+  };
+}
+
+async function findUser(userId: string, res: Response) {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    res.status(400).json({ error: 'Invalid user ID format' });
+    return null;
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  return user;
+}
+
+// Keeps at least one admin able to sign in, so the system cannot be locked out of administration
+async function isLastActiveAdmin(user: IUser): Promise<boolean> {
+  if (user.role !== 'admin' || user.disabled) return false;
+
+  const activeAdmins = await User.countDocuments({ role: 'admin', disabled: { $ne: true } });
+  return activeAdmins <= 1;
+}
+
+function formatUser(user: IUser) {
+  return {
+    id: user._id,
+    username: user.username,
+    email: user.email || null,
+    role: user.role,
+    ...(user.studentId && { studentId: user.studentId }),
+    disabled: !!user.disabled,
+    disabledAt: user.disabledAt || null,
+    disabledReason: user.disabledReason || null,
+    lockedUntil: user.lockedUntil || null,
+    twoFactorEnabled: !!user.twoFactor?.enabled,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+}
+
+function handleUserWriteError(error: any, res: Response, fallbackError: string): void {
+  if (error.code === 11000) {
+    const field = Object.keys(error.keyPattern || {})[0];
+    res.status(409).json({ error: `${field} already exists` });
+    return;
+  }
+
+  if (error.name === 'ValidationError') {
+    const errors = Object.values(error.errors).map((err: any) => err.message);
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackError,
+    message: 'An internal server error occurred'
+  });
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/db';
+import { purgeArchivedStudents } from '../utils/studentArchive';
+
+// Retention job: permanently deletes students archived longer than STUDENT_RETENTION_DAYS.
+// Run on a schedule (e.g. nightly cron); pass --dry-run to list what would be deleted.
+const run = async (): Promise<void> => {
+  const dryRun = process.argv.includes('--dry-run');
+
+  await connectDB();
+  const result = await purgeArchivedStudents({ dryRun });
+
+  console.log(dryRun ? 'Archived students past retention (dry run, nothing deleted):' : 'Archived students purged:', {
+    retentionDays: result.retentionDays,
+    cutoff: result.cutoff.toISOString(),
+    count: result.students.length,
+    students: result.students,
+    disabledAccounts: result.disabledAccounts,
+    timestamp: new Date().toISOString()
+  });
+
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Error purging archived students:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
\ No newline at end of file
@@ -1,6 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import User from '../models/User';
+import Teacher from '../models/Teacher';
+import Session from '../models/Session';
+import { isCurrentTokenVersion, verifyTwoFactorChallenge } from '../utils/tokenService';
+import { getCallerPermissions } from '../utils/permissions';
+import { API_KEY_HEADER, API_KEY_ROLE, recordApiKeyUse, verifyApiKey } from '../utils/apiKeys';
+import {
+  completeImpersonatedRequest,
+  IMPERSONATION_TOKEN_TYPE,
+  isReadOnlyMethod,
+  recordImpersonatedRequest,
+  verifyImpersonationToken
+} from '../utils/impersonation';
+import { Permission } from '../config/permissions';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'secret';
 
@@ -9,12 +23,34 @@ interface AuthRequest extends Request {
     userId: string;
     role: string;
     studentId?: string;
+    sessionId?: string;
+    // Present when an admin is viewing the API as this user
+    actingAs?: {
+      impersonatorId: string;
+      impersonationId: string;
+    };
+  };
+  apiKey?: {
+    id: string;
+    prefix: string;
+    name: string;
+    permissions: Permission[];
   };
+  grantedPermissions?: Permission[];
+  studentScope?: string[];
+  twoFactorSetup?: boolean;
 }
 
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.get(API_KEY_HEADER);
+
+    // Integrations authenticate with an API key in its own header instead of a bearer token
+    if (!authHeader && apiKeyHeader) {
+      await authenticateApiKey(req, res, next, apiKeyHeader);
+      return;
+    }
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       res.status(401).json({ 
@@ -35,8 +71,23 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
 
     // Verify JWT token
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+
+    if (decoded.type === IMPERSONATION_TOKEN_TYPE) {
+      await authenticateImpersonation(req, res, next, decoded);
+      return;
+    }
     
-    // Optional: Verify user still exists in database
+    // Access tokens are bound to a session so that logout and refresh-token reuse revoke them
+    if (!decoded.sid || !(await Session.isActive(decoded.sid))) {
+      res.status(401).json({ 
+        error: 'Session has been revoked or expired. Please login again.' 
+      });
+      return;
+    }
+
+    await Session.touch(decoded.sid);
+
+    // Verify user still exists in database
     const user = await User.findById(decoded.userId);
     if (!user) {
       res.status(401).json({ 
@@ -45,11 +96,26 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       return;
     }
 
-    // Set user data in request
+    if (user.disabled) {
+      res.status(403).json({ 
+        error: 'Account has been disabled. Contact an administrator.' 
+      });
+      return;
+    }
+
+    if (!isCurrentTokenVersion(user, decoded.ver)) {
+      res.status(401).json({ 
+        error: 'Token is no longer valid because the account changed. Please refresh or login again.' 
+      });
+      return;
+    }
+
+    // Role and student link come from the database, never from the token, so changes apply at once
     req.user = {
-      userId: decoded.userId,
-      role: decoded.role,
-      ...(decoded.studentId && { studentId: decoded.studentId })
+      userId: String(user._id),
+      role: user.role,
+      sessionId: decoded.sid,
+      ...(user.role === 'student' && user.studentId && { studentId: user.studentId })
     };
     
     next();
@@ -75,95 +141,135 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
-export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  if (!req.user) {
-    res.status(401).json({ 
-      error: 'Authentication required' 
-    });
-    return;
-  }
+// Two-factor enrollment is reachable either from a normal session or, for roles that must use
+// two-factor, with the setup challenge handed out by login in place of a session
+export const authenticateTwoFactorSetup = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const challengeToken = req.body?.challengeToken;
 
-  if (req.user.role !== 'admin') {
-    res.status(403).json({ 
-      error: 'Access denied. Admin privileges required.',
-      userRole: req.user.role,
-      requiredRole: 'admin'
-    });
+  if (!challengeToken) {
+    await authenticate(req, res, next);
     return;
   }
 
-  next();
-};
+  try {
+    const challenge = verifyTwoFactorChallenge(String(challengeToken), 'setup');
+    if (!challenge) {
+      res.status(401).json({ 
+        error: 'Invalid or expired two-factor setup challenge. Please login again.' 
+      });
+      return;
+    }
 
-export const requireTeacher = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  if (!req.user) {
+    const user = await User.findById(challenge.userId);
+    if (!user) {
+      res.status(401).json({ 
+        error: 'Invalid token. User not found.' 
+      });
+      return;
+    }
+
+    if (user.disabled) {
+      res.status(403).json({ 
+        error: 'Account has been disabled. Contact an administrator.' 
+      });
+      return;
+    }
+
+    if (!isCurrentTokenVersion(user, challenge.tokenVersion)) {
+      res.status(401).json({ 
+        error: 'Invalid or expired two-factor setup challenge. Please login again.' 
+      });
+      return;
+    }
+
+    req.user = {
+      userId: String(user._id),
+      role: user.role
+    };
+    req.twoFactorSetup = true;
+
+    next();
+  } catch (err: any) {
+    console.error('Two-factor setup authentication error:', err);
     res.status(401).json({ 
-      error: 'Authentication required' 
+      error: 'Token verification failed' 
     });
-    return;
   }
+};
 
-  if (req.user.role !== 'teacher') {
-    res.status(403).json({ 
-      error: 'Access denied. Teacher privileges required.',
-      userRole: req.user.role,
-      requiredRole: 'teacher'
+// SCIM clients send their API key as a bearer token, as the protocol expects, instead of in the
+// X-API-Key header; JWT access tokens are not accepted on SCIM routes
+export const authenticateScim = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const rawKey = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : '';
+
+  if (!rawKey) {
+    res.status(401).json({ 
+      error: 'Access denied. No valid token provided.',
+      message: 'Authorization header must be in format: Bearer <API key>'
     });
     return;
   }
 
-  next();
-};
-
-export const requireAdminOrTeacher = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  if (!req.user) {
+  try {
+    await authenticateApiKey(req, res, next, rawKey);
+  } catch (err: any) {
+    console.error('SCIM authentication error:', err);
     res.status(401).json({ 
-      error: 'Authentication required' 
+      error: 'Token verification failed' 
     });
-    return;
   }
+};
 
-  if (req.user.role !== 'admin' && req.user.role !== 'teacher') {
-    res.status(403).json({ 
-      error: 'Access denied. Admin or teacher privileges required.',
-      userRole: req.user.role,
-      requiredRoles: ['admin', 'teacher']
-    });
+// For endpoints that serve anonymous and signed-in callers alike: a sent token must be valid
+// and then populates req.user, while requests without one pass through untouched
+export const optionalAuthenticate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.headers.authorization && !req.get(API_KEY_HEADER)) {
+    next();
     return;
   }
 
-  next();
+  await authenticate(req, res, next);
 };
 
-export const requireStudent = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  if (!req.user) {
-    res.status(401).json({ 
-      error: 'Authentication required' 
-    });
-    return;
-  }
+// Passes when the caller's role (or API key) grants any of the listed permissions. The matching ones are kept on
+// the request so later middleware can tell a global grant from an ":own-sections" one.
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ 
+        error: 'Authentication required' 
+      });
+      return;
+    }
 
-  if (req.user.role !== 'student') {
-    res.status(403).json({ 
-      error: 'Access denied. Student privileges required.',
-      userRole: req.user.role,
-      requiredRole: 'student'
-    });
-    return;
-  }
+    try {
+      const callerPermissions = await getCallerPermissions(req);
+      const granted = permissions.filter(permission => callerPermissions.includes(permission));
 
-  // Additional check for student: ensure they have a studentId
-  if (!req.user.studentId) {
-    res.status(403).json({ 
-      error: 'Access denied. Valid student ID required.' 
-    });
-    return;
-  }
+      if (granted.length === 0) {
+        res.status(403).json({ 
+          error: 'Access denied. Insufficient permissions.',
+          userRole: req.user.role,
+          requiredPermissions: permissions
+        });
+        return;
+      }
 
-  next();
+      req.grantedPermissions = granted;
+      next();
+    } catch (err: any) {
+      console.error('Error resolving role permissions:', err);
+      res.status(500).json({ 
+        error: 'Failed to resolve permissions' 
+      });
+    }
+  };
 };
 
-export const requireAuthenticated = (req: AuthRequest, res: Response, next: NextFunction): void => {
+// Restricts callers whose only grant for the route is an ":own-sections" permission to students
+// enrolled in their own sections; must run after requirePermission
+export const loadStudentScope = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   if (!req.user) {
     res.status(401).json({ 
       error: 'Authentication required' 
@@ -171,38 +277,119 @@ export const requireAuthenticated = (req: AuthRequest, res: Response, next: Next
     return;
   }
 
-  const validRoles = ['admin', 'teacher', 'student'];
-  if (!validRoles.includes(req.user.role)) {
-    res.status(403).json({ 
-      error: 'Access denied. Valid role required.',
-      userRole: req.user.role,
-      validRoles
-    });
+  const granted = req.grantedPermissions || [];
+  if (granted.length > 0 && !granted.every(permission => permission.endsWith(':own-sections'))) {
+    next();
     return;
   }
 
-  next();
+  try {
+    const teacher = await Teacher.findByUserId(req.user.userId);
+    const studentIds = teacher ? await teacher.getStudentIds() : [];
+    req.studentScope = studentIds.map(id => id.toString());
+    next();
+  } catch (err: any) {
+    console.error('Error loading teacher student scope:', err);
+    res.status(500).json({ 
+      error: 'Failed to resolve accessible students' 
+    });
+  }
 };
 
-// Middleware to allow multiple roles
-export const requireAnyRole = (allowedRoles: string[]) => {
+export const requireStudentInScope = (paramName: string = 'studentId') => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({ 
-        error: 'Authentication required' 
-      });
+    const studentId = req.params[paramName];
+
+    // Unscoped requests and malformed IDs fall through to the controller's own handling
+    if (!req.studentScope || !mongoose.Types.ObjectId.isValid(studentId)) {
+      next();
       return;
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
+    if (!req.studentScope.includes(studentId)) {
       res.status(403).json({ 
-        error: 'Access denied. Insufficient privileges.',
-        userRole: req.user.role,
-        allowedRoles
+        error: 'Access denied. Student is not enrolled in any of your sections.' 
       });
       return;
     }
 
     next();
   };
-};
\ No newline at end of file
+};
+
+// Key-authenticated requests carry the key's own permissions; req.user identifies the key rather
+// than a person, so person-scoped routes and session handling never apply to them
+async function authenticateApiKey(req: AuthRequest, res: Response, next: NextFunction, rawKey: string): Promise<void> {
+  const result = await verifyApiKey(rawKey, req.ip);
+  if (!result.ok) {
+    res.status(result.status).json({ 
+      error: result.error 
+    });
+    return;
+  }
+
+  const { apiKey } = result;
+  await recordApiKeyUse(apiKey, req.ip);
+
+  req.user = {
+    userId: String(apiKey._id),
+    role: API_KEY_ROLE
+  };
+  req.apiKey = {
+    id: String(apiKey._id),
+    prefix: apiKey.prefix,
+    name: apiKey.name,
+    permissions: apiKey.permissions
+  };
+
+  next();
+}
+
+// Impersonated requests run with the target's identity and permissions, are limited to reads,
+// and each one is written to the audit log under the impersonating admin
+async function authenticateImpersonation(req: AuthRequest, res: Response, next: NextFunction, decoded: any): Promise<void> {
+  const result = await verifyImpersonationToken(decoded);
+  if (!result.ok) {
+    res.status(result.status).json({ 
+      error: result.error 
+    });
+    return;
+  }
+
+  const { user, impersonator, impersonation } = result;
+  const entry = {
+    impersonationId: String(impersonation._id),
+    impersonatorId: String(impersonator._id),
+    targetUserId: String(user._id),
+    method: req.method,
+    path: req.originalUrl,
+    ipAddress: req.ip
+  };
+
+  if (!isReadOnlyMethod(req.method)) {
+    await recordImpersonatedRequest({ ...entry, blocked: true });
+    res.status(403).json({ 
+      error: 'This action is not allowed while impersonating a user. Impersonation is read-only.' 
+    });
+    return;
+  }
+
+  const auditLogId = await recordImpersonatedRequest(entry);
+  res.on('finish', () => {
+    completeImpersonatedRequest(auditLogId, res.statusCode).catch(err => {
+      console.error('Error recording impersonated request status:', err);
+    });
+  });
+
+  req.user = {
+    userId: String(user._id),
+    role: user.role,
+    ...(user.role === 'student' && user.studentId && { studentId: user.studentId }),
+    actingAs: {
+      impersonatorId: String(impersonator._id),
+      impersonationId: String(impersonation._id)
+    }
+  };
+
+  next();
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { isPermission, Permission } from '../config/permissions';
+import { isValidIpRange } from '../utils/ipRanges';
+
+// Credential for service-to-service integrations. Only a hash of the key is stored; the prefix is
+// the public part that identifies a key in listings and logs.
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  permissions: Permission[];
+  allowedIps: string[];
+  expiresAt?: Date | null;
+  createdBy: mongoose.Types.ObjectId;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  rotatedAt?: Date | null;
+  revokedAt?: Date | null;
+  revokedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+  isUsable(now?: Date): boolean;
+}
+
+export interface IApiKeyModel extends Model<IApiKey> {
+  findByPrefix(prefix: string): Promise<IApiKey | null>;
+}
+
+const ApiKeySchema = new Schema<IApiKey, IApiKeyModel>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name must be less than 100 characters']
+  },
+  prefix: {
+    type: String,
+    required: [true, 'Prefix is required'],
+    unique: true
+  },
+  keyHash: {
+    type: String,
+    required: [true, 'Key hash is required']
+  },
+  permissions: {
+    type: [String],
+    validate: [
+      {
+        validator: (permissions: string[]) => permissions.length > 0,
+        message: 'An API key needs at least one permission'
+      },
+      {
+        validator: (permissions: string[]) => permissions.every(isPermission),
+        message: 'Permissions must be taken from the permission catalogue'
+      }
+    ]
+  },
+  allowedIps: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: (ranges: string[]) => ranges.every(isValidIpRange),
+      message: 'Allowed IPs must be addresses or CIDR ranges'
+    }
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedIp: {
+    type: String,
+    default: null
+  },
+  rotatedAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'apikeys'
+});
+
+ApiKeySchema.methods.isUsable = function(this: IApiKey, now: Date = new Date()): boolean {
+  if (this.revokedAt) return false;
+  return !this.expiresAt || this.expiresAt.getTime() > now.getTime();
+};
+
+ApiKeySchema.statics.findByPrefix = function(prefix: string) {
+  return this.findOne({ prefix });
+};
+
+const ApiKey = mongoose.model<IApiKey, IApiKeyModel>('ApiKey', ApiKeySchema);
+
+export default ApiKey;
\ No newline at end of file
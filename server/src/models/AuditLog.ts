@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const AUDIT_ACTIONS = [
+  'impersonation.started',
+  'impersonation.request',
+  'impersonation.blocked',
+  'impersonation.ended'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Append-only record of sensitive actions. actor is always the person responsible, even when
+// the request ran with another user's identity.
+export interface IAuditLog extends Document {
+  action: AuditAction;
+  actor: mongoose.Types.ObjectId;
+  targetUser?: mongoose.Types.ObjectId | null;
+  impersonation?: mongoose.Types.ObjectId | null;
+  method?: string | null;
+  path?: string | null;
+  statusCode?: number | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+  action: {
+    type: String,
+    enum: {
+      values: AUDIT_ACTIONS,
+      message: 'Unknown audit action'
+    },
+    required: [true, 'Action is required']
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Actor is required'],
+    index: true
+  },
+  targetUser: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+    index: true
+  },
+  impersonation: {
+    type: Schema.Types.ObjectId,
+    ref: 'Impersonation',
+    default: null
+  },
+  method: {
+    type: String,
+    default: null
+  },
+  path: {
+    type: String,
+    default: null
+  },
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  ipAddress: {
+    type: String,
+    default: null
+  },
+  details: {
+    type: Schema.Types.Mixed,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'auditlogs'
+});
+
+AuditLogSchema.index({ impersonation: 1, createdAt: 1 });
+
+const AuditLog = mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
\ No newline at end of file
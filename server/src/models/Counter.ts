@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ICounter extends Omit<Document, '_id'> {
+  _id: string;
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICounterModel extends Model<ICounter> {
+  increment(key: string, by?: number): Promise<number>;
+  current(key: string): Promise<number>;
+  initialize(key: string, seq: number): Promise<void>;
+}
+
+const CounterSchema = new Schema<ICounter, ICounterModel>({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0,
+    min: [0, 'Sequence cannot be negative']
+  }
+}, {
+  timestamps: true,
+  collection: 'counters'
+});
+
+// Atomically advances the sequence and returns its new value (the last value of the allocated block)
+CounterSchema.statics.increment = async function(key: string, by: number = 1): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: by } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return counter.seq;
+};
+
+CounterSchema.statics.current = async function(key: string): Promise<number> {
+  const counter = await this.findById(key);
+  return counter ? counter.seq : 0;
+};
+
+// Sets a starting value only if the counter does not exist yet; safe to race with increment()
+CounterSchema.statics.initialize = async function(key: string, seq: number): Promise<void> {
+  try {
+    await this.updateOne({ _id: key }, { $setOnInsert: { seq } }, { upsert: true });
+  } catch (error: any) {
+    // A concurrent upsert created the counter first, which is exactly the outcome we want
+    if (error.code !== 11000) throw error;
+  }
+};
+
+const Counter = mongoose.model<ICounter, ICounterModel>('Counter', CounterSchema);
+
+export default Counter;
\ No newline at end of file
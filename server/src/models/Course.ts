@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { GradeLevel } from './Enrollment';
+
+export interface ICourse extends Document {
+  code: string;
+  name: string;
+  description?: string;
+  credits: number;
+  gradeLevel?: GradeLevel;
+  department?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICourseModel extends Model<ICourse> {
+  search(term: string, activeOnly?: boolean): mongoose.Query<ICourse[], ICourse>;
+}
+
+const CourseSchema = new Schema<ICourse, ICourseModel>({
+  code: {
+    type: String,
+    required: [true, 'Course code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9-]{2,20}$/, 'Course code may only contain letters, digits and hyphens (2-20 characters)']
+  },
+  name: {
+    type: String,
+    required: [true, 'Course name is required'],
+    trim: true,
+    maxlength: [100, 'Course name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    default: null,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  credits: {
+    type: Number,
+    required: [true, 'Credits are required'],
+    min: [0, 'Credits cannot be negative'],
+    max: [10, 'Credits cannot exceed 10 per course']
+  },
+  gradeLevel: {
+    type: String,
+    enum: Object.values(GradeLevel),
+    default: null,
+    index: true
+  },
+  department: {
+    type: String,
+    default: null,
+    trim: true,
+    maxlength: [100, 'Department cannot exceed 100 characters'],
+    index: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'courses'
+});
+
+CourseSchema.index({ name: 1 });
+CourseSchema.index({ department: 1, gradeLevel: 1 });
+
+// Case-insensitive match against course code or name
+CourseSchema.statics.search = function(term: string, activeOnly: boolean = false) {
+  const pattern = new RegExp(term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  const query: any = { $or: [{ code: pattern }, { name: pattern }] };
+
+  if (activeOnly) query.isActive = true;
+
+  return this.find(query).sort({ code: 1 });
+};
+
+const Course = mongoose.model<ICourse, ICourseModel>('Course', CourseSchema);
+
+export default Course;
\ No newline at end of file
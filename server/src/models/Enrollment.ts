@@ -1,4 +1,4 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model } from 'mongoose';
 
 export enum EnrollmentStatus {
   ACTIVE = 'active',
@@ -28,6 +28,14 @@ export enum GradeLevel {
   PRESCHOOL = 'PreK'
 }
 
+export const LETTER_GRADES = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F', 'I', 'W', 'P', 'NP'];
+
+export const ACTIVE_ENROLLMENT_STATUSES = [
+  EnrollmentStatus.ACTIVE,
+  EnrollmentStatus.ENROLLED,
+  EnrollmentStatus.IN_PROGRESS
+];
+
 export interface IGradeInfo {
   midtermGrade?: string;
   finalGrade?: string;
@@ -52,17 +60,30 @@ export interface IEnrollment extends Document {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  markAsCompleted(finalGrade?: string): Promise<IEnrollment>;
+  markAsDropped(reason?: string): Promise<IEnrollment>;
+  updateGrade(gradeType: 'midterm' | 'final', grade: string, gpa?: number): Promise<IEnrollment>;
+  promoteToNextGrade(): Promise<IEnrollment>;
+}
+
+export interface IEnrollmentModel extends Model<IEnrollment> {
+  findActiveEnrollments(studentId?: string, courseId?: string, gradeLevel?: GradeLevel): mongoose.Query<IEnrollment[], IEnrollment>;
+  findByAcademicPeriod(semester: string, academicYear: string, gradeLevel?: GradeLevel): mongoose.Query<IEnrollment[], IEnrollment>;
+  findByGradeLevel(gradeLevel: GradeLevel, academicYear?: string, activeOnly?: boolean): mongoose.Query<IEnrollment[], IEnrollment>;
+  getStudentEnrollmentHistory(studentId: string): mongoose.Query<IEnrollment[], IEnrollment>;
+  getCourseEnrollments(courseId: string, activeOnly?: boolean, gradeLevel?: GradeLevel): mongoose.Query<IEnrollment[], IEnrollment>;
+  getGradeDistribution(gradeLevel: GradeLevel, academicYear?: string, studentIds?: string[]): mongoose.Aggregate<any[]>;
 }
 
 const EnrollmentGradeSchema = new Schema({
   midtermGrade: {
     type: String,
-    enum: ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F', 'I', 'W', 'P', 'NP'],
+    enum: LETTER_GRADES,
     default: null
   },
   finalGrade: {
     type: String,
-    enum: ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F', 'I', 'W', 'P', 'NP'],
+    enum: LETTER_GRADES,
     default: null
   },
   gpa: {
@@ -73,7 +94,7 @@ const EnrollmentGradeSchema = new Schema({
   }
 }, { _id: false });
 
-const EnrollmentSchema = new Schema<IEnrollment>({
+const EnrollmentSchema = new Schema<IEnrollment, IEnrollmentModel>({
   studentId: {
     type: Schema.Types.ObjectId,
     ref: 'Student',
@@ -272,9 +293,11 @@ EnrollmentSchema.statics.getCourseEnrollments = function(courseId: string, activ
     .sort({ enrollmentDate: -1 });
 };
 
-EnrollmentSchema.statics.getGradeDistribution = function(gradeLevel: GradeLevel, academicYear?: string) {
+// studentIds limits the counts to those students; aggregation does not cast, so they become ObjectIds here
+EnrollmentSchema.statics.getGradeDistribution = function(gradeLevel: GradeLevel, academicYear?: string, studentIds?: string[]) {
   const match: any = { gradeLevel };
   if (academicYear) match.academicYear = academicYear;
+  if (studentIds) match.studentId = { $in: studentIds.map(id => new mongoose.Types.ObjectId(id)) };
   
   return this.aggregate([
     { $match: match },
@@ -351,6 +374,6 @@ EnrollmentSchema.methods.promoteToNextGrade = function(this: IEnrollment) {
   }
 };
 
-const Enrollment = mongoose.model<IEnrollment>('Enrollment', EnrollmentSchema);
+const Enrollment = mongoose.model<IEnrollment, IEnrollmentModel>('Enrollment', EnrollmentSchema);
 
 export default Enrollment;
\ No newline at end of file
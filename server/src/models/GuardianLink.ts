@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const GUARDIAN_RELATIONSHIPS = [
+  'mother',
+  'father',
+  'parent',
+  'stepparent',
+  'grandparent',
+  'legal_guardian',
+  'foster_parent',
+  'other'
+] as const;
+
+export type GuardianRelationship = typeof GUARDIAN_RELATIONSHIPS[number];
+
+// Connects a guardian account to a Student record. Students past the age of majority decide
+// whether the guardian may still see their grades through consentGrantedAt.
+export interface IGuardianLink extends Document {
+  guardian: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  relationship: GuardianRelationship;
+  isPrimaryContact: boolean;
+  consentGrantedAt?: Date | null;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IGuardianLinkModel extends Model<IGuardianLink> {
+  setPrimaryContact(link: IGuardianLink): Promise<void>;
+}
+
+const GuardianLinkSchema = new Schema<IGuardianLink, IGuardianLinkModel>({
+  guardian: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Guardian is required'],
+    index: true
+  },
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: [true, 'Student is required'],
+    index: true
+  },
+  relationship: {
+    type: String,
+    enum: {
+      values: [...GUARDIAN_RELATIONSHIPS],
+      message: `Relationship must be one of: ${GUARDIAN_RELATIONSHIPS.join(', ')}`
+    },
+    required: [true, 'Relationship is required']
+  },
+  isPrimaryContact: {
+    type: Boolean,
+    default: false
+  },
+  consentGrantedAt: {
+    type: Date,
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  }
+}, {
+  timestamps: true,
+  collection: 'guardianlinks'
+});
+
+GuardianLinkSchema.index({ guardian: 1, student: 1 }, { unique: true });
+
+// A student has at most one primary contact; promoting a link demotes the others
+GuardianLinkSchema.statics.setPrimaryContact = async function(link: IGuardianLink): Promise<void> {
+  await this.updateMany(
+    { student: link.student, _id: { $ne: link._id }, isPrimaryContact: true },
+    { isPrimaryContact: false }
+  );
+};
+
+const GuardianLink = mongoose.model<IGuardianLink, IGuardianLinkModel>('GuardianLink', GuardianLinkSchema);
+
+export default GuardianLink;
\ No newline at end of file
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// One support session in which an admin sees the API as another user. Impersonation tokens
+// reference it, so ending or expiring the record cuts every token issued for it.
+export interface IImpersonation extends Document {
+  impersonator: mongoose.Types.ObjectId;
+  targetUser: mongoose.Types.ObjectId;
+  reason: string;
+  expiresAt: Date;
+  endedAt?: Date | null;
+  endedBy?: mongoose.Types.ObjectId | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(now?: Date): boolean;
+}
+
+export interface IImpersonationModel extends Model<IImpersonation> {
+  findActive(impersonationId: string): Promise<IImpersonation | null>;
+}
+
+const ImpersonationSchema = new Schema<IImpersonation, IImpersonationModel>({
+  impersonator: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Impersonator is required'],
+    index: true
+  },
+  targetUser: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Target user is required'],
+    index: true
+  },
+  reason: {
+    type: String,
+    required: [true, 'A reason is required to impersonate a user'],
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  endedAt: {
+    type: Date,
+    default: null
+  },
+  endedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  ipAddress: {
+    type: String,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null,
+    maxlength: [512, 'User agent cannot exceed 512 characters']
+  }
+}, {
+  timestamps: true,
+  collection: 'impersonations'
+});
+
+ImpersonationSchema.methods.isActive = function(this: IImpersonation, now: Date = new Date()): boolean {
+  return !this.endedAt && this.expiresAt.getTime() > now.getTime();
+};
+
+ImpersonationSchema.statics.findActive = function(impersonationId: string) {
+  if (!mongoose.Types.ObjectId.isValid(impersonationId)) return Promise.resolve(null);
+
+  return this.findOne({
+    _id: impersonationId,
+    endedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+const Impersonation = mongoose.model<IImpersonation, IImpersonationModel>('Impersonation', ImpersonationSchema);
+
+export default Impersonation;
\ No newline at end of file
@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Single-use registration invite created by an admin; only the token hash is stored
+export interface IInvitation extends Document {
+  tokenHash: string;
+  role: string;
+  email?: string | null;
+  studentRecordId?: mongoose.Types.ObjectId | null;
+  createdBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  usedBy?: mongoose.Types.ObjectId | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IInvitationModel extends Model<IInvitation> {
+  claim(tokenHash: string): Promise<IInvitation | null>;
+  release(invitationId: string): Promise<void>;
+  findPending(): mongoose.Query<IInvitation[], IInvitation>;
+}
+
+const InvitationSchema = new Schema<IInvitation, IInvitationModel>({
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  role: {
+    type: String,
+    required: [true, 'Role is required'],
+    trim: true,
+    lowercase: true
+  },
+  email: {
+    type: String,
+    default: null,
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  // Student invites can be bound to a Student record; the account registered with them is linked to it
+  studentRecordId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    default: null,
+    index: true,
+    validate: {
+      validator: function(this: IInvitation, value: mongoose.Types.ObjectId | null) {
+        return !value || this.role === 'student';
+      },
+      message: 'Only student invitations can be bound to a student record'
+    }
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  usedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'invitations'
+});
+
+InvitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Atomically marks the invite used so two registrations cannot redeem the same token
+InvitationSchema.statics.claim = async function(tokenHash: string): Promise<IInvitation | null> {
+  return this.findOneAndUpdate(
+    { tokenHash, usedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() },
+    { new: true }
+  );
+};
+
+// Hands a claimed invite back when the registration that claimed it fails
+InvitationSchema.statics.release = async function(invitationId: string): Promise<void> {
+  await this.updateOne({ _id: invitationId, usedBy: null }, { usedAt: null });
+};
+
+InvitationSchema.statics.findPending = function() {
+  return this.find({
+    usedAt: null,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).sort({ createdAt: -1 });
+};
+
+const Invitation = mongoose.model<IInvitation, IInvitationModel>('Invitation', InvitationSchema);
+
+export default Invitation;
\ No newline at end of file
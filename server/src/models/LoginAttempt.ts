@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// One failed login, kept just long enough to throttle the client address it came from
+export interface ILoginAttempt extends Document {
+  ipAddress: string;
+  username?: string;
+  createdAt: Date;
+}
+
+export interface ILoginAttemptModel extends Model<ILoginAttempt> {
+  countRecent(ipAddress: string, since: Date): Promise<number>;
+  findOldestSince(ipAddress: string, since: Date): Promise<ILoginAttempt | null>;
+}
+
+// Longest window the throttle can be configured with; older attempts are purged by MongoDB
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+const LoginAttemptSchema = new Schema<ILoginAttempt, ILoginAttemptModel>({
+  ipAddress: {
+    type: String,
+    required: [true, 'IP address is required']
+  },
+  username: {
+    type: String,
+    default: null,
+    trim: true,
+    lowercase: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'loginattempts'
+});
+
+LoginAttemptSchema.index({ ipAddress: 1, createdAt: -1 });
+LoginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+LoginAttemptSchema.statics.countRecent = function(ipAddress: string, since: Date): Promise<number> {
+  return this.countDocuments({ ipAddress, createdAt: { $gte: since } });
+};
+
+LoginAttemptSchema.statics.findOldestSince = async function(ipAddress: string, since: Date) {
+  return this.findOne({ ipAddress, createdAt: { $gte: since } }).sort({ createdAt: 1 });
+};
+
+const LoginAttempt = mongoose.model<ILoginAttempt, ILoginAttemptModel>('LoginAttempt', LoginAttemptSchema);
+
+export default LoginAttempt;
\ No newline at end of file
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { hashToken } from '../utils/tokenService';
+
+// Server-side half of an OIDC login in progress: the state parameter links the provider's
+// callback to it, the login nonce ties it to the client that started it, and the PKCE verifier
+// and ID token nonce never leave the server
+export interface IOidcLoginState extends Document {
+  stateHash: string;
+  loginNonceHash: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IOidcLoginStateModel extends Model<IOidcLoginState> {
+  consume(state: string, loginNonce: string): Promise<IOidcLoginState | null>;
+}
+
+const OidcLoginStateSchema = new Schema<IOidcLoginState, IOidcLoginStateModel>({
+  stateHash: {
+    type: String,
+    required: [true, 'State hash is required'],
+    unique: true
+  },
+  loginNonceHash: {
+    type: String,
+    required: [true, 'Login nonce hash is required']
+  },
+  nonce: {
+    type: String,
+    required: [true, 'Nonce is required']
+  },
+  codeVerifier: {
+    type: String,
+    required: [true, 'Code verifier is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  }
+}, {
+  timestamps: true,
+  collection: 'oidcloginstates'
+});
+
+OidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Single use: the record is removed by the callback that presents its state together with the
+// login nonce of the client that started it; a callback without the right nonce leaves it in place
+OidcLoginStateSchema.statics.consume = function(state: string, loginNonce: string) {
+  return this.findOneAndDelete({
+    stateHash: hashToken(String(state)),
+    loginNonceHash: hashToken(String(loginNonce)),
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+const OidcLoginState = mongoose.model<IOidcLoginState, IOidcLoginStateModel>('OidcLoginState', OidcLoginStateSchema);
+
+export default OidcLoginState;
\ No newline at end of file
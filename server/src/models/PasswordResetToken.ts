@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPasswordResetToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  requestedIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  requestedIp: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'password_reset_tokens'
+});
+
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPasswordResetToken>('PasswordResetToken', PasswordResetTokenSchema);
\ No newline at end of file
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Only the SHA-256 hash of the opaque token is stored; the raw value is returned to the client once.
+export interface IRefreshToken extends Document {
+  sessionId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  sessionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Session',
+    required: [true, 'Session ID is required'],
+    index: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  replacedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'RefreshToken',
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'refresh_tokens'
+});
+
+// Used tokens are kept until expiry so that replaying them can still be detected
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
\ No newline at end of file
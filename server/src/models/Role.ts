@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { BUILT_IN_ROLES, isPermission, Permission } from '../config/permissions';
+
+// Named permission set assigned to users through User.role; built-in roles are seeded at startup
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  isBuiltIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IRoleModel extends Model<IRole> {
+  findPermissions(name: string): Promise<Permission[] | null>;
+  ensureBuiltInRoles(): Promise<void>;
+}
+
+const RoleSchema = new Schema<IRole, IRoleModel>({
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z][a-z0-9-]{1,29}$/, 'Role name must be 2-30 lowercase letters, digits or hyphens and start with a letter']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description must be less than 200 characters']
+  },
+  permissions: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: (permissions: string[]) => permissions.every(isPermission),
+      message: 'Permissions must be taken from the permission catalogue'
+    }
+  },
+  isBuiltIn: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  collection: 'roles'
+});
+
+RoleSchema.statics.findPermissions = async function(name: string): Promise<Permission[] | null> {
+  const role = await this.findOne({ name }).select('permissions').lean();
+  return role ? role.permissions : null;
+};
+
+// Inserts missing built-in roles with their default permissions; edits made by admins are kept
+RoleSchema.statics.ensureBuiltInRoles = async function(): Promise<void> {
+  await Promise.all(Object.entries(BUILT_IN_ROLES).map(([name, role]) =>
+    this.updateOne(
+      { name },
+      { $setOnInsert: { name, description: role.description, permissions: role.permissions, isBuiltIn: true } },
+      { upsert: true }
+    )
+  ));
+};
+
+const Role = mongoose.model<IRole, IRoleModel>('Role', RoleSchema);
+
+export default Role;
\ No newline at end of file
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { DEFAULT_PASSWORD_POLICY, PASSWORD_POLICY_LIMITS, PasswordPolicy } from '../config/passwordPolicy';
+
+const GLOBAL_POLICY_ID = 'global';
+
+// Single document holding the security settings admins can change at runtime
+export interface ISecurityPolicy extends Omit<Document, '_id'> {
+  _id: string;
+  twoFactorRequiredRoles: string[];
+  passwordPolicy: PasswordPolicy;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ISecurityPolicyModel extends Model<ISecurityPolicy> {
+  getCurrent(): Promise<ISecurityPolicy>;
+  isTwoFactorRequired(role: string): Promise<boolean>;
+  setTwoFactorRequiredRoles(roles: string[], updatedBy?: string): Promise<ISecurityPolicy>;
+  getPasswordPolicy(): Promise<Partial<PasswordPolicy> | null>;
+  setPasswordPolicy(changes: Partial<PasswordPolicy>, updatedBy?: string): Promise<ISecurityPolicy>;
+}
+
+const SecurityPolicySchema = new Schema<ISecurityPolicy, ISecurityPolicyModel>({
+  _id: {
+    type: String,
+    default: GLOBAL_POLICY_ID
+  },
+  twoFactorRequiredRoles: {
+    type: [String],
+    validate: {
+      validator: (roles: string[]) => !roles.includes('student'),
+      message: 'Two-factor authentication cannot be required for the student role'
+    },
+    default: []
+  },
+  passwordPolicy: {
+    minLength: {
+      type: Number,
+      default: DEFAULT_PASSWORD_POLICY.minLength,
+      min: [PASSWORD_POLICY_LIMITS.minLength.min, `Minimum length cannot be below ${PASSWORD_POLICY_LIMITS.minLength.min}`],
+      max: [PASSWORD_POLICY_LIMITS.minLength.max, `Minimum length cannot exceed ${PASSWORD_POLICY_LIMITS.minLength.max}`]
+    },
+    requireUppercase: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.requireUppercase
+    },
+    requireLowercase: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.requireLowercase
+    },
+    requireDigit: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.requireDigit
+    },
+    requireSymbol: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.requireSymbol
+    },
+    disallowUsername: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.disallowUsername
+    },
+    historyCount: {
+      type: Number,
+      default: DEFAULT_PASSWORD_POLICY.historyCount,
+      min: [PASSWORD_POLICY_LIMITS.historyCount.min, 'Password history cannot be negative'],
+      max: [PASSWORD_POLICY_LIMITS.historyCount.max, `Password history cannot exceed ${PASSWORD_POLICY_LIMITS.historyCount.max}`]
+    },
+    checkCommonPasswords: {
+      type: Boolean,
+      default: DEFAULT_PASSWORD_POLICY.checkCommonPasswords
+    }
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'securitypolicies'
+});
+
+SecurityPolicySchema.statics.getCurrent = async function(): Promise<ISecurityPolicy> {
+  const policy = await this.findById(GLOBAL_POLICY_ID);
+  return policy || new this({ _id: GLOBAL_POLICY_ID });
+};
+
+SecurityPolicySchema.statics.isTwoFactorRequired = async function(role: string): Promise<boolean> {
+  const policy = await this.findById(GLOBAL_POLICY_ID).select('twoFactorRequiredRoles').lean();
+  return !!policy && policy.twoFactorRequiredRoles.includes(role);
+};
+
+SecurityPolicySchema.statics.setTwoFactorRequiredRoles = async function(roles: string[], updatedBy?: string): Promise<ISecurityPolicy> {
+  return this.findOneAndUpdate(
+    { _id: GLOBAL_POLICY_ID },
+    { twoFactorRequiredRoles: [...new Set(roles)], updatedBy: updatedBy || null },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+};
+
+SecurityPolicySchema.statics.getPasswordPolicy = async function(): Promise<Partial<PasswordPolicy> | null> {
+  const policy = await this.findById(GLOBAL_POLICY_ID).select('passwordPolicy').lean();
+  return policy?.passwordPolicy || null;
+};
+
+// Only the fields passed are changed; the rest keep their stored (or default) values
+SecurityPolicySchema.statics.setPasswordPolicy = async function(changes: Partial<PasswordPolicy>, updatedBy?: string): Promise<ISecurityPolicy> {
+  const update: Record<string, unknown> = { updatedBy: updatedBy || null };
+  Object.entries(changes).forEach(([field, value]) => {
+    update[`passwordPolicy.${field}`] = value;
+  });
+
+  return this.findOneAndUpdate(
+    { _id: GLOBAL_POLICY_ID },
+    { $set: update },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+};
+
+const SecurityPolicy = mongoose.model<ISecurityPolicy, ISecurityPolicyModel>('SecurityPolicy', SecurityPolicySchema);
+
+export default SecurityPolicy;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// A session is one refresh token family: every rotation stays in the same session,
+// and revoking the session invalidates all of its refresh and access tokens.
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ISessionModel extends Model<ISession> {
+  isActive(sessionId: string): Promise<boolean>;
+  touch(sessionId: string): Promise<void>;
+  findActiveForUser(userId: string): mongoose.Query<ISession[], ISession>;
+  revoke(sessionId: string, reason: string): Promise<void>;
+  revokeAllForUser(userId: string, reason: string, exceptSessionId?: string): Promise<number>;
+}
+
+const SessionSchema = new Schema<ISession, ISessionModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  ipAddress: {
+    type: String,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null,
+    maxlength: [512, 'User agent cannot exceed 512 characters']
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'sessions'
+});
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB purge sessions once they can no longer be refreshed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+SessionSchema.statics.isActive = async function(sessionId: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+
+  const session = await this.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+  return !!session;
+};
+
+// Activity is recorded at most once per interval so authenticated requests do not all write
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+SessionSchema.statics.touch = async function(sessionId: string): Promise<void> {
+  const now = new Date();
+  await this.updateOne(
+    { _id: sessionId, lastSeenAt: { $lt: new Date(now.getTime() - LAST_SEEN_RESOLUTION_MS) } },
+    { lastSeenAt: now }
+  );
+};
+
+SessionSchema.statics.findActiveForUser = function(userId: string) {
+  return this.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastSeenAt: -1 });
+};
+
+SessionSchema.statics.revoke = async function(sessionId: string, reason: string): Promise<void> {
+  await this.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+SessionSchema.statics.revokeAllForUser = async function(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+  const result = await this.updateMany(
+    { userId, revokedAt: null, ...(exceptSessionId && { _id: { $ne: exceptSessionId } }) },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.modifiedCount;
+};
+
+const Session = mongoose.model<ISession, ISessionModel>('Session', SessionSchema);
+
+export default Session;
\ No newline at end of file
@@ -1,10 +1,23 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { allocateStudentId } from '../utils/studentIdGenerator';
 
 export interface IGrade {
   subject: string;
   score: number;
 }
 
+export const ARCHIVE_STATUSES = ['withdrawn', 'graduated', 'transferred'] as const;
+export type ArchiveStatus = typeof ARCHIVE_STATUSES[number];
+
+// Set when a student leaves; the record and its grades are kept until the retention purge
+export interface IStudentArchive {
+  status: ArchiveStatus;
+  reason: string;
+  effectiveDate: Date;
+  archivedAt: Date;
+  archivedBy?: mongoose.Types.ObjectId | null;
+}
+
 export interface IStudent extends Document {
   studentId: string; // Unique student ID (auto-generated)
   name: string;
@@ -12,6 +25,7 @@ export interface IStudent extends Document {
   age: number;
   gradeLevel: string;
   grades: IGrade[];
+  archive?: IStudentArchive | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +41,36 @@ const GradeSchema: Schema = new Schema<IGrade>({
   }
 }, { _id: false });
 
+const StudentArchiveSchema: Schema = new Schema<IStudentArchive>({
+  status: {
+    type: String,
+    enum: {
+      values: ARCHIVE_STATUSES,
+      message: 'Archive status must be one of: withdrawn, graduated, transferred'
+    },
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [500, 'Archive reason cannot exceed 500 characters']
+  },
+  effectiveDate: {
+    type: Date,
+    required: true
+  },
+  archivedAt: {
+    type: Date,
+    required: true
+  },
+  archivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, { _id: false });
+
 const StudentSchema: Schema = new Schema<IStudent>({
   studentId: {
     type: String,
@@ -61,18 +105,40 @@ const StudentSchema: Schema = new Schema<IStudent>({
   grades: {
     type: [GradeSchema],
     default: []
+  },
+  archive: {
+    type: StudentArchiveSchema,
+    default: null
   }
 }, {
   timestamps: true
 });
 
+// Match the sorts and filters of the student list (GET /api/students); _id is the cursor tie-breaker
+StudentSchema.index({ name: 1, _id: 1 });
+StudentSchema.index({ gradeLevel: 1, name: 1, _id: 1 });
+StudentSchema.index({ age: 1, _id: 1 });
+StudentSchema.index({ createdAt: 1, _id: 1 });
+// Only archived records carry the fields; the retention purge scans them
+StudentSchema.index({ 'archive.effectiveDate': 1 }, { sparse: true });
+StudentSchema.index({ 'archive.archivedAt': 1 }, { sparse: true });
+
+// Sequence numbers come from an atomic per-year counter so concurrent inserts never share an ID;
+// numbers already taken (legacy or manually assigned IDs) are skipped.
+const MAX_STUDENT_ID_ATTEMPTS = 10;
+
 StudentSchema.pre('save', async function(next) {
   if (!this.studentId) {
     try {
-      const year = new Date().getFullYear();
-      const count = await mongoose.model('Student').countDocuments();
-      this.studentId = `STU-${year}-${String(count + 1).padStart(4, '0')}`;
-      next();
+      for (let attempt = 0; attempt < MAX_STUDENT_ID_ATTEMPTS; attempt++) {
+        const candidate = await allocateStudentId();
+        const taken = await mongoose.model('Student').exists({ studentId: candidate });
+        if (!taken) {
+          this.studentId = candidate;
+          return next();
+        }
+      }
+      next(new Error('Unable to allocate a unique student ID'));
     } catch (error) {
       next(error instanceof Error ? error : new Error('Unknown error occurred'));
     }
@@ -0,0 +1,120 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import Counter from './Counter';
+
+export const STUDENT_HISTORY_ACTIONS = [
+  'created',
+  'updated',
+  'imported',
+  'grade.recorded',
+  'grade.removed',
+  'archived',
+  'restored'
+] as const;
+
+export type StudentHistoryAction = typeof STUDENT_HISTORY_ACTIONS[number];
+
+export interface IStudentFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One version of a student record. snapshot holds the tracked fields as they were right after
+// the change, so the record as of any date is the last snapshot written before it.
+export interface IStudentHistory extends Document {
+  student: mongoose.Types.ObjectId;
+  version: number;
+  action: StudentHistoryAction;
+  changedBy?: mongoose.Types.ObjectId | null;
+  changes: IStudentFieldChange[];
+  snapshot: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface StudentHistoryEntry {
+  student: string;
+  action: StudentHistoryAction;
+  changedBy?: string | null;
+  changes: IStudentFieldChange[];
+  snapshot: Record<string, unknown>;
+}
+
+export interface IStudentHistoryModel extends Model<IStudentHistory> {
+  record(entry: StudentHistoryEntry): Promise<IStudentHistory>;
+}
+
+const FieldChangeSchema = new Schema<IStudentFieldChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  before: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  after: {
+    type: Schema.Types.Mixed,
+    default: null
+  }
+}, { _id: false });
+
+const StudentHistorySchema = new Schema<IStudentHistory, IStudentHistoryModel>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: [true, 'Student is required']
+  },
+  version: {
+    type: Number,
+    required: [true, 'Version is required'],
+    min: [1, 'Version must be at least 1']
+  },
+  action: {
+    type: String,
+    enum: {
+      values: STUDENT_HISTORY_ACTIONS,
+      message: 'Unknown student history action'
+    },
+    required: [true, 'Action is required']
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  changes: {
+    type: [FieldChangeSchema],
+    default: []
+  },
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Snapshot is required']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'studenthistories',
+  minimize: false
+});
+
+StudentHistorySchema.index({ student: 1, version: 1 }, { unique: true });
+StudentHistorySchema.index({ student: 1, createdAt: 1 });
+
+export const historyCounterKey = (studentId: string): string => `studentHistory:${studentId}`;
+
+// Versions are numbered per student from a counter, so concurrent writers never share a number
+StudentHistorySchema.statics.record = async function(entry: StudentHistoryEntry): Promise<IStudentHistory> {
+  const version = await Counter.increment(historyCounterKey(entry.student));
+
+  return this.create({
+    student: entry.student,
+    version,
+    action: entry.action,
+    changedBy: entry.changedBy && mongoose.Types.ObjectId.isValid(entry.changedBy) ? entry.changedBy : null,
+    changes: entry.changes,
+    snapshot: entry.snapshot
+  });
+};
+
+const StudentHistory = mongoose.model<IStudentHistory, IStudentHistoryModel>('StudentHistory', StudentHistorySchema);
+
+export default StudentHistory;
\ No newline at end of file
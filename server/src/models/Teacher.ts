@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import Enrollment, { ACTIVE_ENROLLMENT_STATUSES } from './Enrollment';
+
+export interface ICourseAssignment {
+  _id?: mongoose.Types.ObjectId;
+  courseId: mongoose.Types.ObjectId;
+  section?: string;
+  semester: string;
+  academicYear: string;
+}
+
+export interface ITeacher extends Document {
+  userId: mongoose.Types.ObjectId;
+  teacherId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  department?: string;
+  hireDate: Date;
+  assignments: mongoose.Types.DocumentArray<ICourseAssignment & Document>;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  getStudentIds(): Promise<mongoose.Types.ObjectId[]>;
+}
+
+export interface ITeacherModel extends Model<ITeacher> {
+  findByUserId(userId: string): mongoose.Query<ITeacher | null, ITeacher>;
+}
+
+const CourseAssignmentSchema = new Schema<ICourseAssignment>({
+  courseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Course',
+    required: [true, 'Course ID is required']
+  },
+  // When omitted the teacher covers every section of the course for the period
+  section: {
+    type: String,
+    default: null,
+    maxlength: [10, 'Section cannot exceed 10 characters']
+  },
+  semester: {
+    type: String,
+    required: [true, 'Semester is required'],
+    enum: ['Fall', 'Spring', 'Summer', 'Winter']
+  },
+  academicYear: {
+    type: String,
+    required: [true, 'Academic year is required'],
+    match: [/^\d{4}-\d{4}$/, 'Academic year must be in format YYYY-YYYY (e.g., 2024-2025)']
+  }
+});
+
+const TeacherSchema = new Schema<ITeacher, ITeacherModel>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    unique: true
+  },
+  teacherId: {
+    type: String,
+    required: [true, 'Teacher ID is required'],
+    unique: true,
+    trim: true
+  },
+  firstName: {
+    type: String,
+    required: [true, 'First name is required'],
+    trim: true,
+    maxlength: [50, 'First name cannot exceed 50 characters']
+  },
+  lastName: {
+    type: String,
+    required: [true, 'Last name is required'],
+    trim: true,
+    maxlength: [50, 'Last name cannot exceed 50 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  phone: {
+    type: String,
+    default: null,
+    trim: true
+  },
+  department: {
+    type: String,
+    default: null,
+    trim: true,
+    index: true
+  },
+  hireDate: {
+    type: Date,
+    default: Date.now
+  },
+  assignments: {
+    type: [CourseAssignmentSchema],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true,
+  collection: 'teachers'
+});
+
+TeacherSchema.index({ 'assignments.courseId': 1 });
+
+TeacherSchema.statics.findByUserId = function(userId: string) {
+  return this.findOne({ userId });
+};
+
+// Students with a current enrollment in any of the teacher's course sections
+TeacherSchema.methods.getStudentIds = async function(this: ITeacher): Promise<mongoose.Types.ObjectId[]> {
+  if (!this.isActive || this.assignments.length === 0) {
+    return [];
+  }
+
+  const sectionFilters = this.assignments.map(assignment => ({
+    courseId: assignment.courseId,
+    semester: assignment.semester,
+    academicYear: assignment.academicYear,
+    ...(assignment.section && { section: assignment.section })
+  }));
+
+  return Enrollment.distinct('studentId', {
+    $or: sectionFilters,
+    isActive: true,
+    status: { $in: ACTIVE_ENROLLMENT_STATUSES }
+  });
+};
+
+const Teacher = mongoose.model<ITeacher, ITeacherModel>('Teacher', TeacherSchema);
+
+export default Teacher;
\ No newline at end of file
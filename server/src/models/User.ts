@@ -1,15 +1,40 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import Role from './Role';
+import { isBuiltInRole } from '../config/permissions';
 
 export interface IUser extends Document {
   username: string;
+  email?: string;
   password: string;
-  role: 'admin' | 'teacher' | 'student';
+  passwordHistory: string[];
+  role: string;
   studentId?: string;
+  disabled: boolean;
+  disabledAt?: Date | null;
+  disabledReason?: string | null;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date | null;
+  lockedUntil?: Date | null;
+  tokenVersion: number;
+  twoFactor: {
+    enabled: boolean;
+    secret?: string | null;
+    pendingSecret?: string | null;
+    recoveryCodes: string[];
+    lastUsedStep?: number | null;
+    enabledAt?: Date | null;
+  };
+  oidc?: {
+    issuer?: string | null;
+    subject?: string | null;
+  };
+  externalId?: string | null;
   createdAt: Date;
   updatedAt: Date;
   // Add method signatures to interface
   hasRole(role: string): boolean;
   isValidStudent(): boolean;
+  isLocked(): boolean;
 }
 
 const UserSchema: Schema = new Schema<IUser>({
@@ -22,18 +47,34 @@ const UserSchema: Schema = new Schema<IUser>({
     minlength: [3, 'Username must be at least 3 characters long'],
     maxlength: [50, 'Username must be less than 50 characters']
   },
+  email: {
+    type: String,
+    unique: true,
+    sparse: true,
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
   password: {
     type: String,
     required: [true, 'Password is required'],
     minlength: [6, 'Password must be at least 6 characters long']
   },
+  // Hashes of previous passwords, newest first, kept for the password policy's reuse check
+  passwordHistory: {
+    type: [String],
+    default: []
+  },
+  // Built-in role name or the name of a custom role defined by an admin
   role: {
     type: String,
-    enum: {
-      values: ['admin', 'teacher', 'student'],
-      message: 'Role must be either admin, teacher, or student'
-    },
-    required: [true, 'Role is required']
+    required: [true, 'Role is required'],
+    trim: true,
+    lowercase: true,
+    validate: {
+      validator: async (value: string) => isBuiltInRole(value) || !!(await Role.exists({ name: value })),
+      message: 'Role does not exist'
+    }
   },
   studentId: {
     type: String,
@@ -53,6 +94,85 @@ const UserSchema: Schema = new Schema<IUser>({
       },
       message: 'Student ID is required for student role'
     }
+  },
+  // Disabled accounts keep their data but can no longer sign in or use existing tokens
+  disabled: {
+    type: Boolean,
+    default: false
+  },
+  disabledAt: {
+    type: Date,
+    default: null
+  },
+  disabledReason: {
+    type: String,
+    default: null,
+    trim: true,
+    maxlength: [500, 'Disabled reason cannot exceed 500 characters']
+  },
+  // Login throttling state, maintained by utils/loginThrottle
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastFailedLoginAt: {
+    type: Date,
+    default: null
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  // Security stamp embedded in access tokens; bumping it invalidates every token issued before
+  tokenVersion: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // TOTP secrets are stored encrypted and recovery codes hashed (see utils/totp)
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: {
+      type: String,
+      default: null
+    },
+    pendingSecret: {
+      type: String,
+      default: null
+    },
+    recoveryCodes: {
+      type: [String],
+      default: []
+    },
+    lastUsedStep: {
+      type: Number,
+      default: null
+    },
+    enabledAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Identity at the OpenID Connect provider for accounts that use single sign-on (see utils/oidc)
+  oidc: {
+    issuer: {
+      type: String,
+      default: null
+    },
+    subject: {
+      type: String,
+      default: null
+    }
+  },
+  // Identifier the SCIM client (the identity team's provisioning system) keeps for this account
+  externalId: {
+    type: String,
+    default: null,
+    trim: true
   }
 }, {
   timestamps: true
@@ -61,6 +181,10 @@ const UserSchema: Schema = new Schema<IUser>({
 // Compound index for better query performance
 UserSchema.index({ username: 1, role: 1 });
 UserSchema.index({ studentId: 1 });
+UserSchema.index(
+  { 'oidc.issuer': 1, 'oidc.subject': 1 },
+  { unique: true, partialFilterExpression: { 'oidc.subject': { $type: 'string' } } }
+);
 
 // Pre-save middleware to ensure studentId is only set for students
 UserSchema.pre('save', function(this: IUser, next) {
@@ -71,6 +195,15 @@ UserSchema.pre('save', function(this: IUser, next) {
   next();
 });
 
+// Tokens must not outlive the authorization they were issued under, so changing who the user
+// is (role, linked student record) or disabling the account rotates the security stamp
+UserSchema.pre('save', function(this: IUser, next) {
+  if (!this.isNew && (this.isModified('role') || this.isModified('studentId') || this.isModified('disabled'))) {
+    this.tokenVersion = (this.tokenVersion || 0) + 1;
+  }
+  next();
+});
+
 // Method to check if user has a specific role
 UserSchema.methods.hasRole = function(this: IUser, role: string): boolean {
   return this.role === role;
@@ -81,4 +214,9 @@ UserSchema.methods.isValidStudent = function(this: IUser): boolean {
   return this.role === 'student' && !!this.studentId;
 };
 
+// Method to check if the account is inside a temporary lockout
+UserSchema.methods.isLocked = function(this: IUser): boolean {
+  return !!this.lockedUntil && this.lockedUntil.getTime() > Date.now();
+};
+
 export default mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
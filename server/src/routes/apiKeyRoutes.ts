@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  createApiKey,
+  listApiKeys,
+  getApiKey,
+  rotateApiKey,
+  revokeApiKey
+} from '../controllers/apiKeyController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+router.use(authenticate, requirePermission('api-keys:manage'));
+
+// Admin: keys for integrations, sent in the X-API-Key header (the raw key is shown once)
+router.post('/', createApiKey);
+router.get('/', listApiKeys);
+router.get('/:id', getApiKey);
+router.post('/:id/rotate', rotateApiKey);
+router.delete('/:id', revokeApiKey);
+
+export default router
\ No newline at end of file
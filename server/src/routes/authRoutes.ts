@@ -1,14 +1,39 @@
 import express from 'express';
-import { register, login } from '../controllers/authController';
-import { authenticate } from '../middlewares/authMiddleware';
-import jwt from 'jsonwebtoken';
+import { register, login, verifyTwoFactorLogin, refresh, logout } from '../controllers/authController';
+import { changePassword, forgotPassword, resetPassword } from '../controllers/passwordController';
+import { startOidcLogin, oidcCallback } from '../controllers/oidcController';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/twoFactorController';
+import { authenticate, authenticateTwoFactorSetup, optionalAuthenticate } from '../middlewares/authMiddleware';
 
 const router = express.Router();
 
+// Registration needs an invite token, or an admin's bearer token
+router.post('/register', optionalAuthenticate, register);
+
 // Public routes
-router.post('/register', register);
 router.post('/login', login);
 
+// Second login step for accounts with two-factor authentication (challenge token + TOTP or recovery code)
+router.post('/login/2fa', verifyTwoFactorLogin);
+
+// Single sign-on through the district's OpenID Connect provider (authorization code + PKCE)
+router.get('/oidc/login', startOidcLogin);
+router.get('/oidc/callback', oidcCallback);
+router.post('/oidc/callback', oidcCallback);
+
+// Password recovery
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+
+// Exchange a refresh token for a new access/refresh token pair (rotation)
+router.post('/refresh', refresh);
+
 // Protected route to verify token
 router.get('/verify', authenticate, (req: any, res) => {
   res.json({
@@ -22,37 +47,16 @@ router.get('/verify', authenticate, (req: any, res) => {
   });
 });
 
-// Route to refresh token (optional)
-router.post('/refresh', authenticate, (req: any, res) => {
-  try {
-    const newToken = jwt.sign(
-      {
-        userId: req.user.userId,
-        role: req.user.role,
-        ...(req.user.studentId && { studentId: req.user.studentId })
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
-
-    res.json({
-      success: true,
-      message: 'Token refreshed successfully',
-      token: newToken
-    });
-  } catch (error) {
-    res.status(500).json({
-      error: 'Failed to refresh token'
-    });
-  }
-});
+router.post('/change-password', authenticate, changePassword);
 
-// Route to logout (client-side should discard token)
-router.post('/logout', authenticate, (req: any, res) => {
-  res.json({
-    success: true,
-    message: 'Logout successful. Please discard your token on the client side.'
-  });
-});
+// Two-factor enrollment; setup and enable also accept the setup challenge from login
+router.get('/2fa', authenticate, getTwoFactorStatus);
+router.post('/2fa/setup', authenticateTwoFactorSetup, setupTwoFactor);
+router.post('/2fa/enable', authenticateTwoFactorSetup, enableTwoFactor);
+router.post('/2fa/disable', authenticate, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, regenerateRecoveryCodes);
+
+// Revokes the current session so its refresh and access tokens stop working
+router.post('/logout', authenticate, logout);
 
 export default router;
\ No newline at end of file
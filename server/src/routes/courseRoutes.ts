@@ -0,0 +1,24 @@
+import express from 'express';
+import {
+  createCourse,
+  getCourses,
+  getCourseById,
+  updateCourse,
+  deleteCourse
+} from '../controllers/courseController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+const canRead = requirePermission('courses:read');
+const canWrite = requirePermission('courses:write');
+
+router.use(authenticate);
+
+router.post('/', canWrite, createCourse);
+router.get('/', canRead, getCourses);
+router.get('/:id', canRead, getCourseById);
+router.put('/:id', canWrite, updateCourse);
+router.delete('/:id', canWrite, deleteCourse);
+
+export default router
\ No newline at end of file
@@ -0,0 +1,34 @@
+import express from 'express';
+import {
+  enrollStudent,
+  getEnrollments,
+  getEnrollmentById,
+  getStudentEnrollmentHistory,
+  getCourseEnrollments,
+  getGradeDistribution,
+  completeEnrollment,
+  dropEnrollment,
+  recordEnrollmentGrade
+} from '../controllers/enrollmentController';
+import { authenticate, requirePermission, loadStudentScope, requireStudentInScope } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+const canRead = requirePermission('enrollments:read', 'enrollments:read:own-sections');
+const canWrite = requirePermission('enrollments:write');
+
+router.use(authenticate);
+
+router.post('/', canWrite, enrollStudent);
+router.get('/', canRead, loadStudentScope, getEnrollments);
+
+router.get('/student/:studentId', canRead, loadStudentScope, requireStudentInScope(), getStudentEnrollmentHistory);
+router.get('/course/:courseId', canRead, loadStudentScope, getCourseEnrollments);
+router.get('/distribution/:gradeLevel', canRead, loadStudentScope, getGradeDistribution);
+
+router.get('/:id', canRead, loadStudentScope, getEnrollmentById);
+router.patch('/:id/complete', canWrite, completeEnrollment);
+router.patch('/:id/drop', canWrite, dropEnrollment);
+router.patch('/:id/grade', requirePermission('grades:write', 'grades:write:own-sections'), loadStudentScope, recordEnrollmentGrade);
+
+export default router
\ No newline at end of file
@@ -5,16 +5,25 @@ import {
   removeGrade, 
   getGradesSummary 
 } from '../controllers/gradeController';
-import { authenticate, requireAdminOrTeacher } from '../middlewares/authMiddleware';
+import { exportGradesSummary } from '../controllers/exportController';
+import { 
+  authenticate, 
+  requirePermission, 
+  loadStudentScope, 
+  requireStudentInScope 
+} from '../middlewares/authMiddleware';
 
 const router = express.Router();
 
+const canRead = requirePermission('grades:read', 'grades:read:own-sections');
+const canWrite = requirePermission('grades:write', 'grades:write:own-sections');
+
 router.use(authenticate);
-router.use(requireAdminOrTeacher);
 
-router.post('/student/:studentId', addOrUpdateGrade);
-router.get('/student/:studentId', getStudentGrades);
-router.delete('/student/:studentId', removeGrade);
-router.get('/summary', getGradesSummary);
+router.post('/student/:studentId', canWrite, loadStudentScope, requireStudentInScope(), addOrUpdateGrade);
+router.get('/student/:studentId', canRead, loadStudentScope, requireStudentInScope(), getStudentGrades);
+router.delete('/student/:studentId', canWrite, loadStudentScope, requireStudentInScope(), removeGrade);
+router.get('/summary', canRead, loadStudentScope, getGradesSummary);
+router.get('/summary/export', canRead, loadStudentScope, exportGradesSummary);
 
 export default router
\ No newline at end of file
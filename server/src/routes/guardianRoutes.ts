@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getMyStudents,
+  getLinkedStudentGrades,
+  getLinkedStudentSummary
+} from '../controllers/guardianPortalController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+router.use(authenticate);
+router.use(requirePermission('grades:read:linked'));
+
+router.get('/students', getMyStudents);
+
+router.get('/students/:id/grades', getLinkedStudentGrades);
+
+router.get('/students/:id/summary', getLinkedStudentSummary);
+
+export default router
\ No newline at end of file
@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  createInvitation,
+  listInvitations,
+  revokeInvitation
+} from '../controllers/invitationController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+router.use(authenticate, requirePermission('invitations:manage'));
+
+// Admin: single-use registration invites (the only way to self-register)
+router.post('/', createInvitation);
+router.get('/', listInvitations);
+router.delete('/:id', revokeInvitation);
+
+export default router
\ No newline at end of file
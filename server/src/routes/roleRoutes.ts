@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+  listPermissions,
+  listRoles,
+  getRole,
+  createRole,
+  updateRole,
+  deleteRole
+} from '../controllers/roleController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+router.use(authenticate, requirePermission('roles:manage'));
+
+// Admin: the permission catalogue roles are built from (registered before /:name)
+router.get('/permissions', listPermissions);
+
+// Admin: define custom roles such as registrar or counselor
+router.get('/', listRoles);
+router.post('/', createRole);
+router.get('/:name', getRole);
+router.put('/:name', updateRole);
+router.delete('/:name', deleteRole);
+
+export default router
\ No newline at end of file
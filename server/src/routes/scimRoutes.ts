@@ -0,0 +1,33 @@
+import express from 'express';
+import {
+  getServiceProviderConfig,
+  listScimUsers,
+  getScimUser,
+  createScimUser,
+  patchScimUser,
+  listScimGroups,
+  getScimGroup,
+  patchScimGroup
+} from '../controllers/scimController';
+import { authenticateScim, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+// SCIM clients send application/scim+json, which the app-wide JSON parser does not read
+router.use(express.json({ type: ['application/json', 'application/scim+json'] }));
+router.use(authenticateScim, requirePermission('scim:provision'));
+
+router.get('/ServiceProviderConfig', getServiceProviderConfig);
+
+// Identity team provisioning: accounts are deactivated (active: false), never deleted
+router.get('/Users', listScimUsers);
+router.post('/Users', createScimUser);
+router.get('/Users/:id', getScimUser);
+router.patch('/Users/:id', patchScimUser);
+
+// Groups are roles; membership changes move users between roles
+router.get('/Groups', listScimGroups);
+router.get('/Groups/:id', getScimGroup);
+router.patch('/Groups/:id', patchScimGroup);
+
+export default router
\ No newline at end of file
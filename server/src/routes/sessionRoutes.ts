@@ -0,0 +1,24 @@
+import express from 'express';
+import {
+  getMySessions,
+  terminateMySession,
+  terminateMyOtherSessions,
+  getUserSessions,
+  terminateUserSessions
+} from '../controllers/sessionController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Admin: inspect or sign out every session of any user (e.g. when staff leave)
+router.get('/users/:userId', requirePermission('sessions:manage'), getUserSessions);
+router.delete('/users/:userId', requirePermission('sessions:manage'), terminateUserSessions);
+
+// Current user's own sessions
+router.get('/', getMySessions);
+router.delete('/', terminateMyOtherSessions);
+router.delete('/:sessionId', terminateMySession);
+
+export default router
\ No newline at end of file
@@ -1,12 +1,66 @@
 import express from 'express';
 import { addStudent, getAllStudents, getStudentById } from '../controllers/studentController';
-import { authenticate, requireAdmin, requireAdminOrTeacher } from '../middlewares/authMiddleware';
+import { updateStudent, updateStudentPartial } from '../controllers/updateStudentController';
+import {
+  archiveStudent,
+  bulkArchiveStudents,
+  checkStudentDeletable,
+  deleteStudent,
+  restoreStudent
+} from '../controllers/deleteStudentController';
+import { getNextStudentId, reserveStudentIds } from '../controllers/studentIdController';
+import { importStudents } from '../controllers/studentImportController';
+import { exportStudents } from '../controllers/exportController';
+import { getStudentHistory } from '../controllers/studentHistoryController';
+import { inviteStudent } from '../controllers/invitationController';
+import { getStudentGuardians, linkGuardian, updateGuardianLink, unlinkGuardian } from '../controllers/guardianController';
+import { 
+  authenticate, 
+  requirePermission, 
+  loadStudentScope, 
+  requireStudentInScope 
+} from '../middlewares/authMiddleware';
 
 const router = express.Router();
 
-router.post('/', authenticate, requireAdmin, addStudent);
+const canRead = requirePermission('students:read', 'students:read:own-sections');
+const canWrite = requirePermission('students:write');
+const canDelete = requirePermission('students:delete');
+const canManageGuardians = requirePermission('guardians:manage');
 
-router.get('/', authenticate, requireAdminOrTeacher, getAllStudents);
-router.get('/:id', authenticate, requireAdminOrTeacher, getStudentById);
+router.post('/', authenticate, canWrite, addStudent);
+// Removing students archives them (withdrawn, graduated or transferred); see deleteStudentController
+router.post('/bulk-delete', authenticate, canDelete, bulkArchiveStudents);
+
+// Bulk import from CSV or a JSON array; ?dryRun=true reports the outcome without saving.
+// JSON bodies go through the app-wide parser, so large imports should be sent as CSV.
+const csvBody = express.text({ type: ['text/csv', 'application/csv'], limit: '5mb' });
+router.post('/import', authenticate, canWrite, csvBody, importStudents);
+
+router.get('/ids/next', authenticate, canWrite, getNextStudentId);
+router.post('/ids/reserve', authenticate, canWrite, reserveStudentIds);
+
+router.get('/', authenticate, canRead, loadStudentScope, getAllStudents);
+// CSV or XLSX download of the list, with the same filters and sort (before /:id)
+router.get('/export', authenticate, canRead, loadStudentScope, exportStudents);
+router.get('/:id', authenticate, canRead, loadStudentScope, requireStudentInScope('id'), getStudentById);
+router.get('/:id/deletable', authenticate, canDelete, checkStudentDeletable);
+// Every change to the record (who, when, before/after per field); ?at=<date> for the record as of then
+router.get('/:id/history', authenticate, canRead, loadStudentScope, requireStudentInScope('id'), getStudentHistory);
+
+// Invite the student to register an account bound to this record
+router.post('/:id/invitation', authenticate, requirePermission('invitations:manage'), inviteStudent);
+
+// Guardians who may follow this student's grades
+router.get('/:id/guardians', authenticate, canManageGuardians, getStudentGuardians);
+router.post('/:id/guardians', authenticate, canManageGuardians, linkGuardian);
+router.patch('/:id/guardians/:linkId', authenticate, canManageGuardians, updateGuardianLink);
+router.delete('/:id/guardians/:linkId', authenticate, canManageGuardians, unlinkGuardian);
+
+router.put('/:id', authenticate, canWrite, updateStudent);
+router.patch('/:id', authenticate, canWrite, updateStudentPartial);
+router.post('/:id/archive', authenticate, canDelete, archiveStudent);
+router.delete('/:id', authenticate, canDelete, deleteStudent);
+router.post('/:id/restore', authenticate, canDelete, restoreStudent);
 
 export default router
\ No newline at end of file
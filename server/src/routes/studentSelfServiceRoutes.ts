@@ -4,12 +4,17 @@ import {
   getMyGradeBySubject, 
   getMyAcademicSummary 
 } from '../controllers/studentGradesController';
-import { authenticate, requireStudent } from '../middlewares/authMiddleware';
+import { 
+  getMyGuardians, 
+  grantGuardianConsent, 
+  revokeGuardianConsent 
+} from '../controllers/guardianController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
 
 const router = express.Router();
 
 router.use(authenticate);
-router.use(requireStudent);
+router.use(requirePermission('grades:read:own'));
 
 router.get('/grades', getMyGrades);
 
@@ -17,4 +22,11 @@ router.get('/grades/:subject', getMyGradeBySubject);
 
 router.get('/summary', getMyAcademicSummary);
 
+// Guardians linked to me, and my consent once I reach the age of majority
+router.get('/guardians', getMyGuardians);
+
+router.post('/guardians/:linkId/consent', grantGuardianConsent);
+
+router.delete('/guardians/:linkId/consent', revokeGuardianConsent);
+
 export default router
\ No newline at end of file
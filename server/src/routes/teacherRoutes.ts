@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+  createTeacher,
+  getTeachers,
+  getTeacherById,
+  updateTeacher,
+  addCourseAssignment,
+  removeCourseAssignment,
+  getMyTeacherProfile
+} from '../controllers/teacherController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+const canRead = requirePermission('teachers:read');
+const canWrite = requirePermission('teachers:write');
+
+router.use(authenticate);
+
+router.get('/me', requirePermission('teachers:read:own'), getMyTeacherProfile);
+
+router.post('/', canWrite, createTeacher);
+router.get('/', canRead, getTeachers);
+router.get('/:id', canRead, getTeacherById);
+router.put('/:id', canWrite, updateTeacher);
+router.post('/:id/assignments', canWrite, addCourseAssignment);
+router.delete('/:id/assignments/:assignmentId', canWrite, removeCourseAssignment);
+
+export default router
\ No newline at end of file
@@ -0,0 +1,65 @@
+import express from 'express';
+import {
+  listUsers,
+  getUserById,
+  createUser,
+  updateUserRole,
+  disableUser,
+  enableUser,
+  deleteUser,
+  unlockUser,
+  resetUserTwoFactor,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+  getPasswordPolicy,
+  updatePasswordPolicy
+} from '../controllers/userController';
+import {
+  startImpersonation,
+  listImpersonations,
+  getImpersonation,
+  endImpersonation
+} from '../controllers/impersonationController';
+import { authenticate, requirePermission } from '../middlewares/authMiddleware';
+
+const router = express.Router();
+
+const canRead = requirePermission('users:read');
+const canWrite = requirePermission('users:write');
+const canManageSecurity = requirePermission('security:manage');
+const canImpersonate = requirePermission('users:impersonate');
+
+router.use(authenticate);
+
+// Admin: choose which roles must use two-factor (registered before /:userId)
+router.get('/two-factor-policy', canManageSecurity, getTwoFactorPolicy);
+router.put('/two-factor-policy', canManageSecurity, updateTwoFactorPolicy);
+
+// Admin: password rules applied at registration, password change and reset (before /:userId)
+router.get('/password-policy', canManageSecurity, getPasswordPolicy);
+router.put('/password-policy', canManageSecurity, updatePasswordPolicy);
+
+// Admin: impersonation history with the audited requests of each session (before /:userId)
+router.get('/impersonations', canImpersonate, listImpersonations);
+router.get('/impersonations/:id', canImpersonate, getImpersonation);
+router.delete('/impersonations/:id', canImpersonate, endImpersonation);
+
+// Admin: user provisioning and lifecycle
+router.get('/', canRead, listUsers);
+router.post('/', canWrite, createUser);
+router.get('/:userId', canRead, getUserById);
+router.patch('/:userId/role', canWrite, updateUserRole);
+router.post('/:userId/disable', canWrite, disableUser);
+router.post('/:userId/enable', canWrite, enableUser);
+router.delete('/:userId', canWrite, deleteUser);
+
+// Admin: lift a lockout caused by repeated failed logins
+router.post('/:userId/unlock', canWrite, unlockUser);
+
+// Admin: reset two-factor for users who lost their device
+router.delete('/:userId/two-factor', canManageSecurity, resetUserTwoFactor);
+
+// Admin: short-lived, read-only token to see the API as a user for support
+router.post('/:userId/impersonate', canImpersonate, startImpersonation);
+
+export default router
\ No newline at end of file
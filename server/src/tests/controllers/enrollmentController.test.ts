@@ -0,0 +1,239 @@
+import {
+  enrollStudent,
+  dropEnrollment,
+  recordEnrollmentGrade,
+  getEnrollments,
+  getEnrollmentById
+} from '../../controllers/enrollmentController';
+import Enrollment from '../../models/Enrollment';
+import Student from '../../models/Student';
+import Course from '../../models/Course';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+
+jest.mock('../../models/Enrollment', () => {
+  const actual = jest.requireActual('../../models/Enrollment');
+  return {
+    ...actual,
+    __esModule: true,
+    default: {
+      find: jest.fn(),
+      findById: jest.fn(),
+      create: jest.fn()
+    }
+  };
+});
+jest.mock('../../models/Student');
+jest.mock('../../models/Course');
+
+const mockedEnrollment = Enrollment as jest.Mocked<typeof Enrollment>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedCourse = Course as jest.Mocked<typeof Course>;
+
+describe('enrollment controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let jsonMock: jest.Mock;
+  let statusMock: jest.Mock;
+
+  beforeEach(() => {
+    jsonMock = jest.fn();
+    statusMock = jest.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock, json: jsonMock };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enrollStudent', () => {
+    const validBody = {
+      studentId: new mongoose.Types.ObjectId().toString(),
+      courseId: new mongoose.Types.ObjectId().toString(),
+      gradeLevel: '10',
+      semester: 'Fall',
+      academicYear: '2025-2026',
+      credits: 3
+    };
+
+    it('should return 400 if required fields are missing', async () => {
+      req = { body: { studentId: validBody.studentId } };
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Missing required fields'
+      }));
+    });
+
+    it('should return 400 for an invalid semester', async () => {
+      req = { body: { ...validBody, semester: 'Autumn' } };
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Validation failed'
+      }));
+    });
+
+    it('should return 404 if the student does not exist', async () => {
+      req = { body: validBody };
+      mockedStudent.findById.mockResolvedValue(null);
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+      expect(mockedEnrollment.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the course does not exist', async () => {
+      req = { body: validBody };
+      mockedStudent.findById.mockResolvedValue({ _id: validBody.studentId } as any);
+      mockedCourse.findById.mockResolvedValue(null);
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+      expect(jsonMock).toHaveBeenCalledWith({ error: 'Course not found' });
+      expect(mockedEnrollment.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 if the course is inactive', async () => {
+      req = { body: validBody };
+      mockedStudent.findById.mockResolvedValue({ _id: validBody.studentId } as any);
+      mockedCourse.findById.mockResolvedValue({ _id: validBody.courseId, code: 'ART100', isActive: false } as any);
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Cannot enroll in an inactive course'
+      }));
+      expect(mockedEnrollment.create).not.toHaveBeenCalled();
+    });
+
+    it('should default credits to the course credits', async () => {
+      const { credits, ...body } = validBody;
+      req = { body };
+      mockedStudent.findById.mockResolvedValue({ _id: validBody.studentId } as any);
+      mockedCourse.findById.mockResolvedValue({ _id: validBody.courseId, credits: 4, isActive: true } as any);
+      mockedEnrollment.create.mockResolvedValue({ _id: 'enrollment' } as any);
+
+      await enrollStudent(req as any, res as any);
+
+      expect(mockedEnrollment.create).toHaveBeenCalledWith(expect.objectContaining({ credits: 4 }));
+      expect(statusMock).toHaveBeenCalledWith(201);
+    });
+
+    it('should return 409 on duplicate enrollment', async () => {
+      req = { body: validBody };
+      mockedStudent.findById.mockResolvedValue({ _id: validBody.studentId } as any);
+      mockedCourse.findById.mockResolvedValue({ _id: validBody.courseId, credits: 3, isActive: true } as any);
+      mockedEnrollment.create.mockRejectedValue({ code: 11000 });
+
+      await enrollStudent(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe('dropEnrollment', () => {
+    it('should return 409 if the enrollment is no longer active', async () => {
+      req = { params: { id: new mongoose.Types.ObjectId().toString() }, body: { reason: 'Moved' } };
+      const enrollment = {
+        status: 'completed',
+        get: jest.fn().mockReturnValue(false),
+        markAsDropped: jest.fn()
+      };
+      mockedEnrollment.findById.mockResolvedValue(enrollment as any);
+
+      await dropEnrollment(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+      expect(enrollment.markAsDropped).not.toHaveBeenCalled();
+    });
+
+    it('should drop an active enrollment with a reason', async () => {
+      req = { params: { id: new mongoose.Types.ObjectId().toString() }, body: { reason: ' Schedule conflict ' } };
+      const enrollment = {
+        status: 'enrolled',
+        get: jest.fn().mockReturnValue(true),
+        markAsDropped: jest.fn().mockResolvedValue(undefined)
+      };
+      mockedEnrollment.findById.mockResolvedValue(enrollment as any);
+
+      await dropEnrollment(req as any, res as any);
+
+      expect(enrollment.markAsDropped).toHaveBeenCalledWith('Schedule conflict');
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        message: 'Enrollment dropped successfully'
+      }));
+    });
+  });
+
+  describe('scoped reads', () => {
+    const inScope = new mongoose.Types.ObjectId().toString();
+
+    it('should limit the enrollment list to students in the caller\'s sections', async () => {
+      const query: any = {
+        where: jest.fn().mockReturnThis(),
+        and: jest.fn().mockReturnThis(),
+        populate: jest.fn().mockReturnThis(),
+        sort: jest.fn().mockResolvedValue([])
+      };
+      mockedEnrollment.find.mockReturnValue(query);
+      req = { query: {}, studentScope: [inScope] } as any;
+
+      await getEnrollments(req as any, res as any);
+
+      expect(query.and).toHaveBeenCalledWith([{ studentId: { $in: [inScope] } }]);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true, count: 0 }));
+    });
+
+    it('should return 403 for an enrollment of a student outside the caller\'s sections', async () => {
+      const enrollment = {
+        studentId: new mongoose.Types.ObjectId(),
+        populate: jest.fn()
+      };
+      mockedEnrollment.findById.mockResolvedValue(enrollment as any);
+      req = { params: { id: new mongoose.Types.ObjectId().toString() }, studentScope: [inScope] } as any;
+
+      await getEnrollmentById(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(403);
+      expect(enrollment.populate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordEnrollmentGrade', () => {
+    it('should reject letter grades outside the allowed scale', async () => {
+      req = { params: { id: new mongoose.Types.ObjectId().toString() }, body: { gradeType: 'final', grade: 'E' } };
+
+      await recordEnrollmentGrade(req as any, res as any);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Invalid letter grade'
+      }));
+    });
+
+    it('should record a midterm grade', async () => {
+      req = { params: { id: new mongoose.Types.ObjectId().toString() }, body: { gradeType: 'midterm', grade: 'B+' } };
+      const enrollment = {
+        status: 'in_progress',
+        updateGrade: jest.fn().mockResolvedValue(undefined)
+      };
+      mockedEnrollment.findById.mockResolvedValue(enrollment as any);
+
+      await recordEnrollmentGrade(req as any, res as any);
+
+      expect(enrollment.updateGrade).toHaveBeenCalledWith('midterm', 'B+', undefined);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Midterm grade recorded successfully'
+      }));
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { Writable } from 'stream';
+import { Request, Response } from 'express';
+import { exportStudents } from '../../controllers/exportController';
+import Student from '../../models/Student';
+import { XLSX_LIMITS } from '../../utils/xlsx';
+
+jest.mock('../../models/Student');
+
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+
+// A response whose client stops reading after `limit` bytes, like a download that was abandoned
+const stalledResponse = (limit: number) => {
+  let accepted = 0;
+  const res: any = new Writable({
+    highWaterMark: 1024,
+    write(chunk: Buffer, _encoding, callback) {
+      accepted += chunk.length;
+      if (accepted < limit) callback();
+    }
+  });
+  res.status = jest.fn().mockReturnValue(res);
+  res.setHeader = jest.fn();
+  res.json = jest.fn();
+  return res;
+};
+
+// Yields rows for as long as it is read
+const endlessCursor = () => {
+  const cursor = {
+    produced: 0,
+    close: jest.fn().mockResolvedValue(undefined),
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        cursor.produced++;
+        yield {
+          studentId: `STU-2025-${String(cursor.produced).padStart(6, '0')}`,
+          name: `Student ${cursor.produced * 7919}`,
+          email: `student${cursor.produced * 104729}@example.com`,
+          age: 10 + (cursor.produced % 9),
+          gradeLevel: String(cursor.produced % 12)
+        };
+      }
+    }
+  };
+  return cursor;
+};
+
+const waitUntil = async (condition: () => boolean): Promise<void> => {
+  while (!condition()) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+describe('export controller', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it.each(['csv', 'xlsx'])('should stop a %s export and close the cursor when the client disconnects', async format => {
+    const cursor = endlessCursor();
+    const query: any = {
+      select: jest.fn().mockReturnThis(),
+      sort: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      cursor: jest.fn().mockReturnValue(cursor)
+    };
+    mockedStudent.find.mockReturnValue(query);
+
+    const res = stalledResponse(4096);
+    const req = {
+      query: { format },
+      apiKey: { id: 'key', prefix: 'ck_test', name: 'Reports', permissions: ['students:read'] }
+    } as unknown as Request;
+
+    const handled = exportStudents(req, res as Response);
+    await waitUntil(() => res.writableNeedDrain && cursor.produced > 0);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const producedBeforeAbort = cursor.produced;
+    res.destroy();
+    await handled;
+
+    expect(cursor.close).toHaveBeenCalled();
+    expect(cursor.produced).toBeLessThanOrEqual(producedBeforeAbort + 1);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an XLSX export with more rows than a sheet holds before the download starts', async () => {
+    mockedStudent.countDocuments.mockResolvedValue(XLSX_LIMITS.rows as never);
+
+    const res: any = {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      json: jest.fn()
+    };
+    const req = {
+      query: { format: 'xlsx' },
+      apiKey: { id: 'key', prefix: 'ck_test', name: 'Reports', permissions: ['students:read'] }
+    } as unknown as Request;
+
+    await exportStudents(req, res as Response);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: 'Too many rows for an XLSX export',
+      maxRows: XLSX_LIMITS.rows - 1
+    }));
+    expect(res.setHeader).not.toHaveBeenCalled();
+    expect(mockedStudent.find).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,7 @@ import { Request, Response } from 'express';
 import mongoose from 'mongoose';
 
 jest.mock('../../models/Student');
+jest.mock('../../models/StudentHistory');
 const mockedStudentModel = Student as jest.Mocked<typeof Student>;
 
 describe('addOrUpdateGrade controller', () => {
@@ -0,0 +1,216 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import bcrypt from 'bcrypt';
+import mongoose from 'mongoose';
+import { changePassword, forgotPassword, resetPassword } from '../../controllers/passwordController';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import PasswordResetToken from '../../models/PasswordResetToken';
+import SecurityPolicy from '../../models/SecurityPolicy';
+import { hashToken } from '../../utils/tokenService';
+import { setMailTransport, FileMailTransport } from '../../utils/mailer';
+
+jest.mock('bcrypt');
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/PasswordResetToken');
+jest.mock('../../models/SecurityPolicy');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedResetToken = PasswordResetToken as jest.Mocked<typeof PasswordResetToken>;
+const mockedSecurityPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+describe('password controller', () => {
+  const userId = new mongoose.Types.ObjectId();
+  let req: any;
+  let res: any;
+  let jsonMock: jest.Mock;
+  let statusMock: jest.Mock;
+  let user: any;
+
+  beforeEach(() => {
+    jsonMock = jest.fn();
+    statusMock = jest.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock, json: jsonMock };
+    user = {
+      _id: userId,
+      username: 'jsmith',
+      email: 'john.smith@campcore.edu',
+      password: 'old-hash',
+      passwordHistory: ['older-hash', 'oldest-hash'],
+      save: jest.fn().mockResolvedValue(undefined)
+    };
+    (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+    mockedSecurityPolicy.getPasswordPolicy.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    jest.clearAllMocks();
+  });
+
+  describe('changePassword', () => {
+    beforeEach(() => {
+      req = {
+        user: { userId: userId.toString(), role: 'teacher', sessionId: 'current-session' },
+        body: { currentPassword: 'old-password', newPassword: 'new-password' }
+      };
+      mockedUser.findById.mockResolvedValue(user);
+    });
+
+    it('should reject an incorrect current password', async () => {
+      (bcrypt.compare as jest.Mock).mockResolvedValueOnce(false);
+
+      await changePassword(req, res);
+
+      expect(statusMock).toHaveBeenCalledWith(401);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should update the password and revoke other sessions', async () => {
+      (bcrypt.compare as jest.Mock)
+        .mockResolvedValueOnce(true)   // current password matches
+        .mockResolvedValueOnce(false); // new password differs
+      mockedSession.revokeAllForUser.mockResolvedValue(2);
+
+      await changePassword(req, res);
+
+      expect(user.password).toBe('new-hash');
+      expect(user.passwordHistory).toEqual(['old-hash', 'older-hash', 'oldest-hash']);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(userId.toString(), 'password_changed', 'current-session');
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true, revokedSessions: 2 }));
+    });
+
+    it('should refuse a password from the recent history', async () => {
+      (bcrypt.compare as jest.Mock)
+        .mockResolvedValueOnce(true)   // current password matches
+        .mockResolvedValueOnce(false)  // new password differs from the current one
+        .mockResolvedValueOnce(false)  // older-hash
+        .mockResolvedValueOnce(true);  // oldest-hash
+
+      await changePassword(req, res);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        violations: [expect.objectContaining({ code: 'reused_password' })]
+      }));
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a password containing the username', async () => {
+      (bcrypt.compare as jest.Mock)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      req.body.newPassword = 'JSmith-autumn-leaves';
+
+      await changePassword(req, res);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Password does not meet the password policy',
+        violations: [expect.objectContaining({ code: 'contains_username' })]
+      }));
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should answer identically for unknown accounts without sending mail', async () => {
+      const send = jest.fn();
+      setMailTransport({ name: 'test', send });
+      mockedUser.findOne.mockResolvedValue(null);
+      req = { body: { identifier: 'nobody' } };
+
+      await forgotPassword(req, res);
+
+      expect(send).not.toHaveBeenCalled();
+      expect(mockedResetToken.create).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should store a hashed single-use token and deliver the link through the transport', async () => {
+      const outbox = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'campuscore-mail-')), 'outbox.jsonl');
+      setMailTransport(new FileMailTransport(outbox));
+      mockedUser.findOne.mockResolvedValue(user);
+      req = { body: { identifier: 'JSmith ' }, ip: '127.0.0.1' };
+
+      await forgotPassword(req, res);
+
+      expect(mockedUser.findOne).toHaveBeenCalledWith({ $or: [{ username: 'jsmith' }, { email: 'jsmith' }] });
+      expect(mockedResetToken.deleteMany).toHaveBeenCalledWith({ userId, usedAt: null });
+
+      const [mail] = fs.readFileSync(outbox, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(mail.to).toBe('john.smith@campcore.edu');
+      const rawToken = /token=([\w-]+)/.exec(mail.text)![1];
+      const stored = mockedResetToken.create.mock.calls[0][0] as any;
+      expect(stored.tokenHash).toBe(hashToken(rawToken));
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reject an unknown, used or expired token', async () => {
+      mockedResetToken.findOne.mockResolvedValue(null);
+      req = { body: { token: 'bogus', newPassword: 'new-password' } };
+
+      await resetPassword(req, res);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith({ error: 'Invalid or expired reset token' });
+    });
+
+    it('should set the new password, lift any lockout and revoke every session', async () => {
+      mockedResetToken.findOne.mockResolvedValue({ userId } as any);
+      mockedResetToken.findOneAndUpdate.mockResolvedValue({ userId } as any);
+      Object.assign(user, { failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60000) });
+      mockedUser.findById.mockResolvedValue(user);
+      mockedSession.revokeAllForUser.mockResolvedValue(1);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      req = { body: { token: 'raw-token', newPassword: 'new-password' } };
+
+      await resetPassword(req, res);
+
+      expect(mockedResetToken.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenHash: hashToken('raw-token'), usedAt: null }),
+        expect.objectContaining({ usedAt: expect.any(Date) })
+      );
+      expect(user.password).toBe('new-hash');
+      expect(user).toEqual(expect.objectContaining({ failedLoginAttempts: 0, lockedUntil: null }));
+      expect(user.save).toHaveBeenCalled();
+      expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(userId.toString(), 'password_reset');
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should enforce the password policy without using up the token', async () => {
+      mockedResetToken.findOne.mockResolvedValue({ userId } as any);
+      mockedUser.findById.mockResolvedValue(user);
+      req = { body: { token: 'raw-token', newPassword: 'Password1!' } };
+
+      await resetPassword(req, res);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        violations: [expect.objectContaining({ code: 'common_password' })]
+      }));
+      expect(mockedResetToken.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the current password as the new one', async () => {
+      mockedResetToken.findOne.mockResolvedValue({ userId } as any);
+      mockedUser.findById.mockResolvedValue(user);
+      (bcrypt.compare as jest.Mock).mockResolvedValueOnce(true);
+      req = { body: { token: 'raw-token', newPassword: 'new-password' } };
+
+      await resetPassword(req, res);
+
+      expect(bcrypt.compare).toHaveBeenCalledWith('new-password', 'old-hash');
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        violations: [expect.objectContaining({ code: 'reused_password' })]
+      }));
+      expect(mockedResetToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
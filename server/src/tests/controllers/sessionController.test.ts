@@ -0,0 +1,83 @@
+import { terminateMySession, terminateUserSessions, getMySessions } from '../../controllers/sessionController';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import mongoose from 'mongoose';
+
+jest.mock('../../models/Session');
+jest.mock('../../models/User');
+
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedUser = User as jest.Mocked<typeof User>;
+
+describe('session controller', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const currentSessionId = new mongoose.Types.ObjectId().toString();
+  let req: any;
+  let res: any;
+  let jsonMock: jest.Mock;
+  let statusMock: jest.Mock;
+
+  beforeEach(() => {
+    jsonMock = jest.fn();
+    statusMock = jest.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock, json: jsonMock };
+    req = { user: { userId, role: 'teacher', sessionId: currentSessionId }, params: {} };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flag the current session in the listing', async () => {
+    const otherSessionId = new mongoose.Types.ObjectId();
+    mockedSession.findActiveForUser.mockResolvedValue([
+      { _id: currentSessionId, ipAddress: '10.0.0.1', userAgent: 'Firefox' },
+      { _id: otherSessionId, ipAddress: '10.0.0.2', userAgent: 'Safari' }
+    ] as any);
+
+    await getMySessions(req, res);
+
+    const { sessions } = jsonMock.mock.calls[0][0];
+    expect(sessions.map((s: any) => s.isCurrent)).toEqual([true, false]);
+  });
+
+  it('should only terminate sessions owned by the caller', async () => {
+    const sessionId = new mongoose.Types.ObjectId().toString();
+    req.params = { sessionId };
+    mockedSession.findOne.mockResolvedValue(null);
+
+    await terminateMySession(req, res);
+
+    expect(mockedSession.findOne).toHaveBeenCalledWith({ _id: sessionId, userId, revokedAt: null });
+    expect(statusMock).toHaveBeenCalledWith(404);
+    expect(mockedSession.revoke).not.toHaveBeenCalled();
+  });
+
+  it('should terminate one of the caller sessions', async () => {
+    const sessionId = new mongoose.Types.ObjectId().toString();
+    req.params = { sessionId };
+    mockedSession.findOne.mockResolvedValue({ _id: sessionId } as any);
+
+    await terminateMySession(req, res);
+
+    expect(mockedSession.revoke).toHaveBeenCalledWith(sessionId, 'user_terminated');
+    expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+      success: true,
+      wasCurrentSession: false
+    }));
+  });
+
+  it('should let an admin terminate every session of a user', async () => {
+    const targetUserId = new mongoose.Types.ObjectId().toString();
+    req.user.role = 'admin';
+    req.params = { userId: targetUserId };
+    mockedUser.findById.mockResolvedValue({ _id: targetUserId, username: 'departed.teacher' } as any);
+    mockedSession.revokeAllForUser.mockResolvedValue(3);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await terminateUserSessions(req, res);
+
+    expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(targetUserId, 'admin_terminated');
+    expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ terminatedCount: 3 }));
+  });
+});
@@ -1,6 +1,7 @@
 // src/tests/controllers/studentController.test.ts
 import { addStudent } from '../../controllers/studentController';
 import Student from '../../models/Student';
+import { issueInvitation } from '../../utils/invitations';
 import { Request, Response } from 'express';
 
 // This fixes both `new Student()` and `Student.findOne` mocking
@@ -13,6 +14,9 @@ jest.mock('../../models/Student', () => {
   };
 });
 
+jest.mock('../../utils/invitations');
+jest.mock('../../utils/studentHistory');
+
 describe('addStudent controller', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
@@ -111,6 +115,64 @@ describe('addStudent controller', () => {
     }));
   });
 
+  it('should let the model generate the student ID when none is provided', async () => {
+    req.body = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      age: 15,
+      gradeLevel: '9'
+    };
+
+    (Student.findOne as jest.Mock).mockResolvedValueOnce(null); // email does not exist
+
+    const saveMock = jest.fn().mockResolvedValue({});
+    (Student as unknown as jest.Mock).mockImplementation(() => ({ save: saveMock }));
+
+    await addStudent(req as Request, res as Response);
+
+    expect(Student.findOne).toHaveBeenCalledTimes(1);
+    expect(Student).toHaveBeenCalledWith({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      age: 15,
+      gradeLevel: '9'
+    });
+    expect(statusMock).toHaveBeenCalledWith(201);
+  });
+
+  it('should issue an invitation bound to the new record when requested', async () => {
+    req.body = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      age: 15,
+      gradeLevel: '9',
+      invite: true
+    };
+    (req as any).user = { userId: 'admin-id', role: 'admin' };
+
+    (Student.findOne as jest.Mock).mockResolvedValueOnce(null);
+    const newStudent = { _id: 'student-object-id', email: 'jane@example.com', save: jest.fn().mockResolvedValue({}) };
+    (Student as unknown as jest.Mock).mockImplementation(() => newStudent);
+    (issueInvitation as jest.Mock).mockResolvedValue({
+      invitation: { _id: 'invitation-id', expiresAt: new Date() },
+      inviteToken: 'raw-token',
+      registrationUrl: 'http://localhost:3000/register?invite=raw-token'
+    });
+
+    await addStudent(req as Request, res as Response);
+
+    expect(issueInvitation).toHaveBeenCalledWith({
+      role: 'student',
+      createdBy: 'admin-id',
+      email: 'jane@example.com',
+      studentRecordId: 'student-object-id'
+    });
+    expect(statusMock).toHaveBeenCalledWith(201);
+    expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+      invitation: expect.objectContaining({ inviteToken: 'raw-token' })
+    }));
+  });
+
   it('should return 500 on exception', async () => {
     req.body = {
       studentId: 'S001',
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+// Minimal local OpenID Connect provider for tests: discovery, JWKS, an authorization endpoint
+// that signs in whichever identity the test selected, and a token endpoint that enforces PKCE
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  signInAs(claims: Record<string, unknown>): void;
+  // Extra claims merged into the next ID token, e.g. a wrong nonce or audience
+  tamperNextIdToken(claims: Record<string, unknown>): void;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+export const startMockOidcProvider = async (clientId: string = 'campuscore-test'): Promise<MockOidcProvider> => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+  let claims: Record<string, unknown> = { sub: 'user-1' };
+  let tamper: Record<string, unknown> = {};
+  let issuer = '';
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      id_token_signing_alg_values_supported: ['RS256']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+    if (client_id !== clientId || code_challenge_method !== 'S256' || !code_challenge || !redirect_uri) {
+      res.status(400).json({ error: 'invalid_request' });
+      return;
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      clientId: String(client_id),
+      redirectUri: String(redirect_uri),
+      codeChallenge: String(code_challenge),
+      nonce: String(nonce),
+      claims
+    });
+
+    res.redirect(`${redirect_uri}?code=${code}&state=${encodeURIComponent(String(state))}`);
+  });
+
+  app.post('/token', (req, res) => {
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+
+    const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+    if (!pending || pending.clientId !== req.body.client_id || pending.redirectUri !== req.body.redirect_uri || pending.codeChallenge !== challenge) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    const idToken = jwt.sign(
+      { ...pending.claims, nonce: pending.nonce, ...tamper },
+      privateKey.export({ format: 'pem', type: 'pkcs8' }),
+      { algorithm: 'RS256', keyid: kid, issuer, audience: pending.clientId, expiresIn: '5m' }
+    );
+    tamper = {};
+
+    res.json({ access_token: crypto.randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    signInAs: (next: Record<string, unknown>) => {
+      claims = next;
+    },
+    tamperNextIdToken: (next: Record<string, unknown>) => {
+      tamper = next;
+    },
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+};
\ No newline at end of file
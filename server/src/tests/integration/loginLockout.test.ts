@@ -0,0 +1,150 @@
+import express from 'express';
+import request from 'supertest';
+import bcrypt from 'bcrypt';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import authRoutes from '../../routes/authRoutes';
+import userRoutes from '../../routes/userRoutes';
+import User from '../../models/User';
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/users', userRoutes);
+
+const THROTTLE_ENV: Record<string, string> = {
+  LOGIN_MAX_ATTEMPTS: '3',
+  LOGIN_LOCKOUT_MINUTES: '15',
+  LOGIN_DELAY_BASE_MS: '0',
+  LOGIN_IP_MAX_ATTEMPTS: '50',
+  LOGIN_IP_WINDOW_MINUTES: '15'
+};
+
+const login = (username: string, password: string) =>
+  request(app).post('/api/auth/login').send({ username, password });
+
+describe('login lockout and throttling (in-memory MongoDB)', () => {
+  let mongo: MongoMemoryServer;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+  }, 120000);
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    if (mongo) {
+      await mongo.stop();
+    }
+  });
+
+  beforeEach(async () => {
+    Object.entries(THROTTLE_ENV).forEach(([name, value]) => {
+      originalEnv[name] = process.env[name];
+      process.env[name] = value;
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await Promise.all(
+      Object.values(mongoose.connection.collections).map(collection => collection.deleteMany({}))
+    );
+
+    await User.create([
+      { username: 'teacher1', password: await bcrypt.hash('correct-horse', 4), role: 'teacher' },
+      { username: 'admin1', password: await bcrypt.hash('admin-pass', 4), role: 'admin' }
+    ]);
+  });
+
+  afterEach(() => {
+    Object.keys(THROTTLE_ENV).forEach(name => {
+      if (originalEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[name];
+      }
+    });
+    jest.restoreAllMocks();
+  });
+
+  it('should lock the account with 423 once the failure limit is reached', async () => {
+    expect((await login('teacher1', 'wrong')).status).toBe(401);
+    expect((await login('teacher1', 'wrong')).status).toBe(401);
+
+    const third = await login('teacher1', 'wrong');
+    expect(third.status).toBe(423);
+    expect(third.body.reason).toBe('locked');
+    expect(Number(third.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Even the right password is refused while the lock lasts
+    const correct = await login('teacher1', 'correct-horse');
+    expect(correct.status).toBe(423);
+
+    const stored = await User.findOne({ username: 'teacher1' });
+    expect(stored!.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reset the failure counter after a successful login', async () => {
+    await login('teacher1', 'wrong');
+    await login('teacher1', 'wrong');
+
+    expect((await login('teacher1', 'correct-horse')).status).toBe(200);
+
+    const stored = await User.findOne({ username: 'teacher1' });
+    expect(stored!.failedLoginAttempts).toBe(0);
+    expect(stored!.lastFailedLoginAt).toBeNull();
+  });
+
+  it('should return 429 while the progressive delay is running', async () => {
+    process.env.LOGIN_DELAY_BASE_MS = '60000';
+
+    expect((await login('teacher1', 'wrong')).status).toBe(401);
+
+    const retry = await login('teacher1', 'correct-horse');
+    expect(retry.status).toBe(429);
+    expect(retry.body.reason).toBe('delayed');
+    expect(Number(retry.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should throttle an address that keeps failing across accounts', async () => {
+    process.env.LOGIN_IP_MAX_ATTEMPTS = '2';
+
+    expect((await login('nobody', 'x')).status).toBe(401);
+    expect((await login('someone-else', 'x')).status).toBe(401);
+
+    const throttled = await login('teacher1', 'correct-horse');
+    expect(throttled.status).toBe(429);
+    expect(throttled.body.reason).toBe('ip_throttled');
+  });
+
+  it('should let an admin unlock a locked account', async () => {
+    const adminLogin = await login('admin1', 'admin-pass');
+    expect(adminLogin.status).toBe(200);
+
+    for (let i = 0; i < 3; i++) {
+      await login('teacher1', 'wrong');
+    }
+    expect((await login('teacher1', 'correct-horse')).status).toBe(423);
+
+    const teacher = await User.findOne({ username: 'teacher1' });
+    const unlock = await request(app)
+      .post(`/api/users/${teacher!._id}/unlock`)
+      .set('Authorization', `Bearer ${adminLogin.body.token}`);
+
+    expect(unlock.status).toBe(200);
+    expect(unlock.body.user.lockedUntil).toBeNull();
+    expect((await login('teacher1', 'correct-horse')).status).toBe(200);
+  });
+
+  it('should not let non-admins unlock accounts', async () => {
+    const teacherLogin = await login('teacher1', 'correct-horse');
+    const admin = await User.findOne({ username: 'admin1' });
+
+    const response = await request(app)
+      .post(`/api/users/${admin!._id}/unlock`)
+      .set('Authorization', `Bearer ${teacherLogin.body.token}`);
+
+    expect(response.status).toBe(403);
+  });
+});
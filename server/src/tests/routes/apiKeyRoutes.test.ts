@@ -0,0 +1,309 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import apiKeyRoutes from '../../routes/apiKeyRoutes';
+import roleRoutes from '../../routes/roleRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Role from '../../models/Role';
+import ApiKey from '../../models/ApiKey';
+import { generateApiKey } from '../../utils/apiKeys';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Role');
+jest.mock('../../models/ApiKey');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedApiKey = ApiKey as jest.Mocked<typeof ApiKey>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/roles', roleRoutes);
+
+// Signs a token and makes the mocked user store agree with it, since roles are read from the database
+const tokenFor = (role: string) => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  mockedUser.findById.mockResolvedValue({ _id: userId, role, disabled: false, tokenVersion: 0 } as any);
+  return jwt.sign({ userId, role, ver: 0, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+};
+
+// A stored key plus the raw key that matches it
+const storedKey = (overrides: Record<string, unknown> = {}) => {
+  const generated = generateApiKey();
+  const apiKey: any = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'SIS sync',
+    prefix: generated.prefix,
+    keyHash: generated.keyHash,
+    permissions: ['roles:manage'],
+    allowedIps: [],
+    expiresAt: null,
+    createdBy: new mongoose.Types.ObjectId(),
+    lastUsedAt: null,
+    lastUsedIp: null,
+    rotatedAt: null,
+    revokedAt: null,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides
+  };
+  apiKey.isUsable = () => !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now());
+  return { apiKey, key: generated.key };
+};
+
+describe('API keys', () => {
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    mockedApiKey.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('authentication with the X-API-Key header', () => {
+    it('should authenticate a valid key and grant only its permissions', async () => {
+      const { apiKey, key } = storedKey();
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', key);
+
+      expect(res.status).toBe(200);
+      expect(mockedApiKey.findByPrefix).toHaveBeenCalledWith(apiKey.prefix);
+      expect(mockedApiKey.updateOne).toHaveBeenCalledWith(
+        { _id: apiKey._id },
+        { lastUsedAt: expect.any(Date), lastUsedIp: expect.any(String) }
+      );
+      expect(mockedUser.findById).not.toHaveBeenCalled();
+    });
+
+    it('should refuse permissions the key does not carry', async () => {
+      const { apiKey, key } = storedKey();
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .get('/api/api-keys')
+        .set('X-API-Key', key);
+
+      expect(res.status).toBe(403);
+      expect(res.body.requiredPermissions).toEqual(['api-keys:manage']);
+    });
+
+    it('should reject a key whose secret does not match the stored hash', async () => {
+      const { apiKey, key } = storedKey();
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+      const tampered = key.slice(0, -4) + (key.endsWith('0000') ? '1111' : '0000');
+
+      const res = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', tampered);
+
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('Invalid API key.');
+    });
+
+    it('should reject malformed keys without a database lookup', async () => {
+      const res = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', 'not-a-key');
+
+      expect(res.status).toBe(401);
+      expect(mockedApiKey.findByPrefix).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      const revoked = storedKey({ revokedAt: new Date() });
+      mockedApiKey.findByPrefix.mockResolvedValue(revoked.apiKey);
+
+      const revokedRes = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', revoked.key);
+
+      expect(revokedRes.status).toBe(401);
+      expect(revokedRes.body.error).toBe('API key has been revoked.');
+
+      const expired = storedKey({ expiresAt: new Date(Date.now() - 1000) });
+      mockedApiKey.findByPrefix.mockResolvedValue(expired.apiKey);
+
+      const expiredRes = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', expired.key);
+
+      expect(expiredRes.status).toBe(401);
+      expect(expiredRes.body.error).toBe('API key has expired.');
+    });
+
+    it('should reject requests from outside the allowed IP ranges', async () => {
+      const { apiKey, key } = storedKey({ allowedIps: ['10.0.0.0/8'] });
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', key);
+
+      expect(res.status).toBe(403);
+      expect(mockedApiKey.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should accept requests from inside the allowed IP ranges', async () => {
+      const { apiKey, key } = storedKey({ allowedIps: ['127.0.0.0/8', '::1'] });
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .get('/api/roles/permissions')
+        .set('X-API-Key', key);
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('management endpoints', () => {
+    it('should require api-keys:manage', async () => {
+      const res = await request(app)
+        .get('/api/api-keys')
+        .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should create a key, return it once and store only its hash', async () => {
+      mockedApiKey.create.mockImplementation(async (doc: any) => {
+        const { apiKey } = storedKey(doc);
+        return apiKey;
+      });
+
+      const res = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${tokenFor('admin')}`)
+        .send({
+          name: 'SIS sync',
+          permissions: ['students:read', 'students:write'],
+          allowedIps: ['10.0.0.0/8'],
+          expiresInDays: 90
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.key).toMatch(/^cck_[0-9a-f]{12}_[0-9a-f]{64}$/);
+      expect(res.body.key.split('_')[1]).toBe(res.body.apiKey.prefix);
+      expect(res.body.apiKey.keyHash).toBeUndefined();
+      expect(res.body.apiKey.status).toBe('active');
+
+      const created = mockedApiKey.create.mock.calls[0][0] as any;
+      expect(created.keyHash).not.toContain(res.body.key);
+      expect(created.permissions).toEqual(['students:read', 'students:write']);
+      expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now() + 89 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should refuse person-scoped permissions and invalid IP ranges', async () => {
+      const token = tokenFor('admin');
+
+      const scoped = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Portal', permissions: ['grades:read:own-sections'] });
+
+      expect(scoped.status).toBe(400);
+      expect(scoped.body.permissions).toEqual(['grades:read:own-sections']);
+
+      const ranges = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Portal', permissions: ['students:read'], allowedIps: ['10.0.0.0/40'] });
+
+      expect(ranges.status).toBe(400);
+      expect(ranges.body.invalidRanges).toEqual(['10.0.0.0/40']);
+      expect(mockedApiKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse permissions the creator does not hold', async () => {
+      mockedRole.findPermissions.mockResolvedValue(['api-keys:manage', 'students:read'] as any);
+
+      const res = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${tokenFor('integrator')}`)
+        .send({ name: 'Sync', permissions: ['students:read', 'users:write'] });
+
+      expect(res.status).toBe(403);
+      expect(res.body.permissions).toEqual(['users:write']);
+    });
+
+    it('should not let an API key create other keys', async () => {
+      const { apiKey, key } = storedKey({ permissions: ['api-keys:manage'] });
+      mockedApiKey.findByPrefix.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .post('/api/api-keys')
+        .set('X-API-Key', key)
+        .send({ name: 'Child', permissions: ['api-keys:manage'] });
+
+      expect(res.status).toBe(403);
+      expect(mockedApiKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should list keys without their hashes', async () => {
+      const { apiKey } = storedKey({ lastUsedAt: new Date(), lastUsedIp: '10.1.2.3' });
+      mockedApiKey.find.mockReturnValue({ sort: jest.fn().mockResolvedValue([apiKey]) } as any);
+
+      const res = await request(app)
+        .get('/api/api-keys')
+        .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedApiKey.find).toHaveBeenCalledWith({ revokedAt: null });
+      expect(res.body.apiKeys[0].prefix).toBe(apiKey.prefix);
+      expect(res.body.apiKeys[0].lastUsedIp).toBe('10.1.2.3');
+      expect(res.body.apiKeys[0].keyHash).toBeUndefined();
+    });
+
+    it('should rotate a key so only the new secret works', async () => {
+      const { apiKey } = storedKey();
+      const oldPrefix = apiKey.prefix;
+      const oldHash = apiKey.keyHash;
+      mockedApiKey.findById.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .post(`/api/api-keys/${apiKey._id}/rotate`)
+        .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+      expect(res.status).toBe(200);
+      expect(apiKey.save).toHaveBeenCalled();
+      expect(apiKey.prefix).not.toBe(oldPrefix);
+      expect(apiKey.keyHash).not.toBe(oldHash);
+      expect(apiKey.rotatedAt).toBeInstanceOf(Date);
+      expect(res.body.key.split('_')[1]).toBe(apiKey.prefix);
+    });
+
+    it('should revoke a key', async () => {
+      const { apiKey } = storedKey();
+      mockedApiKey.findById.mockResolvedValue(apiKey);
+
+      const res = await request(app)
+        .delete(`/api/api-keys/${apiKey._id}`)
+        .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.apiKey.status).toBe('revoked');
+      expect(apiKey.revokedAt).toBeInstanceOf(Date);
+      expect(apiKey.revokedBy).toBeDefined();
+
+      const again = await request(app)
+        .delete(`/api/api-keys/${apiKey._id}`)
+        .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+      expect(again.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import authRoutes from '../../routes/authRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Invitation from '../../models/Invitation';
+import Student from '../../models/Student';
+import { hashToken } from '../../utils/tokenService';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Invitation');
+jest.mock('../../models/Student');
+jest.mock('../../models/Role');
+jest.mock('../../models/SecurityPolicy');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedInvitation = Invitation as jest.Mocked<typeof Invitation>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+const tokenFor = (role: string) =>
+  jwt.sign({
+    userId: new mongoose.Types.ObjectId().toString(),
+    role,
+    sid: new mongoose.Types.ObjectId().toString()
+  }, JWT_SECRET);
+
+describe('registration', () => {
+  const createdId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedUser.findOne.mockResolvedValue(null);
+    mockedUser.create.mockImplementation(((data: any) =>
+      Promise.resolve({ _id: createdId, ...data })) as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should refuse anonymous registration without an invitation', async () => {
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ username: 'mallory', password: 'orchard-lantern-42', role: 'admin' });
+
+    expect(res.status).toBe(403);
+    expect(mockedUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse non-admin callers without an invitation', async () => {
+    mockedUser.findById.mockResolvedValue({ _id: 'user', role: 'teacher', disabled: false } as any);
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`)
+      .send({ username: 'mallory', password: 'orchard-lantern-42', role: 'admin' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should let an admin register users', async () => {
+    mockedUser.findById.mockResolvedValue({ _id: 'admin', role: 'admin', disabled: false } as any);
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ username: 'NewTeacher', password: 'orchard-lantern-42', role: 'teacher' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toEqual(expect.objectContaining({ username: 'newteacher', role: 'teacher' }));
+  });
+
+  it('should take the role from the invitation, not the request body', async () => {
+    const invitationId = new mongoose.Types.ObjectId();
+    mockedInvitation.claim.mockResolvedValue({ _id: invitationId, role: 'teacher', email: 't@school.edu' } as any);
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ username: 'teach', password: 'orchard-lantern-42', role: 'admin', inviteToken: 'raw-invite' });
+
+    expect(res.status).toBe(201);
+    expect(mockedInvitation.claim).toHaveBeenCalledWith(hashToken('raw-invite'));
+    expect(res.body.user.role).toBe('teacher');
+    expect(res.body.user.email).toBe('t@school.edu');
+    expect(mockedInvitation.updateOne).toHaveBeenCalledWith({ _id: invitationId }, { usedBy: createdId });
+  });
+
+  it('should reject unknown or already used invitations', async () => {
+    mockedInvitation.claim.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ username: 'teach', password: 'orchard-lantern-42', inviteToken: 'used-invite' });
+
+    expect(res.status).toBe(400);
+    expect(mockedUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should hand the invitation back when registration fails', async () => {
+    const invitationId = new mongoose.Types.ObjectId();
+    mockedInvitation.claim.mockResolvedValue({ _id: invitationId, role: 'teacher' } as any);
+    mockedUser.findOne.mockResolvedValue({ _id: 'existing' } as any);
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ username: 'taken', password: 'orchard-lantern-42', inviteToken: 'raw-invite' });
+
+    expect(res.status).toBe(409);
+    expect(mockedInvitation.release).toHaveBeenCalledWith(String(invitationId));
+  });
+
+  describe('student accounts', () => {
+    const studentRecordId = new mongoose.Types.ObjectId();
+
+    it('should bind invited students to the invitation\'s record, ignoring the submitted ID', async () => {
+      mockedInvitation.claim.mockResolvedValue({ _id: 'inv', role: 'student', studentRecordId } as any);
+      mockedStudent.findById.mockResolvedValue({ _id: studentRecordId, studentId: 'STU-2026-0007' } as any);
+      mockedStudent.exists.mockResolvedValue({ _id: studentRecordId } as any);
+      mockedUser.exists.mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'jane', password: 'orchard-lantern-42', studentId: 'STU-2026-0001', inviteToken: 'raw' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.user.studentId).toBe('STU-2026-0007');
+    });
+
+    it('should refuse a student record that already has an account', async () => {
+      mockedInvitation.claim.mockResolvedValue({ _id: 'inv', role: 'student', studentRecordId } as any);
+      mockedStudent.findById.mockResolvedValue({ _id: studentRecordId, studentId: 'STU-2026-0007' } as any);
+      mockedStudent.exists.mockResolvedValue({ _id: studentRecordId } as any);
+      mockedUser.exists.mockResolvedValue({ _id: 'other-account' } as any);
+
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'jane', password: 'orchard-lantern-42', inviteToken: 'raw' });
+
+      expect(res.status).toBe(409);
+      expect(mockedUser.create).not.toHaveBeenCalled();
+      expect(mockedInvitation.release).toHaveBeenCalledWith('inv');
+    });
+
+    it('should refuse student IDs that do not match any record', async () => {
+      mockedUser.findById.mockResolvedValue({ _id: 'admin', role: 'admin', disabled: false } as any);
+      mockedStudent.exists.mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/auth/register')
+        .set('Authorization', `Bearer ${tokenFor('admin')}`)
+        .send({ username: 'ghost', password: 'orchard-lantern-42', role: 'student', studentId: 'STU-1999-0001' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Student record not found');
+    });
+  });
+});
+
+describe('access token security stamp', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+
+  const signToken = (claims: Record<string, unknown>) =>
+    jwt.sign({ userId, sid: new mongoose.Types.ObjectId().toString(), ...claims }, JWT_SECRET);
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should take the role and student link from the database rather than the token', async () => {
+    mockedUser.findById.mockResolvedValue({
+      _id: userId,
+      role: 'student',
+      studentId: 'STU-2026-0002',
+      disabled: false,
+      tokenVersion: 3
+    } as any);
+
+    const res = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${signToken({ role: 'admin', studentId: 'STU-2026-0001', ver: 3 })}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toEqual({ userId, role: 'student', studentId: 'STU-2026-0002' });
+  });
+
+  it('should reject tokens issued before the security stamp changed', async () => {
+    mockedUser.findById.mockResolvedValue({ _id: userId, role: 'teacher', disabled: false, tokenVersion: 2 } as any);
+
+    const res = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${signToken({ role: 'admin', ver: 1 })}`);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error).toMatch(/no longer valid/);
+  });
+
+  it('should reject tokens of deleted users', async () => {
+    mockedUser.findById.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${signToken({ role: 'admin', ver: 0 })}`);
+
+    expect(res.status).toBe(401);
+  });
+});
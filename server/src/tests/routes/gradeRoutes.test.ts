@@ -0,0 +1,180 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import gradeRoutes from '../../routes/gradeRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Student from '../../models/Student';
+import Teacher from '../../models/Teacher';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Student');
+jest.mock('../../models/Teacher');
+jest.mock('../../models/Role');
+jest.mock('../../models/StudentHistory');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedTeacher = Teacher as jest.Mocked<typeof Teacher>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/grades', gradeRoutes);
+
+// Signs a token and makes the mocked user store agree with it, since roles are read from the database
+const tokenFor = (role: string) => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  mockedUser.findById.mockResolvedValue({ _id: userId, role, disabled: false, tokenVersion: 0 } as any);
+  return jwt.sign({ userId, role, ver: 0, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+};
+
+describe('grade routes teacher scoping', () => {
+  const ownStudentId = new mongoose.Types.ObjectId();
+  const otherStudentId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedTeacher.findByUserId.mockResolvedValue({
+      getStudentIds: jest.fn().mockResolvedValue([ownStudentId])
+    } as any);
+    mockedStudent.findById.mockResolvedValue({
+      _id: ownStudentId,
+      name: 'Alice',
+      studentId: 'STU-2025-0001',
+      grades: [{ subject: 'Math', score: 90 }]
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let a teacher read grades of a student in their sections', async () => {
+    const res = await request(app)
+      .get(`/api/grades/student/${ownStudentId}`)
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.grades).toEqual([{ subject: 'Math', score: 90 }]);
+  });
+
+  it('should block a teacher from grading a student outside their sections', async () => {
+    const res = await request(app)
+      .post(`/api/grades/student/${otherStudentId}`)
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`)
+      .send({ subject: 'Math', score: 50 });
+
+    expect(res.status).toBe(403);
+    expect(mockedStudent.findById).not.toHaveBeenCalled();
+  });
+
+  it('should block a teacher without a profile from every student', async () => {
+    mockedTeacher.findByUserId.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get(`/api/grades/student/${ownStudentId}`)
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should keep global access for admins', async () => {
+    const res = await request(app)
+      .get(`/api/grades/student/${otherStudentId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedTeacher.findByUserId).not.toHaveBeenCalled();
+  });
+
+  it('should restrict the grades summary to the teacher scope', async () => {
+    mockedStudent.aggregate.mockResolvedValue([] as any);
+    mockedStudent.countDocuments.mockResolvedValue(0 as any);
+
+    const res = await request(app)
+      .get('/api/grades/summary')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(200);
+    const pipeline = mockedStudent.aggregate.mock.calls[0][0] as any[];
+    expect(pipeline[0].$match._id.$in.map(String)).toEqual([ownStudentId.toString()]);
+  });
+});
+
+describe('grades summary export', () => {
+  const ownStudentId = new mongoose.Types.ObjectId();
+  let query: any;
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedTeacher.findByUserId.mockResolvedValue({
+      getStudentIds: jest.fn().mockResolvedValue([ownStudentId])
+    } as any);
+    mockedStudent.distinct.mockResolvedValue(['Science', 'Math', 'Art'] as any);
+    query = {
+      sort: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      cursor: jest.fn().mockReturnValue(Object.assign([
+        {
+          _id: ownStudentId,
+          studentId: 'STU-2025-0001',
+          name: 'Smith, Alice',
+          email: 'alice@example.com',
+          gradeLevel: '10',
+          grades: [{ subject: 'Science', score: 85 }, { subject: 'Math', score: 90.5 }]
+        }
+      ], { close: jest.fn().mockResolvedValue(undefined) }))
+    };
+    mockedStudent.find.mockReturnValue(query);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should stream a teacher\'s students without restricted columns, subjects in order', async () => {
+    const res = await request(app)
+      .get('/api/grades/summary/export?subject=a')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(res.headers['content-disposition']).toMatch(/^attachment; filename="grades-summary-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(mockedStudent.find).toHaveBeenCalledWith(expect.objectContaining({
+      _id: { $in: [ownStudentId] },
+      'grades.subject': expect.any(RegExp)
+    }));
+    expect(query.sort).toHaveBeenCalledWith({ name: 1, _id: 1 });
+    expect(res.text).toBe([
+      '\uFEFFStudent ID,Name,Grade Level,Grades Count,Average Grade,Art,Math',
+      'STU-2025-0001,"Smith, Alice",10,2,87.75,,90.5',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should refuse columns the role may not export', async () => {
+    const res = await request(app)
+      .get('/api/grades/summary/export?columns=name,email')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.restrictedColumns).toEqual(['email']);
+    expect(mockedStudent.find).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown formats', async () => {
+    const res = await request(app)
+      .get('/api/grades/summary/export?format=pdf')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.allowedFormats).toEqual(['csv', 'xlsx']);
+  });
+});
@@ -0,0 +1,229 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import guardianRoutes from '../../routes/guardianRoutes';
+import studentRoutes from '../../routes/studentRoutes';
+import studentSelfServiceRoutes from '../../routes/studentSelfServiceRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Student from '../../models/Student';
+import GuardianLink from '../../models/GuardianLink';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Student');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/Role');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedGuardianLink = GuardianLink as jest.Mocked<typeof GuardianLink>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/guardian', guardianRoutes);
+app.use('/api/students', studentRoutes);
+app.use('/api/student', studentSelfServiceRoutes);
+
+const guardianId = new mongoose.Types.ObjectId().toString();
+
+// The signed-in account as the mocked database returns it; authenticate reads the role from there
+let signedInUser: Record<string, unknown>;
+
+const tokenFor = (role: string, extra: Record<string, unknown> = {}) => {
+  signedInUser = { _id: guardianId, role, disabled: false, tokenVersion: 0, ...extra };
+  return jwt.sign({ userId: guardianId, role, ver: 0, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+};
+
+const makeStudent = (age: number) => ({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Alice',
+  studentId: 'STU-2025-0001',
+  email: 'alice@example.com',
+  age,
+  gradeLevel: '10',
+  grades: [{ subject: 'Math', score: 92 }, { subject: 'History', score: 78 }]
+});
+
+const makeLink = (student: any, overrides: Record<string, unknown> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  guardian: guardianId,
+  student,
+  relationship: 'mother',
+  isPrimaryContact: true,
+  consentGrantedAt: null,
+  createdAt: new Date(),
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides
+});
+
+describe('guardian portal', () => {
+  beforeEach(() => {
+    mockedUser.findById.mockImplementation((() => Promise.resolve(signedInUser)) as any);
+    mockedSession.isActive.mockResolvedValue(true);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    delete process.env.AGE_OF_MAJORITY;
+  });
+
+  it('should list linked students with their access state', async () => {
+    const minor = makeStudent(14);
+    const adult = { ...makeStudent(19), studentId: 'STU-2025-0002' };
+    mockedGuardianLink.find.mockReturnValue({
+      populate: jest.fn().mockResolvedValue([makeLink(minor), makeLink(adult, { relationship: 'father' })])
+    } as any);
+
+    const res = await request(app)
+      .get('/api/guardian/students')
+      .set('Authorization', `Bearer ${tokenFor('guardian')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.students).toEqual([
+      expect.objectContaining({ studentId: 'STU-2025-0001', consentRequired: false, hasAccess: true }),
+      expect.objectContaining({ studentId: 'STU-2025-0002', consentRequired: true, hasAccess: false })
+    ]);
+  });
+
+  it('should mirror the student grade report for a linked minor', async () => {
+    const student = makeStudent(14);
+    mockedGuardianLink.findOne.mockResolvedValue(makeLink(student._id) as any);
+    mockedStudent.findById.mockResolvedValue(student as any);
+
+    const res = await request(app)
+      .get(`/api/guardian/students/${student._id}/grades`)
+      .set('Authorization', `Bearer ${tokenFor('guardian')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.student).toEqual({ name: 'Alice', studentId: 'STU-2025-0001', gradesCount: 2, averageGrade: 85 });
+    expect(res.body.gradesBySubject).toEqual({ Math: 92, History: 78 });
+    expect(mockedGuardianLink.findOne).toHaveBeenCalledWith({ guardian: guardianId, student: String(student._id) });
+  });
+
+  it('should require consent from students past the age of majority', async () => {
+    const student = makeStudent(18);
+    mockedGuardianLink.findOne.mockResolvedValue(makeLink(student._id) as any);
+    mockedStudent.findById.mockResolvedValue(student as any);
+
+    const res = await request(app)
+      .get(`/api/guardian/students/${student._id}/summary`)
+      .set('Authorization', `Bearer ${tokenFor('guardian')}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.consentRequired).toBe(true);
+  });
+
+  it('should honour a configured age of majority and recorded consent', async () => {
+    process.env.AGE_OF_MAJORITY = '16';
+    const student = makeStudent(17);
+    mockedGuardianLink.findOne.mockResolvedValue(makeLink(student._id, { consentGrantedAt: new Date() }) as any);
+    mockedStudent.findById.mockResolvedValue(student as any);
+
+    const res = await request(app)
+      .get(`/api/guardian/students/${student._id}/summary`)
+      .set('Authorization', `Bearer ${tokenFor('guardian')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.academicSummary.gradeDistribution).toEqual({ A: 1, B: 0, C: 1, D: 0, F: 0 });
+  });
+
+  it('should hide students that are not linked to the guardian', async () => {
+    mockedGuardianLink.findOne.mockResolvedValue(null);
+
+    const res = await request(app)
+      .get(`/api/guardian/students/${new mongoose.Types.ObjectId()}/grades`)
+      .set('Authorization', `Bearer ${tokenFor('guardian')}`);
+
+    expect(res.status).toBe(404);
+    expect(mockedStudent.findById).not.toHaveBeenCalled();
+  });
+
+  it('should reject roles without guardian access', async () => {
+    const res = await request(app)
+      .get('/api/guardian/students')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('guardian links', () => {
+  beforeEach(() => {
+    mockedUser.findById.mockImplementation((() => Promise.resolve(signedInUser)) as any);
+    mockedSession.isActive.mockResolvedValue(true);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should only link users with the guardian role', async () => {
+    const student = makeStudent(12);
+    mockedStudent.findById.mockResolvedValue(student as any);
+    mockedUser.findById.mockImplementation(((id: string) =>
+      Promise.resolve(String(id) === guardianId
+        ? { _id: guardianId, role: 'admin', disabled: false }
+        : { _id: id, username: 'jdoe', role: 'teacher' })) as any);
+
+    const res = await request(app)
+      .post(`/api/students/${student._id}/guardians`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ guardianUserId: new mongoose.Types.ObjectId().toString(), relationship: 'father' });
+
+    expect(res.status).toBe(400);
+    expect(mockedGuardianLink.create).not.toHaveBeenCalled();
+  });
+
+  it('should link a guardian as the primary contact', async () => {
+    const student = makeStudent(12);
+    const parentId = new mongoose.Types.ObjectId();
+    const link = makeLink(student._id, { guardian: parentId });
+    mockedStudent.findById.mockResolvedValue(student as any);
+    mockedUser.findById.mockImplementation(((id: string) =>
+      Promise.resolve(String(id) === guardianId
+        ? { _id: guardianId, role: 'admin', disabled: false }
+        : { _id: parentId, username: 'mparent', role: 'guardian' })) as any);
+    mockedGuardianLink.create.mockResolvedValue(link as any);
+
+    const res = await request(app)
+      .post(`/api/students/${student._id}/guardians`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ guardianUserId: parentId.toString(), relationship: 'mother', isPrimaryContact: true });
+
+    expect(res.status).toBe(201);
+    expect(mockedGuardianLink.create).toHaveBeenCalledWith(expect.objectContaining({
+      relationship: 'mother',
+      isPrimaryContact: true
+    }));
+    expect(mockedGuardianLink.setPrimaryContact).toHaveBeenCalledWith(link);
+  });
+
+  it('should let a student grant consent to a linked guardian', async () => {
+    const student = makeStudent(18);
+    const link = makeLink(student._id);
+    mockedStudent.findOne.mockResolvedValue(student as any);
+    mockedGuardianLink.findOne.mockResolvedValue(link as any);
+
+    const res = await request(app)
+      .post(`/api/student/guardians/${link._id}/consent`)
+      .set('Authorization', `Bearer ${tokenFor('student', { studentId: 'STU-2025-0001' })}`);
+
+    expect(res.status).toBe(200);
+    expect(link.consentGrantedAt).toBeInstanceOf(Date);
+    expect(link.save).toHaveBeenCalled();
+    expect(res.body.guardian.hasAccess).toBe(true);
+    expect(mockedGuardianLink.findOne).toHaveBeenCalledWith({ _id: String(link._id), student: student._id });
+  });
+});
@@ -0,0 +1,280 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import userRoutes from '../../routes/userRoutes';
+import studentSelfServiceRoutes from '../../routes/studentSelfServiceRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Role from '../../models/Role';
+import Student from '../../models/Student';
+import Impersonation from '../../models/Impersonation';
+import AuditLog from '../../models/AuditLog';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Role');
+jest.mock('../../models/Student');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/Impersonation');
+jest.mock('../../models/AuditLog');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedImpersonation = Impersonation as jest.Mocked<typeof Impersonation>;
+const mockedAuditLog = AuditLog as jest.Mocked<typeof AuditLog>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/users', userRoutes);
+app.use('/api/student', studentSelfServiceRoutes);
+
+const adminUser = {
+  _id: new mongoose.Types.ObjectId().toString(),
+  username: 'support-admin',
+  role: 'admin',
+  disabled: false,
+  tokenVersion: 0
+};
+
+const studentUser = {
+  _id: new mongoose.Types.ObjectId().toString(),
+  username: 'stu123456',
+  role: 'student',
+  studentId: 'STU123456',
+  disabled: false,
+  tokenVersion: 2
+};
+
+const teacherUser = {
+  _id: new mongoose.Types.ObjectId().toString(),
+  username: 'teacher1',
+  role: 'teacher',
+  disabled: false,
+  tokenVersion: 0
+};
+
+const storedUsers: Record<string, any> = {};
+
+const adminToken = () => jwt.sign(
+  { userId: adminUser._id, role: 'admin', ver: 0, sid: new mongoose.Types.ObjectId().toString() },
+  JWT_SECRET
+);
+
+const storedImpersonation = (overrides: Record<string, unknown> = {}) => {
+  const impersonation: any = {
+    _id: new mongoose.Types.ObjectId(),
+    impersonator: adminUser._id,
+    targetUser: studentUser._id,
+    reason: 'Ticket 4411: summary shows wrong average',
+    expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+    endedAt: null,
+    endedBy: null,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides
+  };
+  impersonation.isActive = () => !impersonation.endedAt && impersonation.expiresAt.getTime() > Date.now();
+  return impersonation;
+};
+
+// Starts an impersonation through the API and returns its token
+const impersonate = async (impersonation: any) => {
+  mockedImpersonation.create.mockResolvedValue(impersonation);
+  const res = await request(app)
+    .post(`/api/users/${studentUser._id}/impersonate`)
+    .set('Authorization', `Bearer ${adminToken()}`)
+    .send({ reason: impersonation.reason });
+
+  expect(res.status).toBe(201);
+  mockedImpersonation.findActive.mockImplementation(async (id: string) => (
+    id === String(impersonation._id) && impersonation.isActive() ? impersonation : null
+  ));
+  return res.body.token as string;
+};
+
+describe('admin impersonation', () => {
+  beforeEach(() => {
+    Object.assign(storedUsers, {
+      [adminUser._id]: { ...adminUser },
+      [studentUser._id]: { ...studentUser },
+      [teacherUser._id]: { ...teacherUser }
+    });
+    mockedUser.findById.mockImplementation((async (id: string) => storedUsers[String(id)] || null) as any);
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    mockedAuditLog.create.mockImplementation((async () => ({ _id: new mongoose.Types.ObjectId() })) as any);
+    mockedAuditLog.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should issue a time-limited token and audit the start', async () => {
+    const impersonation = storedImpersonation();
+    const token = await impersonate(impersonation);
+
+    const decoded = jwt.decode(token) as any;
+    expect(decoded.type).toBe('impersonation');
+    expect(decoded.userId).toBe(studentUser._id);
+    expect(decoded.actorId).toBe(adminUser._id);
+    expect(decoded.sid).toBeUndefined();
+    expect(decoded.exp - decoded.iat).toBeLessThanOrEqual(15 * 60);
+    expect(mockedAuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'impersonation.started',
+      actor: adminUser._id,
+      targetUser: studentUser._id
+    }));
+  });
+
+  it('should show the impersonated user what they see and record the request', async () => {
+    const token = await impersonate(storedImpersonation());
+    mockedStudent.findOne.mockResolvedValue({
+      name: 'Alex Doe',
+      studentId: 'STU123456',
+      grades: [{ subject: 'Math', score: 91 }]
+    } as any);
+
+    const res = await request(app)
+      .get('/api/student/grades')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedStudent.findOne).toHaveBeenCalledWith({ studentId: 'STU123456' }, expect.any(String));
+    expect(mockedAuditLog.create).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'impersonation.request',
+      actor: adminUser._id,
+      targetUser: studentUser._id,
+      method: 'GET',
+      path: '/api/student/grades'
+    }));
+    expect(mockedAuditLog.updateOne).toHaveBeenCalledWith({ _id: expect.any(String) }, { statusCode: 200 });
+  });
+
+  it('should block and audit write requests', async () => {
+    const token = await impersonate(storedImpersonation());
+
+    const res = await request(app)
+      .post('/api/student/guardians/abc/consent')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toContain('read-only');
+    expect(mockedAuditLog.create).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'impersonation.blocked',
+      method: 'POST',
+      statusCode: 403
+    }));
+  });
+
+  it('should give the impersonated request only the target user\'s permissions', async () => {
+    const token = await impersonate(storedImpersonation());
+
+    const res = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reject the token once the impersonation has ended', async () => {
+    const impersonation = storedImpersonation();
+    const token = await impersonate(impersonation);
+    mockedImpersonation.findById.mockResolvedValue(impersonation);
+
+    const end = await request(app)
+      .delete(`/api/users/impersonations/${impersonation._id}`)
+      .set('Authorization', `Bearer ${adminToken()}`);
+
+    expect(end.status).toBe(200);
+    expect(impersonation.endedAt).toBeInstanceOf(Date);
+
+    const res = await request(app)
+      .get('/api/student/grades')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should reject the token when the impersonator loses the permission', async () => {
+    const token = await impersonate(storedImpersonation());
+    storedUsers[adminUser._id] = { ...adminUser, role: 'teacher' };
+
+    const res = await request(app)
+      .get('/api/student/grades')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reject the token when the target account changes', async () => {
+    const token = await impersonate(storedImpersonation());
+    storedUsers[studentUser._id] = { ...studentUser, tokenVersion: 3 };
+
+    const res = await request(app)
+      .get('/api/student/grades')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should require a reason and a bounded duration', async () => {
+    const missingReason = await request(app)
+      .post(`/api/users/${studentUser._id}/impersonate`)
+      .set('Authorization', `Bearer ${adminToken()}`)
+      .send({});
+
+    expect(missingReason.status).toBe(400);
+
+    const tooLong = await request(app)
+      .post(`/api/users/${studentUser._id}/impersonate`)
+      .set('Authorization', `Bearer ${adminToken()}`)
+      .send({ reason: 'Support', durationMinutes: 600 });
+
+    expect(tooLong.status).toBe(400);
+    expect(mockedImpersonation.create).not.toHaveBeenCalled();
+  });
+
+  it('should not let callers without users:impersonate start one', async () => {
+    const token = jwt.sign(
+      { userId: teacherUser._id, role: 'teacher', ver: 0, sid: new mongoose.Types.ObjectId().toString() },
+      JWT_SECRET
+    );
+
+    const res = await request(app)
+      .post(`/api/users/${studentUser._id}/impersonate`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ reason: 'Curious' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.requiredPermissions).toEqual(['users:impersonate']);
+  });
+
+  it('should list the audited requests of an impersonation', async () => {
+    const impersonation = storedImpersonation();
+    mockedImpersonation.findById.mockResolvedValue(impersonation);
+    mockedAuditLog.find.mockReturnValue({
+      sort: jest.fn().mockResolvedValue([
+        { action: 'impersonation.started', createdAt: new Date() },
+        { action: 'impersonation.request', method: 'GET', path: '/api/student/summary', statusCode: 200, createdAt: new Date() }
+      ])
+    } as any);
+
+    const res = await request(app)
+      .get(`/api/users/impersonations/${impersonation._id}`)
+      .set('Authorization', `Bearer ${adminToken()}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.impersonation.status).toBe('active');
+    expect(res.body.auditLog).toHaveLength(2);
+    expect(res.body.auditLog[1].path).toBe('/api/student/summary');
+  });
+});
@@ -0,0 +1,357 @@
+import express from 'express';
+import request from 'supertest';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import authRoutes from '../../routes/authRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import RefreshToken from '../../models/RefreshToken';
+import Role from '../../models/Role';
+import Student from '../../models/Student';
+import GuardianLink from '../../models/GuardianLink';
+import OidcLoginState from '../../models/OidcLoginState';
+import SecurityPolicy from '../../models/SecurityPolicy';
+import { hashToken, verifyTwoFactorChallenge } from '../../utils/tokenService';
+import { clearOidcCache } from '../../utils/oidc';
+import { invalidateRolePermissions } from '../../utils/permissions';
+import { MockOidcProvider, startMockOidcProvider } from '../helpers/mockOidcProvider';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/RefreshToken');
+jest.mock('../../models/Role');
+jest.mock('../../models/Student');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/OidcLoginState');
+jest.mock('../../models/SecurityPolicy');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRefreshToken = RefreshToken as jest.Mocked<typeof RefreshToken>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedGuardianLink = GuardianLink as jest.Mocked<typeof GuardianLink>;
+const mockedLoginState = OidcLoginState as jest.Mocked<typeof OidcLoginState>;
+const mockedSecurityPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+const OIDC_ENV: Record<string, string> = {
+  OIDC_CLIENT_ID: 'campuscore-test',
+  OIDC_REDIRECT_URI: 'http://localhost:3000/sso/callback',
+  OIDC_ROLE_CLAIM: 'groups',
+  OIDC_ROLE_MAP: JSON.stringify({ 'district-admins': 'admin', staff: 'teacher', students: 'student', parents: 'guardian' }),
+  OIDC_JIT_PROVISIONING: 'true'
+};
+
+const studentClaims = {
+  sub: 'idp-student-1',
+  preferred_username: 'JDoe',
+  email: 'jdoe@district.example',
+  email_verified: true,
+  groups: ['students'],
+  student_id: 'STU123456'
+};
+
+// Stored login states, keyed by state hash like the real collection
+const loginStates = new Map<string, any>();
+
+const startLogin = () => request(app).get('/api/auth/oidc/login');
+
+// Follows the provider's authorization redirect and returns the callback parameters
+const authorize = async (authorizationUrl: string) => {
+  const response = await axios.get(authorizationUrl, { maxRedirects: 0, validateStatus: () => true });
+  const callback = new URL(response.headers.location);
+  return { code: callback.searchParams.get('code'), state: callback.searchParams.get('state') };
+};
+
+const signIn = async () => {
+  const start = await startLogin();
+  const params = await authorize(start.body.authorizationUrl);
+  return request(app).get('/api/auth/oidc/callback').query({ ...params, loginNonce: start.body.loginNonce });
+};
+
+const linkedUser = (overrides: Record<string, unknown> = {}) => {
+  const user: any = {
+    _id: new mongoose.Types.ObjectId(),
+    username: 'jdoe',
+    role: 'student',
+    studentId: 'STU123456',
+    disabled: false,
+    tokenVersion: 0,
+    save: jest.fn().mockResolvedValue(undefined),
+    isModified: jest.fn(() => !!user.changed),
+    ...overrides
+  };
+  return user;
+};
+
+describe('OpenID Connect single sign-on', () => {
+  let provider: MockOidcProvider;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider(OIDC_ENV.OIDC_CLIENT_ID);
+    Object.entries({ ...OIDC_ENV, OIDC_ISSUER: provider.issuer }).forEach(([name, value]) => {
+      originalEnv[name] = process.env[name];
+      process.env[name] = value;
+    });
+  });
+
+  afterAll(async () => {
+    Object.keys(originalEnv).forEach(name => {
+      if (originalEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[name];
+      }
+    });
+    await provider.close();
+  });
+
+  beforeEach(() => {
+    clearOidcCache();
+    invalidateRolePermissions();
+    loginStates.clear();
+    provider.signInAs(studentClaims);
+
+    mockedLoginState.create.mockImplementation((async (doc: any) => {
+      loginStates.set(doc.stateHash, doc);
+      return doc;
+    }) as any);
+    mockedLoginState.consume.mockImplementation((async (state: string, loginNonce: string) => {
+      const stored = loginStates.get(hashToken(state));
+      if (!stored || stored.loginNonceHash !== hashToken(loginNonce)) return null;
+      loginStates.delete(hashToken(state));
+      return stored;
+    }) as any);
+
+    mockedRole.exists.mockResolvedValue(null);
+    mockedSecurityPolicy.isTwoFactorRequired.mockResolvedValue(false);
+    mockedStudent.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+    mockedUser.exists.mockResolvedValue(null);
+    mockedUser.findOne.mockResolvedValue(null);
+    mockedUser.create.mockImplementation((async (doc: any) => ({ _id: new mongoose.Types.ObjectId(), tokenVersion: 0, ...doc })) as any);
+    mockedSession.create.mockImplementation((async () => ({ _id: new mongoose.Types.ObjectId() })) as any);
+    mockedRefreshToken.create.mockImplementation((async () => ({ _id: new mongoose.Types.ObjectId() })) as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 while single sign-on is not configured', async () => {
+    delete process.env.OIDC_ISSUER;
+
+    const res = await startLogin();
+
+    process.env.OIDC_ISSUER = provider.issuer;
+    expect(res.status).toBe(404);
+  });
+
+  it('should start an authorization-code login with PKCE, keeping the verifier server-side', async () => {
+    const res = await startLogin();
+
+    expect(res.status).toBe(200);
+    const url = new URL(res.body.authorizationUrl);
+    expect(url.origin + url.pathname).toBe(`${provider.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBe(res.body.state);
+
+    const stored = loginStates.get(hashToken(res.body.state));
+    expect(stored.codeVerifier).toBeDefined();
+    expect(res.body.authorizationUrl).not.toContain(stored.codeVerifier);
+    expect(url.searchParams.get('nonce')).toBe(stored.nonce);
+    expect(stored.loginNonceHash).toBe(hashToken(res.body.loginNonce));
+    expect(res.body.authorizationUrl).not.toContain(res.body.loginNonce);
+    expect(res.headers['set-cookie'][0]).toMatch(/^campuscore_oidc_login=[\w-]+; Path=\/api\/auth\/oidc; HttpOnly; SameSite=Lax$/);
+  });
+
+  it('should complete a browser login with the login cookie', async () => {
+    const start = await startLogin();
+    const params = await authorize(start.body.authorizationUrl);
+
+    const res = await request(app)
+      .get('/api/auth/oidc/callback')
+      .set('Cookie', start.headers['set-cookie'])
+      .query(params);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['set-cookie'][0]).toMatch(/^campuscore_oidc_login=;/);
+  });
+
+  it('should refuse a callback from a client that did not start the login', async () => {
+    const start = await startLogin();
+    const params = await authorize(start.body.authorizationUrl);
+
+    const withoutNonce = await request(app).get('/api/auth/oidc/callback').query(params);
+    const wrongNonce = await request(app).get('/api/auth/oidc/callback').query({ ...params, loginNonce: 'guessed' });
+
+    expect(withoutNonce.status).toBe(400);
+    expect(wrongNonce.status).toBe(400);
+    expect(mockedSession.create).not.toHaveBeenCalled();
+
+    const owner = await request(app).get('/api/auth/oidc/callback').query({ ...params, loginNonce: start.body.loginNonce });
+    expect(owner.status).toBe(200);
+  });
+
+  it('should provision a student just in time from mapped claims', async () => {
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({ username: 'jdoe', role: 'student', studentId: 'STU123456' });
+    expect(mockedUser.create).toHaveBeenCalledWith(expect.objectContaining({
+      username: 'jdoe',
+      role: 'student',
+      studentId: 'STU123456',
+      email: 'jdoe@district.example',
+      oidc: { issuer: provider.issuer, subject: 'idp-student-1' }
+    }));
+    expect((jwt.decode(res.body.token) as any).role).toBe('student');
+    expect(res.body.refreshToken).toBeDefined();
+  });
+
+  it('should sign in an already linked account by its subject', async () => {
+    const user = linkedUser();
+    mockedUser.findOne.mockResolvedValue(user);
+
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(mockedUser.findOne).toHaveBeenCalledWith({ 'oidc.issuer': provider.issuer, 'oidc.subject': 'idp-student-1' });
+    expect(mockedUser.create).not.toHaveBeenCalled();
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('should keep the role in sync with the identity provider', async () => {
+    const user = linkedUser({ role: 'guardian', studentId: undefined, changed: true });
+    mockedUser.findOne.mockResolvedValue(user);
+    provider.signInAs({ sub: 'idp-staff-1', preferred_username: 'jdoe', groups: ['staff', 'parents'] });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(user.role).toBe('teacher');
+    expect(user.save).toHaveBeenCalled();
+    expect(mockedGuardianLink.deleteMany).toHaveBeenCalledWith({ guardian: user._id });
+  });
+
+  it('should refuse unlinked identities when just-in-time provisioning is off', async () => {
+    process.env.OIDC_JIT_PROVISIONING = 'false';
+
+    const res = await signIn();
+
+    process.env.OIDC_JIT_PROVISIONING = 'true';
+    expect(res.status).toBe(403);
+    expect(mockedUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should never provision privileged roles from claims', async () => {
+    provider.signInAs({ sub: 'idp-admin-1', preferred_username: 'boss', groups: ['district-admins'] });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(403);
+    expect(res.body.role).toBe('admin');
+    expect(mockedUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse identities without a mapped role', async () => {
+    provider.signInAs({ sub: 'idp-visitor', preferred_username: 'visitor', groups: ['alumni'] });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should refuse disabled accounts', async () => {
+    mockedUser.findOne.mockResolvedValue(linkedUser({ disabled: true }));
+
+    const res = await signIn();
+
+    expect(res.status).toBe(403);
+    expect(mockedSession.create).not.toHaveBeenCalled();
+  });
+
+  it('should ask for the second factor of accounts with two-factor enabled', async () => {
+    const user = linkedUser({ role: 'teacher', studentId: undefined, twoFactor: { enabled: true } });
+    mockedUser.findOne.mockResolvedValue(user);
+    provider.signInAs({ sub: 'idp-staff-1', preferred_username: 'jdoe', groups: ['staff'] });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(res.body.token).toBeUndefined();
+    expect(verifyTwoFactorChallenge(res.body.challengeToken, 'verify')).toEqual(expect.objectContaining({ userId: String(user._id) }));
+    expect(mockedSession.create).not.toHaveBeenCalled();
+  });
+
+  it('should apply the two-factor policy of the role unless the provider is trusted for MFA', async () => {
+    mockedUser.findOne.mockResolvedValue(linkedUser({ role: 'teacher', studentId: undefined }));
+    mockedSecurityPolicy.isTwoFactorRequired.mockResolvedValue(true);
+    provider.signInAs({ sub: 'idp-staff-1', preferred_username: 'jdoe', groups: ['staff'] });
+
+    const enforced = await signIn();
+
+    expect(enforced.body.twoFactorSetupRequired).toBe(true);
+    expect(enforced.body.token).toBeUndefined();
+    expect(mockedSecurityPolicy.isTwoFactorRequired).toHaveBeenCalledWith('teacher');
+
+    process.env.OIDC_TRUST_IDP_MFA = 'true';
+    const trusted = await signIn();
+    delete process.env.OIDC_TRUST_IDP_MFA;
+
+    expect(trusted.status).toBe(200);
+    expect(trusted.body.token).toBeDefined();
+  });
+
+  it('should accept each login state only once', async () => {
+    const start = await startLogin();
+    const params = await authorize(start.body.authorizationUrl);
+
+    const callback = { ...params, loginNonce: start.body.loginNonce };
+
+    const first = await request(app).get('/api/auth/oidc/callback').query(callback);
+    const replay = await request(app).get('/api/auth/oidc/callback').query(callback);
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(400);
+  });
+
+  it('should fail when the PKCE verifier does not match the challenge', async () => {
+    const start = await startLogin();
+    loginStates.get(hashToken(start.body.state)).codeVerifier = 'not-the-original-verifier';
+    const params = await authorize(start.body.authorizationUrl);
+
+    const res = await request(app).get('/api/auth/oidc/callback').query({ ...params, loginNonce: start.body.loginNonce });
+
+    expect(res.status).toBe(401);
+    expect(res.body.providerError).toBe('invalid_grant');
+  });
+
+  it('should reject an ID token whose nonce does not match the login', async () => {
+    provider.tamperNextIdToken({ nonce: 'replayed-nonce' });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Invalid ID token');
+    expect(mockedSession.create).not.toHaveBeenCalled();
+  });
+
+  it('should report errors returned by the identity provider', async () => {
+    const res = await request(app)
+      .get('/api/auth/oidc/callback')
+      .query({ error: 'access_denied', error_description: 'User cancelled' });
+
+    expect(res.status).toBe(401);
+    expect(res.body.providerError).toBe('access_denied');
+  });
+});
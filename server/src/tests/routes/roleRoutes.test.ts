@@ -0,0 +1,199 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import roleRoutes from '../../routes/roleRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Role from '../../models/Role';
+import Invitation from '../../models/Invitation';
+import SecurityPolicy from '../../models/SecurityPolicy';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Role');
+jest.mock('../../models/Invitation');
+jest.mock('../../models/SecurityPolicy');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedInvitation = Invitation as jest.Mocked<typeof Invitation>;
+const mockedPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/roles', roleRoutes);
+
+// Signs a token and makes the mocked user store agree with it, since roles are read from the database
+const tokenFor = (role: string) => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  mockedUser.findById.mockResolvedValue({ _id: userId, role, disabled: false, tokenVersion: 0 } as any);
+  return jwt.sign({ userId, role, ver: 0, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+};
+
+const storedRole = (overrides: Record<string, unknown> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'registrar',
+  description: 'Maintains student records',
+  permissions: ['students:read', 'students:write'],
+  isBuiltIn: false,
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides
+});
+
+describe('role management routes', () => {
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should reject roles without roles:manage', async () => {
+    const res = await request(app)
+      .get('/api/roles')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.requiredPermissions).toEqual(['roles:manage']);
+  });
+
+  it('should list the permission catalogue', async () => {
+    const res = await request(app)
+      .get('/api/roles/permissions')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.permissions).toContainEqual({
+      name: 'grades:read:own-sections',
+      description: expect.any(String)
+    });
+  });
+
+  it('should create a custom role', async () => {
+    mockedRole.exists.mockResolvedValue(null);
+    mockedRole.create.mockResolvedValue(storedRole() as any);
+
+    const res = await request(app)
+      .post('/api/roles')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ name: 'Registrar', description: 'Maintains student records', permissions: ['students:read', 'students:write'] });
+
+    expect(res.status).toBe(201);
+    expect(mockedRole.create).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'registrar',
+      permissions: ['students:read', 'students:write']
+    }));
+    expect(res.body.role).toEqual(expect.objectContaining({ name: 'registrar', isBuiltIn: false }));
+  });
+
+  it('should reject permissions outside the catalogue', async () => {
+    mockedRole.exists.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/api/roles')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ name: 'counselor', permissions: ['students:read', 'students:hug'] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.unknownPermissions).toEqual(['students:hug']);
+    expect(mockedRole.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to create a role named after a built-in one', async () => {
+    const res = await request(app)
+      .post('/api/roles')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ name: 'teacher', permissions: [] });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should not let role managers grant permissions they do not hold', async () => {
+    mockedRole.findPermissions.mockResolvedValue(['roles:manage', 'students:read']);
+    mockedRole.exists.mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/api/roles')
+      .set('Authorization', `Bearer ${tokenFor('security-officer')}`)
+      .send({ name: 'superuser', permissions: ['students:read', 'users:write'] });
+
+    expect(res.status).toBe(403);
+    expect(res.body.permissions).toEqual(['users:write']);
+    expect(mockedRole.create).not.toHaveBeenCalled();
+  });
+
+  it('should update the permissions of a built-in role and drop cached permissions', async () => {
+    const teacherRole = storedRole({ name: 'teacher', isBuiltIn: true, permissions: ['courses:read'] });
+    mockedRole.findOne.mockResolvedValue(teacherRole as any);
+
+    const res = await request(app)
+      .put('/api/roles/teacher')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ permissions: ['courses:read', 'students:read:own-sections'] });
+
+    expect(res.status).toBe(200);
+    expect(teacherRole.permissions).toEqual(['courses:read', 'students:read:own-sections']);
+    expect(teacherRole.save).toHaveBeenCalled();
+  });
+
+  it('should keep the admin role holding every permission', async () => {
+    mockedRole.findPermissions.mockResolvedValue(['roles:manage']);
+    mockedRole.findOne.mockResolvedValue(storedRole({ name: 'admin', isBuiltIn: true }) as any);
+
+    const res = await request(app)
+      .put('/api/roles/admin')
+      .set('Authorization', `Bearer ${tokenFor('security-officer')}`)
+      .send({ permissions: ['roles:manage'] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('The admin role always has every permission');
+  });
+
+  it('should refuse to delete built-in roles', async () => {
+    mockedRole.findOne.mockResolvedValue(storedRole({ name: 'student', isBuiltIn: true }) as any);
+
+    const res = await request(app)
+      .delete('/api/roles/student')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(400);
+    expect(mockedRole.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to delete a role that is still assigned', async () => {
+    mockedRole.findOne.mockResolvedValue(storedRole() as any);
+    mockedUser.countDocuments.mockResolvedValue(3 as any);
+
+    const res = await request(app)
+      .delete('/api/roles/registrar')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(409);
+    expect(res.body.assignedUsers).toBe(3);
+    expect(mockedRole.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('should delete an unused custom role', async () => {
+    mockedRole.findOne.mockResolvedValue(storedRole() as any);
+    mockedUser.countDocuments.mockResolvedValue(0 as any);
+    mockedInvitation.exists.mockResolvedValue(null);
+
+    const res = await request(app)
+      .delete('/api/roles/registrar')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedRole.deleteOne).toHaveBeenCalled();
+    expect(mockedPolicy.updateOne).toHaveBeenCalledWith({}, { $pull: { twoFactorRequiredRoles: 'registrar' } });
+  });
+});
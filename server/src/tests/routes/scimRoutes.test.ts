@@ -0,0 +1,430 @@
+import express from 'express';
+import request from 'supertest';
+import mongoose from 'mongoose';
+import scimRoutes from '../../routes/scimRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Role from '../../models/Role';
+import Student from '../../models/Student';
+import GuardianLink from '../../models/GuardianLink';
+import ApiKey from '../../models/ApiKey';
+import { generateApiKey } from '../../utils/apiKeys';
+import { SCIM_SCHEMAS } from '../../utils/scim';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Role');
+jest.mock('../../models/Student');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/ApiKey');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedGuardianLink = GuardianLink as jest.Mocked<typeof GuardianLink>;
+const mockedApiKey = ApiKey as jest.Mocked<typeof ApiKey>;
+
+const app = express();
+app.use(express.json());
+app.use('/scim/v2', scimRoutes);
+
+// Registers an API key with the given permissions and returns the raw key for the bearer header
+const scimKey = (permissions: string[] = ['scim:provision']) => {
+  const generated = generateApiKey();
+  mockedApiKey.findByPrefix.mockResolvedValue({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Identity provisioning',
+    prefix: generated.prefix,
+    keyHash: generated.keyHash,
+    permissions,
+    allowedIps: [],
+    lastUsedAt: new Date(),
+    lastUsedIp: '::ffff:127.0.0.1',
+    revokedAt: null,
+    isUsable: () => true
+  } as any);
+  return generated.key;
+};
+
+const storedUser = (overrides: Record<string, unknown> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  username: 'jdoe',
+  email: 'jdoe@district.example',
+  role: 'teacher',
+  disabled: false,
+  externalId: 'okta-00u1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  save: jest.fn().mockResolvedValue(undefined),
+  validate: jest.fn().mockResolvedValue(undefined),
+  ...overrides
+});
+
+const scimJson = (req: request.Test, body: unknown) => req.set('Content-Type', 'application/scim+json').send(JSON.stringify(body));
+
+describe('SCIM 2.0 provisioning', () => {
+  beforeEach(() => {
+    mockedRole.findPermissions.mockResolvedValue(null);
+    mockedRole.exists.mockResolvedValue(null);
+    mockedApiKey.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+    mockedSession.revokeAllForUser.mockResolvedValue(1);
+    mockedUser.exists.mockResolvedValue(null);
+    mockedUser.countDocuments.mockResolvedValue(2 as any);
+    invalidateRolePermissions();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env.SCIM_ROLES;
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('authentication', () => {
+    it('should require an API key as the bearer token', async () => {
+      const res = await request(app).get('/scim/v2/Users');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should require the scim:provision permission', async () => {
+      const res = await request(app)
+        .get('/scim/v2/Users')
+        .set('Authorization', `Bearer ${scimKey(['students:read'])}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.requiredPermissions).toEqual(['scim:provision']);
+    });
+  });
+
+  describe('Users', () => {
+    it('should filter users by userName', async () => {
+      const user = storedUser();
+      const limit = jest.fn().mockResolvedValue([user]);
+      const skip = jest.fn().mockReturnValue({ limit });
+      mockedUser.find.mockReturnValue({ sort: jest.fn().mockReturnValue({ skip }) } as any);
+      mockedUser.countDocuments.mockResolvedValue(1 as any);
+
+      const res = await request(app)
+        .get('/scim/v2/Users')
+        .query({ filter: 'userName eq "JDoe"' })
+        .set('Authorization', `Bearer ${scimKey()}`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('application/scim+json');
+      expect(mockedUser.find).toHaveBeenCalledWith({ role: { $in: ['teacher', 'student', 'guardian'] }, username: 'jdoe' });
+      expect(skip).toHaveBeenCalledWith(0);
+      expect(res.body).toMatchObject({
+        schemas: [SCIM_SCHEMAS.listResponse],
+        totalResults: 1,
+        startIndex: 1,
+        itemsPerPage: 1
+      });
+      expect(res.body.Resources[0]).toMatchObject({
+        id: String(user._id),
+        userName: 'jdoe',
+        active: true,
+        externalId: 'okta-00u1',
+        groups: [expect.objectContaining({ value: 'teacher' })]
+      });
+    });
+
+    it('should reject unsupported filters', async () => {
+      const res = await request(app)
+        .get('/scim/v2/Users')
+        .query({ filter: 'emails co "district"' })
+        .set('Authorization', `Bearer ${scimKey()}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body).toMatchObject({ schemas: [SCIM_SCHEMAS.error], status: '400', scimType: 'invalidFilter' });
+    });
+
+    it('should create a user from an application/scim+json body', async () => {
+      mockedUser.create.mockImplementation((async (doc: any) => storedUser(doc)) as any);
+
+      const res = await scimJson(
+        request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${scimKey()}`),
+        {
+          schemas: [SCIM_SCHEMAS.user],
+          userName: 'MSmith',
+          externalId: 'okta-00u2',
+          name: { givenName: 'Morgan', familyName: 'Smith' },
+          emails: [{ value: 'msmith@district.example', type: 'work', primary: true }],
+          roles: [{ value: 'teacher', primary: true }],
+          active: true
+        }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.headers.location).toMatch(/\/scim\/v2\/Users\/[0-9a-f]{24}$/);
+      expect(mockedUser.create).toHaveBeenCalledWith(expect.objectContaining({
+        username: 'msmith',
+        role: 'teacher',
+        email: 'msmith@district.example',
+        externalId: 'okta-00u2'
+      }));
+      expect(res.body.userName).toBe('msmith');
+    });
+
+    it('should create students bound to their student record', async () => {
+      mockedStudent.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+      mockedUser.create.mockImplementation((async (doc: any) => storedUser(doc)) as any);
+
+      const res = await scimJson(
+        request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${scimKey()}`),
+        {
+          userName: 'stu123456',
+          roles: [{ value: 'student' }],
+          [SCIM_SCHEMAS.enterpriseUser]: { employeeNumber: 'STU123456' }
+        }
+      );
+
+      expect(res.status).toBe(201);
+      expect(mockedUser.create).toHaveBeenCalledWith(expect.objectContaining({ role: 'student', studentId: 'STU123456' }));
+      expect(res.body[SCIM_SCHEMAS.enterpriseUser]).toEqual({ employeeNumber: 'STU123456' });
+    });
+
+    it('should refuse students without a student ID and duplicate user names', async () => {
+      const key = scimKey();
+
+      const student = await scimJson(
+        request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${key}`),
+        { userName: 'stu1', roles: [{ value: 'student' }] }
+      );
+      expect(student.status).toBe(400);
+
+      mockedUser.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+      const duplicate = await scimJson(
+        request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${key}`),
+        { userName: 'jdoe' }
+      );
+      expect(duplicate.status).toBe(409);
+      expect(duplicate.body.scimType).toBe('uniqueness');
+      expect(mockedUser.create).not.toHaveBeenCalled();
+    });
+
+    it('should report unique index and validation errors raised while saving', async () => {
+      const key = scimKey();
+      const body = { userName: 'msmith', emails: [{ value: 'msmith@district.example' }] };
+
+      mockedUser.create.mockRejectedValueOnce(
+        new mongoose.mongo.MongoServerError({ message: 'E11000 duplicate key error', code: 11000, keyPattern: { email: 1 } })
+      );
+      const duplicate = await scimJson(request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${key}`), body);
+
+      const invalid = new mongoose.Error.ValidationError();
+      invalid.addError('email', new mongoose.Error.ValidatorError({ message: 'Please enter a valid email', path: 'email' }));
+      mockedUser.create.mockRejectedValueOnce(invalid);
+      const rejected = await scimJson(request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${key}`), body);
+
+      expect(duplicate.status).toBe(409);
+      expect(duplicate.body).toMatchObject({ detail: 'email already exists', scimType: 'uniqueness' });
+      expect(rejected.status).toBe(400);
+      expect(rejected.body).toMatchObject({ detail: 'Please enter a valid email', scimType: 'invalidValue' });
+    });
+
+    it('should deactivate a user and end their sessions', async () => {
+      const user = storedUser();
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const res = await scimJson(
+        request(app).patch(`/scim/v2/Users/${user._id}`).set('Authorization', `Bearer ${scimKey()}`),
+        {
+          schemas: [SCIM_SCHEMAS.patchOp],
+          Operations: [{ op: 'Replace', path: 'active', value: 'False' }]
+        }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.body.active).toBe(false);
+      expect(user.disabled).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(String(user._id), 'account_disabled');
+    });
+
+    it('should apply path-less replace operations', async () => {
+      const user = storedUser();
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const res = await scimJson(
+        request(app).patch(`/scim/v2/Users/${user._id}`).set('Authorization', `Bearer ${scimKey()}`),
+        {
+          schemas: [SCIM_SCHEMAS.patchOp],
+          Operations: [{ op: 'replace', value: { 'emails[type eq "work"].value': 'new@district.example', externalId: 'okta-99' } }]
+        }
+      );
+
+      expect(res.status).toBe(200);
+      expect(user.email).toBe('new@district.example');
+      expect(user.externalId).toBe('okta-99');
+      expect(mockedSession.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
+    it('should not create admins or touch existing admins unless SCIM_ROLES allows it', async () => {
+      const created = await scimJson(
+        request(app).post('/scim/v2/Users').set('Authorization', `Bearer ${scimKey()}`),
+        { userName: 'mallory', emails: [{ value: 'mallory@district.example' }], roles: [{ value: 'admin' }] }
+      );
+
+      expect(created.status).toBe(400);
+      expect(mockedUser.create).not.toHaveBeenCalled();
+
+      const admin = storedUser({ role: 'admin' });
+      mockedUser.findById.mockResolvedValue(admin as any);
+
+      const takeover = await scimJson(
+        request(app).patch(`/scim/v2/Users/${admin._id}`).set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'replace', path: 'emails[type eq "work"].value', value: 'mallory@district.example' }] }
+      );
+
+      expect(takeover.status).toBe(404);
+      expect(admin.email).toBe('jdoe@district.example');
+      expect(admin.save).not.toHaveBeenCalled();
+    });
+
+    it('should not promote users to admin by default', async () => {
+      const user = storedUser();
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const res = await scimJson(
+        request(app).patch(`/scim/v2/Users/${user._id}`).set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'replace', path: 'roles', value: [{ value: 'admin' }] }] }
+      );
+
+      expect(res.status).toBe(400);
+      expect(user.role).toBe('teacher');
+      expect(user.save).not.toHaveBeenCalled();
+
+      const group = await scimJson(
+        request(app).patch('/scim/v2/Groups/admin').set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'add', path: 'members', value: [{ value: String(user._id) }] }] }
+      );
+
+      expect(group.status).toBe(404);
+      expect(user.role).toBe('teacher');
+    });
+
+    it('should not deactivate the last active admin', async () => {
+      process.env.SCIM_ROLES = 'admin,teacher';
+      const admin = storedUser({ role: 'admin' });
+      mockedUser.findById.mockResolvedValue(admin as any);
+      mockedUser.countDocuments.mockResolvedValue(1 as any);
+
+      const res = await scimJson(
+        request(app).patch(`/scim/v2/Users/${admin._id}`).set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'replace', path: 'active', value: false }] }
+      );
+
+      expect(res.status).toBe(409);
+      expect(admin.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Groups', () => {
+    it('should list roles as groups, filtered by displayName', async () => {
+      mockedUser.find.mockReturnValue({ sort: jest.fn().mockResolvedValue([storedUser()]) } as any);
+
+      const res = await request(app)
+        .get('/scim/v2/Groups')
+        .query({ filter: 'displayName eq "teacher"' })
+        .set('Authorization', `Bearer ${scimKey()}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.totalResults).toBe(1);
+      expect(res.body.Resources[0]).toMatchObject({ id: 'teacher', displayName: 'teacher' });
+      expect(res.body.Resources[0].members).toHaveLength(1);
+    });
+
+    it('should move a user into the role of the group they are added to', async () => {
+      const user = storedUser({ role: 'guardian' });
+      mockedUser.findById.mockResolvedValue(user as any);
+      mockedUser.find.mockReturnValue({ sort: jest.fn().mockResolvedValue([user]) } as any);
+
+      const res = await scimJson(
+        request(app).patch('/scim/v2/Groups/teacher').set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'add', path: 'members', value: [{ value: String(user._id) }] }] }
+      );
+
+      expect(res.status).toBe(200);
+      expect(user.role).toBe('teacher');
+      expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(String(user._id), 'role_changed');
+      expect(mockedGuardianLink.deleteMany).toHaveBeenCalledWith({ guardian: user._id });
+    });
+
+    it('should move removed members to the default role', async () => {
+      process.env.SCIM_ROLES = 'admin,teacher';
+      const user = storedUser({ role: 'admin' });
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const res = await scimJson(
+        request(app).patch('/scim/v2/Groups/admin').set('Authorization', `Bearer ${scimKey()}`).query({ excludedAttributes: 'members' }),
+        { Operations: [{ op: 'remove', path: `members[value eq "${user._id}"]` }] }
+      );
+
+      expect(res.status).toBe(204);
+      expect(user.role).toBe('teacher');
+    });
+
+    it('should save no member when any member of the request is refused', async () => {
+      const teacher = storedUser({ role: 'guardian', studentId: 'STU123456' });
+      const withoutStudentId = storedUser({ role: 'guardian' });
+      mockedUser.findById.mockImplementation((async (id: string) =>
+        [teacher, withoutStudentId].find(user => String(user._id) === String(id)) || null) as any);
+
+      const refused = await scimJson(
+        request(app).patch('/scim/v2/Groups/student').set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'add', path: 'members', value: [{ value: String(teacher._id) }, { value: String(withoutStudentId._id) }] }] }
+      );
+      const missing = await scimJson(
+        request(app).patch('/scim/v2/Groups/teacher').set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'add', path: 'members', value: [{ value: String(teacher._id) }, { value: String(new mongoose.Types.ObjectId()) }] }] }
+      );
+
+      expect(refused.status).toBe(400);
+      expect(missing.status).toBe(404);
+      expect(teacher.save).not.toHaveBeenCalled();
+      expect(mockedSession.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
+    it('should not remove every active admin in one request', async () => {
+      process.env.SCIM_ROLES = 'admin,teacher';
+      const admins = [storedUser({ role: 'admin' }), storedUser({ role: 'admin' })];
+      mockedUser.findById.mockImplementation((async (id: string) =>
+        admins.find(user => String(user._id) === String(id)) || null) as any);
+      mockedUser.countDocuments.mockImplementation((async (filter: any) => filter._id ? 0 : 2) as any);
+
+      const res = await scimJson(
+        request(app).patch('/scim/v2/Groups/admin').set('Authorization', `Bearer ${scimKey()}`),
+        { Operations: [{ op: 'remove', path: 'members', value: admins.map(admin => ({ value: String(admin._id) })) }] }
+      );
+
+      expect(res.status).toBe(409);
+      admins.forEach(admin => expect(admin.save).not.toHaveBeenCalled());
+    });
+
+    it('should leave members who already moved to another group alone', async () => {
+      const user = storedUser({ role: 'teacher' });
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const res = await scimJson(
+        request(app).patch('/scim/v2/Groups/guardian').set('Authorization', `Bearer ${scimKey()}`).query({ excludedAttributes: 'members' }),
+        { Operations: [{ op: 'remove', path: 'members', value: [{ value: String(user._id) }] }] }
+      );
+
+      expect(res.status).toBe(204);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for roles that are not exposed as groups', async () => {
+      process.env.SCIM_ROLES = 'teacher,student';
+
+      const res = await request(app)
+        .get('/scim/v2/Groups/admin')
+        .set('Authorization', `Bearer ${scimKey()}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,740 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import studentRoutes from '../../routes/studentRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Student from '../../models/Student';
+import Enrollment from '../../models/Enrollment';
+import Role from '../../models/Role';
+import StudentHistory from '../../models/StudentHistory';
+import { invalidateRolePermissions } from '../../utils/permissions';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+// Automocking would empty the archive status list the controllers validate against
+jest.mock('../../models/Student', () => ({
+  ...jest.createMockFromModule<object>('../../models/Student'),
+  ARCHIVE_STATUSES: jest.requireActual('../../models/Student').ARCHIVE_STATUSES
+}));
+jest.mock('../../models/Enrollment');
+jest.mock('../../models/Role');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/StudentHistory');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedEnrollment = Enrollment as jest.Mocked<typeof Enrollment>;
+const mockedRole = Role as jest.Mocked<typeof Role>;
+const mockedHistory = StudentHistory as jest.Mocked<typeof StudentHistory>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/students', studentRoutes);
+
+// Signs a token and makes the mocked user store agree with it, since roles are read from the database
+const tokenFor = (role: string) => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  mockedUser.findById.mockResolvedValue({ _id: userId, role, disabled: false, tokenVersion: 0 } as any);
+  return jwt.sign({ userId, role, ver: 0, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+};
+
+const mockActiveEnrollments = (enrollments: any[]) => {
+  mockedEnrollment.find.mockReturnValue({
+    populate: jest.fn().mockResolvedValue(enrollments)
+  } as any);
+};
+
+// Student.find(...).select().sort().limit().lean() as used by the student list
+const mockStudentList = (rows: any[], total: number = rows.length) => {
+  const query: any = {};
+  ['select', 'sort', 'limit'].forEach(method => {
+    query[method] = jest.fn().mockReturnValue(query);
+  });
+  query.lean = jest.fn().mockResolvedValue(rows);
+  mockedStudent.find.mockReturnValue(query);
+  mockedStudent.countDocuments.mockResolvedValue(total as never);
+  return query;
+};
+
+describe('student admin routes', () => {
+  const studentObjectId = new mongoose.Types.ObjectId();
+  let student: any;
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+    student = {
+      _id: studentObjectId,
+      studentId: 'STU-2025-0001',
+      name: 'Alice',
+      email: 'alice@example.com',
+      age: 15,
+      gradeLevel: '10',
+      grades: []
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject access tokens whose session was revoked', async () => {
+    mockedSession.isActive.mockResolvedValue(false);
+
+    const res = await request(app)
+      .get(`/api/students/${studentObjectId}/deletable`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(401);
+    expect(mockedStudent.findById).not.toHaveBeenCalled();
+  });
+
+  it('should reject teachers on admin-only routes', async () => {
+    const res = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`);
+
+    expect(res.status).toBe(403);
+    expect(mockedStudent.findById).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when archiving a student with active enrollments', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockActiveEnrollments([{
+      _id: new mongoose.Types.ObjectId(),
+      courseId: { _id: new mongoose.Types.ObjectId(), name: 'Algebra I', code: 'MATH101' },
+      status: 'enrolled',
+      createdAt: new Date()
+    }]);
+
+    const res = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ status: 'withdrawn', reason: 'Family moved away' });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toEqual(expect.objectContaining({
+      error: 'Cannot archive student with active enrollments',
+      conflictReason: 'active_enrollments'
+    }));
+    expect(res.body.activeEnrollments[0]).toEqual(expect.objectContaining({
+      courseName: 'Algebra I',
+      courseCode: 'MATH101'
+    }));
+    expect(mockedEnrollment.find).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: studentObjectId.toString()
+    }));
+    expect(mockedStudent.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should archive a student without active enrollments instead of deleting it', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockedStudent.findOneAndUpdate.mockImplementation(((filter: any, update: any) =>
+      Promise.resolve({ ...student, archive: update.$set.archive })) as any);
+    mockActiveEnrollments([]);
+
+    const res = await request(app)
+      .post(`/api/students/${studentObjectId}/archive`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ status: 'graduated', reason: 'Completed grade 12', effectiveDate: '2025-06-20' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.archivedStudent.studentId).toBe('STU-2025-0001');
+    expect(res.body.archive).toEqual(expect.objectContaining({
+      status: 'graduated',
+      reason: 'Completed grade 12',
+      effectiveDate: '2025-06-20T00:00:00.000Z'
+    }));
+    expect(mockedStudent.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: studentObjectId.toString(), archive: null },
+      expect.anything(),
+      expect.anything()
+    );
+    expect(mockedStudent.findByIdAndDelete).not.toHaveBeenCalled();
+  });
+
+  it('should archive a bare DELETE as withdrawn and read DELETE fields from the query string', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockedStudent.findOneAndUpdate.mockImplementation(((filter: any, update: any) =>
+      Promise.resolve({ ...student, archive: update.$set.archive })) as any);
+    mockActiveEnrollments([]);
+
+    const bare = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(bare.status).toBe(200);
+    expect(bare.body.archive).toEqual(expect.objectContaining({ status: 'withdrawn', reason: 'Removed without a stated reason' }));
+
+    const withQuery = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .query({ status: 'transferred', reason: 'Moved to Lincoln High' })
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(withQuery.status).toBe(200);
+    expect(withQuery.body.archive).toEqual(expect.objectContaining({ status: 'transferred', reason: 'Moved to Lincoln High' }));
+  });
+
+  it('should require an archive status and reason', async () => {
+    const missing = await request(app)
+      .post(`/api/students/${studentObjectId}/archive`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(missing.status).toBe(400);
+    expect(missing.body.required).toEqual(['status', 'reason']);
+
+    const res = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ status: 'expelled', reason: 'x' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.allowedStatuses).toEqual(['withdrawn', 'graduated', 'transferred']);
+    expect(mockedStudent.findById).not.toHaveBeenCalled();
+  });
+
+  it('should restore an archived student', async () => {
+    const archive = { status: 'transferred', reason: 'Moved to Lincoln High', effectiveDate: new Date(), archivedAt: new Date() };
+    mockedStudent.findById.mockResolvedValue({ ...student, archive });
+    mockedStudent.findOneAndUpdate.mockResolvedValue({ ...student, archive: null } as any);
+
+    const res = await request(app)
+      .post(`/api/students/${studentObjectId}/restore`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.previousArchive.status).toBe('transferred');
+    expect(mockedStudent.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: studentObjectId.toString(), archive: { $ne: null } },
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('should refuse to restore a student that is not archived', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+
+    const res = await request(app)
+      .post(`/api/students/${studentObjectId}/restore`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(409);
+    expect(mockedStudent.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to update an archived student', async () => {
+    mockedStudent.findById.mockResolvedValue({ ...student, archive: { status: 'withdrawn', reason: 'Left' } });
+
+    const res = await request(app)
+      .put(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ name: 'Alice Smith' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toBe('Student is archived');
+    expect(mockedStudent.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should report a student as not deletable when enrollments are active', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockActiveEnrollments([{
+      _id: new mongoose.Types.ObjectId(),
+      courseId: null,
+      status: 'active',
+      createdAt: new Date()
+    }]);
+
+    const res = await request(app)
+      .get(`/api/students/${studentObjectId}/deletable`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.isDeletable).toBe(false);
+    expect(res.body.activeEnrollments).toHaveLength(1);
+  });
+
+  it('should return 409 from bulk delete when every student is blocked', async () => {
+    mockedStudent.find.mockResolvedValue([student] as any);
+    mockActiveEnrollments([{
+      _id: new mongoose.Types.ObjectId(),
+      courseId: null,
+      status: 'in_progress',
+      createdAt: new Date()
+    }]);
+
+    const res = await request(app)
+      .post('/api/students/bulk-delete')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ studentIds: [studentObjectId.toString()], status: 'withdrawn', reason: 'End of term' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.summary).toEqual(expect.objectContaining({
+      archived: 0,
+      blockedByEnrollments: 1
+    }));
+  });
+
+  it('should update a student through PUT', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockedStudent.findByIdAndUpdate.mockResolvedValue({ ...student, name: 'Alice Smith' } as any);
+
+    const res = await request(app)
+      .put(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ name: 'Alice Smith' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.student.name).toBe('Alice Smith');
+    expect(res.body.updatedFields).toEqual(['name']);
+    expect(mockedHistory.record).toHaveBeenCalledWith(expect.objectContaining({
+      student: studentObjectId.toString(),
+      action: 'updated',
+      changes: [{ field: 'name', before: 'Alice', after: 'Alice Smith' }]
+    }));
+  });
+
+  it('should update a single field through PATCH', async () => {
+    mockedStudent.findById.mockResolvedValue(student);
+    mockedStudent.findByIdAndUpdate.mockResolvedValue({ ...student, age: 16 } as any);
+
+    const res = await request(app)
+      .patch(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ field: 'age', value: 16 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.updatedField).toEqual({ field: 'age', oldValue: 15, newValue: 16 });
+  });
+
+  it('should authorize custom roles by the permissions stored for them', async () => {
+    mockedRole.findPermissions.mockResolvedValue(['students:read', 'students:write']);
+    mockedStudent.findById.mockResolvedValue(student);
+    mockedStudent.findByIdAndUpdate.mockResolvedValue({ ...student, name: 'Alice Smith' } as any);
+
+    const update = await request(app)
+      .put(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('registrar')}`)
+      .send({ name: 'Alice Smith' });
+
+    expect(update.status).toBe(200);
+    expect(mockedRole.findPermissions).toHaveBeenCalledWith('registrar');
+
+    const remove = await request(app)
+      .delete(`/api/students/${studentObjectId}`)
+      .set('Authorization', `Bearer ${tokenFor('registrar')}`);
+
+    expect(remove.status).toBe(403);
+    expect(remove.body.requiredPermissions).toEqual(['students:delete']);
+  });
+
+  it('should give roles with students:read access to every student', async () => {
+    mockedRole.findPermissions.mockResolvedValue(['students:read']);
+    mockStudentList([student]);
+
+    const res = await request(app)
+      .get('/api/students')
+      .set('Authorization', `Bearer ${tokenFor('counselor')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedStudent.find).toHaveBeenCalledWith({ archive: null });
+  });
+
+  it('should deny roles that do not exist', async () => {
+    const res = await request(app)
+      .get('/api/students')
+      .set('Authorization', `Bearer ${tokenFor('ghost')}`);
+
+    expect(res.status).toBe(403);
+    expect(mockedStudent.find).not.toHaveBeenCalled();
+  });
+});
+
+describe('student list', () => {
+  const ids = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+  const rows = ids.map((id, index) => ({
+    _id: id,
+    studentId: `STU-2025-000${index + 1}`,
+    name: ['Alice', 'Bob', 'Carol'][index],
+    email: `student${index}@example.com`,
+    age: 14 + index,
+    gradeLevel: '10'
+  }));
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should filter, sort and page through students', async () => {
+    const query = mockStudentList(rows, 7);
+
+    const res = await request(app)
+      .get('/api/students?search=a&gradeLevel=10,11&minAge=14&sort=-age&limit=2&fields=-grades')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedStudent.find).toHaveBeenCalledWith(expect.objectContaining({
+      $or: expect.any(Array),
+      gradeLevel: { $in: ['10', '11'] },
+      age: { $gte: 14 }
+    }));
+    expect(query.select).toHaveBeenCalledWith({ grades: 0 });
+    expect(query.sort).toHaveBeenCalledWith({ age: -1, _id: -1 });
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(res.body.students).toHaveLength(2);
+    expect(res.body.pagination).toEqual(expect.objectContaining({ limit: 2, total: 7, hasMore: true }));
+    expect(res.body.pagination.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should continue after the cursor of the previous page', async () => {
+    mockStudentList(rows.slice(0, 2), 3);
+    const first = await request(app)
+      .get('/api/students?limit=1')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    mockStudentList(rows.slice(1, 2), 3);
+    const second = await request(app)
+      .get(`/api/students?limit=1&cursor=${first.body.pagination.nextCursor}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(second.status).toBe(200);
+    expect(mockedStudent.find).toHaveBeenLastCalledWith({
+      $and: [{ archive: null }, {
+        $or: [
+          { name: { $gt: 'Alice' } },
+          { name: 'Alice', _id: { $gt: ids[0] } }
+        ]
+      }]
+    });
+    expect(mockedStudent.countDocuments).toHaveBeenLastCalledWith({ archive: null });
+    expect(second.body.pagination).toEqual(expect.objectContaining({ hasMore: false, nextCursor: null }));
+  });
+
+  it('should drop the sort field from the output when it was not requested', async () => {
+    mockStudentList(rows.map(({ _id, studentId, email, name }) => ({ _id, studentId, email, name })));
+
+    const res = await request(app)
+      .get('/api/students?fields=studentId,email')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.students[0]).toEqual({ _id: String(ids[0]), studentId: 'STU-2025-0001', email: 'student0@example.com' });
+  });
+
+  it('should reject invalid parameters', async () => {
+    const res = await request(app)
+      .get('/api/students?sort=password&limit=500')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toHaveLength(2);
+    expect(mockedStudent.find).not.toHaveBeenCalled();
+  });
+});
+
+describe('student import', () => {
+  const existingId = new mongoose.Types.ObjectId();
+  let existing: any;
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+    existing = {
+      _id: existingId,
+      studentId: 'STU-2025-0001',
+      name: 'Alice',
+      email: 'alice@example.com',
+      age: 15,
+      gradeLevel: '10'
+    };
+    // Only Alice exists; the uniqueness checks exclude the record being updated
+    mockedStudent.findOne.mockImplementation(((query: any) => {
+      const matches = (query.studentId === existing.studentId || query.email === existing.email)
+        && String(query._id?.$ne) !== String(existingId);
+      return Promise.resolve(matches ? existing : null);
+    }) as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  const csv = [
+    'Student ID,Name,Email,Age,Grade Level,Homeroom',
+    'STU-2025-0001,,,16,11,B12',
+    ',Bob,bob@example.com,14,9,B12',
+    ',Carol,alice@example.com,13,8,B14',
+    ',Dan,dan@example.com,,9,B14',
+    'STU-2025-0001,Alice,,,,'
+  ].join('\n');
+
+  it('should report every row of a dry run without saving', async () => {
+    const res = await request(app)
+      .post('/api/students/import?dryRun=true')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(res.status).toBe(200);
+    expect(res.body.dryRun).toBe(true);
+    expect(res.body.ignoredColumns).toEqual(['Homeroom']);
+    expect(res.body.summary).toEqual({ total: 5, created: 1, updated: 2, skipped: 0, failed: 2 });
+    expect(res.body.rows.map((row: any) => row.status)).toEqual(['updated', 'created', 'updated', 'failed', 'failed']);
+    expect(res.body.rows[0].changes).toEqual(['age', 'gradeLevel']);
+    expect(res.body.rows[3].reasons[0]).toMatch(/missing required fields to create one: age/);
+    expect(res.body.rows[4].reasons).toEqual(['Duplicate of row 1']);
+    expect(mockedStudent.findByIdAndUpdate).not.toHaveBeenCalled();
+    expect(mockedStudent.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('should match on email when the studentId is unknown and skip conflicting IDs', async () => {
+    const res = await request(app)
+      .post('/api/students/import?dryRun=true')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send([
+        { studentId: 'STU-2025-0099', name: 'Alice', email: 'alice@example.com', age: 15, gradeLevel: '10' },
+        { studentId: 'STU-2025-0098', name: 'Bob', email: 'bob@example.com', age: 14, gradeLevel: '9' }
+      ]);
+
+    expect(res.status).toBe(200);
+    expect(mockedStudent.findOne).toHaveBeenCalledWith({ studentId: 'STU-2025-0099' });
+    expect(mockedStudent.findOne).toHaveBeenCalledWith({ email: 'alice@example.com' });
+    expect(res.body.rows[0]).toEqual(expect.objectContaining({
+      status: 'skipped',
+      id: String(existingId),
+      reasons: ['Email alice@example.com belongs to student STU-2025-0001, not STU-2025-0099']
+    }));
+    expect(res.body.rows[1].status).toBe('created');
+  });
+
+  it('should create and update students from a JSON array', async () => {
+    mockedStudent.prototype.save.mockResolvedValue(undefined as any);
+    mockedStudent.prototype.toObject.mockReturnValue({ name: 'Bob', email: 'bob@example.com', age: 14, gradeLevel: '9' });
+
+    const res = await request(app)
+      .post('/api/students/import')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send([
+        { email: 'ALICE@example.com', name: 'Alice', gradeLevel: '11' },
+        { name: 'Bob', email: 'bob@example.com', age: 14, gradeLevel: '9' },
+        { email: 'alice@example.com' }
+      ]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.rows.map((row: any) => row.status)).toEqual(['updated', 'created', 'failed']);
+    expect(mockedStudent.findByIdAndUpdate).toHaveBeenCalledWith(
+      String(existingId),
+      expect.objectContaining({ gradeLevel: '11' }),
+      expect.objectContaining({ runValidators: true })
+    );
+    expect(mockedStudent.prototype.save).toHaveBeenCalledTimes(1);
+    expect(mockedHistory.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'imported',
+      changes: expect.arrayContaining([{ field: 'name', before: null, after: 'Bob' }])
+    }));
+  });
+
+  it('should skip rows that change nothing and fail invalid values', async () => {
+    const res = await request(app)
+      .post('/api/students/import')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ students: [
+        { studentId: 'STU-2025-0001', name: 'Alice', age: 15 },
+        { name: 'Eve', email: 'not-an-email', age: 'ten', gradeLevel: '9' }
+      ] });
+
+    expect(res.body.rows[0]).toEqual(expect.objectContaining({ status: 'skipped', reasons: ['No changes'] }));
+    expect(res.body.rows[1].status).toBe('failed');
+    expect(res.body.rows[1].reasons).toEqual(['Invalid email format', 'Age must be a number between 3 and 25']);
+    expect(mockedStudent.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed CSV and roles without students:write', async () => {
+    const malformed = await request(app)
+      .post('/api/students/import')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .set('Content-Type', 'text/csv')
+      .send('name,email\n"Alice,alice@example.com');
+
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error).toBe('Invalid CSV');
+
+    const forbidden = await request(app)
+      .post('/api/students/import')
+      .set('Authorization', `Bearer ${tokenFor('teacher')}`)
+      .send([{ email: 'bob@example.com' }]);
+
+    expect(forbidden.status).toBe(403);
+  });
+});
+
+describe('student roster export', () => {
+  let query: any;
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+    query = {
+      select: jest.fn().mockReturnThis(),
+      sort: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      cursor: jest.fn().mockReturnValue(Object.assign([
+        { studentId: 'STU-2025-0001', name: 'Alice', email: 'alice@example.com', age: 15, gradeLevel: '10' },
+        { studentId: 'STU-2025-0002', name: '=HYPERLINK("x")', email: 'bob@example.com', age: 14, gradeLevel: '9' }
+      ], { close: jest.fn().mockResolvedValue(undefined) }))
+    };
+    mockedStudent.find.mockReturnValue(query);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should export the requested columns in their fixed order with the list filters', async () => {
+    const res = await request(app)
+      .get('/api/students/export?columns=age,name,studentId&gradeLevel=9,10&sort=-age&limit=1')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedStudent.find).toHaveBeenCalledWith({ archive: null, gradeLevel: { $in: ['9', '10'] } });
+    expect(query.select).toHaveBeenCalledWith({ studentId: 1, name: 1, age: 1 });
+    expect(query.sort).toHaveBeenCalledWith({ age: -1, _id: -1 });
+    expect(res.text.split('\r\n')).toEqual([
+      '\uFEFFStudent ID,Name,Age',
+      'STU-2025-0001,Alice,15',
+      'STU-2025-0002,"\'=HYPERLINK(""x"")",14',
+      ''
+    ]);
+  });
+
+  it('should export XLSX', async () => {
+    const res = await request(app)
+      .get('/api/students/export?format=xlsx')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(res.body.subarray(0, 2).toString()).toBe('PK');
+  });
+});
+
+describe('student history', () => {
+  const studentObjectId = new mongoose.Types.ObjectId();
+  const student = {
+    _id: studentObjectId,
+    studentId: 'STU-2025-0001',
+    name: 'Alice',
+    email: 'alice@example.com',
+    age: 15,
+    gradeLevel: '11',
+    grades: [],
+    archive: null,
+    createdAt: new Date('2025-08-01T00:00:00Z')
+  };
+
+  // StudentHistory.find(...).sort().limit().populate() as used by the history list
+  const mockHistoryList = (versions: any[]) => {
+    const query: any = {};
+    ['sort', 'limit'].forEach(method => {
+      query[method] = jest.fn().mockReturnValue(query);
+    });
+    query.populate = jest.fn().mockResolvedValue(versions);
+    mockedHistory.find.mockReturnValue(query);
+    return query;
+  };
+
+  beforeEach(() => {
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedRole.findPermissions.mockResolvedValue(null);
+    invalidateRolePermissions();
+    mockedStudent.findById.mockResolvedValue(student as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list versions newest first with who changed what', async () => {
+    const query = mockHistoryList([3, 2, 1].map(version => ({
+      version,
+      action: 'updated',
+      createdAt: new Date(),
+      changedBy: { _id: 'u1', username: 'registrar', role: 'admin' },
+      changes: [{ field: 'gradeLevel', before: String(version + 8), after: String(version + 9) }]
+    })));
+
+    const res = await request(app)
+      .get(`/api/students/${studentObjectId}/history?limit=2`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedHistory.find).toHaveBeenCalledWith({ student: studentObjectId.toString() });
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(res.body.history).toHaveLength(2);
+    expect(res.body.history[0]).toEqual(expect.objectContaining({
+      version: 3,
+      changedBy: { id: 'u1', username: 'registrar', role: 'admin' },
+      changes: [{ field: 'gradeLevel', before: '11', after: '12' }]
+    }));
+    expect(res.body.pagination).toEqual({ limit: 2, hasMore: true, nextBeforeVersion: 2 });
+  });
+
+  it('should return the record as of a date from the last version before it', async () => {
+    const sort = jest.fn().mockResolvedValue({
+      version: 4,
+      createdAt: new Date('2025-09-15T10:00:00Z'),
+      snapshot: { ...student, gradeLevel: '10' }
+    });
+    mockedHistory.findOne.mockReturnValue({ sort } as any);
+
+    const res = await request(app)
+      .get(`/api/students/${studentObjectId}/history?at=2025-10-01`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedHistory.findOne).toHaveBeenCalledWith({
+      student: studentObjectId,
+      createdAt: { $lte: new Date('2025-10-01T23:59:59.999Z') }
+    });
+    expect(res.body.version).toBe(4);
+    expect(res.body.student.gradeLevel).toBe('10');
+  });
+
+  it('should return 404 for a date before the student existed and 400 for an invalid one', async () => {
+    const early = await request(app)
+      .get(`/api/students/${studentObjectId}/history?at=2024-01-01`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(early.status).toBe(404);
+
+    const invalid = await request(app)
+      .get(`/api/students/${studentObjectId}/history?at=yesterday`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(invalid.status).toBe(400);
+    expect(mockedHistory.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import userRoutes from '../../routes/userRoutes';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Teacher from '../../models/Teacher';
+import Student from '../../models/Student';
+import SecurityPolicy from '../../models/SecurityPolicy';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Teacher');
+jest.mock('../../models/Student');
+jest.mock('../../models/Role');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/SecurityPolicy');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedTeacher = Teacher as jest.Mocked<typeof Teacher>;
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedSecurityPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+const app = express();
+app.use(express.json());
+app.use('/api/users', userRoutes);
+
+const adminId = new mongoose.Types.ObjectId().toString();
+const targetId = new mongoose.Types.ObjectId().toString();
+
+const tokenFor = (role: string, userId: string = adminId) =>
+  jwt.sign({ userId, role, sid: new mongoose.Types.ObjectId().toString() }, JWT_SECRET);
+
+describe('user management routes', () => {
+  let target: any;
+
+  beforeEach(() => {
+    target = {
+      _id: targetId,
+      username: 'jdoe',
+      role: 'teacher',
+      disabled: false,
+      twoFactor: { enabled: false },
+      save: jest.fn().mockResolvedValue(undefined)
+    };
+    mockedUser.findById.mockImplementation(((id: string) =>
+      Promise.resolve(String(id) === targetId ? target : { _id: adminId, role: 'admin', disabled: false })) as any);
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedSession.revokeAllForUser.mockResolvedValue(2);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should reject non-admins', async () => {
+    const res = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${tokenFor('teacher', targetId)}`);
+
+    expect(res.status).toBe(403);
+    expect(mockedUser.find).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests from disabled accounts', async () => {
+    mockedUser.findById.mockResolvedValue({ _id: adminId, role: 'admin', disabled: true } as any);
+
+    const res = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatch(/disabled/);
+  });
+
+  it('should disable a user and end their sessions', async () => {
+    const res = await request(app)
+      .post(`/api/users/${targetId}/disable`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ reason: 'Left the school' });
+
+    expect(res.status).toBe(200);
+    expect(target.disabled).toBe(true);
+    expect(target.disabledReason).toBe('Left the school');
+    expect(target.save).toHaveBeenCalled();
+    expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(targetId, 'account_disabled');
+    expect(res.body.revokedSessions).toBe(2);
+  });
+
+  it('should not let admins disable themselves', async () => {
+    const res = await request(app)
+      .post(`/api/users/${adminId}/disable`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(400);
+    expect(mockedSession.revokeAllForUser).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to demote the last active admin', async () => {
+    target.role = 'admin';
+    mockedUser.countDocuments.mockResolvedValue(1 as any);
+
+    const res = await request(app)
+      .patch(`/api/users/${targetId}/role`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ role: 'teacher' });
+
+    expect(res.status).toBe(409);
+    expect(target.save).not.toHaveBeenCalled();
+  });
+
+  it('should change the role and revoke sessions issued under the old one', async () => {
+    mockedStudent.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+    mockedUser.exists.mockResolvedValue(null);
+
+    const res = await request(app)
+      .patch(`/api/users/${targetId}/role`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ role: 'student', studentId: 'STU-2026-0042' });
+
+    expect(res.status).toBe(200);
+    expect(target.role).toBe('student');
+    expect(target.studentId).toBe('STU-2026-0042');
+    expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(targetId, 'role_changed');
+  });
+
+  it('should not bind a user to a student record that already has an account', async () => {
+    mockedStudent.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+    mockedUser.exists.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+
+    const res = await request(app)
+      .patch(`/api/users/${targetId}/role`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ role: 'student', studentId: 'STU-2026-0042' });
+
+    expect(res.status).toBe(409);
+    expect(mockedUser.exists).toHaveBeenCalledWith({ studentId: 'STU-2026-0042', _id: { $ne: targetId } });
+    expect(target.save).not.toHaveBeenCalled();
+  });
+
+  it('should require a student ID when changing a user to the student role', async () => {
+    const res = await request(app)
+      .patch(`/api/users/${targetId}/role`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ role: 'student' });
+
+    expect(res.status).toBe(400);
+    expect(target.save).not.toHaveBeenCalled();
+  });
+
+  it('should not delete users linked to a teacher profile', async () => {
+    mockedTeacher.findByUserId.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+
+    const res = await request(app)
+      .delete(`/api/users/${targetId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(409);
+    expect(mockedUser.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('should delete a user and revoke their sessions', async () => {
+    mockedTeacher.findByUserId.mockResolvedValue(null);
+
+    const res = await request(app)
+      .delete(`/api/users/${targetId}`)
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(targetId, 'account_deleted');
+    expect(mockedUser.deleteOne).toHaveBeenCalledWith({ _id: targetId });
+  });
+});
+
+describe('password policy routes', () => {
+  beforeEach(() => {
+    mockedUser.findById.mockResolvedValue({ _id: adminId, role: 'admin', disabled: false } as any);
+    mockedSession.isActive.mockResolvedValue(true);
+    mockedSecurityPolicy.getPasswordPolicy.mockResolvedValue({ minLength: 10 });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should return the stored policy filled in with defaults', async () => {
+    const res = await request(app)
+      .get('/api/users/password-policy')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.policy).toEqual(expect.objectContaining({ minLength: 10, historyCount: 5, checkCommonPasswords: true }));
+  });
+
+  it('should reject non-admins', async () => {
+    mockedUser.findById.mockResolvedValue({ _id: targetId, role: 'teacher', disabled: false } as any);
+
+    const res = await request(app)
+      .get('/api/users/password-policy')
+      .set('Authorization', `Bearer ${tokenFor('teacher', targetId)}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should save a partial update', async () => {
+    mockedSecurityPolicy.setPasswordPolicy.mockResolvedValue({} as any);
+
+    const res = await request(app)
+      .put('/api/users/password-policy')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ requireSymbol: true, historyCount: 10 });
+
+    expect(res.status).toBe(200);
+    expect(mockedSecurityPolicy.setPasswordPolicy).toHaveBeenCalledWith({ requireSymbol: true, historyCount: 10 }, adminId);
+  });
+
+  it('should refuse invalid values without saving', async () => {
+    const res = await request(app)
+      .put('/api/users/password-policy')
+      .set('Authorization', `Bearer ${tokenFor('admin')}`)
+      .send({ minLength: 200 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+    expect(mockedSecurityPolicy.setPasswordPolicy).not.toHaveBeenCalled();
+  });
+});
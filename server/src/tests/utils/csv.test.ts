@@ -0,0 +1,33 @@
+import { formatCsvRow, parseCsv, parseCsvRecords } from '../../utils/csv';
+
+describe('csv', () => {
+  it('should split fields and rows with either line ending', () => {
+    expect(parseCsv('a,b\r\nc,d\ne,f')).toEqual({ ok: true, rows: [['a', 'b'], ['c', 'd'], ['e', 'f']] });
+  });
+
+  it('should read quoted fields with commas, quotes and line breaks', () => {
+    const parsed = parseCsv('name,note\n"Smith, Jane","said ""hi""\nthen left"\n');
+
+    expect(parsed).toEqual({ ok: true, rows: [['name', 'note'], ['Smith, Jane', 'said "hi"\nthen left']] });
+  });
+
+  it('should ignore a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n,\n')).toEqual({ ok: true, rows: [['a', 'b'], ['1', '2']] });
+  });
+
+  it('should report an unterminated quote with its line', () => {
+    expect(parseCsv('a,b\n1,"open\n2,3')).toEqual({ ok: false, error: 'Unterminated quoted field', line: 2 });
+  });
+
+  it('should map rows onto the header', () => {
+    expect(parseCsvRecords(' name ,age\nAlice,15\nBob')).toEqual({
+      ok: true,
+      rows: [{ name: 'Alice', age: '15' }, { name: 'Bob', age: '' }]
+    });
+  });
+
+  it('should quote values that need it and neutralise formulas', () => {
+    expect(formatCsvRow(['Smith, Jane', 'say "hi"', -5, null, '=SUM(A1)', new Date('2025-01-02T03:04:05.000Z')]))
+      .toBe('"Smith, Jane","say ""hi""",-5,,\'=SUM(A1),2025-01-02T03:04:05.000Z\r\n');
+  });
+});
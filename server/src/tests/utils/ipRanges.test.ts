@@ -0,0 +1,44 @@
+import { isIpAllowed, isValidIpRange, parseIpRange, parseTrustProxy } from '../../utils/ipRanges';
+
+describe('IP ranges', () => {
+  it('should parse addresses and CIDR ranges', () => {
+    expect(parseIpRange('10.0.0.0/8')).toEqual({ address: '10.0.0.0', prefix: 8, family: 'ipv4' });
+    expect(parseIpRange('192.168.1.5')).toEqual({ address: '192.168.1.5', prefix: 32, family: 'ipv4' });
+    expect(parseIpRange('2001:db8::/32')).toEqual({ address: '2001:db8::', prefix: 32, family: 'ipv6' });
+  });
+
+  it('should reject malformed ranges', () => {
+    expect(isValidIpRange('10.0.0.0/33')).toBe(false);
+    expect(isValidIpRange('10.0.0/8')).toBe(false);
+    expect(isValidIpRange('10.0.0.0/8/1')).toBe(false);
+    expect(isValidIpRange('example.com')).toBe(false);
+  });
+
+  it('should allow every address when no ranges are configured', () => {
+    expect(isIpAllowed('203.0.113.9', [])).toBe(true);
+    expect(isIpAllowed(undefined, [])).toBe(true);
+  });
+
+  it('should match addresses against the configured ranges', () => {
+    const ranges = ['10.0.0.0/8', '2001:db8::/32'];
+
+    expect(isIpAllowed('10.20.30.40', ranges)).toBe(true);
+    expect(isIpAllowed('2001:db8::1', ranges)).toBe(true);
+    expect(isIpAllowed('11.0.0.1', ranges)).toBe(false);
+    expect(isIpAllowed(undefined, ranges)).toBe(false);
+  });
+
+  it('should match IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    expect(isIpAllowed('::ffff:127.0.0.1', ['127.0.0.0/8'])).toBe(true);
+    expect(isIpAllowed('::ffff:127.0.0.1', ['10.0.0.0/8'])).toBe(false);
+  });
+
+  it('should read TRUST_PROXY as a flag, a hop count or a list of proxies', () => {
+    expect(parseTrustProxy('true')).toBe(true);
+    expect(parseTrustProxy('false')).toBe(false);
+    expect(parseTrustProxy(' 2 ')).toBe(2);
+    expect(parseTrustProxy('loopback, 10.0.0.0/8')).toEqual(['loopback', '10.0.0.0/8']);
+    expect(parseTrustProxy('yes')).toBeNull();
+    expect(parseTrustProxy(' , ')).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import mongoose from 'mongoose';
+import User from '../../models/User';
+import LoginAttempt from '../../models/LoginAttempt';
+import {
+  checkAccountBlock,
+  checkIpThrottle,
+  progressiveDelayMs,
+  recordFailedLogin,
+  getLoginThrottleConfig
+} from '../../utils/loginThrottle';
+
+jest.mock('../../models/User');
+jest.mock('../../models/LoginAttempt');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedLoginAttempt = LoginAttempt as jest.Mocked<typeof LoginAttempt>;
+
+const THROTTLE_ENV = [
+  'LOGIN_MAX_ATTEMPTS',
+  'LOGIN_LOCKOUT_MINUTES',
+  'LOGIN_DELAY_BASE_MS',
+  'LOGIN_DELAY_MAX_MS',
+  'LOGIN_IP_MAX_ATTEMPTS',
+  'LOGIN_IP_WINDOW_MINUTES'
+];
+
+describe('login throttle', () => {
+  const originalEnv: Record<string, string | undefined> = {};
+  const userId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    THROTTLE_ENV.forEach(name => {
+      originalEnv[name] = process.env[name];
+      delete process.env[name];
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    THROTTLE_ENV.forEach(name => {
+      if (originalEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[name];
+      }
+    });
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('configuration', () => {
+    it('should read limits from the environment and keep 0 as a valid value', () => {
+      process.env.LOGIN_MAX_ATTEMPTS = '3';
+      process.env.LOGIN_DELAY_BASE_MS = '0';
+      process.env.LOGIN_IP_WINDOW_MINUTES = 'not-a-number';
+
+      const config = getLoginThrottleConfig();
+
+      expect(config.maxAttempts).toBe(3);
+      expect(config.delayBaseMs).toBe(0);
+      expect(config.ipWindowMinutes).toBe(15);
+    });
+  });
+
+  describe('progressiveDelayMs', () => {
+    it('should double the delay per failure up to the cap', () => {
+      process.env.LOGIN_DELAY_BASE_MS = '1000';
+      process.env.LOGIN_DELAY_MAX_MS = '5000';
+
+      expect(progressiveDelayMs(0)).toBe(0);
+      expect(progressiveDelayMs(1)).toBe(1000);
+      expect(progressiveDelayMs(2)).toBe(2000);
+      expect(progressiveDelayMs(3)).toBe(4000);
+      expect(progressiveDelayMs(4)).toBe(5000);
+    });
+  });
+
+  describe('checkAccountBlock', () => {
+    it('should report a lock that has not expired', () => {
+      const now = new Date();
+      const lockedUntil = new Date(now.getTime() + 90 * 1000);
+
+      const block = checkAccountBlock({ lockedUntil, failedLoginAttempts: 0 } as any, now);
+
+      expect(block).toEqual({ reason: 'locked', until: lockedUntil, retryAfterSeconds: 90 });
+    });
+
+    it('should ignore an expired lock', () => {
+      const now = new Date();
+
+      const block = checkAccountBlock({
+        lockedUntil: new Date(now.getTime() - 1000),
+        failedLoginAttempts: 0
+      } as any, now);
+
+      expect(block).toBeNull();
+    });
+
+    it('should delay the next attempt after a recent failure', () => {
+      process.env.LOGIN_DELAY_BASE_MS = '2000';
+      const now = new Date();
+
+      const block = checkAccountBlock({
+        failedLoginAttempts: 2,
+        lastFailedLoginAt: new Date(now.getTime() - 1000)
+      } as any, now);
+
+      expect(block?.reason).toBe('delayed');
+      expect(block?.retryAfterSeconds).toBe(3);
+    });
+  });
+
+  describe('checkIpThrottle', () => {
+    it('should allow an address below the limit', async () => {
+      process.env.LOGIN_IP_MAX_ATTEMPTS = '3';
+      mockedLoginAttempt.countRecent.mockResolvedValue(2);
+
+      await expect(checkIpThrottle('10.0.0.1')).resolves.toBeNull();
+    });
+
+    it('should block an address at the limit until its oldest failure leaves the window', async () => {
+      process.env.LOGIN_IP_MAX_ATTEMPTS = '3';
+      process.env.LOGIN_IP_WINDOW_MINUTES = '10';
+      const oldest = new Date(Date.now() - 4 * 60 * 1000);
+      mockedLoginAttempt.countRecent.mockResolvedValue(3);
+      mockedLoginAttempt.findOldestSince.mockResolvedValue({ createdAt: oldest } as any);
+
+      const block = await checkIpThrottle('10.0.0.1');
+
+      expect(block?.reason).toBe('ip_throttled');
+      expect(block?.until).toEqual(new Date(oldest.getTime() + 10 * 60 * 1000));
+    });
+
+    it('should be disabled when the limit is 0', async () => {
+      process.env.LOGIN_IP_MAX_ATTEMPTS = '0';
+
+      await expect(checkIpThrottle('10.0.0.1')).resolves.toBeNull();
+      expect(mockedLoginAttempt.countRecent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordFailedLogin', () => {
+    it('should count the failure without locking below the limit', async () => {
+      process.env.LOGIN_MAX_ATTEMPTS = '3';
+      mockedUser.findOneAndUpdate.mockResolvedValue({ _id: userId, failedLoginAttempts: 2 } as any);
+
+      const lock = await recordFailedLogin({ _id: userId } as any, { ipAddress: '10.0.0.1', username: 'jdoe' });
+
+      expect(lock).toBeNull();
+      expect(mockedLoginAttempt.create).toHaveBeenCalledWith({ ipAddress: '10.0.0.1', username: 'jdoe' });
+      expect(mockedUser.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: userId },
+        { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: expect.any(Date) } },
+        { new: true }
+      );
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account and reset the counter when the limit is reached', async () => {
+      process.env.LOGIN_MAX_ATTEMPTS = '3';
+      process.env.LOGIN_LOCKOUT_MINUTES = '20';
+      mockedUser.findOneAndUpdate.mockResolvedValue({ _id: userId, failedLoginAttempts: 3 } as any);
+
+      const lock = await recordFailedLogin({ _id: userId } as any, { ipAddress: '10.0.0.1' });
+
+      expect(lock?.reason).toBe('locked');
+      expect(lock?.retryAfterSeconds).toBe(20 * 60);
+      expect(mockedUser.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        { $set: { lockedUntil: lock?.until, failedLoginAttempts: 0, lastFailedLoginAt: null } }
+      );
+    });
+
+    it('should only record the address for unknown usernames', async () => {
+      const lock = await recordFailedLogin(null, { ipAddress: '10.0.0.1', username: 'ghost' });
+
+      expect(lock).toBeNull();
+      expect(mockedLoginAttempt.create).toHaveBeenCalled();
+      expect(mockedUser.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
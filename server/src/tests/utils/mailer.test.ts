@@ -0,0 +1,41 @@
+import { ConsoleMailTransport, getMailTransport, setMailTransport } from '../../utils/mailer';
+
+describe('mailer', () => {
+  const originalEnv = { NODE_ENV: process.env.NODE_ENV, MAIL_TRANSPORT: process.env.MAIL_TRANSPORT };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    setMailTransport(null);
+  });
+
+  it('should default to the console transport in development and test', () => {
+    delete process.env.MAIL_TRANSPORT;
+
+    process.env.NODE_ENV = 'development';
+    expect(getMailTransport()).toBeInstanceOf(ConsoleMailTransport);
+  });
+
+  it('should refuse the console transport in other environments', () => {
+    delete process.env.MAIL_TRANSPORT;
+    process.env.NODE_ENV = 'production';
+    expect(() => getMailTransport()).toThrow(/only allowed when NODE_ENV is development or test/);
+
+    delete process.env.NODE_ENV;
+    process.env.MAIL_TRANSPORT = 'console';
+    expect(() => getMailTransport()).toThrow(/only allowed/);
+  });
+
+  it('should keep a transport registered by the deployment', () => {
+    process.env.NODE_ENV = 'production';
+    const custom = { name: 'smtp', send: jest.fn() };
+    setMailTransport(custom);
+
+    expect(getMailTransport()).toBe(custom);
+  });
+});
@@ -0,0 +1,172 @@
+import bcrypt from 'bcrypt';
+import SecurityPolicy from '../../models/SecurityPolicy';
+import { DEFAULT_PASSWORD_POLICY } from '../../config/passwordPolicy';
+import {
+  buildPasswordHistory,
+  checkPasswordRules,
+  isCommonPassword,
+  parsePasswordPolicyUpdate,
+  validatePassword
+} from '../../utils/passwordPolicy';
+
+jest.mock('../../models/SecurityPolicy', () => ({
+  __esModule: true,
+  default: { getPasswordPolicy: jest.fn() }
+}));
+
+const mockedPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+const codes = (violations: { code: string }[]) => violations.map(violation => violation.code);
+
+describe('password policy', () => {
+  beforeEach(() => {
+    mockedPolicy.getPasswordPolicy.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isCommonPassword', () => {
+    it('should match listed passwords regardless of case', () => {
+      expect(isCommonPassword('password')).toBe(true);
+      expect(isCommonPassword('Qwerty')).toBe(true);
+    });
+
+    it('should match listed passwords with trailing digits or symbols', () => {
+      expect(isCommonPassword('Password1!')).toBe(true);
+      expect(isCommonPassword('welcome2024')).toBe(true);
+    });
+
+    it('should not match unlisted passwords', () => {
+      expect(isCommonPassword('orchard-lantern-42')).toBe(false);
+    });
+  });
+
+  describe('checkPasswordRules', () => {
+    const strict = {
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true
+    };
+
+    it('should report every broken rule at once', () => {
+      expect(codes(checkPasswordRules('abcdefg', strict))).toEqual([
+        'too_short',
+        'missing_uppercase',
+        'missing_digit',
+        'missing_symbol'
+      ]);
+    });
+
+    it('should accept a password meeting every rule', () => {
+      expect(checkPasswordRules('Orchard-Lantern-42', strict)).toEqual([]);
+    });
+
+    it('should refuse passwords longer than bcrypt reads', () => {
+      expect(codes(checkPasswordRules('x'.repeat(73) + 'Q', DEFAULT_PASSWORD_POLICY))).toEqual(['too_long']);
+    });
+
+    it('should refuse the username or email name inside the password', () => {
+      const context = { username: 'jsmith', email: 'john.smith@campcore.edu' };
+
+      expect(codes(checkPasswordRules('my-JSMITH-lantern', DEFAULT_PASSWORD_POLICY, context))).toEqual(['contains_username']);
+      expect(codes(checkPasswordRules('john.smith-lantern', DEFAULT_PASSWORD_POLICY, context))).toEqual(['contains_username']);
+    });
+
+    it('should skip rules the policy turns off', () => {
+      const relaxed = { ...DEFAULT_PASSWORD_POLICY, disallowUsername: false, checkCommonPasswords: false };
+
+      expect(checkPasswordRules('password-jsmith', relaxed, { username: 'jsmith' })).toEqual([]);
+    });
+  });
+
+  describe('validatePassword', () => {
+    it('should apply the stored policy over the defaults', async () => {
+      mockedPolicy.getPasswordPolicy.mockResolvedValue({ requireDigit: true });
+
+      const result = await validatePassword('orchard-lantern');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.status).toBe(400);
+        expect(codes(result.body.violations as any)).toEqual(['missing_digit']);
+        expect(result.body.policy).toEqual(expect.objectContaining({ requireDigit: true, minLength: 8 }));
+      }
+    });
+
+    it('should refuse a password that is not a string', async () => {
+      const result = await validatePassword(12345678);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(codes(result.body.violations as any)).toEqual(['invalid_type']);
+      }
+    });
+
+    it('should refuse the current password and the recent history', async () => {
+      const hash = await bcrypt.hash('orchard-lantern-42', 4);
+
+      expect((await validatePassword('orchard-lantern-42', { currentHash: hash })).ok).toBe(false);
+      expect((await validatePassword('orchard-lantern-42', { currentHash: 'other', history: [hash] })).ok).toBe(false);
+      expect((await validatePassword('meadow-compass-17', { currentHash: hash, history: [hash] })).ok).toBe(true);
+    });
+
+    it('should only look back as far as the history count', async () => {
+      mockedPolicy.getPasswordPolicy.mockResolvedValue({ historyCount: 1 });
+      const hash = await bcrypt.hash('orchard-lantern-42', 4);
+
+      const result = await validatePassword('orchard-lantern-42', { currentHash: 'other', history: [hash] });
+
+      expect(result.ok).toBe(true);
+    });
+  });
+
+  describe('buildPasswordHistory', () => {
+    it('should put the replaced hash first and keep one less than the history count', async () => {
+      mockedPolicy.getPasswordPolicy.mockResolvedValue({ historyCount: 3 });
+
+      expect(await buildPasswordHistory('current', ['a', 'b', 'c'])).toEqual(['current', 'a']);
+    });
+
+    it('should keep nothing when history is off', async () => {
+      mockedPolicy.getPasswordPolicy.mockResolvedValue({ historyCount: 0 });
+
+      expect(await buildPasswordHistory('current', ['a'])).toEqual([]);
+    });
+  });
+
+  describe('parsePasswordPolicyUpdate', () => {
+    it('should accept a partial update', () => {
+      expect(parsePasswordPolicyUpdate({ minLength: 12, requireSymbol: true })).toEqual({
+        ok: true,
+        changes: { minLength: 12, requireSymbol: true }
+      });
+    });
+
+    it('should refuse unknown fields', () => {
+      const result = parsePasswordPolicyUpdate({ maxAgeDays: 90 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.body.unknownFields).toEqual(['maxAgeDays']);
+      }
+    });
+
+    it('should refuse out-of-range numbers and non-boolean flags', () => {
+      const result = parsePasswordPolicyUpdate({ minLength: 4, historyCount: 2.5, requireDigit: 'yes' });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.body.details).toHaveLength(3);
+      }
+    });
+
+    it('should refuse an empty update', () => {
+      expect(parsePasswordPolicyUpdate({}).ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import Student from '../../models/Student';
+import Enrollment from '../../models/Enrollment';
+import GuardianLink from '../../models/GuardianLink';
+import StudentHistory from '../../models/StudentHistory';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import Invitation from '../../models/Invitation';
+import { getRetentionDays, parseArchiveRequest, purgeArchivedStudents } from '../../utils/studentArchive';
+
+jest.mock('../../models/Student', () => ({
+  ...jest.createMockFromModule<object>('../../models/Student'),
+  ARCHIVE_STATUSES: jest.requireActual('../../models/Student').ARCHIVE_STATUSES
+}));
+jest.mock('../../models/Enrollment');
+jest.mock('../../models/GuardianLink');
+jest.mock('../../models/StudentHistory');
+jest.mock('../../models/Counter');
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/Invitation');
+
+const mockedStudent = Student as jest.Mocked<typeof Student>;
+const mockedEnrollment = Enrollment as jest.Mocked<typeof Enrollment>;
+const mockedGuardianLink = GuardianLink as jest.Mocked<typeof GuardianLink>;
+const mockedHistory = StudentHistory as jest.Mocked<typeof StudentHistory>;
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedInvitation = Invitation as jest.Mocked<typeof Invitation>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('student archive', () => {
+  const originalRetention = process.env.STUDENT_RETENTION_DAYS;
+
+  afterEach(() => {
+    if (originalRetention === undefined) {
+      delete process.env.STUDENT_RETENTION_DAYS;
+    } else {
+      process.env.STUDENT_RETENTION_DAYS = originalRetention;
+    }
+    jest.clearAllMocks();
+  });
+
+  describe('parseArchiveRequest', () => {
+    it('should accept a status, trimmed reason and effective date', () => {
+      const result = parseArchiveRequest({ status: 'transferred', reason: '  Moved to Lincoln High ', effectiveDate: '2025-01-31' });
+
+      expect(result).toEqual({
+        ok: true,
+        archive: { status: 'transferred', reason: 'Moved to Lincoln High', effectiveDate: new Date('2025-01-31') }
+      });
+    });
+
+    it('should default the effective date to now', () => {
+      const result = parseArchiveRequest({ status: 'graduated', reason: 'Completed grade 12' });
+
+      expect(result.ok && Date.now() - result.archive.effectiveDate.getTime()).toBeLessThan(1000);
+    });
+
+    it('should reject missing fields, unknown statuses and invalid dates', () => {
+      expect(parseArchiveRequest(undefined)).toEqual(expect.objectContaining({ ok: false, status: 400 }));
+      expect(parseArchiveRequest({ status: 'withdrawn', reason: '  ' })).toEqual(expect.objectContaining({ ok: false }));
+      expect(parseArchiveRequest({ status: 'expelled', reason: 'x' })).toEqual(expect.objectContaining({ ok: false }));
+      expect(parseArchiveRequest({ status: 'withdrawn', reason: 'x', effectiveDate: 'soon' })).toEqual(expect.objectContaining({ ok: false }));
+    });
+  });
+
+  describe('getRetentionDays', () => {
+    it('should read the period from the environment and fall back to seven years', () => {
+      process.env.STUDENT_RETENTION_DAYS = '30';
+      expect(getRetentionDays()).toBe(30);
+
+      process.env.STUDENT_RETENTION_DAYS = 'forever';
+      expect(getRetentionDays()).toBe(7 * 365);
+    });
+  });
+
+  describe('purgeArchivedStudents', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const expired = {
+      _id: new mongoose.Types.ObjectId(),
+      studentId: 'STU-2018-0001',
+      archive: { status: 'graduated', effectiveDate: new Date(now.getTime() - 40 * DAY), archivedAt: new Date(now.getTime() - 10 * DAY) }
+    };
+
+    beforeEach(() => {
+      process.env.STUDENT_RETENTION_DAYS = '30';
+      mockedStudent.find.mockResolvedValue([expired] as any);
+      mockedUser.find.mockResolvedValue([]);
+    });
+
+    it('should only list expired students on a dry run', async () => {
+      const result = await purgeArchivedStudents({ dryRun: true, now });
+
+      expect(result.cutoff).toEqual(new Date(now.getTime() - 30 * DAY));
+      expect(result.students).toEqual([expect.objectContaining({ studentId: 'STU-2018-0001', status: 'graduated' })]);
+      expect(mockedStudent.find).toHaveBeenCalledWith(
+        {
+          archive: { $ne: null },
+          $or: [
+            { 'archive.effectiveDate': { $lte: result.cutoff } },
+            { 'archive.effectiveDate': null, 'archive.archivedAt': { $lte: result.cutoff } }
+          ]
+        },
+        expect.any(String)
+      );
+      expect(mockedStudent.findOneAndDelete).not.toHaveBeenCalled();
+    });
+
+    it('should delete expired students with their enrollments, guardian links and history', async () => {
+      mockedStudent.findOneAndDelete.mockResolvedValue(expired as any);
+
+      const result = await purgeArchivedStudents({ now });
+
+      expect(result.students).toHaveLength(1);
+      expect(mockedEnrollment.deleteMany).toHaveBeenCalledWith({ studentId: String(expired._id) });
+      expect(mockedGuardianLink.deleteMany).toHaveBeenCalledWith({ student: String(expired._id) });
+      expect(mockedHistory.deleteMany).toHaveBeenCalledWith({ student: String(expired._id) });
+    });
+
+    it('should disable the student\'s accounts and revoke pending invitations', async () => {
+      const account = { _id: new mongoose.Types.ObjectId() };
+      mockedStudent.findOneAndDelete.mockResolvedValue(expired as any);
+      mockedUser.find.mockResolvedValue([account] as any);
+
+      const result = await purgeArchivedStudents({ now });
+
+      expect(result.disabledAccounts).toBe(1);
+      expect(mockedUser.find).toHaveBeenCalledWith({ studentId: 'STU-2018-0001', disabled: false }, '_id');
+      expect(mockedUser.updateOne).toHaveBeenCalledWith(
+        { _id: account._id },
+        { $set: expect.objectContaining({ disabled: true, disabledAt: expect.any(Date) }) }
+      );
+      expect(mockedSession.revokeAllForUser).toHaveBeenCalledWith(String(account._id), 'account_disabled');
+      expect(mockedInvitation.updateMany).toHaveBeenCalledWith(
+        { studentRecordId: String(expired._id), usedAt: null, revokedAt: null },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should keep a student restored after the lookup', async () => {
+      mockedStudent.findOneAndDelete.mockResolvedValue(null);
+
+      const result = await purgeArchivedStudents({ now });
+
+      expect(result.students).toHaveLength(0);
+      expect(mockedEnrollment.deleteMany).not.toHaveBeenCalled();
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import mongoose from 'mongoose';
+import StudentHistory from '../../models/StudentHistory';
+import {
+  diffStudentSnapshots,
+  getStudentAsOf,
+  parseHistoryQuery,
+  recordStudentChange,
+  revertChanges,
+  snapshotStudent
+} from '../../utils/studentHistory';
+
+jest.mock('../../models/StudentHistory');
+
+const mockedHistory = StudentHistory as jest.Mocked<typeof StudentHistory>;
+
+const studentId = new mongoose.Types.ObjectId();
+
+const baseStudent = {
+  _id: studentId,
+  studentId: 'STU-2025-0001',
+  name: 'Alice',
+  email: 'alice@example.com',
+  age: 15,
+  gradeLevel: '10',
+  grades: [{ subject: 'Math', score: 88 }],
+  archive: null,
+  createdAt: new Date('2025-08-01T00:00:00Z')
+};
+
+// findOne(...).sort() resolving to each value in turn
+const mockFindOne = (...results: unknown[]) => {
+  results.forEach(result => {
+    mockedHistory.findOne.mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(result) } as any);
+  });
+};
+
+describe('student history', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diffStudentSnapshots', () => {
+    it('should report changed fields and grades per subject', () => {
+      const before = snapshotStudent(baseStudent);
+      const after = snapshotStudent({
+        ...baseStudent,
+        gradeLevel: '11',
+        grades: [{ subject: 'Math', score: 92 }, { subject: 'Art', score: 75 }]
+      });
+
+      expect(diffStudentSnapshots(before, after)).toEqual([
+        { field: 'gradeLevel', before: '10', after: '11' },
+        { field: 'grades.Math', before: 88, after: 92 },
+        { field: 'grades.Art', before: null, after: 75 }
+      ]);
+    });
+
+    it('should treat every set field of a new student as a change from null', () => {
+      const changes = diffStudentSnapshots(null, snapshotStudent(baseStudent));
+
+      expect(changes.map(change => change.field)).toEqual(['studentId', 'name', 'email', 'age', 'gradeLevel', 'grades.Math']);
+      expect(changes.every(change => change.before === null)).toBe(true);
+    });
+  });
+
+  describe('revertChanges', () => {
+    it('should undo field and grade changes', () => {
+      const after = snapshotStudent({ ...baseStudent, gradeLevel: '11', grades: [{ subject: 'Art', score: 75 }] });
+      const reverted = revertChanges(after, [
+        { field: 'gradeLevel', before: '10', after: '11' },
+        { field: 'grades.Math', before: 88, after: null },
+        { field: 'grades.Art', before: null, after: 75 }
+      ]);
+
+      expect(reverted).toEqual(snapshotStudent(baseStudent));
+    });
+  });
+
+  describe('recordStudentChange', () => {
+    it('should not record a version when nothing tracked changed', async () => {
+      const result = await recordStudentChange(baseStudent, { ...baseStudent, createdAt: new Date() }, 'updated', 'x');
+
+      expect(result).toBeNull();
+      expect(mockedHistory.record).not.toHaveBeenCalled();
+    });
+
+    it('should record the author, changes and resulting snapshot', async () => {
+      const changedBy = new mongoose.Types.ObjectId().toString();
+
+      await recordStudentChange(baseStudent, { ...baseStudent, name: 'Alice Smith' }, 'updated', changedBy);
+
+      expect(mockedHistory.record).toHaveBeenCalledWith({
+        student: studentId.toString(),
+        action: 'updated',
+        changedBy,
+        changes: [{ field: 'name', before: 'Alice', after: 'Alice Smith' }],
+        snapshot: expect.objectContaining({ name: 'Alice Smith', gradeLevel: '10' })
+      });
+    });
+  });
+
+  describe('getStudentAsOf', () => {
+    const at = new Date('2025-10-01T23:59:59.999Z');
+
+    it('should use the last version recorded before the date', async () => {
+      mockFindOne({ version: 2, createdAt: new Date('2025-09-01'), snapshot: { gradeLevel: '9' } });
+
+      const result = await getStudentAsOf(baseStudent, at);
+
+      expect(result).toEqual(expect.objectContaining({ version: 2, student: { gradeLevel: '9' } }));
+    });
+
+    it('should undo the first version for records that predate the history', async () => {
+      mockFindOne(null, {
+        version: 1,
+        action: 'updated',
+        snapshot: snapshotStudent({ ...baseStudent, gradeLevel: '11' }),
+        changes: [{ field: 'gradeLevel', before: '10', after: '11' }]
+      });
+
+      const result = await getStudentAsOf(baseStudent, at);
+
+      expect(result!.version).toBeNull();
+      expect(result!.student.gradeLevel).toBe('10');
+    });
+
+    it('should return the current record when it never changed, and null before it existed', async () => {
+      mockFindOne(null, null);
+
+      expect((await getStudentAsOf(baseStudent, at))!.student).toEqual(snapshotStudent(baseStudent));
+      expect(await getStudentAsOf(baseStudent, new Date('2025-01-01'))).toBeNull();
+    });
+
+    it('should return null when the first version created the student after the date', async () => {
+      mockFindOne(null, { version: 1, action: 'created', snapshot: {}, changes: [] });
+
+      expect(await getStudentAsOf({ ...baseStudent, createdAt: undefined }, at)).toBeNull();
+    });
+
+    it('should return null before an import that created the student, but not one that updated it', async () => {
+      const imported = diffStudentSnapshots(null, snapshotStudent(baseStudent));
+      mockFindOne(null, { version: 1, action: 'imported', snapshot: snapshotStudent(baseStudent), changes: imported });
+
+      expect(await getStudentAsOf({ ...baseStudent, createdAt: undefined }, at)).toBeNull();
+
+      mockFindOne(null, {
+        version: 1,
+        action: 'imported',
+        snapshot: snapshotStudent({ ...baseStudent, gradeLevel: '11' }),
+        changes: [{ field: 'gradeLevel', before: '10', after: '11' }]
+      });
+
+      expect((await getStudentAsOf({ ...baseStudent, createdAt: undefined }, at))!.student.gradeLevel).toBe('10');
+    });
+  });
+
+  describe('parseHistoryQuery', () => {
+    it('should read a bare date as the end of that day', () => {
+      expect(parseHistoryQuery({ at: '2025-10-01' })).toEqual({
+        ok: true,
+        at: new Date('2025-10-01T23:59:59.999Z'),
+        limit: 50,
+        beforeVersion: null
+      });
+    });
+
+    it('should reject invalid dates, limits and versions', () => {
+      const result = parseHistoryQuery({ at: 'soon', limit: '0', beforeVersion: '-1' });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.body.details).toHaveLength(3);
+    });
+  });
+});
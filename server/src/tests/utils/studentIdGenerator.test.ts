@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import Counter from '../../models/Counter';
+import {
+  formatStudentId,
+  validateStudentIdFormat,
+  allocateStudentIds,
+  previewNextStudentId
+} from '../../utils/studentIdGenerator';
+
+jest.mock('../../models/Counter');
+
+const mockedCounter = Counter as jest.Mocked<typeof Counter>;
+
+describe('student ID generator', () => {
+  const originalFormat = process.env.STUDENT_ID_FORMAT;
+  const date = new Date('2026-09-01T00:00:00Z');
+  let studentFind: jest.Mock;
+
+  beforeEach(() => {
+    studentFind = jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue([]) });
+    jest.spyOn(mongoose, 'model').mockReturnValue({ find: studentFind } as any);
+    mockedCounter.exists.mockResolvedValue(null);
+    delete process.env.STUDENT_ID_FORMAT;
+  });
+
+  afterEach(() => {
+    if (originalFormat === undefined) {
+      delete process.env.STUDENT_ID_FORMAT;
+    } else {
+      process.env.STUDENT_ID_FORMAT = originalFormat;
+    }
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('formatStudentId', () => {
+    it('should apply year tokens and sequence padding', () => {
+      expect(formatStudentId('STU-{YYYY}-{SEQ:4}', 2026, 7)).toBe('STU-2026-0007');
+      expect(formatStudentId('{YY}{SEQ:6}', 2026, 123)).toBe('26000123');
+      expect(formatStudentId('S{SEQ}', 2026, 42)).toBe('S42');
+    });
+  });
+
+  describe('validateStudentIdFormat', () => {
+    it('should require exactly one sequence token', () => {
+      expect(validateStudentIdFormat('STU-{YYYY}')).toHaveLength(1);
+      expect(validateStudentIdFormat('{SEQ}-{SEQ}')).toHaveLength(1);
+      expect(validateStudentIdFormat('STU-{YYYY}-{SEQ:4}')).toEqual([]);
+    });
+
+    it('should reject unknown tokens', () => {
+      expect(validateStudentIdFormat('{MM}-{SEQ}')[0]).toContain('{MM}');
+    });
+  });
+
+  describe('allocateStudentIds', () => {
+    it('should allocate a contiguous block from one atomic increment', async () => {
+      mockedCounter.increment.mockResolvedValue(12);
+
+      const ids = await allocateStudentIds(3, date);
+
+      expect(mockedCounter.increment).toHaveBeenCalledTimes(1);
+      expect(mockedCounter.increment).toHaveBeenCalledWith('studentId:2026', 3);
+      expect(ids).toEqual(['STU-2026-0010', 'STU-2026-0011', 'STU-2026-0012']);
+    });
+
+    it('should seed a new year counter past existing IDs in the same format', async () => {
+      studentFind.mockReturnValue({
+        lean: jest.fn().mockResolvedValue([{ studentId: 'STU-2026-0004' }, { studentId: 'STU-2026-0019' }])
+      });
+      mockedCounter.increment.mockResolvedValue(20);
+
+      await allocateStudentIds(1, date);
+
+      expect(mockedCounter.initialize).toHaveBeenCalledWith('studentId:2026', 19);
+    });
+
+    it('should not reseed an existing counter', async () => {
+      mockedCounter.exists.mockResolvedValue({ _id: 'studentId:2026' } as any);
+      mockedCounter.increment.mockResolvedValue(1);
+
+      await allocateStudentIds(1, date);
+
+      expect(studentFind).not.toHaveBeenCalled();
+      expect(mockedCounter.initialize).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid configured format', async () => {
+      process.env.STUDENT_ID_FORMAT = 'STU-{YYYY}';
+
+      await expect(allocateStudentIds(1, date)).rejects.toThrow('Invalid STUDENT_ID_FORMAT');
+      expect(mockedCounter.increment).not.toHaveBeenCalled();
+    });
+
+    it('should reject out-of-range block sizes', async () => {
+      await expect(allocateStudentIds(0, date)).rejects.toThrow(RangeError);
+      await expect(allocateStudentIds(1001, date)).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('previewNextStudentId', () => {
+    it('should preview without advancing the counter', async () => {
+      process.env.STUDENT_ID_FORMAT = 'ID{YY}-{SEQ:3}';
+      mockedCounter.exists.mockResolvedValue({ _id: 'studentId:2026' } as any);
+      mockedCounter.current.mockResolvedValue(41);
+
+      const preview = await previewNextStudentId(date);
+
+      expect(preview).toEqual({ studentId: 'ID26-042', sequence: 42, year: 2026, format: 'ID{YY}-{SEQ:3}' });
+      expect(mockedCounter.increment).not.toHaveBeenCalled();
+    });
+  });
+});
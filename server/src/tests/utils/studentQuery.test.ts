@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import {
+  buildCursorFilter,
+  decodeStudentCursor,
+  encodeStudentCursor,
+  parseStudentListQuery
+} from '../../utils/studentQuery';
+
+const parse = (query: Record<string, unknown>) => {
+  const result = parseStudentListQuery(query);
+  if (!result.ok) throw new Error(JSON.stringify(result.body));
+  return result.query;
+};
+
+describe('student list query', () => {
+  it('should default to the first page sorted by name', () => {
+    expect(parse({})).toEqual({
+      filter: { archive: null },
+      sortField: 'name',
+      sortDirection: 1,
+      limit: 25,
+      cursor: null,
+      projection: null,
+      hiddenSortField: false
+    });
+  });
+
+  it('should hide archived students unless asked for them', () => {
+    expect(parse({ archived: 'true' }).filter).toEqual({ archive: { $ne: null } });
+    expect(parse({ archived: 'all' }).filter).toEqual({});
+
+    const result = parseStudentListQuery({ archived: 'maybe' });
+    expect(result.ok).toBe(false);
+  });
+
+  it('should escape search terms so they match literally', () => {
+    const { filter } = parse({ search: 'a.b(' });
+
+    expect(filter.$or[0].name.test('xA.B(y')).toBe(true);
+    expect(filter.$or[0].name.test('axb(')).toBe(false);
+  });
+
+  it('should build per-field and age filters', () => {
+    const { filter } = parse({ email: '@school.edu', minAge: '12', maxAge: '15' });
+
+    expect(filter.email).toEqual(expect.any(RegExp));
+    expect(filter.age).toEqual({ $gte: 12, $lte: 15 });
+  });
+
+  it('should collect every invalid parameter', () => {
+    const result = parseStudentListQuery({ minAge: 'ten', maxAge: '-1', sort: 'grades', limit: '0', fields: 'password' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.body.details).toHaveLength(5);
+    }
+  });
+
+  it('should refuse a minimum age above the maximum', () => {
+    expect(parseStudentListQuery({ minAge: '16', maxAge: '12' }).ok).toBe(false);
+  });
+
+  it('should keep the sort field in an inclusion projection and mark it hidden', () => {
+    const query = parse({ fields: 'studentId,email', sort: '-age' });
+
+    expect(query.projection).toEqual({ studentId: 1, email: 1, age: 1 });
+    expect(query.hiddenSortField).toBe(true);
+    expect(query.sortDirection).toBe(-1);
+  });
+
+  it('should refuse mixing included and excluded fields', () => {
+    expect(parseStudentListQuery({ fields: 'name,-grades' }).ok).toBe(false);
+  });
+
+  describe('cursors', () => {
+    const id = new mongoose.Types.ObjectId().toString();
+
+    it('should round-trip dates for date sorts', () => {
+      const createdAt = new Date('2025-09-01T08:00:00.000Z');
+      const cursor = decodeStudentCursor(encodeStudentCursor('-createdAt', createdAt, id), '-createdAt');
+
+      expect(cursor).toEqual({ value: createdAt, id });
+    });
+
+    it('should refuse a cursor issued for another sort or tampered with', () => {
+      const cursor = encodeStudentCursor('name', 'Alice', id);
+
+      expect(decodeStudentCursor(cursor, '-name')).toBeNull();
+      expect(decodeStudentCursor('not-a-cursor', 'name')).toBeNull();
+      expect(parseStudentListQuery({ cursor, sort: 'age' }).ok).toBe(false);
+    });
+
+    it('should select rows after the cursor in sort order', () => {
+      const query = parse({ sort: '-age', cursor: encodeStudentCursor('-age', 15, id) });
+
+      expect(buildCursorFilter(query)).toEqual({
+        $or: [
+          { age: { $lt: 15 } },
+          { age: 15, _id: { $lt: new mongoose.Types.ObjectId(id) } }
+        ]
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import RefreshToken from '../../models/RefreshToken';
+import { issueTokens, rotateRefreshToken, hashToken } from '../../utils/tokenService';
+
+jest.mock('../../models/User');
+jest.mock('../../models/Session');
+jest.mock('../../models/RefreshToken');
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedSession = Session as jest.Mocked<typeof Session>;
+const mockedRefreshToken = RefreshToken as jest.Mocked<typeof RefreshToken>;
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+describe('token service', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const sessionId = new mongoose.Types.ObjectId();
+  const user = { _id: userId, role: 'student', studentId: 'STU-2026-0001', tokenVersion: 4 };
+
+  beforeEach(() => {
+    mockedSession.create.mockResolvedValue({ _id: sessionId } as any);
+    mockedRefreshToken.create.mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issueTokens', () => {
+    it('should bind the access token to a new session and store only the refresh token hash', async () => {
+      const tokens = await issueTokens(user as any);
+
+      const decoded = jwt.verify(tokens.accessToken, JWT_SECRET) as any;
+      expect(decoded).toEqual(expect.objectContaining({
+        userId: userId.toString(),
+        role: 'student',
+        studentId: 'STU-2026-0001',
+        sid: sessionId.toString(),
+        ver: 4
+      }));
+
+      const stored = mockedRefreshToken.create.mock.calls[0][0] as any;
+      expect(stored.tokenHash).toBe(hashToken(tokens.refreshToken));
+      expect(stored.tokenHash).not.toBe(tokens.refreshToken);
+      expect(stored.sessionId).toBe(sessionId.toString());
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    const unusedToken = () => ({
+      _id: new mongoose.Types.ObjectId(),
+      sessionId,
+      userId,
+      expiresAt: new Date(Date.now() + 60000)
+    });
+
+    it('should exchange an unused token for a new pair in the same session', async () => {
+      mockedRefreshToken.findOneAndUpdate.mockResolvedValue(unusedToken() as any);
+      mockedSession.isActive.mockResolvedValue(true);
+      mockedUser.findById.mockResolvedValue(user as any);
+
+      const result = await rotateRefreshToken('raw-token');
+
+      expect(mockedRefreshToken.findOneAndUpdate).toHaveBeenCalledWith(
+        { tokenHash: hashToken('raw-token'), usedAt: null },
+        expect.objectContaining({ usedAt: expect.any(Date) })
+      );
+      expect(result.status).toBe('rotated');
+      if (result.status === 'rotated') {
+        expect(result.sessionId).toBe(sessionId.toString());
+        expect(result.refreshToken).not.toBe('raw-token');
+      }
+      expect(mockedRefreshToken.updateOne).toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when a used token is replayed', async () => {
+      mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null);
+      mockedRefreshToken.findOne.mockResolvedValue({ sessionId, userId } as any);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await rotateRefreshToken('stolen-token');
+
+      expect(result.status).toBe('reused');
+      expect(mockedSession.revoke).toHaveBeenCalledWith(sessionId.toString(), 'refresh_token_reuse');
+      expect(mockedRefreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null);
+      mockedRefreshToken.findOne.mockResolvedValue(null);
+
+      const result = await rotateRefreshToken('unknown');
+
+      expect(result.status).toBe('invalid');
+      expect(mockedSession.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of a revoked session', async () => {
+      mockedRefreshToken.findOneAndUpdate.mockResolvedValue(unusedToken() as any);
+      mockedSession.isActive.mockResolvedValue(false);
+
+      const result = await rotateRefreshToken('raw-token');
+
+      expect(result.status).toBe('revoked');
+      expect(mockedRefreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      mockedRefreshToken.findOneAndUpdate.mockResolvedValue({
+        ...unusedToken(),
+        expiresAt: new Date(Date.now() - 1000)
+      } as any);
+
+      const result = await rotateRefreshToken('raw-token');
+
+      expect(result.status).toBe('expired');
+    });
+  });
+});
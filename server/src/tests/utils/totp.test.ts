@@ -0,0 +1,86 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateHotp,
+  generateTotp,
+  timeStep,
+  verifyTotp
+} from '../../utils/totp';
+
+// RFC 6238 appendix B reference secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255, 42]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should match the RFC 4648 test vector', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('mzxw6ytboi======').toString()).toBe('foobar');
+    });
+  });
+
+  describe('code generation', () => {
+    it('should match the RFC 6238 SHA-1 reference values', () => {
+      const key = Buffer.from('12345678901234567890');
+
+      expect(generateHotp(key, timeStep(59 * 1000), 8)).toBe('94287082');
+      expect(generateHotp(key, timeStep(1111111109 * 1000), 8)).toBe('07081804');
+      expect(generateHotp(key, timeStep(1234567890 * 1000), 8)).toBe('89005924');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', { now })).toBe(timeStep(now));
+    });
+
+    it('should tolerate one step of clock drift but not more', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+      const tooOld = generateTotp(RFC_SECRET, now - 90 * 1000);
+
+      expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(timeStep(now) - 1);
+      expect(verifyTotp(RFC_SECRET, tooOld, { now })).toBeNull();
+    });
+
+    it('should refuse steps at or before the last used one', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', { now, afterStep: timeStep(now) })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', { now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull();
+    });
+  });
+
+  describe('secret storage', () => {
+    it('should encrypt secrets reversibly with a random IV', () => {
+      const first = encryptSecret(RFC_SECRET);
+      const second = encryptSecret(RFC_SECRET);
+
+      expect(first).not.toContain(RFC_SECRET);
+      expect(first).not.toBe(second);
+      expect(decryptSecret(first)).toBe(RFC_SECRET);
+    });
+  });
+
+  describe('buildOtpauthUrl', () => {
+    it('should build a key URI authenticator apps can scan', () => {
+      const url = buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'jane@school.edu', 'Campus Core');
+
+      expect(url).toBe(
+        'otpauth://totp/Campus%20Core:jane%40school.edu?secret=JBSWY3DPEHPK3PXP&issuer=Campus+Core&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
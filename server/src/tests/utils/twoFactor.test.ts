@@ -0,0 +1,122 @@
+import mongoose from 'mongoose';
+import User from '../../models/User';
+import SecurityPolicy from '../../models/SecurityPolicy';
+import { encryptSecret, generateTotp, timeStep } from '../../utils/totp';
+import { hashToken } from '../../utils/tokenService';
+import { confirmTwoFactorSetup, isTwoFactorRequired, verifySecondFactor } from '../../utils/twoFactor';
+
+jest.mock('../../models/User');
+jest.mock('../../models/SecurityPolicy', () => ({
+  __esModule: true,
+  default: { isTwoFactorRequired: jest.fn() }
+}));
+
+const mockedUser = User as jest.Mocked<typeof User>;
+const mockedPolicy = SecurityPolicy as jest.Mocked<typeof SecurityPolicy>;
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+describe('two-factor service', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  const enrolledUser = (overrides: Record<string, unknown> = {}) => ({
+    _id: userId,
+    role: 'teacher',
+    twoFactor: {
+      enabled: true,
+      secret: encryptSecret(SECRET),
+      recoveryCodes: [hashToken('abcde12345')],
+      lastUsedStep: null,
+      ...overrides
+    }
+  }) as any;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current code and record its time step', async () => {
+      mockedUser.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+
+      const method = await verifySecondFactor(enrolledUser(), { code: generateTotp(SECRET) });
+
+      expect(method).toBe('totp');
+      expect(mockedUser.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: userId }),
+        { $set: { 'twoFactor.lastUsedStep': expect.any(Number) } }
+      );
+    });
+
+    it('should reject a code from a time step that was already used', async () => {
+      const method = await verifySecondFactor(
+        enrolledUser({ lastUsedStep: timeStep() + 1 }),
+        { code: generateTotp(SECRET) }
+      );
+
+      expect(method).toBeNull();
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code when a concurrent request used it first', async () => {
+      mockedUser.updateOne.mockResolvedValue({ modifiedCount: 0 } as any);
+
+      const method = await verifySecondFactor(enrolledUser(), { code: generateTotp(SECRET) });
+
+      expect(method).toBeNull();
+    });
+
+    it('should consume a recovery code regardless of formatting', async () => {
+      mockedUser.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+
+      const method = await verifySecondFactor(enrolledUser(), { recoveryCode: 'ABCDE-12345' });
+
+      expect(method).toBe('recovery_code');
+      expect(mockedUser.updateOne).toHaveBeenCalledWith(
+        { _id: userId, 'twoFactor.recoveryCodes': hashToken('abcde12345') },
+        { $pull: { 'twoFactor.recoveryCodes': hashToken('abcde12345') } }
+      );
+    });
+
+    it('should reject everything for users without two-factor enabled', async () => {
+      const method = await verifySecondFactor(
+        enrolledUser({ enabled: false }),
+        { code: generateTotp(SECRET), recoveryCode: 'abcde-12345' }
+      );
+
+      expect(method).toBeNull();
+    });
+  });
+
+  describe('confirmTwoFactorSetup', () => {
+    it('should activate the pending secret and return plaintext recovery codes once', async () => {
+      const pendingSecret = encryptSecret(SECRET);
+      const user = enrolledUser({ enabled: false, secret: null, pendingSecret });
+
+      const codes = await confirmTwoFactorSetup(user, generateTotp(SECRET));
+
+      expect(codes).toHaveLength(10);
+      const update = (mockedUser.updateOne.mock.calls[0] as any[])[1].$set;
+      expect(update['twoFactor.enabled']).toBe(true);
+      expect(update['twoFactor.secret']).toBe(pendingSecret);
+      expect(update['twoFactor.recoveryCodes']).toEqual(codes!.map(code => hashToken(code.replace('-', ''))));
+    });
+
+    it('should leave the account unchanged when the code is wrong', async () => {
+      const user = enrolledUser({ enabled: false, pendingSecret: encryptSecret(SECRET) });
+
+      await expect(confirmTwoFactorSetup(user, '000000')).resolves.toBeNull();
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isTwoFactorRequired', () => {
+    it('should consult the policy only for roles that can use two-factor', async () => {
+      mockedPolicy.isTwoFactorRequired.mockResolvedValue(true);
+
+      await expect(isTwoFactorRequired({ role: 'admin' } as any)).resolves.toBe(true);
+      await expect(isTwoFactorRequired({ role: 'student' } as any)).resolves.toBe(false);
+      expect(mockedPolicy.isTwoFactorRequired).toHaveBeenCalledTimes(1);
+    });
+  });
+});
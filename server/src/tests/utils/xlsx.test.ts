@@ -0,0 +1,103 @@
+import zlib from 'zlib';
+import { PassThrough } from 'stream';
+import { columnName, crc32, createXlsxWriter, escapeXml, isXlsxTooLarge, XLSX_LIMITS } from '../../utils/xlsx';
+
+// Reads the archive back through its central directory, checking each entry's CRC
+const unzip = (archive: Buffer): Record<string, string> => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.subarray(position + 46, position + 46 + nameLength).toString();
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const data = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+
+    files[name] = data.toString('utf8');
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+const collect = (stream: PassThrough): Promise<Buffer> => new Promise(resolve => {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+describe('xlsx writer', () => {
+  it('should name columns like a spreadsheet', () => {
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+  });
+
+  it('should escape markup and drop characters XML cannot hold', () => {
+    expect(escapeXml('a < b & "c"\u0001')).toBe('a &lt; b &amp; &quot;c&quot;');
+  });
+
+  it('should compute the standard CRC-32, also across pieces', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+  });
+
+  it('should write a workbook whose sheet holds the rows', async () => {
+    const output = new PassThrough();
+    const archive = collect(output);
+
+    const writer = await createXlsxWriter(output, 'Students');
+    await writer.writeRow(['Name', 'Age', 'Enrolled']);
+    await writer.writeRow(['Alice & Bob', 15, new Date('2025-09-01T00:00:00.000Z')]);
+    await writer.writeRow([null, 14, true]);
+    await writer.end();
+
+    const files = unzip(await archive);
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Students" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Alice &amp; Bob</t></is></c>'
+      + '<c r="B2"><v>15</v></c>'
+      + '<c r="C2" t="inlineStr"><is><t xml:space="preserve">2025-09-01T00:00:00.000Z</t></is></c></row>'
+    );
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<row r="3"><c r="B3"><v>14</v></c><c r="C3" t="b"><v>1</v></c></row>');
+  });
+
+  it('should refuse a sheet past the size limit instead of writing a broken file', async () => {
+    const output = new PassThrough();
+    output.resume();
+
+    const writer = await createXlsxWriter(output, 'Students', { ...XLSX_LIMITS, bytes: 4096 });
+    const failure = (async () => {
+      for (let i = 0; i < 1000; i++) {
+        await writer.writeRow([`Student ${i}`, i]);
+      }
+    })();
+
+    await expect(failure).rejects.toThrow('XLSX export is too large');
+    await failure.catch(error => expect(isXlsxTooLarge(error)).toBe(true));
+  });
+
+  it('should refuse rows and columns a sheet cannot hold', async () => {
+    const output = new PassThrough();
+    output.resume();
+
+    const writer = await createXlsxWriter(output, 'Students', { ...XLSX_LIMITS, rows: 2, columns: 3 });
+    await writer.writeRow(['Name', 'Age']);
+    await expect(writer.writeRow(['a', 'b', 'c', 'd'])).rejects.toThrow('at most 3 columns');
+    await writer.writeRow(['Alice', 15]);
+    await expect(writer.writeRow(['Bob', 14])).rejects.toThrow('at most 2 rows');
+  });
+});
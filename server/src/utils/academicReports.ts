@@ -0,0 +1,89 @@
+import { IStudent } from '../models/Student';
+
+// Response bodies shared by the student self-service and guardian portal endpoints, so both
+// audiences always see the same figures
+
+export const buildGradeReport = (student: IStudent) => {
+  let averageGrade = null;
+  if (student.grades.length > 0) {
+    const totalScore = student.grades.reduce((sum, grade) => sum + grade.score, 0);
+    averageGrade = Math.round((totalScore / student.grades.length) * 100) / 100;
+  }
+
+  const gradesBySubject = student.grades.reduce((acc, grade) => {
+    acc[grade.subject] = grade.score;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    student: {
+      name: student.name,
+      studentId: student.studentId,
+      gradesCount: student.grades.length,
+      averageGrade
+    },
+    grades: student.grades.map(grade => ({
+      subject: grade.subject,
+      score: grade.score
+    })),
+    gradesBySubject,
+    summary: {
+      totalSubjects: student.grades.length,
+      averageGrade,
+      highestGrade: student.grades.length > 0 ? Math.max(...student.grades.map(g => g.score)) : null,
+      lowestGrade: student.grades.length > 0 ? Math.min(...student.grades.map(g => g.score)) : null
+    }
+  };
+};
+
+export const buildAcademicSummary = (student: IStudent) => {
+  const grades = student.grades;
+  let academicSummary = {
+    totalSubjects: grades.length,
+    averageGrade: null as number | null,
+    highestGrade: null as { subject: string; score: number } | null,
+    lowestGrade: null as { subject: string; score: number } | null,
+    gradeDistribution: {
+      A: 0,  // 90-100
+      B: 0,  // 80-89
+      C: 0,  // 70-79
+      D: 0,  // 60-69
+      F: 0   // Below 60
+    },
+    subjectGrades: grades.map(g => ({ subject: g.subject, score: g.score }))
+  };
+
+  if (grades.length > 0) {
+    const totalScore = grades.reduce((sum, grade) => sum + grade.score, 0);
+    academicSummary.averageGrade = Math.round((totalScore / grades.length) * 100) / 100;
+
+    const sortedGrades = [...grades].sort((a, b) => b.score - a.score);
+    academicSummary.highestGrade = {
+      subject: sortedGrades[0].subject,
+      score: sortedGrades[0].score
+    };
+    academicSummary.lowestGrade = {
+      subject: sortedGrades[sortedGrades.length - 1].subject,
+      score: sortedGrades[sortedGrades.length - 1].score
+    };
+
+    grades.forEach(grade => {
+      if (grade.score >= 90) academicSummary.gradeDistribution.A++;
+      else if (grade.score >= 80) academicSummary.gradeDistribution.B++;
+      else if (grade.score >= 70) academicSummary.gradeDistribution.C++;
+      else if (grade.score >= 60) academicSummary.gradeDistribution.D++;
+      else academicSummary.gradeDistribution.F++;
+    });
+  }
+
+  return {
+    student: {
+      name: student.name,
+      studentId: student.studentId,
+      email: student.email,
+      age: student.age,
+      gradeLevel: student.gradeLevel
+    },
+    academicSummary
+  };
+};
\ No newline at end of file
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { Permission } from '../config/permissions';
+import { hashToken } from './tokenService';
+import { isIpAllowed } from './ipRanges';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// Principal name used for req.user.role on key-authenticated requests; it is not a real role,
+// so nothing role-based ever matches it
+export const API_KEY_ROLE = 'api_key';
+
+// cck_<12 hex prefix>_<64 hex secret>; the prefix is safe to display and locates the stored hash
+const API_KEY_PATTERN = /^cck_([0-9a-f]{12})_[0-9a-f]{64}$/;
+
+// lastUsedAt is written at most this often per key, so busy integrations do not write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+export interface ApiKeyOptions {
+  name: string;
+  permissions: Permission[];
+  allowedIps?: string[];
+  expiresAt?: Date | null;
+  createdBy: string;
+}
+
+export type ApiKeyVerification =
+  | { ok: true; apiKey: IApiKey }
+  | { ok: false; status: number; error: string };
+
+export const generateApiKey = (): GeneratedApiKey => {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const key = `cck_${prefix}_${crypto.randomBytes(32).toString('hex')}`;
+  return { key, prefix, keyHash: hashToken(key) };
+};
+
+export const parseApiKeyPrefix = (key: string): string | null => {
+  const match = API_KEY_PATTERN.exec(String(key).trim());
+  return match ? match[1] : null;
+};
+
+export const issueApiKey = async (options: ApiKeyOptions): Promise<{ apiKey: IApiKey; key: string }> => {
+  const generated = generateApiKey();
+  const apiKey = await ApiKey.create({
+    name: options.name,
+    prefix: generated.prefix,
+    keyHash: generated.keyHash,
+    permissions: options.permissions,
+    allowedIps: options.allowedIps || [],
+    expiresAt: options.expiresAt || null,
+    createdBy: options.createdBy
+  });
+
+  return { apiKey, key: generated.key };
+};
+
+// Replaces the secret (and prefix) in place: scopes, expiry and history stay, the old key stops working
+export const rotateApiKey = async (apiKey: IApiKey): Promise<string> => {
+  const generated = generateApiKey();
+  apiKey.prefix = generated.prefix;
+  apiKey.keyHash = generated.keyHash;
+  apiKey.rotatedAt = new Date();
+  await apiKey.save();
+
+  return generated.key;
+};
+
+export const verifyApiKey = async (rawKey: string, ipAddress?: string): Promise<ApiKeyVerification> => {
+  const prefix = parseApiKeyPrefix(rawKey);
+  if (!prefix) {
+    return { ok: false, status: 401, error: 'Invalid API key.' };
+  }
+
+  const apiKey = await ApiKey.findByPrefix(prefix);
+  const presentedHash = Buffer.from(hashToken(String(rawKey).trim()));
+  if (!apiKey || !crypto.timingSafeEqual(Buffer.from(apiKey.keyHash), presentedHash)) {
+    return { ok: false, status: 401, error: 'Invalid API key.' };
+  }
+
+  if (apiKey.revokedAt) {
+    return { ok: false, status: 401, error: 'API key has been revoked.' };
+  }
+
+  if (!apiKey.isUsable()) {
+    return { ok: false, status: 401, error: 'API key has expired.' };
+  }
+
+  if (!isIpAllowed(ipAddress, apiKey.allowedIps)) {
+    return { ok: false, status: 403, error: 'API key is not allowed from this IP address.' };
+  }
+
+  return { ok: true, apiKey };
+};
+
+export const recordApiKeyUse = async (apiKey: IApiKey, ipAddress?: string): Promise<void> => {
+  const now = new Date();
+  const recent = apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS;
+  if (recent && apiKey.lastUsedIp === (ipAddress || null)) return;
+
+  await ApiKey.updateOne(
+    { _id: apiKey._id as mongoose.Types.ObjectId },
+    { lastUsedAt: now, lastUsedIp: ipAddress || null }
+  );
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Minimal RFC 4180 CSV support: quoted fields may contain commas, line breaks and doubled quotes.
+// Either line ending is accepted and a leading byte order mark (as Excel writes) is ignored.
+export type CsvParseResult<T> =
+  | { ok: true; rows: T[] }
+  | { ok: false; error: string; line: number };
+
+export const parseCsv = (text: string): CsvParseResult<string[]> => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return { ok: false, error: 'Unterminated quoted field', line: quoteLine };
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return { ok: true, rows: rows.filter(cells => cells.some(cell => cell.trim() !== '')) };
+};
+
+// Maps each data row onto the header row; cells beyond the header are ignored
+export const parseCsvRecords = (text: string): CsvParseResult<Record<string, string>> => {
+  const parsed = parseCsv(text);
+  if (!parsed.ok) return parsed;
+
+  const [headers, ...rows] = parsed.rows;
+  if (!headers) return { ok: true, rows: [] };
+
+  const names = headers.map(header => header.trim());
+  return {
+    ok: true,
+    rows: rows.map(cells => Object.fromEntries(names.map((name, index) => [name, cells[index] ?? ''])))
+  };
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas; a leading apostrophe
+// keeps exported text inert. Numbers are written as they are, so negative values are unaffected.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsvRow = (values: unknown[]): string => values.map(formatCsvValue).join(',') + '\r\n';
\ No newline at end of file
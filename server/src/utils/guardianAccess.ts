@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import GuardianLink, { IGuardianLink } from '../models/GuardianLink';
+import Student, { IStudent } from '../models/Student';
+
+const DEFAULT_AGE_OF_MAJORITY = 18;
+
+export type GuardianAccessResult =
+  | { ok: true; link: IGuardianLink; student: IStudent }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export const getAgeOfMajority = (): number => {
+  const value = Number(process.env.AGE_OF_MAJORITY);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_AGE_OF_MAJORITY;
+};
+
+// Once a student reaches the age of majority their guardians only see records they consented to
+export const requiresStudentConsent = (student: Pick<IStudent, 'age'>): boolean => {
+  return student.age >= getAgeOfMajority();
+};
+
+export const hasGuardianAccess = (link: Pick<IGuardianLink, 'consentGrantedAt'>, student: Pick<IStudent, 'age'>): boolean => {
+  return !requiresStudentConsent(student) || !!link.consentGrantedAt;
+};
+
+// Unlinked students answer 404 like missing ones, so guardians cannot probe for other records
+export const resolveGuardianAccess = async (guardianId: string, studentRecordId: string): Promise<GuardianAccessResult> => {
+  if (!mongoose.Types.ObjectId.isValid(studentRecordId)) {
+    return { ok: false, status: 400, body: { error: 'Invalid student ID format' } };
+  }
+
+  const link = await GuardianLink.findOne({ guardian: guardianId, student: studentRecordId });
+  if (!link) {
+    return { ok: false, status: 404, body: { error: 'Student not found among your linked students' } };
+  }
+
+  const student = await Student.findById(studentRecordId);
+  if (!student) {
+    return { ok: false, status: 404, body: { error: 'Student record not found' } };
+  }
+
+  if (!hasGuardianAccess(link, student)) {
+    return {
+      ok: false,
+      status: 403,
+      body: {
+        error: 'Student consent required',
+        message: `Students aged ${getAgeOfMajority()} or older must consent before guardians can view their records`,
+        consentRequired: true
+      }
+    };
+  }
+
+  return { ok: true, link, student };
+};
\ No newline at end of file
@@ -0,0 +1,165 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Impersonation, { IImpersonation } from '../models/Impersonation';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import User, { IUser } from '../models/User';
+import { ClientContext, isCurrentTokenVersion } from './tokenService';
+import { hasPermission } from './permissions';
+
+export const IMPERSONATION_TOKEN_TYPE = 'impersonation';
+export const DEFAULT_IMPERSONATION_MINUTES = 15;
+export const MAX_IMPERSONATION_MINUTES = 60;
+
+// Impersonation is for looking, not acting: anything that could change data is refused
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface ImpersonationOptions {
+  impersonator: IUser;
+  target: IUser;
+  reason: string;
+  minutes: number;
+  context?: ClientContext;
+}
+
+export interface ImpersonationRequest {
+  impersonationId: string;
+  impersonatorId: string;
+  targetUserId: string;
+  method: string;
+  path: string;
+  ipAddress?: string;
+  blocked?: boolean;
+}
+
+export type ImpersonationVerification =
+  | { ok: true; user: IUser; impersonator: IUser; impersonation: IImpersonation }
+  | { ok: false; status: number; error: string };
+
+export const isReadOnlyMethod = (method: string): boolean => {
+  return READ_ONLY_METHODS.includes(method.toUpperCase());
+};
+
+// The token is bound to the target's and the impersonator's security stamps, so a role change
+// or disabled account on either side ends the impersonation immediately
+const signImpersonationToken = (impersonation: IImpersonation, target: IUser, impersonator: IUser): string => {
+  const expiresIn = Math.max(1, Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000));
+
+  return jwt.sign(
+    {
+      type: IMPERSONATION_TOKEN_TYPE,
+      userId: target._id,
+      ver: target.tokenVersion || 0,
+      imp: String(impersonation._id),
+      actorId: impersonator._id,
+      actorVer: impersonator.tokenVersion || 0
+    },
+    process.env.JWT_SECRET || 'secret',
+    { expiresIn }
+  );
+};
+
+export const startImpersonation = async (options: ImpersonationOptions): Promise<{ impersonation: IImpersonation; token: string }> => {
+  const { impersonator, target, context = {} } = options;
+
+  const impersonation = await Impersonation.create({
+    impersonator: impersonator._id,
+    targetUser: target._id,
+    reason: options.reason,
+    expiresAt: new Date(Date.now() + options.minutes * 60 * 1000),
+    ...(context.ipAddress && { ipAddress: context.ipAddress }),
+    ...(context.userAgent && { userAgent: context.userAgent.slice(0, 512) })
+  });
+
+  await recordAuditEvent('impersonation.started', {
+    impersonationId: String(impersonation._id),
+    impersonatorId: String(impersonator._id),
+    targetUserId: String(target._id),
+    ipAddress: context.ipAddress,
+    details: { reason: impersonation.reason, expiresAt: impersonation.expiresAt }
+  });
+
+  return { impersonation, token: signImpersonationToken(impersonation, target, impersonator) };
+};
+
+export const endImpersonation = async (impersonation: IImpersonation, endedBy: string): Promise<void> => {
+  impersonation.endedAt = new Date();
+  impersonation.endedBy = new mongoose.Types.ObjectId(endedBy);
+  await impersonation.save();
+
+  await recordAuditEvent('impersonation.ended', {
+    impersonationId: String(impersonation._id),
+    impersonatorId: endedBy,
+    targetUserId: String(impersonation.targetUser)
+  });
+};
+
+export const verifyImpersonationToken = async (decoded: any): Promise<ImpersonationVerification> => {
+  const expired = { ok: false as const, status: 401, error: 'Impersonation has ended or expired.' };
+
+  const impersonation = await Impersonation.findActive(String(decoded.imp));
+  if (!impersonation || String(impersonation.targetUser) !== String(decoded.userId)) {
+    return expired;
+  }
+
+  const [user, impersonator] = await Promise.all([
+    User.findById(decoded.userId),
+    User.findById(decoded.actorId)
+  ]);
+
+  if (!user || user.disabled || !isCurrentTokenVersion(user, decoded.ver)) {
+    return expired;
+  }
+
+  if (!impersonator || impersonator.disabled || !isCurrentTokenVersion(impersonator, decoded.actorVer)) {
+    return expired;
+  }
+
+  if (!(await hasPermission({ user: impersonator }, 'users:impersonate'))) {
+    return { ok: false, status: 403, error: 'You are no longer allowed to impersonate users.' };
+  }
+
+  return { ok: true, user, impersonator, impersonation };
+};
+
+// Written before the request runs, so a request that cannot be audited is not served;
+// the status code is filled in once the response has been sent
+export const recordImpersonatedRequest = async (entry: ImpersonationRequest): Promise<string> => {
+  return recordAuditEvent(entry.blocked ? 'impersonation.blocked' : 'impersonation.request', {
+    impersonationId: entry.impersonationId,
+    impersonatorId: entry.impersonatorId,
+    targetUserId: entry.targetUserId,
+    method: entry.method,
+    path: entry.path,
+    ...(entry.blocked && { statusCode: 403 }),
+    ipAddress: entry.ipAddress
+  });
+};
+
+export const completeImpersonatedRequest = async (auditLogId: string, statusCode: number): Promise<void> => {
+  await AuditLog.updateOne({ _id: auditLogId }, { statusCode });
+};
+
+async function recordAuditEvent(action: AuditAction, entry: {
+  impersonationId: string;
+  impersonatorId: string;
+  targetUserId: string;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+}): Promise<string> {
+  const log = await AuditLog.create({
+    action,
+    actor: entry.impersonatorId,
+    targetUser: entry.targetUserId,
+    impersonation: entry.impersonationId,
+    ...(entry.method && { method: entry.method }),
+    ...(entry.path && { path: entry.path }),
+    ...(entry.statusCode !== undefined && { statusCode: entry.statusCode }),
+    ...(entry.ipAddress && { ipAddress: entry.ipAddress }),
+    ...(entry.details && { details: entry.details })
+  });
+
+  return String(log._id);
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Invitation, { IInvitation } from '../models/Invitation';
+import { hashToken } from './tokenService';
+import { sendMail } from './mailer';
+
+export const DEFAULT_INVITATION_TTL_HOURS = Number(process.env.INVITATION_TTL_HOURS) || 72;
+export const MAX_INVITATION_TTL_HOURS = 24 * 30;
+
+export interface InvitationOptions {
+  role: string;
+  createdBy: string;
+  email?: string;
+  studentRecordId?: mongoose.Types.ObjectId | string;
+  ttlHours?: number;
+}
+
+export interface IssuedInvitation {
+  invitation: IInvitation;
+  inviteToken: string;
+  registrationUrl: string;
+}
+
+// Creates the invite, mails the link when an address is known and returns the raw token,
+// which is never stored and cannot be shown again
+export const issueInvitation = async (options: InvitationOptions): Promise<IssuedInvitation> => {
+  const ttlHours = options.ttlHours ?? DEFAULT_INVITATION_TTL_HOURS;
+
+  // A student record has at most one live invite; issuing a new one retires the old link
+  if (options.studentRecordId) {
+    await Invitation.updateMany(
+      { studentRecordId: options.studentRecordId, usedAt: null, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+  }
+
+  const rawToken = crypto.randomBytes(32).toString('base64url');
+  const invitation = await Invitation.create({
+    tokenHash: hashToken(rawToken),
+    role: options.role,
+    ...(options.email && { email: options.email.toLowerCase().trim() }),
+    ...(options.studentRecordId && { studentRecordId: options.studentRecordId }),
+    createdBy: options.createdBy,
+    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+  });
+
+  const registrationUrl = `${process.env.REGISTRATION_URL || 'http://localhost:3000/register'}?invite=${rawToken}`;
+
+  if (invitation.email) {
+    await sendMail({
+      to: invitation.email,
+      subject: 'You are invited to Campus Core',
+      text: [
+        'Hello,',
+        '',
+        invitation.studentRecordId
+          ? 'Your school has invited you to create your Campus Core student account.'
+          : `You have been invited to create a Campus Core ${invitation.role} account.`,
+        `Use the link below within ${ttlHours} hours to choose a username and password:`,
+        '',
+        registrationUrl
+      ].join('\n')
+    });
+  }
+
+  return { invitation, inviteToken: rawToken, registrationUrl };
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+import net from 'net';
+
+// Parses "10.0.0.0/8", "2001:db8::/32" or a single address (treated as /32 or /128)
+export const parseIpRange = (range: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null => {
+  const [address, prefixPart, ...rest] = String(range).trim().split('/');
+  if (rest.length > 0) return null;
+
+  const version = net.isIP(address);
+  if (version === 0) return null;
+
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { address, prefix, family };
+};
+
+export const isValidIpRange = (range: string): boolean => parseIpRange(range) !== null;
+
+// An empty list allows every address; IPv4-mapped IPv6 addresses match their IPv4 ranges
+export const isIpAllowed = (ip: string | undefined, ranges: string[]): boolean => {
+  if (ranges.length === 0) return true;
+  if (!ip || net.isIP(ip) === 0) return false;
+
+  const blockList = new net.BlockList();
+  for (const range of ranges) {
+    const parsed = parseIpRange(range);
+    if (parsed) {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return blockList.check(ip, net.isIP(ip) === 4 ? 'ipv4' : 'ipv6');
+};
+
+const TRUST_PROXY_PRESETS = ['loopback', 'linklocal', 'uniquelocal'];
+
+// Value for Express's "trust proxy" from TRUST_PROXY: true/false, a number of proxy hops, or a
+// comma-separated list of proxy addresses, ranges and presets (loopback, linklocal, uniquelocal).
+// Returns null when the setting cannot be understood.
+export const parseTrustProxy = (value: string): boolean | number | string[] | null => {
+  const trimmed = value.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const entries = trimmed.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0 || entries.some(entry => !TRUST_PROXY_PRESETS.includes(entry) && !isValidIpRange(entry))) {
+    return null;
+  }
+  return entries;
+};
\ No newline at end of file
@@ -0,0 +1,147 @@
+import User, { IUser } from '../models/User';
+import LoginAttempt from '../models/LoginAttempt';
+
+export interface LoginThrottleConfig {
+  maxAttempts: number;
+  lockoutMinutes: number;
+  delayBaseMs: number;
+  delayMaxMs: number;
+  ipMaxAttempts: number;
+  ipWindowMinutes: number;
+}
+
+export interface LoginBlock {
+  reason: 'locked' | 'delayed' | 'ip_throttled';
+  until: Date;
+  retryAfterSeconds: number;
+}
+
+export interface LoginContext {
+  ipAddress?: string;
+  username?: string;
+}
+
+// Unset or malformed values fall back to the default; 0 is kept so a limit can be switched off
+const envNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Read on every call so limits can be tuned per environment (and per test) without a restart
+export const getLoginThrottleConfig = (): LoginThrottleConfig => ({
+  maxAttempts: envNumber('LOGIN_MAX_ATTEMPTS', 5),
+  lockoutMinutes: envNumber('LOGIN_LOCKOUT_MINUTES', 15),
+  delayBaseMs: envNumber('LOGIN_DELAY_BASE_MS', 1000),
+  delayMaxMs: envNumber('LOGIN_DELAY_MAX_MS', 30000),
+  ipMaxAttempts: envNumber('LOGIN_IP_MAX_ATTEMPTS', 20),
+  ipWindowMinutes: envNumber('LOGIN_IP_WINDOW_MINUTES', 15)
+});
+
+const toBlock = (reason: LoginBlock['reason'], until: Date, now: Date): LoginBlock => ({
+  reason,
+  until,
+  retryAfterSeconds: Math.max(1, Math.ceil((until.getTime() - now.getTime()) / 1000))
+});
+
+// Doubles with each consecutive failure: base, 2x base, 4x base ... capped at delayMaxMs
+export const progressiveDelayMs = (failedAttempts: number, config: LoginThrottleConfig = getLoginThrottleConfig()): number => {
+  if (failedAttempts <= 0 || config.delayBaseMs === 0) return 0;
+  return Math.min(config.delayBaseMs * 2 ** (failedAttempts - 1), config.delayMaxMs);
+};
+
+export const checkIpThrottle = async (ipAddress?: string): Promise<LoginBlock | null> => {
+  const config = getLoginThrottleConfig();
+  if (!ipAddress || config.ipMaxAttempts === 0) return null;
+
+  const now = new Date();
+  const windowMs = config.ipWindowMinutes * 60 * 1000;
+  const since = new Date(now.getTime() - windowMs);
+
+  const recentFailures = await LoginAttempt.countRecent(ipAddress, since);
+  if (recentFailures < config.ipMaxAttempts) return null;
+
+  // The client may retry once the oldest failure in the window ages out
+  const oldest = await LoginAttempt.findOldestSince(ipAddress, since);
+  const until = new Date((oldest ? oldest.createdAt.getTime() : now.getTime()) + windowMs);
+  return toBlock('ip_throttled', until, now);
+};
+
+export const checkAccountBlock = (user: IUser, now: Date = new Date()): LoginBlock | null => {
+  if (user.lockedUntil && user.lockedUntil > now) {
+    return toBlock('locked', user.lockedUntil, now);
+  }
+
+  const delayMs = progressiveDelayMs(user.failedLoginAttempts || 0);
+  if (delayMs > 0 && user.lastFailedLoginAt) {
+    const until = new Date(user.lastFailedLoginAt.getTime() + delayMs);
+    if (until > now) {
+      return toBlock('delayed', until, now);
+    }
+  }
+
+  return null;
+};
+
+// Returns the lock when this failure pushed the account over the limit
+export const recordFailedLogin = async (user: IUser | null, context: LoginContext = {}): Promise<LoginBlock | null> => {
+  const config = getLoginThrottleConfig();
+  const now = new Date();
+
+  if (context.ipAddress) {
+    await LoginAttempt.create({
+      ipAddress: context.ipAddress,
+      ...(context.username && { username: context.username })
+    });
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  // Atomic increment so concurrent guesses cannot slip past the limit
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: now } },
+    { new: true }
+  );
+
+  if (!updated || config.maxAttempts === 0 || updated.failedLoginAttempts < config.maxAttempts) {
+    return null;
+  }
+
+  // The counter starts over so the account gets a fresh set of attempts once the lock expires
+  const lockedUntil = new Date(now.getTime() + config.lockoutMinutes * 60 * 1000);
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { lockedUntil, failedLoginAttempts: 0, lastFailedLoginAt: null } }
+  );
+
+  console.warn('Account locked after repeated failed logins:', {
+    userId: String(user._id),
+    ipAddress: context.ipAddress,
+    lockedUntil: lockedUntil.toISOString(),
+    timestamp: now.toISOString()
+  });
+
+  return toBlock('locked', lockedUntil, now);
+};
+
+export const recordSuccessfulLogin = async (user: IUser): Promise<void> => {
+  if (!user.failedLoginAttempts && !user.lastFailedLoginAt && !user.lockedUntil) return;
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null } }
+  );
+};
+
+export const unlockAccount = async (userId: string): Promise<IUser | null> => {
+  return User.findByIdAndUpdate(
+    userId,
+    { $set: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null } },
+    { new: true }
+  );
+};
\ No newline at end of file
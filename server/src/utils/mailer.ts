@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development transport: prints the message instead of delivering it. Messages carry live
+// password reset and invitation links, so it is refused outside development and test.
+export class ConsoleMailTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log('📧 Outgoing mail:', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+// Appends each message as one JSON line, so tests and local tooling can read delivered mail back
+export class FileMailTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+const CONSOLE_TRANSPORT_ENVIRONMENTS = ['development', 'test'];
+
+const createTransportFromEnv = (): MailTransport => {
+  const kind = process.env.MAIL_TRANSPORT || 'console';
+
+  switch (kind) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_FILE_PATH || path.join(process.cwd(), 'mail', 'outbox.jsonl'));
+    case 'console':
+      if (!CONSOLE_TRANSPORT_ENVIRONMENTS.includes(process.env.NODE_ENV || '')) {
+        throw new Error(
+          'The console mail transport prints reset and invitation links to the log and is only allowed when ' +
+          'NODE_ENV is development or test. Set MAIL_TRANSPORT, or register a transport with setMailTransport().'
+        );
+      }
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}". Use "console" or "file", or register one with setMailTransport().`);
+  }
+};
+
+// Lets deployments plug in a real provider (SMTP, SES, ...) without touching callers
+export const setMailTransport = (custom: MailTransport | null): void => {
+  transport = custom;
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send(message);
+};
\ No newline at end of file
@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import User, { IUser } from '../models/User';
+import GuardianLink from '../models/GuardianLink';
+import OidcLoginState from '../models/OidcLoginState';
+import { hashToken } from './tokenService';
+import { checkStudentBinding } from './userProvisioning';
+import { roleExists } from './permissions';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  roleClaim: string;
+  roleMap: Record<string, string>;
+  studentIdClaim: string;
+  usernameClaim: string;
+  jitProvisioning: boolean;
+  jitRoles: string[];
+  linkByEmail: boolean;
+  trustIdpMfa: boolean;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  [claim: string]: unknown;
+}
+
+export interface MappedIdentity {
+  role: string | null;
+  studentId: string | null;
+  username: string | null;
+  email: string | null;
+}
+
+export type OidcResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+const envList = (name: string, fallback: string): string[] => {
+  return (process.env[name] || fallback).split(',').map(value => value.trim()).filter(Boolean);
+};
+
+const parseRoleMap = (raw: string | undefined): Record<string, string> => {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    console.error('OIDC_ROLE_MAP is not valid JSON; no IdP roles will be mapped');
+    return {};
+  }
+};
+
+// Read on every call like the other environment-driven settings. SSO is off (null) until the
+// issuer, client and redirect URI are all set. SSO logins go through the same two-factor step as
+// password logins unless OIDC_TRUST_IDP_MFA=true declares that the provider enforces MFA itself.
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const redirectUri = process.env.OIDC_REDIRECT_URI;
+  if (!issuer || !clientId || !redirectUri) return null;
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri,
+    scopes: process.env.OIDC_SCOPES || 'openid profile email',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP),
+    studentIdClaim: process.env.OIDC_STUDENT_ID_CLAIM || 'student_id',
+    usernameClaim: process.env.OIDC_USERNAME_CLAIM || 'preferred_username',
+    jitProvisioning: process.env.OIDC_JIT_PROVISIONING === 'true',
+    jitRoles: envList('OIDC_JIT_ROLES', 'student,teacher,guardian'),
+    linkByEmail: process.env.OIDC_LINK_BY_EMAIL === 'true',
+    trustIdpMfa: process.env.OIDC_TRUST_IDP_MFA === 'true'
+  };
+};
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const keyCache = new Map<string, crypto.KeyObject>();
+
+export const clearOidcCache = (): void => {
+  metadataCache.clear();
+  keyCache.clear();
+};
+
+export const discoverProvider = async (config: OidcConfig): Promise<OidcProviderMetadata> => {
+  const cached = metadataCache.get(config.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const { data } = await axios.get<OidcProviderMetadata>(`${config.issuer}/.well-known/openid-configuration`);
+  if (data.issuer?.replace(/\/+$/, '') !== config.issuer) {
+    throw new Error(`OIDC discovery returned issuer ${data.issuer}, expected ${config.issuer}`);
+  }
+
+  metadataCache.set(config.issuer, { metadata: data, fetchedAt: Date.now() });
+  return data;
+};
+
+// Keys are cached by kid; an unknown kid refetches the JWKS once so provider key rotation just works
+const getSigningKey = async (metadata: OidcProviderMetadata, kid: string | undefined): Promise<crypto.KeyObject> => {
+  const cacheKey = `${metadata.jwks_uri}#${kid || ''}`;
+  const cached = keyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { data } = await axios.get<{ keys: Array<crypto.JsonWebKey & { kid?: string; use?: string }> }>(metadata.jwks_uri);
+  const signingKeys = (data.keys || []).filter(key => !key.use || key.use === 'sig');
+  const jwk = kid ? signingKeys.find(key => key.kid === kid) : signingKeys[0];
+  if (!jwk) {
+    throw new Error(`No signing key ${kid || ''} published by the identity provider`);
+  }
+
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  keyCache.set(cacheKey, key);
+  return key;
+};
+
+export const createPkcePair = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+};
+
+// The login nonce is handed only to the client starting the login, never to the provider, so a
+// leaked callback URL (code and state) cannot be redeemed by anyone else
+export const beginOidcLogin = async (config: OidcConfig): Promise<{ authorizationUrl: string; state: string; loginNonce: string }> => {
+  const metadata = await discoverProvider(config);
+  const state = crypto.randomBytes(32).toString('base64url');
+  const loginNonce = crypto.randomBytes(32).toString('base64url');
+  const nonce = crypto.randomBytes(16).toString('base64url');
+  const { codeVerifier, codeChallenge } = createPkcePair();
+
+  await OidcLoginState.create({
+    stateHash: hashToken(state),
+    loginNonceHash: hashToken(loginNonce),
+    nonce,
+    codeVerifier,
+    expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS)
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+
+  return { authorizationUrl: `${metadata.authorization_endpoint}?${params.toString()}`, state, loginNonce };
+};
+
+// Exchanges the code with the PKCE verifier and validates the ID token's signature, issuer,
+// audience, expiry and nonce before any claim is trusted
+export const completeOidcLogin = async (
+  config: OidcConfig,
+  code: string,
+  state: string,
+  loginNonce: string
+): Promise<OidcResult<{ claims: OidcClaims }>> => {
+  const loginState = await OidcLoginState.consume(state, loginNonce);
+  if (!loginState) {
+    return { ok: false, status: 400, body: { error: 'Invalid or expired login state. Start the sign-in again.' } };
+  }
+
+  const metadata = await discoverProvider(config);
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: loginState.codeVerifier,
+    ...(config.clientSecret && { client_secret: config.clientSecret })
+  });
+
+  const tokenResponse = await axios.post(metadata.token_endpoint, form.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    validateStatus: () => true
+  });
+
+  if (tokenResponse.status !== 200 || !tokenResponse.data?.id_token) {
+    return {
+      ok: false,
+      status: 401,
+      body: {
+        error: 'The identity provider rejected the authorization code',
+        ...(tokenResponse.data?.error && { providerError: tokenResponse.data.error })
+      }
+    };
+  }
+
+  const idToken = String(tokenResponse.data.id_token);
+  const header = jwt.decode(idToken, { complete: true })?.header;
+  const key = await getSigningKey(metadata, header?.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId
+    }) as OidcClaims;
+  } catch (err: any) {
+    return { ok: false, status: 401, body: { error: 'Invalid ID token', reason: err.message } };
+  }
+
+  if (claims.nonce !== loginState.nonce || !claims.sub) {
+    return { ok: false, status: 401, body: { error: 'Invalid ID token', reason: 'nonce mismatch' } };
+  }
+
+  return { ok: true, claims };
+};
+
+// The role claim may be a single value or a list (e.g. groups); when several map to a role,
+// the first matching entry of OIDC_ROLE_MAP wins so the outcome never depends on claim order
+export const mapOidcClaims = (config: OidcConfig, claims: OidcClaims): MappedIdentity => {
+  const rawRoles = claims[config.roleClaim];
+  const idpRoles = (Array.isArray(rawRoles) ? rawRoles : rawRoles === undefined ? [] : [rawRoles]).map(String);
+  const mappedRole = Object.keys(config.roleMap).find(idpRole => idpRoles.includes(idpRole));
+
+  const studentId = claims[config.studentIdClaim];
+  const username = claims[config.usernameClaim];
+
+  return {
+    role: mappedRole ? config.roleMap[mappedRole].toLowerCase() : null,
+    studentId: studentId ? String(studentId).trim() : null,
+    username: username ? String(username).toLowerCase().trim() : null,
+    email: claims.email && claims.email_verified !== false ? String(claims.email).toLowerCase().trim() : null
+  };
+};
+
+// Finds the account for an identity: by its linked subject, optionally by verified email, and
+// finally by just-in-time provisioning. Mapped roles and student IDs are kept in sync on each login.
+export const resolveOidcUser = async (config: OidcConfig, claims: OidcClaims): Promise<OidcResult<{ user: IUser; provisioned: boolean }>> => {
+  const identity = mapOidcClaims(config, claims);
+  const oidc = { issuer: config.issuer, subject: String(claims.sub) };
+
+  let user = await User.findOne({ 'oidc.issuer': oidc.issuer, 'oidc.subject': oidc.subject });
+
+  if (!user && config.linkByEmail && identity.email && claims.email_verified === true) {
+    user = await User.findOne({ email: identity.email, 'oidc.subject': null });
+    if (user) {
+      user.oidc = oidc;
+    }
+  }
+
+  if (!user) {
+    return provisionOidcUser(config, identity, oidc);
+  }
+
+  if (identity.role && identity.role !== user.role) {
+    const check = await checkMappedRole(identity);
+    if (!check.ok) return check;
+
+    if (user.role === 'guardian') {
+      await GuardianLink.deleteMany({ guardian: user._id });
+    }
+    user.role = identity.role;
+  }
+
+  if (user.role === 'student' && identity.studentId && identity.studentId !== user.studentId) {
+    const binding = await checkStudentBinding(identity.studentId, String(user._id));
+    if (!binding.ok) return binding;
+    user.studentId = identity.studentId;
+  }
+
+  if (user.isModified()) {
+    await user.save();
+  }
+
+  return { ok: true, user, provisioned: false };
+};
+
+async function checkMappedRole(identity: MappedIdentity): Promise<OidcResult<{}>> {
+  if (!identity.role || !(await roleExists(identity.role))) {
+    return { ok: false, status: 403, body: { error: 'The identity provider role is not mapped to a CampusCore role' } };
+  }
+
+  if (identity.role === 'student' && !identity.studentId) {
+    return { ok: false, status: 403, body: { error: 'The identity provider did not supply a student ID' } };
+  }
+
+  return { ok: true };
+}
+
+async function provisionOidcUser(
+  config: OidcConfig,
+  identity: MappedIdentity,
+  oidc: { issuer: string; subject: string }
+): Promise<OidcResult<{ user: IUser; provisioned: boolean }>> {
+  if (!config.jitProvisioning) {
+    return { ok: false, status: 403, body: { error: 'No CampusCore account is linked to this identity. Contact an administrator.' } };
+  }
+
+  const check = await checkMappedRole(identity);
+  if (!check.ok) return check;
+
+  // Privileged roles are never created from claims alone
+  if (!config.jitRoles.includes(identity.role!)) {
+    return {
+      ok: false,
+      status: 403,
+      body: { error: `Accounts with role ${identity.role} cannot be created through single sign-on`, role: identity.role }
+    };
+  }
+
+  if (!identity.username) {
+    return { ok: false, status: 403, body: { error: `The identity provider did not supply a ${config.usernameClaim} claim` } };
+  }
+
+  if (await User.exists({ username: identity.username })) {
+    return { ok: false, status: 409, body: { error: 'Username already exists', username: identity.username } };
+  }
+
+  if (identity.role === 'student') {
+    const binding = await checkStudentBinding(identity.studentId!);
+    if (!binding.ok) return binding;
+  }
+
+  // SSO accounts sign in through the provider; the local password is random and never disclosed
+  const user = await User.create({
+    username: identity.username,
+    password: await bcrypt.hash(crypto.randomBytes(32).toString('base64url'), 12),
+    role: identity.role,
+    ...(identity.role === 'student' && { studentId: identity.studentId }),
+    ...(identity.email && { email: identity.email }),
+    oidc
+  });
+
+  return { ok: true, user, provisioned: true };
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcrypt';
+import SecurityPolicy from '../models/SecurityPolicy';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  MAX_PASSWORD_LENGTH,
+  PASSWORD_POLICY_FIELDS,
+  PASSWORD_POLICY_LIMITS,
+  PasswordPolicy
+} from '../config/passwordPolicy';
+
+export type PasswordViolationCode =
+  | 'invalid_type'
+  | 'too_short'
+  | 'too_long'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_digit'
+  | 'missing_symbol'
+  | 'contains_username'
+  | 'common_password'
+  | 'reused_password';
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+// Who the password is for; the hashes are only needed for the reuse check
+export interface PasswordContext {
+  username?: string;
+  email?: string | null;
+  currentHash?: string;
+  history?: string[];
+}
+
+export type PasswordCheckResult =
+  | { ok: true }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export type PasswordPolicyUpdateResult =
+  | { ok: true; changes: Partial<PasswordPolicy> }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+const COMMON_PASSWORDS_FILE = path.join(__dirname, '../config/common-passwords.txt');
+const MIN_IDENTIFIER_LENGTH = 3;
+
+let commonPasswords: Set<string> | null = null;
+
+// Read on first use and kept for the life of the process
+const loadCommonPasswords = (): Set<string> => {
+  if (!commonPasswords) {
+    commonPasswords = new Set(
+      fs.readFileSync(COMMON_PASSWORDS_FILE, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim().toLowerCase())
+        .filter(line => line && !line.startsWith('#'))
+    );
+  }
+  return commonPasswords;
+};
+
+// Also catches the usual decorations of a listed password, such as "Password1!" or "welcome2024"
+export const isCommonPassword = (password: string): boolean => {
+  const list = loadCommonPasswords();
+  const lowered = password.toLowerCase();
+  const stripped = lowered.replace(/[\d\W_]+$/, '');
+
+  return list.has(lowered) || (stripped.length > 0 && list.has(stripped));
+};
+
+// Stored values win over the defaults, so fields added later still have a value for old documents
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  const stored = await SecurityPolicy.getPasswordPolicy();
+  return { ...DEFAULT_PASSWORD_POLICY, ...(stored || {}) };
+};
+
+// The rules that need nothing but the password and the account's identifiers
+export const checkPasswordRules = (password: string, policy: PasswordPolicy, context: PasswordContext = {}): PasswordViolation[] => {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({ code: 'too_short', message: `Password must be at least ${policy.minLength} characters long` });
+  }
+
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    violations.push({ code: 'too_long', message: `Password cannot be longer than ${MAX_PASSWORD_LENGTH} characters` });
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push({ code: 'missing_uppercase', message: 'Password must contain an uppercase letter' });
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push({ code: 'missing_lowercase', message: 'Password must contain a lowercase letter' });
+  }
+
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push({ code: 'missing_digit', message: 'Password must contain a digit' });
+  }
+
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({ code: 'missing_symbol', message: 'Password must contain a symbol' });
+  }
+
+  if (policy.disallowUsername && containsIdentifier(password, context)) {
+    violations.push({ code: 'contains_username', message: 'Password cannot contain your username or email name' });
+  }
+
+  if (policy.checkCommonPasswords && isCommonPassword(password)) {
+    violations.push({ code: 'common_password', message: 'Password is too common and appears in lists of breached passwords' });
+  }
+
+  return violations;
+};
+
+// The current password counts as the first of the last N, so historyCount 1 only forbids keeping it
+export const isReusedPassword = async (password: string, policy: PasswordPolicy, context: PasswordContext): Promise<boolean> => {
+  if (policy.historyCount < 1) return false;
+
+  const recent = [context.currentHash, ...(context.history || [])]
+    .filter((hash): hash is string => !!hash)
+    .slice(0, policy.historyCount);
+
+  for (const hash of recent) {
+    if (await bcrypt.compare(password, hash)) return true;
+  }
+  return false;
+};
+
+export const validatePassword = async (password: unknown, context: PasswordContext = {}): Promise<PasswordCheckResult> => {
+  const policy = await getPasswordPolicy();
+
+  if (typeof password !== 'string') {
+    return rejectPassword(policy, [{ code: 'invalid_type', message: 'Password must be a string' }]);
+  }
+
+  const violations = checkPasswordRules(password, policy, context);
+
+  // Skip the bcrypt comparisons when the password is already refused
+  if (violations.length === 0 && await isReusedPassword(password, policy, context)) {
+    violations.push({
+      code: 'reused_password',
+      message: `Password cannot be one of your last ${policy.historyCount} passwords`
+    });
+  }
+
+  return violations.length > 0 ? rejectPassword(policy, violations) : { ok: true };
+};
+
+// The hash being replaced goes to the front; only as many as the policy checks are kept
+export const buildPasswordHistory = async (previousHash: string, history: string[] = []): Promise<string[]> => {
+  const policy = await getPasswordPolicy();
+  return [previousHash, ...history].slice(0, Math.max(policy.historyCount - 1, 0));
+};
+
+// Validates an admin's partial update; unknown fields and wrong types are refused rather than ignored
+export const parsePasswordPolicyUpdate = (body: unknown): PasswordPolicyUpdateResult => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, status: 400, body: { error: 'Request body must be an object' } };
+  }
+
+  const input = body as Record<string, unknown>;
+  const unknownFields = Object.keys(input).filter(field => !PASSWORD_POLICY_FIELDS.includes(field as keyof PasswordPolicy));
+  if (unknownFields.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Unknown password policy fields', unknownFields, allowedFields: PASSWORD_POLICY_FIELDS }
+    };
+  }
+
+  const changes: Record<string, number | boolean> = {};
+  const errors: string[] = [];
+
+  for (const field of PASSWORD_POLICY_FIELDS) {
+    if (input[field] === undefined) continue;
+    const value = input[field];
+
+    if (field === 'minLength' || field === 'historyCount') {
+      const { min, max } = PASSWORD_POLICY_LIMITS[field];
+      if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+        errors.push(`${field} must be a whole number between ${min} and ${max}`);
+        continue;
+      }
+      changes[field] = value as number;
+    } else {
+      if (typeof value !== 'boolean') {
+        errors.push(`${field} must be true or false`);
+        continue;
+      }
+      changes[field] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, status: 400, body: { error: 'Validation failed', details: errors } };
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'No password policy fields provided', allowedFields: PASSWORD_POLICY_FIELDS }
+    };
+  }
+
+  return { ok: true, changes: changes as Partial<PasswordPolicy> };
+};
+
+function containsIdentifier(password: string, context: PasswordContext): boolean {
+  const lowered = password.toLowerCase();
+  const identifiers = [context.username, context.email?.split('@')[0]]
+    .map(value => (value || '').toLowerCase().trim())
+    .filter(value => value.length >= MIN_IDENTIFIER_LENGTH);
+
+  return identifiers.some(identifier => lowered.includes(identifier));
+}
+
+function rejectPassword(policy: PasswordPolicy, violations: PasswordViolation[]): PasswordCheckResult {
+  return {
+    ok: false,
+    status: 400,
+    body: {
+      error: 'Password does not meet the password policy',
+      violations,
+      policy
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import Role from '../models/Role';
+import { ALL_PERMISSIONS, BUILT_IN_ROLES, isBuiltInRole, Permission } from '../config/permissions';
+
+// Permissions are checked on every request, so role lookups are cached briefly; role changes
+// made through the API invalidate the cache straight away
+const CACHE_TTL_MS = 30 * 1000;
+
+const permissionCache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+export const getRolePermissions = async (role: string): Promise<Permission[]> => {
+  if (role === 'admin') return ALL_PERMISSIONS;
+
+  const cached = permissionCache.get(role);
+  if (cached && cached.expiresAt > Date.now()) return cached.permissions;
+
+  // Built-in roles keep working with their defaults before they have been seeded
+  const stored = await Role.findPermissions(role);
+  const permissions = stored ?? (isBuiltInRole(role) ? BUILT_IN_ROLES[role].permissions : []);
+
+  permissionCache.set(role, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  return permissions;
+};
+
+export const invalidateRolePermissions = (role?: string): void => {
+  if (role) {
+    permissionCache.delete(role);
+  } else {
+    permissionCache.clear();
+  }
+};
+
+// The authenticated caller: a user acting through their role, or an API key with its own scopes
+export interface PermissionSubject {
+  user?: { role: string };
+  apiKey?: { permissions: Permission[] };
+}
+
+export const getCallerPermissions = async (caller: PermissionSubject): Promise<Permission[]> => {
+  if (caller.apiKey) return caller.apiKey.permissions;
+  return caller.user ? getRolePermissions(caller.user.role) : [];
+};
+
+export const hasPermission = async (caller: PermissionSubject, permission: Permission): Promise<boolean> => {
+  return (await getCallerPermissions(caller)).includes(permission);
+};
+
+export const roleExists = async (role: unknown): Promise<boolean> => {
+  if (typeof role !== 'string' || !role) return false;
+  return isBuiltInRole(role) || !!(await Role.exists({ name: role }));
+};
+
+export const listRoleNames = async (): Promise<string[]> => {
+  const stored: string[] = (await Role.distinct('name')) || [];
+  return [...new Set([...Object.keys(BUILT_IN_ROLES), ...stored])].sort();
+};
+
+// Roles can only be handed out by callers who hold every permission the role carries, so a
+// custom role with users:write or invitations:manage cannot be used to escalate to admin
+export const canGrantRole = async (grantor: PermissionSubject, role: string): Promise<boolean> => {
+  const [held, required] = await Promise.all([getCallerPermissions(grantor), getRolePermissions(role)]);
+  return required.every(permission => held.includes(permission));
+};
\ No newline at end of file
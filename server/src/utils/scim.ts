@@ -0,0 +1,282 @@
+import { Response } from 'express';
+import { IUser } from '../models/User';
+import { BUILT_IN_ROLES } from '../config/permissions';
+
+// SCIM 2.0 (RFC 7643/7644) wire format. Users map onto User documents; groups are CampusCore
+// roles, so group membership is the user's role and every user belongs to exactly one group.
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'
+} as const;
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+export const SCIM_MAX_RESULTS = 200;
+
+export type ScimErrorType = 'invalidFilter' | 'invalidPath' | 'invalidValue' | 'uniqueness' | 'mutability' | 'noTarget';
+
+// Fields a SCIM client can set on a user; undefined means "not mentioned"
+export interface ScimUserChanges {
+  userName?: string;
+  active?: boolean;
+  externalId?: string | null;
+  email?: string | null;
+  studentId?: string | null;
+  role?: string;
+  password?: string;
+}
+
+export interface ScimMemberChanges {
+  add: string[];
+  remove: string[];
+  // replace: the listed members become the whole group
+  replace?: string[];
+}
+
+export type ScimParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; scimType: ScimErrorType; detail: string };
+
+export interface ScimOperation {
+  op?: string;
+  path?: string;
+  value?: unknown;
+}
+
+// Roles exposed as groups, and the only roles whose users SCIM can see or change. Custom roles
+// and admin are only provisioned when listed in SCIM_ROLES, so a provisioning key cannot create
+// or take over administrators by default.
+export const getScimRoles = (): string[] => {
+  const configured = (process.env.SCIM_ROLES || '').split(',').map(role => role.trim().toLowerCase()).filter(Boolean);
+  return configured.length > 0 ? configured : Object.keys(BUILT_IN_ROLES).filter(role => role !== 'admin');
+};
+
+// Role for users created without a role and for members removed from their only group
+export const getScimDefaultRole = (): string => {
+  return (process.env.SCIM_DEFAULT_ROLE || 'teacher').trim().toLowerCase();
+};
+
+export const sendScimError = (res: Response, status: number, detail: string, scimType?: ScimErrorType): void => {
+  res.status(status).type(SCIM_CONTENT_TYPE).json({
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType && { scimType }),
+    detail
+  });
+};
+
+export const sendScim = (res: Response, status: number, body: unknown): void => {
+  res.status(status).type(SCIM_CONTENT_TYPE).json(body);
+};
+
+export const listResponse = (resources: unknown[], totalResults: number, startIndex: number) => ({
+  schemas: [SCIM_SCHEMAS.listResponse],
+  totalResults,
+  startIndex,
+  itemsPerPage: resources.length,
+  Resources: resources
+});
+
+// startIndex is 1-based; count=0 asks for totals only
+export const parseListParams = (query: Record<string, unknown>): { startIndex: number; count: number } => {
+  const startIndex = Math.max(1, parseInt(String(query.startIndex || '1'), 10) || 1);
+  const requested = parseInt(String(query.count ?? SCIM_MAX_RESULTS), 10);
+  const count = Number.isNaN(requested) ? SCIM_MAX_RESULTS : Math.min(SCIM_MAX_RESULTS, Math.max(0, requested));
+  return { startIndex, count };
+};
+
+// Only the equality filters provisioning clients use to look accounts up: attr eq "value"
+export const parseScimFilter = (filter: unknown, attributes: string[]): ScimParseResult<{ attribute: string; value: string } | null> => {
+  if (filter === undefined || filter === '') return { ok: true, value: null };
+
+  const match = /^\s*([\w.:]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(String(filter));
+  const attribute = match && attributes.find(name => name.toLowerCase() === match[1].toLowerCase());
+  if (!match || !attribute) {
+    return {
+      ok: false,
+      scimType: 'invalidFilter',
+      detail: `Supported filters: ${attributes.map(name => `${name} eq "value"`).join(', ')}`
+    };
+  }
+
+  return { ok: true, value: { attribute, value: match[2].replace(/\\(.)/g, '$1') } };
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  return null;
+};
+
+// Request bodies are untrusted JSON; multi-valued attributes are read only from their object entries
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const primaryEntry = (value: unknown): Record<string, unknown> | undefined => {
+  const entries = Array.isArray(value) ? value.filter(isObject) : [];
+  return entries.find(entry => entry.primary) || entries[0];
+};
+
+const primaryEmail = (emails: unknown): string | null => {
+  const email = primaryEntry(emails);
+  return email?.value ? String(email.value) : null;
+};
+
+// Sets one attribute from a PATCH path or a resource key. Name attributes are accepted and
+// ignored because accounts do not store names.
+const applyUserAttribute = (changes: ScimUserChanges, path: string, value: unknown): ScimParseResult<ScimUserChanges> => {
+  const key = path.toLowerCase();
+  const enterprisePrefix = SCIM_SCHEMAS.enterpriseUser.toLowerCase();
+
+  if (key === 'username') {
+    if (!value || typeof value !== 'string') return { ok: false, scimType: 'invalidValue', detail: 'userName must be a string' };
+    changes.userName = value;
+  } else if (key === 'active') {
+    const active = parseBoolean(value);
+    if (active === null) return { ok: false, scimType: 'invalidValue', detail: 'active must be a boolean' };
+    changes.active = active;
+  } else if (key === 'externalid') {
+    changes.externalId = value == null ? null : String(value);
+  } else if (key === 'emails') {
+    changes.email = primaryEmail(value);
+  } else if (/^emails\[.*\]\.value$/.test(key)) {
+    changes.email = value == null ? null : String(value);
+  } else if (key === 'roles') {
+    const role = primaryEntry(value)?.value;
+    if (!role) return { ok: false, scimType: 'invalidValue', detail: 'roles must contain a value' };
+    changes.role = String(role).toLowerCase();
+  } else if (key === 'password') {
+    changes.password = String(value);
+  } else if (key === enterprisePrefix) {
+    if (isObject(value) && 'employeeNumber' in value) {
+      const employeeNumber = value.employeeNumber;
+      changes.studentId = employeeNumber == null ? null : String(employeeNumber);
+    }
+  } else if (key === `${enterprisePrefix}:employeenumber`) {
+    changes.studentId = value == null ? null : String(value);
+  } else if (key === 'name' || key.startsWith('name.') || key === 'displayname' || key === 'schemas' || key === 'id' || key === 'meta') {
+    // not stored
+  } else {
+    return { ok: false, scimType: 'invalidPath', detail: `Attribute ${path} is not supported` };
+  }
+
+  return { ok: true, value: changes };
+};
+
+export const readScimUser = (body: Record<string, unknown>): ScimParseResult<ScimUserChanges> => {
+  const changes: ScimUserChanges = {};
+  for (const [key, value] of Object.entries(body || {})) {
+    // Extension schemas other than the enterprise one are ignored
+    if (key.toLowerCase().startsWith('urn:') && key !== SCIM_SCHEMAS.enterpriseUser) continue;
+
+    const result = applyUserAttribute(changes, key, value);
+    if (!result.ok) return result;
+  }
+  return { ok: true, value: changes };
+};
+
+export const readScimUserPatch = (operations: unknown): ScimParseResult<ScimUserChanges> => {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return { ok: false, scimType: 'invalidValue', detail: 'Operations must be a non-empty array' };
+  }
+
+  const changes: ScimUserChanges = {};
+  for (const operation of operations as ScimOperation[]) {
+    const op = String(operation?.op || '').toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      return { ok: false, scimType: 'invalidValue', detail: `Unsupported operation ${operation?.op}` };
+    }
+
+    if (!operation.path) {
+      if (op === 'remove' || !isObject(operation.value)) {
+        return { ok: false, scimType: 'noTarget', detail: 'Operations without a path need an object value' };
+      }
+      for (const [key, value] of Object.entries(operation.value)) {
+        const result = applyUserAttribute(changes, key, value);
+        if (!result.ok) return result;
+      }
+      continue;
+    }
+
+    if (op === 'remove' && ['username', 'active', 'roles', 'password'].includes(operation.path.toLowerCase())) {
+      return { ok: false, scimType: 'mutability', detail: `${operation.path} cannot be removed` };
+    }
+
+    const result = applyUserAttribute(changes, operation.path, op === 'remove' ? null : operation.value);
+    if (!result.ok) return result;
+  }
+
+  return { ok: true, value: changes };
+};
+
+const memberIds = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter(isObject).map(member => String(member.value || '')).filter(Boolean) : [];
+};
+
+export const readScimGroupPatch = (operations: unknown): ScimParseResult<ScimMemberChanges> => {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return { ok: false, scimType: 'invalidValue', detail: 'Operations must be a non-empty array' };
+  }
+
+  const changes: ScimMemberChanges = { add: [], remove: [] };
+  for (const operation of operations as ScimOperation[]) {
+    const op = String(operation?.op || '').toLowerCase();
+    const path = String(operation?.path || '');
+    const filtered = /^members\[value eq "([^"]+)"\]$/i.exec(path);
+    const members = path ? memberIds(operation.value) : memberIds(isObject(operation.value) ? operation.value.members : undefined);
+
+    if (op === 'add' && (path === '' || path.toLowerCase() === 'members')) {
+      changes.add.push(...members);
+    } else if (op === 'remove' && filtered) {
+      changes.remove.push(filtered[1]);
+    } else if (op === 'remove' && path.toLowerCase() === 'members') {
+      changes.remove.push(...members);
+    } else if (op === 'replace' && (path === '' || path.toLowerCase() === 'members')) {
+      changes.replace = members;
+    } else if (op === 'replace' && path.toLowerCase() === 'displayname') {
+      return { ok: false, scimType: 'mutability', detail: 'Group names are role names and cannot be changed' };
+    } else {
+      return { ok: false, scimType: 'invalidPath', detail: `Unsupported group operation ${operation?.op} ${path}`.trim() };
+    }
+  }
+
+  return { ok: true, value: changes };
+};
+
+export const formatScimUser = (user: IUser, baseUrl: string) => ({
+  schemas: [SCIM_SCHEMAS.user, ...(user.studentId ? [SCIM_SCHEMAS.enterpriseUser] : [])],
+  id: String(user._id),
+  ...(user.externalId && { externalId: user.externalId }),
+  userName: user.username,
+  active: !user.disabled,
+  emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+  roles: [{ value: user.role, primary: true }],
+  groups: [{ value: user.role, display: user.role, $ref: `${baseUrl}/Groups/${user.role}` }],
+  ...(user.studentId && { [SCIM_SCHEMAS.enterpriseUser]: { employeeNumber: user.studentId } }),
+  meta: {
+    resourceType: 'User',
+    created: user.createdAt,
+    lastModified: user.updatedAt,
+    location: `${baseUrl}/Users/${user._id}`
+  }
+});
+
+export const formatScimGroup = (role: string, members: IUser[] | null, baseUrl: string) => ({
+  schemas: [SCIM_SCHEMAS.group],
+  id: role,
+  displayName: role,
+  ...(members && {
+    members: members.map(member => ({
+      value: String(member._id),
+      display: member.username,
+      $ref: `${baseUrl}/Users/${member._id}`
+    }))
+  }),
+  meta: {
+    resourceType: 'Group',
+    location: `${baseUrl}/Groups/${role}`
+  }
+});
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Writable } from 'stream';
+
+// A destroyed response emits neither 'drain' nor 'error', so waiting on 'drain' alone would hang
+// forever once a client aborts a download. These helpers also settle on 'close' and reject with
+// Node's premature-close error, which callers use to stop producing output.
+export const isPrematureClose = (error: any): boolean => error?.code === 'ERR_STREAM_PREMATURE_CLOSE';
+
+const prematureClose = (): Error => {
+  return Object.assign(new Error('Output closed before it was fully written'), { code: 'ERR_STREAM_PREMATURE_CLOSE' });
+};
+
+export const waitForDrain = (stream: Writable): Promise<void> => {
+  if (stream.destroyed) return Promise.reject(prematureClose());
+
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      stream.off('drain', onDrain);
+      stream.off('close', onClose);
+      stream.off('error', onError);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(prematureClose());
+    const onError = (error: Error) => settle(error);
+
+    stream.on('drain', onDrain);
+    stream.on('close', onClose);
+    stream.on('error', onError);
+  });
+};
+
+// Writes a chunk and waits while the stream is over its buffer limit
+export const writeChunk = async (stream: Writable, chunk: string | Buffer): Promise<void> => {
+  if (stream.destroyed || stream.writableEnded) throw prematureClose();
+
+  if (!stream.write(chunk)) {
+    await waitForDrain(stream);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import Student, { ARCHIVE_STATUSES, ArchiveStatus, IStudent } from '../models/Student';
+import Enrollment from '../models/Enrollment';
+import GuardianLink from '../models/GuardianLink';
+import StudentHistory, { historyCounterKey } from '../models/StudentHistory';
+import Counter from '../models/Counter';
+import User from '../models/User';
+import Session from '../models/Session';
+import Invitation from '../models/Invitation';
+
+// Seven years, a common minimum for keeping school records; override per deployment
+const DEFAULT_RETENTION_DAYS = 7 * 365;
+
+// Matches records that are not archived, including ones created before archiving existed
+export const ACTIVE_STUDENT_FILTER = { archive: null };
+
+export interface ArchiveRequest {
+  status: ArchiveStatus;
+  reason: string;
+  effectiveDate: Date;
+}
+
+export type ArchiveRequestResult =
+  | { ok: true; archive: ArchiveRequest }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export interface PurgeResult {
+  cutoff: Date;
+  retentionDays: number;
+  students: { id: string; studentId: string; status: ArchiveStatus; effectiveDate: Date; archivedAt: Date }[];
+  disabledAccounts: number;
+}
+
+// Read on every call so the period can be changed per environment without a code change
+export const getRetentionDays = (): number => {
+  const days = Number(process.env.STUDENT_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+export const isArchived = (student: Pick<IStudent, 'archive'>): boolean => !!student.archive;
+
+// Body for mutating endpoints that refuse archived students
+export const archivedStudentError = (student: Pick<IStudent, 'archive'>) => ({
+  error: 'Student is archived',
+  message: 'Restore the student before making changes',
+  archive: student.archive
+});
+
+// effectiveDate defaults to today; it is when the student actually left, which may be in the past
+export const parseArchiveRequest = (body: any): ArchiveRequestResult => {
+  const { status, reason, effectiveDate } = body || {};
+
+  if (!status || typeof reason !== 'string' || !reason.trim()) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Missing required fields', required: ['status', 'reason'], optional: ['effectiveDate'] }
+    };
+  }
+
+  if (!ARCHIVE_STATUSES.includes(status)) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Invalid archive status', allowedStatuses: ARCHIVE_STATUSES }
+    };
+  }
+
+  const date = effectiveDate === undefined ? new Date() : new Date(effectiveDate);
+  if (Number.isNaN(date.getTime())) {
+    return { ok: false, status: 400, body: { error: 'effectiveDate must be a valid date' } };
+  }
+
+  return { ok: true, archive: { status, reason: reason.trim(), effectiveDate: date } };
+};
+
+// Conditional on the record still being active, so two concurrent requests cannot both archive it
+export const archiveStudentRecord = async (studentId: string, archive: ArchiveRequest, archivedBy?: string): Promise<IStudent | null> => {
+  return Student.findOneAndUpdate(
+    { _id: studentId, ...ACTIVE_STUDENT_FILTER },
+    {
+      $set: {
+        archive: {
+          ...archive,
+          archivedAt: new Date(),
+          archivedBy: archivedBy && mongoose.Types.ObjectId.isValid(archivedBy) ? archivedBy : null
+        }
+      }
+    },
+    { new: true, runValidators: true }
+  );
+};
+
+export const restoreStudentRecord = async (studentId: string): Promise<IStudent | null> => {
+  return Student.findOneAndUpdate(
+    { _id: studentId, archive: { $ne: null } },
+    { $set: { archive: null } },
+    { new: true }
+  );
+};
+
+// The only place student records are deleted: records past the retention period go, together with
+// their enrollments, guardian links and change history. Retention counts from when the student
+// actually left (effectiveDate), falling back to the archive date for records without one. Accounts
+// bound to the record are disabled and pending invitations for it revoked, since both would
+// otherwise point at a record that no longer exists.
+export const purgeArchivedStudents = async (options: { dryRun?: boolean; now?: Date } = {}): Promise<PurgeResult> => {
+  const retentionDays = getRetentionDays();
+  const cutoff = new Date((options.now || new Date()).getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const expiredFilter = {
+    archive: { $ne: null },
+    $or: [
+      { 'archive.effectiveDate': { $lte: cutoff } },
+      { 'archive.effectiveDate': null, 'archive.archivedAt': { $lte: cutoff } }
+    ]
+  };
+
+  const expired = await Student.find(expiredFilter, 'studentId archive');
+
+  const students = expired.map(student => ({
+    id: String(student._id),
+    studentId: student.studentId,
+    status: student.archive!.status,
+    effectiveDate: student.archive!.effectiveDate,
+    archivedAt: student.archive!.archivedAt
+  }));
+
+  if (options.dryRun) {
+    return { cutoff, retentionDays, students, disabledAccounts: 0 };
+  }
+
+  const purged: PurgeResult['students'] = [];
+  let disabledAccounts = 0;
+  for (const student of students) {
+    // Re-checked on delete so a student restored since the lookup is kept
+    const deleted = await Student.findOneAndDelete({ _id: student.id, ...expiredFilter });
+    if (!deleted) continue;
+
+    await Enrollment.deleteMany({ studentId: student.id });
+    await GuardianLink.deleteMany({ student: student.id });
+    await StudentHistory.deleteMany({ student: student.id });
+    await Counter.deleteOne({ _id: historyCounterKey(student.id) });
+    await Invitation.updateMany(
+      { studentRecordId: student.id, usedAt: null, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    disabledAccounts += await disableStudentAccounts(student.studentId);
+    purged.push(student);
+  }
+
+  return { cutoff, retentionDays, students: purged, disabledAccounts };
+};
+
+async function disableStudentAccounts(studentId: string): Promise<number> {
+  if (!studentId) return 0;
+
+  const accounts = await User.find({ studentId, disabled: false }, '_id');
+  for (const account of accounts) {
+    await User.updateOne(
+      { _id: account._id },
+      { $set: { disabled: true, disabledAt: new Date(), disabledReason: 'Student record purged after the retention period' } }
+    );
+    await Session.revokeAllForUser(String(account._id), 'account_disabled');
+  }
+  return accounts.length;
+}
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { IStudent } from '../models/Student';
+import { IUser } from '../models/User';
+import StudentHistory, {
+  IStudentFieldChange,
+  IStudentHistory,
+  StudentHistoryAction
+} from '../models/StudentHistory';
+
+export const TRACKED_STUDENT_FIELDS = ['studentId', 'name', 'email', 'age', 'gradeLevel', 'grades', 'archive'] as const;
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 200;
+
+export type StudentSnapshot = Record<string, unknown>;
+
+// Accepts documents and lean or hand-built objects alike
+type StudentRecord = Partial<Pick<IStudent, typeof TRACKED_STUDENT_FIELDS[number] | 'createdAt'>> & {
+  _id?: unknown;
+  toObject?: () => any;
+};
+
+export interface StudentAsOf {
+  asOf: Date;
+  version: number | null;
+  recordedAt: Date | null;
+  student: StudentSnapshot;
+}
+
+// A version with its author populated; null once that user has been deleted
+export type PopulatedStudentHistory = Omit<IStudentHistory, 'changedBy'> & {
+  changedBy: Pick<IUser, '_id' | 'username' | 'role'> | null;
+};
+
+export type HistoryQueryResult =
+  | { ok: true; at: Date | null; limit: number; beforeVersion: number | null }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+const GRADE_FIELD_PREFIX = 'grades.';
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Round-tripped through JSON so dates and ids compare and store the same way wherever they came from
+const toPlain = (value: unknown): unknown => value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+export const snapshotStudent = (student: StudentRecord): StudentSnapshot => {
+  const source = typeof student.toObject === 'function' ? student.toObject() : student;
+  return Object.fromEntries(TRACKED_STUDENT_FIELDS.map(field => [field, toPlain(source[field])]));
+};
+
+const gradeScores = (grades: unknown): Map<string, number> => {
+  const scores = new Map<string, number>();
+  if (Array.isArray(grades)) {
+    grades.forEach(grade => scores.set(grade.subject, grade.score));
+  }
+  return scores;
+};
+
+// Grades are compared per subject ("grades.Math"), so one recorded score is one change
+export const diffStudentSnapshots = (before: StudentSnapshot | null, after: StudentSnapshot): IStudentFieldChange[] => {
+  const changes: IStudentFieldChange[] = [];
+
+  for (const field of TRACKED_STUDENT_FIELDS) {
+    if (field === 'grades') continue;
+
+    const previous = before ? before[field] : null;
+    if (JSON.stringify(previous) !== JSON.stringify(after[field])) {
+      changes.push({ field, before: previous, after: after[field] });
+    }
+  }
+
+  const previousScores = gradeScores(before?.grades);
+  const nextScores = gradeScores(after.grades);
+  for (const subject of new Set([...previousScores.keys(), ...nextScores.keys()])) {
+    const previous = previousScores.get(subject) ?? null;
+    const next = nextScores.get(subject) ?? null;
+    if (previous !== next) {
+      changes.push({ field: `${GRADE_FIELD_PREFIX}${subject}`, before: previous, after: next });
+    }
+  }
+
+  return changes;
+};
+
+// Undoes changes on a snapshot, giving the record as it was before they were made
+export const revertChanges = (snapshot: StudentSnapshot, changes: IStudentFieldChange[]): StudentSnapshot => {
+  const reverted: StudentSnapshot = { ...snapshot };
+  let grades = Array.isArray(snapshot.grades) ? [...snapshot.grades] : [];
+
+  for (const change of changes) {
+    if (!change.field.startsWith(GRADE_FIELD_PREFIX)) {
+      reverted[change.field] = change.before;
+      continue;
+    }
+
+    const subject = change.field.slice(GRADE_FIELD_PREFIX.length);
+    const index = grades.findIndex(grade => grade.subject === subject);
+    if (change.before === null) {
+      grades = grades.filter(grade => grade.subject !== subject);
+    } else if (index === -1) {
+      grades.push({ subject, score: change.before });
+    } else {
+      grades[index] = { ...grades[index], score: change.before };
+    }
+  }
+
+  reverted.grades = grades;
+  return reverted;
+};
+
+// Appends a version when the tracked fields changed. before is null for a newly created student, and
+// may be a snapshot taken before a document was modified in place.
+export const recordStudentChange = async (
+  before: StudentRecord | StudentSnapshot | null,
+  after: StudentRecord,
+  action: StudentHistoryAction,
+  changedBy?: string | null
+): Promise<IStudentHistory | null> => {
+  const snapshot = snapshotStudent(after);
+  const changes = diffStudentSnapshots(before ? snapshotStudent(before as StudentRecord) : null, snapshot);
+  if (before && changes.length === 0) return null;
+
+  return StudentHistory.record({
+    student: String(after._id),
+    action,
+    changedBy,
+    changes,
+    snapshot
+  });
+};
+
+// Records changed before history was kept have no versions for that period; their state then is
+// the current record with every later change undone. Returns null when the student did not exist yet.
+export const getStudentAsOf = async (student: StudentRecord, at: Date): Promise<StudentAsOf | null> => {
+  if (student.createdAt && new Date(student.createdAt) > at) return null;
+
+  const version = await StudentHistory.findOne({ student: student._id, createdAt: { $lte: at } }).sort({ version: -1 });
+  if (version) {
+    return { asOf: at, version: version.version, recordedAt: version.createdAt, student: version.snapshot };
+  }
+
+  const first = await StudentHistory.findOne({ student: student._id }).sort({ version: 1 });
+  if (!first) {
+    return { asOf: at, version: null, recordedAt: null, student: snapshotStudent(student) };
+  }
+  if (createdStudent(first)) return null;
+
+  return { asOf: at, version: null, recordedAt: null, student: revertChanges(first.snapshot, first.changes) };
+};
+
+export const listStudentHistory = async (studentId: string, limit: number, beforeVersion: number | null): Promise<PopulatedStudentHistory[]> => {
+  const filter: Record<string, unknown> = { student: studentId };
+  if (beforeVersion !== null) filter.version = { $lt: beforeVersion };
+
+  return StudentHistory.find(filter)
+    .sort({ version: -1 })
+    .limit(limit)
+    .populate<{ changedBy: Pick<IUser, '_id' | 'username' | 'role'> | null }>('changedBy', 'username role');
+};
+
+export const parseHistoryQuery = (query: Record<string, unknown>): HistoryQueryResult => {
+  const errors: string[] = [];
+
+  // A bare date ("2025-10-01") means the end of that day (UTC): the record as it stood on that date
+  let at: Date | null = null;
+  if (typeof query.at === 'string' && query.at.trim()) {
+    const value = query.at.trim();
+    at = new Date(DATE_ONLY_PATTERN.test(value) ? `${value}T23:59:59.999Z` : value);
+    if (Number.isNaN(at.getTime())) errors.push('at must be a valid date');
+  }
+
+  let limit = DEFAULT_HISTORY_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+      errors.push(`limit must be a whole number between 1 and ${MAX_HISTORY_PAGE_SIZE}`);
+    }
+  }
+
+  let beforeVersion: number | null = null;
+  if (query.beforeVersion !== undefined) {
+    beforeVersion = Number(query.beforeVersion);
+    if (!Number.isInteger(beforeVersion) || beforeVersion < 1) {
+      errors.push('beforeVersion must be a positive whole number');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, status: 400, body: { error: 'Invalid query parameters', details: errors } };
+  }
+
+  return { ok: true, at, limit, beforeVersion };
+};
+
+// Imports record 'imported' for new and existing students alike; only a new one starts without a studentId
+function createdStudent(version: IStudentHistory): boolean {
+  return version.action === 'created' ||
+    (version.action === 'imported' && version.changes.some(change => change.field === 'studentId' && change.before === null));
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import mongoose from 'mongoose';
+import Counter from '../models/Counter';
+
+// Supported tokens: {YYYY}, {YY} and {SEQ} / {SEQ:n} (sequence zero-padded to n digits)
+export const DEFAULT_STUDENT_ID_FORMAT = 'STU-{YYYY}-{SEQ:4}';
+export const MAX_RESERVATION_SIZE = 1000;
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+
+export const getStudentIdFormat = (): string => {
+  return process.env.STUDENT_ID_FORMAT || DEFAULT_STUDENT_ID_FORMAT;
+};
+
+export const validateStudentIdFormat = (template: string): string[] => {
+  const errors: string[] = [];
+  const seqTokens = template.match(SEQ_TOKEN) || [];
+
+  if (seqTokens.length !== 1) {
+    errors.push('Student ID format must contain exactly one {SEQ} or {SEQ:n} token');
+  }
+
+  const unknownTokens = (template.match(/\{[^}]*\}/g) || [])
+    .filter(token => !['{YYYY}', '{YY}'].includes(token) && !/^\{SEQ(?::\d+)?\}$/.test(token));
+  if (unknownTokens.length > 0) {
+    errors.push(`Unknown token(s) in student ID format: ${unknownTokens.join(', ')}`);
+  }
+
+  return errors;
+};
+
+export const formatStudentId = (template: string, year: number, seq: number): string => {
+  return template
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year).slice(-2))
+    .replace(SEQ_TOKEN, (_match, width?: string) => String(seq).padStart(width ? Number(width) : 0, '0'));
+};
+
+const counterKey = (year: number): string => `studentId:${year}`;
+
+const resolveFormat = (): string => {
+  const template = getStudentIdFormat();
+  const errors = validateStudentIdFormat(template);
+  if (errors.length > 0) {
+    throw new Error(`Invalid STUDENT_ID_FORMAT: ${errors.join('; ')}`);
+  }
+  return template;
+};
+
+// Matches IDs produced by the template for one year, capturing the sequence number
+const studentIdPattern = (template: string, year: number): RegExp => {
+  const escaped = template.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+  const source = escaped
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year).slice(-2))
+    .replace(SEQ_TOKEN, '(\\d+)');
+  return new RegExp(`^${source}$`);
+};
+
+// The first allocation of a year continues after any IDs already issued under the same format,
+// e.g. records created before the counter existed.
+const ensureCounterSeeded = async (template: string, year: number): Promise<void> => {
+  const key = counterKey(year);
+  if (await Counter.exists({ _id: key })) return;
+
+  const pattern = studentIdPattern(template, year);
+  const existing = await mongoose.model('Student').find({ studentId: pattern }, 'studentId').lean<{ studentId: string }[]>();
+  const highest = existing.reduce((max, student) => {
+    const match = pattern.exec(student.studentId);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+
+  await Counter.initialize(key, highest);
+};
+
+export const allocateStudentIds = async (count: number = 1, date: Date = new Date()): Promise<string[]> => {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_RESERVATION_SIZE) {
+    throw new RangeError(`Count must be an integer between 1 and ${MAX_RESERVATION_SIZE}`);
+  }
+
+  const template = resolveFormat();
+  const year = date.getFullYear();
+  await ensureCounterSeeded(template, year);
+  const last = await Counter.increment(counterKey(year), count);
+  const first = last - count + 1;
+
+  return Array.from({ length: count }, (_value, index) => formatStudentId(template, year, first + index));
+};
+
+export const allocateStudentId = async (date: Date = new Date()): Promise<string> => {
+  const [studentId] = await allocateStudentIds(1, date);
+  return studentId;
+};
+
+export const previewNextStudentId = async (date: Date = new Date()): Promise<{ studentId: string; sequence: number; year: number; format: string }> => {
+  const template = resolveFormat();
+  const year = date.getFullYear();
+  await ensureCounterSeeded(template, year);
+  const sequence = (await Counter.current(counterKey(year))) + 1;
+
+  return {
+    studentId: formatStudentId(template, year, sequence),
+    sequence,
+    year,
+    format: template
+  };
+};
\ No newline at end of file
@@ -0,0 +1,235 @@
+import Student, { IStudent } from '../models/Student';
+import { parseCsvRecords } from './csv';
+import { isArchived } from './studentArchive';
+import { recordStudentChange } from './studentHistory';
+import { relinkStudentAccount, UpdateStudentRequest, validateUpdateData } from './studentUpdates';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const IMPORT_FIELDS = ['studentId', 'name', 'email', 'age', 'gradeLevel'] as const;
+const REQUIRED_FOR_CREATE = ['name', 'email', 'age', 'gradeLevel'] as const;
+
+type ImportField = typeof IMPORT_FIELDS[number];
+
+export type ImportRowStatus = 'created' | 'updated' | 'skipped' | 'failed';
+
+export interface ImportRowReport {
+  row: number;
+  status: ImportRowStatus;
+  id?: string;
+  studentId?: string | null;
+  email?: string;
+  changes?: string[];
+  reasons?: string[];
+}
+
+export interface ImportReport {
+  summary: Record<ImportRowStatus, number> & { total: number };
+  rows: ImportRowReport[];
+  ignoredColumns: string[];
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // User recorded as the author of the changes in the student history
+  importedBy?: string;
+}
+
+export type ImportRowsResult =
+  | { ok: true; rows: Record<string, unknown>[] }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+// "Student ID", "student_id" and "studentid" all name the studentId column
+const columnKey = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const COLUMN_FIELDS: Record<string, ImportField> = Object.fromEntries(
+  IMPORT_FIELDS.map(field => [columnKey(field), field])
+);
+
+// Accepts CSV text (header row first) or a JSON array of objects, bare or as { students: [...] }
+export const readImportRows = (body: unknown, isCsv: boolean): ImportRowsResult => {
+  let rows: unknown;
+
+  if (isCsv) {
+    if (typeof body !== 'string' || !body.trim()) {
+      return { ok: false, status: 400, body: { error: 'CSV body is empty' } };
+    }
+    const parsed = parseCsvRecords(body);
+    if (!parsed.ok) {
+      return { ok: false, status: 400, body: { error: 'Invalid CSV', message: parsed.error, line: parsed.line } };
+    }
+    rows = parsed.rows;
+  } else {
+    rows = Array.isArray(body) ? body : (body as { students?: unknown } | undefined)?.students;
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'No rows to import', message: 'Send a CSV file with a header row or a JSON array of students' }
+    };
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      ok: false,
+      status: 413,
+      body: { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows`, rows: rows.length }
+    };
+  }
+
+  if (rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+    return { ok: false, status: 400, body: { error: 'Every row must be an object' } };
+  }
+
+  return { ok: true, rows: rows as Record<string, unknown>[] };
+};
+
+// Rows are matched on studentId, then on email: matches are updated with the non-empty fields
+// of the row, everything else is created. A dry run reports the same outcome without writing.
+export const importStudents = async (rows: Record<string, unknown>[], options: ImportOptions): Promise<ImportReport> => {
+  const report: ImportReport = {
+    summary: { total: rows.length, created: 0, updated: 0, skipped: 0, failed: 0 },
+    rows: [],
+    ignoredColumns: findIgnoredColumns(rows)
+  };
+  const seen = new Map<string, number>();
+
+  for (let index = 0; index < rows.length; index++) {
+    const rowReport = await importRow(index + 1, normalizeRow(rows[index]), seen, options);
+    report.summary[rowReport.status]++;
+    report.rows.push(rowReport);
+  }
+
+  return report;
+};
+
+async function importRow(row: number, data: UpdateStudentRequest, seen: Map<string, number>, options: ImportOptions): Promise<ImportRowReport> {
+  const base = { row, studentId: data.studentId ?? null, ...(data.email && { email: data.email }) };
+
+  if (!data.studentId && !data.email) {
+    return { ...base, status: 'failed', reasons: ['Each row needs a studentId or an email to match on'] };
+  }
+
+  // Two rows for the same student would overwrite each other, so only the first one counts
+  const keys = [data.studentId && `studentId:${data.studentId}`, data.email && `email:${data.email}`].filter(Boolean) as string[];
+  const duplicateOf = keys.map(key => seen.get(key)).find(previous => previous !== undefined);
+  if (duplicateOf !== undefined) {
+    return { ...base, status: 'failed', reasons: [`Duplicate of row ${duplicateOf}`] };
+  }
+  keys.forEach(key => seen.set(key, row));
+
+  let existing = data.studentId ? await Student.findOne({ studentId: data.studentId }) : null;
+  if (!existing && data.email) {
+    existing = await Student.findOne({ email: data.email });
+
+    // The row's email belongs to a student with another ID: updating would rewrite that student's
+    // ID and creating would collide on the email, so the row is left for someone to check
+    if (existing && data.studentId && existing.studentId) {
+      return {
+        ...base,
+        id: String(existing._id),
+        status: 'skipped',
+        reasons: [`Email ${data.email} belongs to student ${existing.studentId}, not ${data.studentId}`]
+      };
+    }
+  }
+
+  try {
+    return existing
+      ? await updateFromRow(base, data, existing, options)
+      : await createFromRow(base, data, options);
+  } catch (error: any) {
+    if (error.name === 'ValidationError') {
+      return { ...base, status: 'failed', reasons: Object.values(error.errors).map((err: any) => err.message) };
+    }
+    if (error.code === 11000) {
+      const field = Object.keys(error.keyPattern || {})[0];
+      return { ...base, status: 'failed', reasons: [`Duplicate ${field}: This ${field} already exists`] };
+    }
+    throw error;
+  }
+}
+
+async function createFromRow(base: Omit<ImportRowReport, 'status'>, data: UpdateStudentRequest, options: ImportOptions): Promise<ImportRowReport> {
+  const missing = REQUIRED_FOR_CREATE.filter(field => data[field] === undefined);
+  if (missing.length > 0) {
+    return { ...base, status: 'failed', reasons: [`No matching student; missing required fields to create one: ${missing.join(', ')}`] };
+  }
+
+  const validation = await validateUpdateData(data);
+  if (!validation.isValid) {
+    return { ...base, status: 'failed', reasons: validation.errors };
+  }
+
+  if (options.dryRun) {
+    return { ...base, status: 'created' };
+  }
+
+  // Without a studentId the model allocates the next sequential one, as in addStudent
+  const student = new Student(data);
+  await student.save();
+  await recordStudentChange(null, student, 'imported', options.importedBy);
+
+  return { ...base, status: 'created', id: String(student._id), studentId: student.studentId };
+}
+
+async function updateFromRow(base: Omit<ImportRowReport, 'status'>, data: UpdateStudentRequest, existing: IStudent, options: ImportOptions): Promise<ImportRowReport> {
+  const id = String(existing._id);
+  if (isArchived(existing)) {
+    return { ...base, id, studentId: existing.studentId, status: 'failed', reasons: ['Student is archived; restore it before importing changes'] };
+  }
+
+  const changes = IMPORT_FIELDS.filter(field => data[field] !== undefined && data[field] !== existing[field]);
+
+  if (changes.length === 0) {
+    return { ...base, id, studentId: existing.studentId, status: 'skipped', reasons: ['No changes'] };
+  }
+
+  const updateData: UpdateStudentRequest = Object.fromEntries(changes.map(field => [field, data[field]]));
+  const validation = await validateUpdateData(updateData, id);
+  if (!validation.isValid) {
+    return { ...base, id, studentId: existing.studentId, status: 'failed', reasons: validation.errors };
+  }
+
+  if (!options.dryRun) {
+    const updated = await Student.findByIdAndUpdate(id, { ...updateData, updatedAt: new Date() }, { new: true, runValidators: true });
+    await relinkStudentAccount(existing.studentId, updateData.studentId ?? existing.studentId);
+    if (updated) {
+      await recordStudentChange(existing, updated, 'imported', options.importedBy);
+    }
+  }
+
+  return { ...base, id, studentId: updateData.studentId ?? existing.studentId, status: 'updated', changes };
+}
+
+// Same normalisation as the update endpoints (trimmed strings, lowercase email, numeric age).
+// Empty cells mean "leave as is", so a sparse CSV only touches the columns it fills in.
+function normalizeRow(raw: Record<string, unknown>): UpdateStudentRequest {
+  const data: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(raw)) {
+    const field = COLUMN_FIELDS[columnKey(column)];
+    if (!field || value === undefined || value === null) continue;
+
+    const text = String(value).trim();
+    if (text === '') continue;
+
+    if (field === 'email') {
+      data.email = text.toLowerCase();
+    } else if (field === 'age') {
+      // Left as text when not numeric so validateUpdateData reports it
+      data.age = Number.isNaN(Number(text)) ? text : Number(text);
+    } else {
+      data[field] = text;
+    }
+  }
+
+  return data as UpdateStudentRequest;
+}
+
+function findIgnoredColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set(rows.flatMap(row => Object.keys(row)));
+  return [...columns].filter(column => !COLUMN_FIELDS[columnKey(column)]);
+}
\ No newline at end of file
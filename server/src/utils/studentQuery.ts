@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+
+export const DEFAULT_STUDENT_PAGE_SIZE = 25;
+export const MAX_STUDENT_PAGE_SIZE = 100;
+
+export const STUDENT_SORT_FIELDS = ['name', 'studentId', 'email', 'age', 'gradeLevel', 'createdAt', 'updatedAt'] as const;
+export const STUDENT_PROJECTION_FIELDS = ['studentId', 'name', 'email', 'age', 'gradeLevel', 'grades', 'archive', 'createdAt', 'updatedAt'] as const;
+export const STUDENT_ARCHIVE_FILTERS = ['false', 'true', 'all'] as const;
+
+type StudentSortField = typeof STUDENT_SORT_FIELDS[number];
+
+const DATE_SORT_FIELDS: StudentSortField[] = ['createdAt', 'updatedAt'];
+const DEFAULT_SORT = 'name';
+
+export interface StudentListQuery {
+  filter: Record<string, any>;
+  sortField: StudentSortField;
+  sortDirection: 1 | -1;
+  limit: number;
+  cursor: StudentCursor | null;
+  projection: Record<string, 0 | 1> | null;
+  // Added to an inclusion projection only so the next cursor can be built; removed from the output
+  hiddenSortField: boolean;
+}
+
+export interface StudentCursor {
+  value: unknown;
+  id: string;
+}
+
+export type StudentListQueryResult =
+  | { ok: true; query: StudentListQuery }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsPattern = (value: string): RegExp => new RegExp(escapeRegex(value.trim()), 'i');
+
+// Query-string values can arrive as arrays (?a=1&a=2); the last one wins
+const readParam = (query: Record<string, unknown>, name: string): string | undefined => {
+  const value = query[name];
+  const last = Array.isArray(value) ? value[value.length - 1] : value;
+  return typeof last === 'string' && last.trim() ? last.trim() : undefined;
+};
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Cursors are opaque to clients: the sort they were issued for plus the last row's sort value and
+// id, so a page boundary stays stable while students are added or removed
+export const encodeStudentCursor = (sort: string, value: unknown, id: string): string => {
+  const encodedValue = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify({ s: sort, v: encodedValue, id })).toString('base64url');
+};
+
+export const decodeStudentCursor = (cursor: string, sort: string): StudentCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || parsed.s !== sort || !mongoose.Types.ObjectId.isValid(parsed.id)) return null;
+
+    const field = sort.replace(/^-/, '') as StudentSortField;
+    if (DATE_SORT_FIELDS.includes(field)) {
+      const date = new Date(parsed.v);
+      return Number.isNaN(date.getTime()) ? null : { value: date, id: String(parsed.id) };
+    }
+
+    return { value: parsed.v, id: String(parsed.id) };
+  } catch {
+    return null;
+  }
+};
+
+export const parseStudentListQuery = (query: Record<string, unknown>): StudentListQueryResult => {
+  const filter: Record<string, any> = {};
+  const errors: string[] = [];
+
+  // Archived (withdrawn, graduated, transferred) students are hidden unless asked for
+  const archived = readParam(query, 'archived') || 'false';
+  if (archived === 'false') {
+    filter.archive = null;
+  } else if (archived === 'true') {
+    filter.archive = { $ne: null };
+  } else if (archived !== 'all') {
+    errors.push(`archived must be one of ${STUDENT_ARCHIVE_FILTERS.join(', ')}`);
+  }
+
+  const search = readParam(query, 'search');
+  if (search) {
+    const pattern = containsPattern(search);
+    filter.$or = [{ name: pattern }, { email: pattern }, { studentId: pattern }];
+  }
+
+  for (const field of ['name', 'email', 'studentId']) {
+    const value = readParam(query, field);
+    if (value) filter[field] = containsPattern(value);
+  }
+
+  const gradeLevel = readParam(query, 'gradeLevel');
+  if (gradeLevel) {
+    filter.gradeLevel = { $in: splitList(gradeLevel) };
+  }
+
+  const age: Record<string, number> = {};
+  for (const [param, operator] of [['minAge', '$gte'], ['maxAge', '$lte']]) {
+    const value = readParam(query, param);
+    if (value === undefined) continue;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      errors.push(`${param} must be a whole number`);
+    } else {
+      age[operator] = parsed;
+    }
+  }
+  if (age.$gte !== undefined && age.$lte !== undefined && age.$gte > age.$lte) {
+    errors.push('minAge cannot be greater than maxAge');
+  }
+  if (Object.keys(age).length > 0) filter.age = age;
+
+  const sort = readParam(query, 'sort') || DEFAULT_SORT;
+  const sortField = sort.replace(/^-/, '') as StudentSortField;
+  if (!STUDENT_SORT_FIELDS.includes(sortField)) {
+    errors.push(`sort must be one of ${STUDENT_SORT_FIELDS.join(', ')}, optionally prefixed with - for descending order`);
+  }
+
+  const limitParam = readParam(query, 'limit');
+  const limit = limitParam === undefined ? DEFAULT_STUDENT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STUDENT_PAGE_SIZE) {
+    errors.push(`limit must be a whole number between 1 and ${MAX_STUDENT_PAGE_SIZE}`);
+  }
+
+  let cursor: StudentCursor | null = null;
+  const cursorParam = readParam(query, 'cursor');
+  if (cursorParam) {
+    cursor = decodeStudentCursor(cursorParam, sort);
+    if (!cursor) errors.push('cursor is invalid or was issued for a different sort order');
+  }
+
+  let projection: Record<string, 0 | 1> | null = null;
+  let hiddenSortField = false;
+  const fields = readParam(query, 'fields');
+  if (fields) {
+    const requested = splitList(fields);
+    const excluded = requested.filter(field => field.startsWith('-')).map(field => field.slice(1));
+    const included = requested.filter(field => !field.startsWith('-'));
+    const unknownFields = [...excluded, ...included]
+      .filter(field => !(STUDENT_PROJECTION_FIELDS as readonly string[]).includes(field));
+
+    if (unknownFields.length > 0) {
+      errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed: ${STUDENT_PROJECTION_FIELDS.join(', ')}`);
+    } else if (excluded.length > 0 && included.length > 0) {
+      errors.push('fields cannot mix included and excluded (-) fields');
+    } else if (excluded.length > 0) {
+      projection = Object.fromEntries(excluded.map(field => [field, 0]));
+      hiddenSortField = excluded.includes(sortField);
+      if (hiddenSortField) delete projection[sortField];
+    } else {
+      projection = Object.fromEntries(included.map(field => [field, 1]));
+      hiddenSortField = !included.includes(sortField);
+      projection[sortField] = 1;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, status: 400, body: { error: 'Invalid query parameters', details: errors } };
+  }
+
+  return {
+    ok: true,
+    query: {
+      filter,
+      sortField,
+      sortDirection: sort.startsWith('-') ? -1 : 1,
+      limit,
+      cursor,
+      projection,
+      hiddenSortField
+    }
+  };
+};
+
+// Rows strictly after the cursor in (sort field, _id) order; _id breaks ties between equal values
+export const buildCursorFilter = (query: StudentListQuery): Record<string, any> | null => {
+  if (!query.cursor) return null;
+
+  const operator = query.sortDirection === 1 ? '$gt' : '$lt';
+  const id = new mongoose.Types.ObjectId(query.cursor.id);
+
+  return {
+    $or: [
+      { [query.sortField]: { [operator]: query.cursor.value } },
+      { [query.sortField]: query.cursor.value, _id: { [operator]: id } }
+    ]
+  };
+};
\ No newline at end of file
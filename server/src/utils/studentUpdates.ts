@@ -0,0 +1,88 @@
+import Student from '../models/Student';
+import User from '../models/User';
+
+export interface UpdateStudentRequest {
+  name?: string;
+  email?: string;
+  age?: number;
+  gradeLevel?: string;
+  studentId?: string;
+}
+
+// Field rules shared by the update endpoints and the bulk import. Uniqueness is checked against every
+// other record, so pass the record being updated (or nothing for a new one).
+export async function validateUpdateData(
+  updateData: UpdateStudentRequest, 
+  currentStudentId?: string
+): Promise<{ isValid: boolean; errors: string[] }> {
+  const errors: string[] = [];
+
+  if (updateData.name !== undefined) {
+    if (typeof updateData.name !== 'string' || updateData.name.trim().length === 0) {
+      errors.push('Name must be a non-empty string');
+    } else if (updateData.name.trim().length > 100) {
+      errors.push('Name must be less than 100 characters');
+    }
+  }
+
+  if (updateData.email !== undefined) {
+    if (typeof updateData.email !== 'string') {
+      errors.push('Email must be a string');
+    } else {
+      const emailRegex = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
+      if (!emailRegex.test(updateData.email)) {
+        errors.push('Invalid email format');
+      } else {
+        const existingStudent = await Student.findOne({ 
+          email: updateData.email.toLowerCase().trim(),
+          ...(currentStudentId && { _id: { $ne: currentStudentId } })
+        });
+        if (existingStudent) {
+          errors.push('Email already exists');
+        }
+      }
+    }
+  }
+
+  if (updateData.age !== undefined) {
+    const age = Number(updateData.age);
+    if (isNaN(age) || age < 3 || age > 25) {
+      errors.push('Age must be a number between 3 and 25');
+    }
+  }
+
+  if (updateData.gradeLevel !== undefined) {
+    if (typeof updateData.gradeLevel !== 'string' || updateData.gradeLevel.trim().length === 0) {
+      errors.push('Grade level must be a non-empty string');
+    }
+  }
+
+  if (updateData.studentId !== undefined) {
+    if (typeof updateData.studentId !== 'string' || updateData.studentId.trim().length === 0) {
+      errors.push('Student ID must be a non-empty string');
+    } else {
+      const existingStudent = await Student.findOne({ 
+        studentId: updateData.studentId.trim(),
+        ...(currentStudentId && { _id: { $ne: currentStudentId } })
+      });
+      if (existingStudent) {
+        errors.push('Student ID already exists');
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// A student account is bound to its record through studentId, so a renumbered record takes its account along
+export async function relinkStudentAccount(previousStudentId: string, newStudentId: string): Promise<void> {
+  if (!previousStudentId || previousStudentId === newStudentId) return;
+
+  await User.updateMany(
+    { studentId: previousStudentId },
+    { $set: { studentId: newStudentId }, $inc: { tokenVersion: 1 } }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { Response } from 'express';
+import { Permission } from '../config/permissions';
+import { formatCsvRow } from './csv';
+import { writeChunk } from './streams';
+import { CellValue, createXlsxWriter } from './xlsx';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Columns are always written in the order they are declared, whatever order the caller asks for,
+// so files from different runs line up. A column with `requires` is left out for callers without
+// that permission.
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  requires?: Permission;
+  value: (row: T) => CellValue;
+}
+
+export interface TableWriter {
+  writeRow(values: CellValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export type ColumnSelectionResult<T> =
+  | { ok: true; columns: ExportColumn<T>[] }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export const isExportFormat = (value: unknown): value is ExportFormat => {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+};
+
+// `requested` is the comma-separated ?columns= value; without it every permitted column is exported
+export const selectColumns = <T>(
+  columns: ExportColumn<T>[],
+  permissions: Permission[],
+  requested?: unknown
+): ColumnSelectionResult<T> => {
+  const permitted = columns.filter(column => !column.requires || permissions.includes(column.requires));
+  if (typeof requested !== 'string' || !requested.trim()) {
+    return { ok: true, columns: permitted };
+  }
+
+  const keys = requested.split(',').map(key => key.trim()).filter(Boolean);
+  const unknownColumns = keys.filter(key => !columns.some(column => column.key === key));
+  if (unknownColumns.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Unknown export columns', unknownColumns, allowedColumns: permitted.map(column => column.key) }
+    };
+  }
+
+  const restrictedColumns = keys.filter(key => !permitted.some(column => column.key === key));
+  if (restrictedColumns.length > 0) {
+    return {
+      ok: false,
+      status: 403,
+      body: { error: 'Your role cannot export these columns', restrictedColumns }
+    };
+  }
+
+  return { ok: true, columns: permitted.filter(column => keys.includes(column.key)) };
+};
+
+// Sets the download headers and returns a writer that streams rows straight into the response
+export const startTableExport = async (
+  res: Response,
+  format: ExportFormat,
+  filenameBase: string,
+  sheetName: string
+): Promise<TableWriter> => {
+  const date = new Date().toISOString().slice(0, 10);
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filenameBase}-${date}.${format}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (format === 'xlsx') {
+    return createXlsxWriter(res, sheetName);
+  }
+
+  const write = (text: string): Promise<void> => writeChunk(res, text);
+
+  // The byte order mark makes Excel read the file as UTF-8
+  await write('\uFEFF');
+
+  return {
+    writeRow: values => write(formatCsvRow(values)),
+    end: async () => {
+      res.end();
+    }
+  };
+};
\ No newline at end of file
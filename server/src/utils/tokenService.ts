@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/User';
+import User from '../models/User';
+import Session from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+export const TWO_FACTOR_CHALLENGE_TTL = process.env.TWO_FACTOR_CHALLENGE_TTL || '5m';
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: string;
+}
+
+export interface ClientContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type RotationResult =
+  | ({ status: 'rotated'; user: IUser } & IssuedTokens)
+  | { status: 'invalid' | 'expired' | 'revoked' | 'reused' };
+
+// 'verify' asks for a code from an enrolled authenticator; 'setup' lets a user whose role
+// requires two-factor enroll before the first full login
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorChallenge {
+  userId: string;
+  role: string;
+  purpose: TwoFactorChallengePurpose;
+  tokenVersion: number;
+}
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const refreshExpiry = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export const signAccessToken = (user: IUser, sessionId: string): string => {
+  const tokenPayload: any = {
+    userId: user._id,
+    role: user.role,
+    sid: sessionId,
+    ver: user.tokenVersion || 0
+  };
+
+  if (user.role === 'student' && user.studentId) {
+    tokenPayload.studentId = user.studentId;
+  }
+
+  return jwt.sign(tokenPayload, process.env.JWT_SECRET || 'secret', {
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn']
+  });
+};
+
+// Challenge tokens carry no session id, so authenticate() never accepts them as access tokens
+export const signTwoFactorChallenge = (user: IUser, purpose: TwoFactorChallengePurpose): string => {
+  return jwt.sign(
+    { userId: user._id, role: user.role, ver: user.tokenVersion || 0, type: 'two_factor_challenge', purpose },
+    process.env.JWT_SECRET || 'secret',
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL as jwt.SignOptions['expiresIn'] }
+  );
+};
+
+export const verifyTwoFactorChallenge = (token: string, purpose: TwoFactorChallengePurpose): TwoFactorChallenge | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as any;
+    if (decoded.type !== 'two_factor_challenge' || decoded.purpose !== purpose) return null;
+    return { userId: String(decoded.userId), role: decoded.role, purpose, tokenVersion: decoded.ver || 0 };
+  } catch {
+    return null;
+  }
+};
+
+const createRefreshToken = async (sessionId: string, userId: string, expiresAt: Date) => {
+  const raw = crypto.randomBytes(48).toString('base64url');
+  const record = await RefreshToken.create({
+    sessionId,
+    userId,
+    tokenHash: hashToken(raw),
+    expiresAt
+  });
+  return { raw, record };
+};
+
+export const issueTokens = async (user: IUser, context: ClientContext = {}): Promise<IssuedTokens> => {
+  const expiresAt = refreshExpiry();
+  const session = await Session.create({
+    userId: user._id,
+    expiresAt,
+    ...(context.ipAddress && { ipAddress: context.ipAddress }),
+    ...(context.userAgent && { userAgent: context.userAgent.slice(0, 512) })
+  });
+  const sessionId = String(session._id);
+  const { raw } = await createRefreshToken(sessionId, String(user._id), expiresAt);
+
+  return {
+    accessToken: signAccessToken(user, sessionId),
+    refreshToken: raw,
+    expiresIn: ACCESS_TOKEN_TTL,
+    sessionId
+  };
+};
+
+// Each refresh token is single-use. Presenting one that was already exchanged means it leaked,
+// so the whole session (token family) is revoked.
+export const rotateRefreshToken = async (rawToken: string): Promise<RotationResult> => {
+  const tokenHash = hashToken(rawToken);
+  const now = new Date();
+
+  const token = await RefreshToken.findOneAndUpdate(
+    { tokenHash, usedAt: null },
+    { usedAt: now }
+  );
+
+  if (!token) {
+    const replayed = await RefreshToken.findOne({ tokenHash });
+    if (!replayed) {
+      return { status: 'invalid' };
+    }
+
+    await Session.revoke(String(replayed.sessionId), 'refresh_token_reuse');
+    console.warn('Refresh token reuse detected, session revoked:', {
+      sessionId: String(replayed.sessionId),
+      userId: String(replayed.userId),
+      timestamp: now.toISOString()
+    });
+    return { status: 'reused' };
+  }
+
+  if (token.expiresAt <= now) {
+    return { status: 'expired' };
+  }
+
+  const sessionId = String(token.sessionId);
+  if (!(await Session.isActive(sessionId))) {
+    return { status: 'revoked' };
+  }
+
+  const user = await User.findById(token.userId);
+  if (!user) {
+    await Session.revoke(sessionId, 'user_not_found');
+    return { status: 'invalid' };
+  }
+
+  if (user.disabled) {
+    await Session.revoke(sessionId, 'account_disabled');
+    return { status: 'revoked' };
+  }
+
+  const expiresAt = refreshExpiry();
+  const { raw, record } = await createRefreshToken(sessionId, String(user._id), expiresAt);
+  await RefreshToken.updateOne({ _id: token._id }, { replacedBy: record._id });
+  await Session.updateOne({ _id: sessionId }, { expiresAt, lastSeenAt: new Date() });
+
+  return {
+    status: 'rotated',
+    user,
+    accessToken: signAccessToken(user, sessionId),
+    refreshToken: raw,
+    expiresIn: ACCESS_TOKEN_TTL,
+    sessionId
+  };
+};
+
+// Tokens issued before the user's security stamp last changed are no longer honoured
+export const isCurrentTokenVersion = (user: IUser, tokenVersion: unknown): boolean => {
+  return (Number(tokenVersion) || 0) === (user.tokenVersion || 0);
+};
+
+export const revokeSession = async (sessionId: string, reason: string): Promise<void> => {
+  await Session.revoke(sessionId, reason);
+};
\ No newline at end of file
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second steps), the variant
+// every common authenticator app supports
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+const SECRET_BYTES = 20;
+const DEFAULT_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+};
+
+export const timeStep = (now: number = Date.now()): number => {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+// RFC 4226 HOTP: HMAC the big-endian counter, then dynamically truncate to the requested digits
+export const generateHotp = (key: Buffer, counter: number, digits: number = TOTP_DIGITS): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+};
+
+export const generateTotp = (secret: string, now: number = Date.now()): string => {
+  return generateHotp(base32Decode(secret), timeStep(now));
+};
+
+// Returns the matching time step, so callers can refuse to accept the same code twice;
+// null when the code does not match within +/- window steps of clock drift
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  options: { now?: number; window?: number; afterStep?: number | null } = {}
+): number | null => {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const current = timeStep(options.now);
+  const window = options.window ?? DEFAULT_WINDOW;
+
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.afterStep != null && step <= options.afterStep) continue;
+
+    const expected = generateHotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// Key URI understood by authenticator apps; clients render it as the enrollment QR code
+export const buildOtpauthUrl = (secret: string, accountName: string, issuer: string = process.env.TOTP_ISSUER || 'Campus Core'): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Secrets must be recoverable to compute codes, so they are encrypted (AES-256-GCM) rather than hashed
+const encryptionKey = (): Buffer => {
+  const material = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'secret';
+  return crypto.createHash('sha256').update(material).digest();
+};
+
+export const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are shown once and stored hashed, like refresh tokens
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
+
+export const normalizeRecoveryCode = (code: string): string => {
+  return String(code).toLowerCase().replace(/[^0-9a-f]/g, '');
+};
\ No newline at end of file
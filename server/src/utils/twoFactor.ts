@@ -0,0 +1,147 @@
+import User, { IUser } from '../models/User';
+import SecurityPolicy from '../models/SecurityPolicy';
+import { hashToken } from './tokenService';
+import {
+  buildOtpauthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from './totp';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string): string => hashToken(normalizeRecoveryCode(code));
+
+// Students sign in with passwords only; staff roles, built-in or custom, may enroll
+export const canUseTwoFactor = (role: string): boolean => {
+  return role !== 'student';
+};
+
+export const isTwoFactorRequired = async (user: IUser): Promise<boolean> => {
+  return canUseTwoFactor(user.role) && SecurityPolicy.isTwoFactorRequired(user.role);
+};
+
+// Stores a new secret as pending; it only replaces the active one once a code from it is confirmed
+export const startTwoFactorSetup = async (user: IUser): Promise<TwoFactorSetup> => {
+  const secret = generateTotpSecret();
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } }
+  );
+
+  return {
+    secret,
+    otpauthUrl: buildOtpauthUrl(secret, user.email || user.username)
+  };
+};
+
+// Returns the one-time display of the recovery codes, or null when the code does not match
+export const confirmTwoFactorSetup = async (user: IUser, code: string): Promise<string[] | null> => {
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) return null;
+
+  const step = verifyTotp(decryptSecret(pendingSecret), code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': pendingSecret,
+        'twoFactor.pendingSecret': null,
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.enabledAt': new Date(),
+        'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode)
+      }
+    }
+  );
+
+  return recoveryCodes;
+};
+
+// Each time step is accepted once; the conditional update also settles two concurrent uses of one code
+const verifyTotpForUser = async (user: IUser, code: string): Promise<boolean> => {
+  const secret = user.twoFactor?.secret;
+  if (!user.twoFactor?.enabled || !secret) return false;
+
+  const lastUsedStep = user.twoFactor.lastUsedStep ?? null;
+  const step = verifyTotp(decryptSecret(secret), code, { afterStep: lastUsedStep });
+  if (step === null) return false;
+
+  const result = await User.updateOne(
+    {
+      _id: user._id,
+      $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+    },
+    { $set: { 'twoFactor.lastUsedStep': step } }
+  );
+  return result.modifiedCount === 1;
+};
+
+const consumeRecoveryCode = async (user: IUser, recoveryCode: string): Promise<boolean> => {
+  if (!user.twoFactor?.enabled) return false;
+
+  const codeHash = hashRecoveryCode(recoveryCode);
+  const result = await User.updateOne(
+    { _id: user._id, 'twoFactor.recoveryCodes': codeHash },
+    { $pull: { 'twoFactor.recoveryCodes': codeHash } }
+  );
+  return result.modifiedCount === 1;
+};
+
+export const verifySecondFactor = async (user: IUser, factor: SecondFactor): Promise<SecondFactorMethod | null> => {
+  if (factor.code && await verifyTotpForUser(user, String(factor.code))) {
+    return 'totp';
+  }
+
+  if (factor.recoveryCode && await consumeRecoveryCode(user, String(factor.recoveryCode))) {
+    return 'recovery_code';
+  }
+
+  return null;
+};
+
+export const regenerateRecoveryCodes = async (user: IUser): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) } }
+  );
+
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        'twoFactor.enabled': false,
+        'twoFactor.secret': null,
+        'twoFactor.pendingSecret': null,
+        'twoFactor.lastUsedStep': null,
+        'twoFactor.enabledAt': null,
+        'twoFactor.recoveryCodes': []
+      }
+    }
+  );
+};
\ No newline at end of file
@@ -0,0 +1,113 @@
+import bcrypt from 'bcrypt';
+import User from '../models/User';
+import Student from '../models/Student';
+import { roleExists } from './permissions';
+import { validatePassword } from './passwordPolicy';
+
+export interface NewUserInput {
+  username?: unknown;
+  password?: unknown;
+  role?: unknown;
+  studentId?: unknown;
+  email?: unknown;
+}
+
+export type NewUserResult =
+  | { ok: true; userData: Record<string, unknown> }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export type StudentBindingResult =
+  | { ok: true }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+// A student account must point at an existing Student record that no other account is bound to
+export const checkStudentBinding = async (studentId: string, exceptUserId?: string): Promise<StudentBindingResult> => {
+  const student = await Student.exists({ studentId });
+  if (!student) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Student record not found', studentId }
+    };
+  }
+
+  const linkedAccount = await User.exists({
+    studentId,
+    ...(exceptUserId && { _id: { $ne: exceptUserId } })
+  });
+  if (linkedAccount) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: 'Student record is already linked to another account', studentId }
+    };
+  }
+
+  return { ok: true };
+};
+
+// Shared by invite-based registration and admin provisioning: validates the input, checks the
+// username is free and hashes the password, leaving creation (and its error handling) to the caller
+export const prepareNewUser = async (input: NewUserInput): Promise<NewUserResult> => {
+  const { username, password, role, studentId, email } = input;
+
+  if (!username || !password || !role) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Missing required fields', required: ['username', 'password', 'role'] }
+    };
+  }
+
+  if (!(await roleExists(role))) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Invalid role. Role does not exist', role }
+    };
+  }
+
+  if (role === 'student' && !studentId) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'Student ID is required for student role' }
+    };
+  }
+
+  const normalizedUsername = String(username).toLowerCase().trim();
+
+  const passwordCheck = await validatePassword(password, {
+    username: normalizedUsername,
+    email: email ? String(email) : null
+  });
+  if (!passwordCheck.ok) return passwordCheck;
+
+  const existingUser = await User.findOne({ username: normalizedUsername });
+  if (existingUser) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: 'Username already exists' }
+    };
+  }
+
+  const userData: Record<string, unknown> = {
+    username: normalizedUsername,
+    password: await bcrypt.hash(password as string, 12),
+    role
+  };
+
+  if (role === 'student') {
+    const binding = await checkStudentBinding(String(studentId).trim());
+    if (!binding.ok) return binding;
+
+    userData.studentId = String(studentId).trim();
+  }
+
+  if (email) {
+    userData.email = String(email).toLowerCase().trim();
+  }
+
+  return { ok: true, userData };
+};
\ No newline at end of file
@@ -0,0 +1,285 @@
+import zlib from 'zlib';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { waitForDrain, writeChunk } from './streams';
+
+// A single-sheet XLSX writer that streams rows into the ZIP container as they arrive, so exports
+// never hold the whole sheet in memory. Strings are written inline (no shared string table) and
+// no styles are applied; both are optional parts of the format.
+//
+// The container is plain ZIP32 without ZIP64 extensions, so every size and offset has to fit in
+// 32 bits. A file that would go past that, or past what a worksheet can hold, is refused with an
+// error the caller can recognise with isXlsxTooLarge, instead of being written out corrupt. The
+// entry count limit (65,535) cannot be reached: there are always five entries.
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxLimits {
+  bytes: number;
+  rows: number;
+  columns: number;
+}
+
+export const XLSX_LIMITS: XlsxLimits = {
+  bytes: 0xffffffff,
+  rows: 1048576,
+  columns: 16384
+};
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  flags: number;
+}
+
+const UTF8_FLAG = 0x0800;
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+const DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_RELS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const TOO_LARGE = 'ERR_XLSX_TOO_LARGE';
+
+export const isXlsxTooLarge = (error: unknown): boolean => (error as { code?: unknown } | null)?.code === TOO_LARGE;
+
+const tooLarge = (reason: string): Error => {
+  return Object.assign(new Error(`XLSX export is too large: ${reason}; narrow the filters or export as CSV`), { code: TOO_LARGE });
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Pass the previous result to continue a checksum over data that arrives in pieces
+export const crc32 = (data: Buffer, previous: number = 0): number => {
+  let crc = ~previous;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+};
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+export const escapeXml = (value: string): string => value
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const formatCell = (value: CellValue, ref: string): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export interface XlsxWriter {
+  writeRow(values: CellValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export const createXlsxWriter = async (
+  output: Writable,
+  sheetName: string = 'Sheet1',
+  limits: XlsxLimits = XLSX_LIMITS
+): Promise<XlsxWriter> => {
+  const entries: ZipEntry[] = [];
+  const stamp = dosDateTime(new Date());
+  let offset = 0;
+  let rowNumber = 0;
+
+  // Checked against the whole file, so the central directory offset fits as well as each entry's
+  const write = async (chunk: Buffer): Promise<void> => {
+    if (offset + chunk.length > limits.bytes) {
+      throw tooLarge(`the file would pass ${limits.bytes} bytes`);
+    }
+    offset += chunk.length;
+    await writeChunk(output, chunk);
+  };
+
+  const localHeader = (name: Buffer, flags: number, crc: number, compressedSize: number, size: number): Buffer => {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(flags, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(stamp.time, 10);
+    header.writeUInt16LE(stamp.date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressedSize, 18);
+    header.writeUInt32LE(size, 22);
+    header.writeUInt16LE(name.length, 26);
+    return Buffer.concat([header, name]);
+  };
+
+  // Small fixed parts are compressed up front, so their sizes go straight into the header
+  const addFile = async (path: string, content: string): Promise<void> => {
+    const name = Buffer.from(path, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const entry: ZipEntry = {
+      name,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset,
+      flags: UTF8_FLAG
+    };
+
+    await write(localHeader(name, entry.flags, entry.crc, entry.compressedSize, entry.size));
+    await write(compressed);
+    entries.push(entry);
+  };
+
+  await addFile('[Content_Types].xml', XML_DECLARATION
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '</Types>');
+  await addFile('_rels/.rels', XML_DECLARATION
+    + `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+    + `<Relationship Id="rId1" Type="${OFFICE_RELS}/officeDocument" Target="xl/workbook.xml"/>`
+    + '</Relationships>');
+  await addFile('xl/workbook.xml', XML_DECLARATION
+    + `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_RELS}">`
+    + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>');
+  await addFile('xl/_rels/workbook.xml.rels', XML_DECLARATION
+    + `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+    + `<Relationship Id="rId1" Type="${OFFICE_RELS}/worksheet" Target="worksheets/sheet1.xml"/>`
+    + '</Relationships>');
+
+  // The sheet is deflated as it is written; its CRC and sizes follow in a data descriptor
+  const sheet: ZipEntry = {
+    name: Buffer.from('xl/worksheets/sheet1.xml', 'utf8'),
+    crc: 0,
+    compressedSize: 0,
+    size: 0,
+    offset,
+    flags: UTF8_FLAG | DATA_DESCRIPTOR_FLAG
+  };
+  await write(localHeader(sheet.name, sheet.flags, 0, 0, 0));
+
+  // When the output goes away (e.g. the client aborted) the deflate stream is torn down and the
+  // failure is raised from the next row instead of leaving writers waiting on it
+  const deflate = zlib.createDeflateRaw();
+  let failure: Error | null = null;
+  let pending: Promise<void> = Promise.resolve();
+  deflate.on('data', (chunk: Buffer) => {
+    sheet.compressedSize += chunk.length;
+    deflate.pause();
+    pending = pending.then(() => write(chunk)).then(
+      () => {
+        deflate.resume();
+      },
+      (error: Error) => {
+        failure = failure || error;
+        deflate.destroy();
+      }
+    );
+  });
+
+  const writeSheet = async (text: string): Promise<void> => {
+    if (failure) throw failure;
+
+    const data = Buffer.from(text, 'utf8');
+    if (sheet.size + data.length > limits.bytes) {
+      failure = tooLarge(`the sheet would pass ${limits.bytes} bytes`);
+      deflate.destroy();
+      throw failure;
+    }
+    sheet.crc = crc32(data, sheet.crc);
+    sheet.size += data.length;
+    if (!deflate.write(data)) {
+      await waitForDrain(deflate).catch(error => {
+        throw failure || error;
+      });
+    }
+  };
+
+  await writeSheet(`${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>`);
+
+  return {
+    async writeRow(values: CellValue[]): Promise<void> {
+      if (rowNumber >= limits.rows) throw tooLarge(`a sheet holds at most ${limits.rows} rows`);
+      if (values.length > limits.columns) throw tooLarge(`a sheet holds at most ${limits.columns} columns`);
+      rowNumber++;
+      const cells = values.map((value, index) => formatCell(value, `${columnName(index)}${rowNumber}`)).join('');
+      await writeSheet(`<row r="${rowNumber}">${cells}</row>`);
+    },
+
+    async end(): Promise<void> {
+      await writeSheet('</sheetData></worksheet>');
+      deflate.end();
+      await finished(deflate).catch(error => {
+        throw failure || error;
+      });
+      await pending;
+      if (failure) throw failure;
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(sheet.crc, 4);
+      descriptor.writeUInt32LE(sheet.compressedSize, 8);
+      descriptor.writeUInt32LE(sheet.size, 12);
+      await write(descriptor);
+      entries.push(sheet);
+
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(ZIP_VERSION, 4);
+        header.writeUInt16LE(ZIP_VERSION, 6);
+        header.writeUInt16LE(entry.flags, 8);
+        header.writeUInt16LE(DEFLATE, 10);
+        header.writeUInt16LE(stamp.time, 12);
+        header.writeUInt16LE(stamp.date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.compressedSize, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        header.writeUInt32LE(entry.offset, 42);
+        await write(Buffer.concat([header, entry.name]));
+      }
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(offset - directoryOffset, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      await write(end);
+
+      output.end();
+    }
+  };
+};
\ No newline at end of file